@@ -60,6 +60,36 @@ export default tseslint.config(
         }
     },
 
+    // ========================================================================
+    // 🧪 SIMULATION CORE: must stay side-effect free (no storage, realtime or React)
+    // ========================================================================
+    {
+        files: ['src/core/simulation/**/*.{ts,tsx}'],
+        rules: {
+            'no-restricted-imports': [
+                'error',
+                {
+                    patterns: [
+                        {
+                            group: [
+                                '@supabase/*',
+                                '@shared/services/**',
+                                '@core/sync/**',
+                                '@core/game/*',
+                                '!@core/game/ScoringEngine',
+                                '!@core/game/FinancialMetrics',
+                                '!@core/game/MultiSelectChallengeTracker',
+                                'react',
+                                'react-dom'
+                            ],
+                            message: '🚨 The simulation core must stay pure so replays match live games. Move storage access into the live processors in core/game.'
+                        }
+                    ]
+                }
+            ]
+        }
+    },
+
     // ========================================================================
     // 📊 ADDITIONAL HELPFUL RULES FOR DATABASE BEST PRACTICES
     // ========================================================================
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+// scripts/check-scoring.js
+// Replays every golden scoring fixture through the simulation core and compares each round's KPIs.
+// `npm test` checks the same fixtures against the live engines as well.
+//
+//   npm run check:scoring                  (exits 1 if any fixture's numbers changed)
+//
+// Fixtures live in scripts/scoring-fixtures/*.json, one archetypal team per file. The expected numbers are
+// written by hand and reviewed like any other change; this script never rewrites them. After an intended balance
+// change, check each number it reports against the game's rules and edit the fixture.
+import {readdir, readFile} from 'node:fs/promises';
+import path from 'node:path';
+import {fileURLToPath} from 'node:url';
+import {createServer} from 'vite';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'scoring-fixtures');
+
+const server = await createServer({
+    logLevel: 'error',
+    appType: 'custom',
+    server: {middlewareMode: true, hmr: false},
+    optimizeDeps: {noDiscovery: true, entries: []},   // no browser bundle is served, skip the dependency scan
+});
+
+let exitCode = 0;
+try {
+    const {runScoringFixture} = await server.ssrLoadModule('/src/core/simulation/ScoringFixtures.ts');
+    const files = (await readdir(fixturesDir)).filter(file => file.endsWith('.json')).sort();
+
+    for (const file of files) {
+        const filePath = path.join(fixturesDir, file);
+        const fixture = JSON.parse(await readFile(filePath, 'utf8'));
+        const result = runScoringFixture(fixture);
+        const forced = result.forcedSelections.length > 0 ? ` (forced ${result.forcedSelections.join(', ')})` : '';
+
+        if (result.mismatches.length > 0) {
+            exitCode = 1;
+            console.error(`FAIL    ${fixture.name}${forced}`);
+            result.mismatches.forEach(mismatch => console.error(`          ${mismatch}`));
+        } else {
+            console.error(`ok      ${fixture.name}: net income ${result.actual.total_net_income}${forced}`);
+        }
+    }
+    console.error(`${files.length} fixture(s) ${exitCode === 0 ? 'match' : 'checked, some changed'}`);
+} catch (error) {
+    console.error(error instanceof Error ? error.stack : error);
+    exitCode = 2;
+} finally {
+    await server.close();
+}
+
+process.exit(exitCode);
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+// scripts/validate-content-pack.js
+// Validates a content pack JSON file and reports every broken reference.
+//
+//   npm run validate:content -- path/to/pack.json
+//   npm run validate:content -- --export 2.0_dd > pack.json   (write a built-in variant as a pack file)
+//
+// The loader is TypeScript behind the Vite path aliases, so it is loaded through Vite's SSR module loader.
+import {readFile} from 'node:fs/promises';
+import {createServer} from 'vite';
+
+const usage = () => {
+    console.error('Usage: validate-content-pack <pack.json> | --export <game-version>');
+    process.exit(2);
+};
+
+const args = process.argv.slice(2);
+if (args.length === 0) usage();
+
+const server = await createServer({
+    logLevel: 'error',
+    appType: 'custom',
+    server: {middlewareMode: true, hmr: false},
+    optimizeDeps: {noDiscovery: true, entries: []},   // no browser bundle is served, skip the dependency scan
+});
+
+let exitCode = 0;
+try {
+    const format = await server.ssrLoadModule('/src/core/content/ContentPackFormat.ts');
+
+    if (args[0] === '--export') {
+        if (!args[1]) usage();
+        const {GAME_VARIANTS, getGameStructure} = await server.ssrLoadModule('/src/core/content/GameVariants.ts');
+        if (!GAME_VARIANTS[args[1]]) {
+            console.error(`Unknown game version "${args[1]}". Known versions: ${Object.keys(GAME_VARIANTS).join(', ')}`);
+            exitCode = 2;
+        } else {
+            const file = format.createContentPackFile(getGameStructure(args[1]), GAME_VARIANTS[args[1]].label, args[1]);
+            process.stdout.write(`${JSON.stringify(file, null, 2)}\n`);
+        }
+    } else {
+        const filePath = args[0];
+        const result = format.parseContentPackJson(await readFile(filePath, 'utf8'));
+        const errors = result.issues.filter(issue => issue.severity === 'error');
+        const warnings = result.issues.filter(issue => issue.severity === 'warning');
+
+        result.issues.forEach(issue => {
+            const label = issue.severity === 'error' ? 'ERROR  ' : 'WARNING';
+            console.error(`${label} ${issue.path}: ${issue.message}`);
+        });
+        console.error(`${filePath}: ${errors.length} error(s), ${warnings.length} warning(s)`);
+        exitCode = result.isValid ? 0 : 1;
+    }
+} catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    exitCode = 2;
+} finally {
+    await server.close();
+}
+
+process.exit(exitCode);
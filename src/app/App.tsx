@@ -18,6 +18,9 @@ const HostApp = lazy(() => import('@views/host/HostApp'));
 const DashboardPage = lazy(() => import('@views/host/pages/DashboardPage'));
 const CreateGamePage = lazy(() => import('@views/host/pages/CreateGamePage'));
 const GameResultsPage = lazy(() => import('@views/host/pages/GameResultsPage'));
+const ContentPacksPage = lazy(() => import('@views/host/pages/ContentPacksPage'));
+const ContentEditorPage = lazy(() => import('@views/host/pages/ContentEditorPage'));
+const AnalyticsPage = lazy(() => import('@views/host/pages/AnalyticsPage'));
 
 // Team components (second largest)
 const TeamApp = lazy(() => import('@views/team/TeamApp'));
@@ -185,6 +188,32 @@ function App() {
                                         </AuthenticatedPage>
                                     }/>
 
+                                    {/* Content Authoring - Custom content packs */}
+                                    <Route path="/content" element={
+                                        <AuthenticatedPage>
+                                            <Suspense fallback={<RouteLoadingFallback message="Loading content packs..."/>}>
+                                                <ContentPacksPage/>
+                                            </Suspense>
+                                        </AuthenticatedPage>
+                                    }/>
+
+                                    <Route path="/content/:packId" element={
+                                        <AuthenticatedPage>
+                                            <Suspense fallback={<RouteLoadingFallback message="Loading content editor..."/>}>
+                                                <ContentEditorPage/>
+                                            </Suspense>
+                                        </AuthenticatedPage>
+                                    }/>
+
+                                    {/* Cross-session analytics over completed games */}
+                                    <Route path="/analytics" element={
+                                        <AuthenticatedPage>
+                                            <Suspense fallback={<RouteLoadingFallback message="Loading analytics..."/>}>
+                                                <AnalyticsPage/>
+                                            </Suspense>
+                                        </AuthenticatedPage>
+                                    }/>
+
                                     {/* New Game Route (creates draft session) */}
                                     <Route path="/game" element={
                                         <AuthenticatedPage>
@@ -3,19 +3,26 @@
 
 import React, {createContext, useContext, useCallback} from 'react';
 import {useParams} from 'react-router-dom';
-import {readyOrNotGame_2_0_DD} from '@core/content/GameStructure';
+import {DEFAULT_GAME_VERSION, getGameStructure} from '@core/content/GameVariants';
 import {useGameController} from '@core/game/useGameController';
 import {useGameProcessing} from '@core/game/useGameProcessing';
 import {useTeamDataManager} from '@shared/hooks/useTeamDataManager';
 import {useSessionManager} from '@shared/hooks/useSessionManager';
+import {useSessionGameStructure} from '@shared/hooks/useSessionGameStructure';
+import {useTeamMessaging, UseTeamMessagingReturn} from '@shared/hooks/useTeamMessaging';
+import {useHelpRequests, UseHelpRequestsReturn} from '@shared/hooks/useHelpRequests';
+import {useDebriefMode, UseDebriefModeReturn} from '@shared/hooks/useDebriefMode';
 import {useAuth} from './AuthProvider';
 import {
     AppState,
     GameStructure,
     Slide,
-    PermanentKpiAdjustment // ADDED: For centralized adjustments
+    PermanentKpiAdjustment, // ADDED: For centralized adjustments
+    KpiOverride
 } from '@shared/types';
 import {SimpleRealtimeManager} from "@core/sync";
+import {db} from '@shared/services/supabase';
+import {KpiOverrideEngine, KpiOverrideRequest, KpiOverrideResult} from '@core/game/KpiOverrideEngine';
 
 /**
  * GameContextType Interface
@@ -37,15 +44,21 @@ interface GameContextType {
     selectSlideByIndex: (index: number) => Promise<void>;
     processPayoffSlide: (payoffSlide: Slide) => Promise<void>;
     processConsequenceSlide: (consequenceSlide: Slide) => Promise<void>;
+    submitDefaultDecisions: (slide: Slide) => Promise<void>;
     calculateAndFinalizeRoundKPIs: (roundNumber: 1 | 2 | 3) => void;
     resetGameProgress: () => void;
     resetTeamDecision: (teamId: string, interactiveDataKey: string) => Promise<void>;
+    applyKpiOverride: (request: Omit<KpiOverrideRequest, 'sessionId'>) => Promise<void>;
+    undoKpiOverride: (override: KpiOverride) => Promise<void>;
     updateHostNotesForCurrentSlide: (notes: string) => void;
     setAllTeamsSubmittedCurrentInteractivePhase: (submitted: boolean) => void;
     setCurrentHostAlertState: (alert: { title: string; message: string } | null) => void;
     clearHostAlert: () => Promise<void>; // ADDED: Missing method from interface
     permanentAdjustments: PermanentKpiAdjustment[]; // Now available globally
     isLoadingAdjustments: boolean; // Loading state for adjustments
+    teamMessaging: UseTeamMessagingReturn; // Host messages to teams and their read receipts
+    helpRequests: UseHelpRequestsReturn; // Team help requests queue
+    debrief: UseDebriefModeReturn; // Post-game debrief slides shown in place of the game slide
 }
 
 const GameContext = createContext<GameContextType | null>(null);
@@ -62,9 +75,9 @@ export const useGameContext = (): GameContextType => {
 export const GameProvider: React.FC<{ children: React.ReactNode }> = ({children}) => {
     const {sessionId} = useParams<{ sessionId: string }>();
     const {user, loading: authLoading} = useAuth();
-    const gameStructure: GameStructure = readyOrNotGame_2_0_DD;
-
-    const {session, updateSessionInDb} = useSessionManager(sessionId, user, authLoading, gameStructure);
+    // New sessions start on the default variant; loaded sessions play the version they were created with
+    const {session, updateSessionInDb} = useSessionManager(sessionId, user, authLoading, getGameStructure(DEFAULT_GAME_VERSION));
+    const gameStructure: GameStructure = useSessionGameStructure(session);
 
     // Initialize team data management - NOW INCLUDES PERMANENT ADJUSTMENTS
     const teamDataManager = useTeamDataManager(session?.id || null);
@@ -88,6 +101,10 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({children}
         setTeamRoundDataDirectly: teamDataManager.setTeamRoundDataDirectly,
     });
 
+    const teamMessaging = useTeamMessaging(session?.id || null);
+    const helpRequests = useHelpRequests(session?.id || null);
+    const debrief = useDebriefMode(gameStructure);
+
     // Initialize game controller with both processing functions
     const gameController = useGameController(
         session,
@@ -123,6 +140,39 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({children}
         }
     }, [session?.id, teamDataManager]);
 
+    // Host KPI corrections: refresh host data, then push the new numbers to the team like any effect slide
+    const publishKpiOverride = useCallback(async (result: KpiOverrideResult) => {
+        if (!session?.id) return;
+        await teamDataManager.fetchTeamRoundDataForSession(session.id);
+
+        const currentSlide = gameController.currentSlideData;
+        if (!currentSlide) {
+            console.warn('[GameProvider] No current slide, KPI correction not broadcast to teams');
+            return;
+        }
+
+        // Only hand the team its numbers directly when it is looking at that round; otherwise it refetches
+        const {updatedKpis} = result;
+        const isCurrentRound = updatedKpis && updatedKpis.round_number === currentSlide.round_number;
+        SimpleRealtimeManager.getInstance(session.id, 'host').sendKpiUpdated(currentSlide, {
+            updatedKpis: isCurrentRound ? {[updatedKpis.team_id]: updatedKpis} : {},
+            permanentAdjustments: await db.adjustments.getBySession(session.id)
+        });
+    }, [session?.id, teamDataManager, gameController.currentSlideData]);
+
+    const applyKpiOverride = useCallback(async (request: Omit<KpiOverrideRequest, 'sessionId'>) => {
+        if (!session?.id) {
+            throw new Error('No session to correct KPIs for');
+        }
+        const result = await KpiOverrideEngine.applyOverride({...request, sessionId: session.id});
+        await publishKpiOverride(result);
+    }, [session?.id, publishKpiOverride]);
+
+    const undoKpiOverride = useCallback(async (override: KpiOverride) => {
+        const result = await KpiOverrideEngine.undoOverride(override);
+        await publishKpiOverride(result);
+    }, [publishKpiOverride]);
+
     // Construct the app state - FIXED: gameController returns individual properties, not a state object
     const appState: AppState = {
         currentSessionId: session?.id || null,
@@ -151,15 +201,21 @@ export const GameProvider: React.FC<{ children: React.ReactNode }> = ({children}
         selectSlideByIndex: gameController.selectSlideByIndex,
         processPayoffSlide: gameProcessing.processPayoffSlide,
         processConsequenceSlide: gameProcessing.processConsequenceSlide,
+        submitDefaultDecisions: gameProcessing.submitDefaultDecisions,
         calculateAndFinalizeRoundKPIs: gameProcessing.calculateAndFinalizeRoundKPIs,
         resetGameProgress: gameProcessing.resetGameProgress,
         resetTeamDecision,
+        applyKpiOverride,
+        undoKpiOverride,
         updateHostNotesForCurrentSlide: gameController.updateHostNotesForCurrentSlide,
         setAllTeamsSubmittedCurrentInteractivePhase: gameController.setAllTeamsSubmittedCurrentInteractivePhase,
         setCurrentHostAlertState: gameController.setCurrentHostAlertState,
         clearHostAlert: gameController.clearHostAlert, // ADDED: Missing method
         permanentAdjustments, // Now available globally
-        isLoadingAdjustments   // Loading state for adjustments
+        isLoadingAdjustments,  // Loading state for adjustments
+        teamMessaging,
+        helpRequests,
+        debrief
     };
 
     return (
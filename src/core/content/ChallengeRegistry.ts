@@ -104,3 +104,11 @@ export const getChallengeBySlideId = (slideId: number): ChallengeMetadata | null
 export const getChallengeById = (challengeId: string): ChallengeMetadata | null => {
     return CHALLENGE_REGISTRY[challengeId] || null;
 };
+
+// Variant-aware lookup: resolve a consequence slide against a specific game's registry
+export const findChallengeIdForSlide = (
+    registry: Record<string, ChallengeMetadata>,
+    slideId: number
+): string | undefined => {
+    return Object.values(registry).find(challenge => challenge.consequence_slides.includes(slideId))?.id;
+};
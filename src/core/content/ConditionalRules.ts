@@ -0,0 +1,142 @@
+// src/core/content/ConditionalRules.ts
+// Investment/decision-driven rules (immunities, forced selections, effect overrides and synergy bonuses),
+// referenced by each game variant. Evaluated by ConditionalRulesEngine against a session's decisions.
+
+import {ConditionalRule, RuleCondition} from '@shared/types/game';
+
+const invested = (phase: string, option: string): RuleCondition => ({type: 'investment', phase, option});
+const chose = (phase: string, option: string): RuleCondition => ({type: 'challenge', phase, option});
+const all = (...conditions: RuleCondition[]): RuleCondition => ({type: 'all', conditions});
+const any = (...conditions: RuleCondition[]): RuleCondition => ({type: 'any', conditions});
+
+export const conditionalRules_2_0_DD: ConditionalRule[] = [
+    // ========================================================================
+    // IMMUNITIES
+    // ========================================================================
+    {
+        kind: 'immunity',
+        id: 'ch4-supply-chain-immunity',
+        challengeId: 'ch4',
+        when: invested('rd2-invest', 'D'), // Supply Chain Optimization
+        message: "If you've invested in Supply Chain Optimization in RD-2, you have already developed better relationships and terms with suppliers and voided this crisis. NO IMPACTS FROM THIS CHALLENGE"
+    },
+    {
+        kind: 'immunity',
+        id: 'ch6-production-efficiency-immunity',
+        challengeId: 'ch6',
+        when: invested('rd2-invest', 'B'), // Production Efficiency
+        message: "If you've invested in Production Efficiency in RD-2, you have excellent quality control & avoided this crisis. SUBTRACT -$75K COSTS, ADD +$10 ASP and +250 ORDERS. YOU FACE NO ADDITIONAL CONSEQUENCES OR KPI IMPACTS FROM THIS CHALLENGE"
+    },
+    {
+        kind: 'immunity',
+        id: 'ch8-cybersecurity-immunity',
+        challengeId: 'ch8',
+        when: invested('rd3-invest', 'I'), // IT & Cybersecurity
+        message: "If you invested in Cyber Security in RD-3, you have avoided this crisis. NO IMPACTS FROM THIS CHALLENGE"
+    },
+
+    // ========================================================================
+    // FORCED SELECTIONS
+    // ========================================================================
+    {
+        kind: 'forced_selection',
+        id: 'ch9-erp-forced-c',
+        challengeId: 'ch9',
+        when: invested('rd3-invest', 'H'), // Enterprise Resource Planning
+        forcedOption: 'C',
+        reason: "If you invested in Enterprise Resource Planning in RD-3, select this option"
+    },
+
+    // ========================================================================
+    // EFFECT OVERRIDES
+    // ========================================================================
+    {
+        // CH7 customization: no capacity penalty with a CNC machine (CH1 A) or Automation (RD-2 K)
+        kind: 'effect_override',
+        id: 'ch7-customization-automation',
+        challengeId: 'ch7',
+        options: ['C'],
+        timing: 'immediate',
+        kpi: 'capacity',
+        when: any(chose('ch1', 'A'), invested('rd2-invest', 'K')),
+        then: {change_value: 0, description: 'Customization Capacity Impact (Automated - No Penalty)'},
+        otherwise: {change_value: -500, description: 'Customization Capacity Impact (Manual Production)'}
+    },
+    {
+        // CH5 hiring: 1000 base capacity, +500 with Employee Development in RD-1 or RD-2
+        kind: 'effect_override',
+        id: 'ch5-hiring-employee-development',
+        challengeId: 'ch5',
+        options: ['A', 'A,C'],
+        timing: 'permanent_next_round_start',
+        kpi: 'capacity',
+        descriptionMatch: 'Permanent Hiring Capacity Impact',
+        when: any(invested('rd1-invest', 'E'), invested('rd2-invest', 'E')),
+        then: {change_value: 1500, description: 'Permanent Hiring Capacity Impact (+500 bonus from Employee Development)'},
+        otherwise: {change_value: 1000, description: 'Permanent Hiring Capacity Impact'}
+    },
+
+    // ========================================================================
+    // SYNERGY BONUSES
+    // ========================================================================
+    {
+        kind: 'bonus',
+        id: 'rd2-production-efficiency-2nd-shift',
+        slideId: 137,
+        when: all(invested('rd2-invest', 'B'), invested('rd2-invest', 'C')),
+        effects: [
+            {kpi: 'capacity', change_value: 500, timing: 'immediate', description: 'Production Efficiency + Expanded 2nd Shift Bonus'},
+            {kpi: 'cost', change_value: -150000, timing: 'immediate', description: 'Production Efficiency + Expanded 2nd Shift Bonus'}
+        ]
+    },
+    {
+        kind: 'bonus',
+        id: 'rd2-production-efficiency-automation',
+        slideId: 137,
+        when: all(invested('rd2-invest', 'B'), invested('rd2-invest', 'K')),
+        effects: [
+            {kpi: 'capacity', change_value: 500, timing: 'immediate', description: 'Production Efficiency + Automation Bonus'},
+            {kpi: 'cost', change_value: -75000, timing: 'immediate', description: 'Production Efficiency + Automation Bonus'}
+        ]
+    },
+    {
+        kind: 'bonus',
+        id: 'rd2-supply-chain-distribution',
+        slideId: 138,
+        when: all(invested('rd2-invest', 'D'), invested('rd2-invest', 'G')),
+        effects: [
+            {kpi: 'orders', change_value: 1000, timing: 'immediate', description: 'Supply Chain + Distribution Channels Bonus'},
+            {kpi: 'cost', change_value: -50000, timing: 'immediate', description: 'Supply Chain + Distribution Channels Bonus'}
+        ]
+    },
+    {
+        kind: 'bonus',
+        id: 'rd3-production-efficiency-2nd-shift',
+        slideId: 182,
+        when: all(invested('rd3-invest', 'B'), invested('rd3-invest', 'C')),
+        effects: [
+            {kpi: 'capacity', change_value: 1000, timing: 'immediate', description: 'RD-3 Production Efficiency + 2nd Shift Bonus'},
+            {kpi: 'cost', change_value: -300000, timing: 'immediate', description: 'RD-3 Production Efficiency + 2nd Shift Bonus'}
+        ]
+    },
+    {
+        kind: 'bonus',
+        id: 'rd3-production-efficiency-automation',
+        slideId: 182,
+        when: all(invested('rd3-invest', 'B'), invested('rd3-invest', 'K')),
+        effects: [
+            {kpi: 'capacity', change_value: 1000, timing: 'immediate', description: 'RD-3 Production Efficiency + Automation Bonus'},
+            {kpi: 'cost', change_value: -150000, timing: 'immediate', description: 'RD-3 Production Efficiency + Automation Bonus'}
+        ]
+    },
+    {
+        kind: 'bonus',
+        id: 'rd3-supply-chain-distribution',
+        slideId: 183,
+        when: all(invested('rd3-invest', 'D'), invested('rd3-invest', 'G')),
+        effects: [
+            {kpi: 'orders', change_value: 2000, timing: 'immediate', description: 'RD-3 Supply Chain + Distribution Channels Bonus'},
+            {kpi: 'cost', change_value: -100000, timing: 'immediate', description: 'RD-3 Supply Chain + Distribution Channels Bonus'}
+        ]
+    }
+];
@@ -0,0 +1,201 @@
+// src/core/content/ContentPackFormat.ts
+// Versioned JSON file format for sharing a complete game scenario between facilitators.
+// A file carries the full GameStructure plus the slide mappings that live outside it
+// (payoff slides → investment phases, double down dice roll slides).
+
+import {GameStructure, GameVersion, SlideType} from '@shared/types/game';
+import {GAME_VARIANTS} from './GameVariants';
+import {getInteractiveSlides} from './ContentPacks';
+import {withLeaderboardSpecs} from './LeaderboardSpecs';
+import {DoubleDownInvestment} from './DoubleDownMapping';
+import {ContentIssue, DEFAULT_CONTENT_REFERENCES, validateGameContent} from './ContentValidation';
+
+export const CONTENT_PACK_FORMAT = 'ready-or-not-content-pack';
+export const CONTENT_PACK_SCHEMA_VERSION = 1;
+
+export interface ContentPackFile {
+    format: typeof CONTENT_PACK_FORMAT;
+    schema_version: number;
+    name: string;
+    base_version: GameVersion;
+    exported_at: string;
+    game: Omit<GameStructure, 'interactive_slides'>;      // derived from slides on load
+    investment_phase_slides: Record<string, string>;      // payoff slide id → 'rdN-invest'
+    double_down_investments: DoubleDownInvestment[];
+}
+
+export interface ContentPackLoadResult {
+    file: ContentPackFile | null;    // null when the file is not structurally a content pack
+    structure: GameStructure | null;
+    issues: ContentIssue[];
+    isValid: boolean;                // loaded with no errors (warnings allowed)
+}
+
+const SLIDE_TYPES: SlideType[] = [
+    'image', 'video', 'interactive_invest', 'payoff_reveal', 'interactive_choice', 'consequence_reveal',
+    'interactive_double_down_select', 'double_down_dice_roll', 'kpi_reset', 'leaderboard_chart',
+];
+
+const RECORD_FIELDS = [
+    'all_investment_options',
+    'all_challenge_options',
+    'investment_phase_budgets',
+    'all_consequences',
+    'all_investment_payoffs',
+    'challenge_registry',
+    'continuation_pricing',
+    'round_budgets',
+] as const;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Serialize a structure as a content pack file
+ */
+export const createContentPackFile = (
+    structure: GameStructure,
+    name: string,
+    baseVersion: GameVersion,
+    investmentPhaseSlides: Map<number, string> = DEFAULT_CONTENT_REFERENCES.investmentPhaseSlides,
+    doubleDownInvestments: DoubleDownInvestment[] = DEFAULT_CONTENT_REFERENCES.doubleDownInvestments
+): ContentPackFile => {
+    const {interactive_slides: _interactiveSlides, ...game} = structure;
+    return {
+        format: CONTENT_PACK_FORMAT,
+        schema_version: CONTENT_PACK_SCHEMA_VERSION,
+        name,
+        base_version: baseVersion,
+        exported_at: new Date().toISOString(),
+        game,
+        investment_phase_slides: Object.fromEntries(
+            Array.from(investmentPhaseSlides.entries()).map(([slideId, phaseId]) => [String(slideId), phaseId])
+        ),
+        double_down_investments: doubleDownInvestments,
+    };
+};
+
+/**
+ * Structural checks: the JSON has the shape of this schema version. Cross-references are checked afterwards.
+ */
+const validateFileShape = (input: unknown): ContentIssue[] => {
+    const issues: ContentIssue[] = [];
+    const error = (path: string, message: string) => issues.push({severity: 'error', path, message});
+
+    if (!isRecord(input)) {
+        error('$', 'Content pack must be a JSON object');
+        return issues;
+    }
+    if (input.format !== CONTENT_PACK_FORMAT) {
+        error('format', `Expected format "${CONTENT_PACK_FORMAT}", got ${JSON.stringify(input.format)}`);
+    }
+    if (typeof input.schema_version !== 'number' || !Number.isInteger(input.schema_version) || input.schema_version < 1) {
+        error('schema_version', 'schema_version must be a positive integer');
+    } else if (input.schema_version > CONTENT_PACK_SCHEMA_VERSION) {
+        error('schema_version', `Schema version ${input.schema_version} is newer than supported version ${CONTENT_PACK_SCHEMA_VERSION}`);
+    }
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+        error('name', 'name is required');
+    }
+    if (!(input.base_version in GAME_VARIANTS)) {
+        error('base_version', `Unknown base_version ${JSON.stringify(input.base_version)} (expected one of ${Object.keys(GAME_VARIANTS).join(', ')})`);
+    }
+
+    if (!isRecord(input.investment_phase_slides)) {
+        error('investment_phase_slides', 'investment_phase_slides must be an object of slide id → investment phase');
+    } else {
+        Object.entries(input.investment_phase_slides).forEach(([slideId, phaseId]) => {
+            if (!Number.isInteger(Number(slideId)) || typeof phaseId !== 'string') {
+                error(`investment_phase_slides.${slideId}`, 'Expected a numeric slide id mapped to a phase id');
+            }
+        });
+    }
+
+    if (!Array.isArray(input.double_down_investments)) {
+        error('double_down_investments', 'double_down_investments must be an array');
+    } else {
+        input.double_down_investments.forEach((investment: unknown, index: number) => {
+            if (!isRecord(investment) || typeof investment.id !== 'string' || typeof investment.name !== 'string' || typeof investment.slideId !== 'number') {
+                error(`double_down_investments[${index}]`, 'Expected { id, name, slideId }');
+            }
+        });
+    }
+
+    const game = input.game;
+    if (!isRecord(game)) {
+        error('game', 'game must be an object');
+        return issues;
+    }
+    if (typeof game.id !== 'string') error('game.id', 'game.id is required');
+    if (typeof game.name !== 'string') error('game.name', 'game.name is required');
+    RECORD_FIELDS.forEach(field => {
+        if (!isRecord(game[field])) error(`game.${field}`, `game.${field} must be an object`);
+    });
+    if (!Array.isArray(game.conditional_rules)) {
+        error('game.conditional_rules', 'game.conditional_rules must be an array');
+    }
+    if (!Array.isArray(game.slides)) {
+        error('game.slides', 'game.slides must be an array');
+    } else {
+        game.slides.forEach((slide: unknown, index: number) => {
+            const path = `game.slides[${index}]`;
+            if (!isRecord(slide)) {
+                error(path, 'Slide must be an object');
+                return;
+            }
+            if (typeof slide.id !== 'number') error(`${path}.id`, 'Slide id must be a number');
+            if (!SLIDE_TYPES.includes(slide.type)) error(`${path}.type`, `Unknown slide type ${JSON.stringify(slide.type)}`);
+            if (![0, 1, 2, 3].includes(slide.round_number)) error(`${path}.round_number`, 'round_number must be 0-3');
+        });
+    }
+
+    return issues;
+};
+
+export const contentPackFileToStructure = (file: ContentPackFile): GameStructure => {
+    const slides = withLeaderboardSpecs(file.game.slides, GAME_VARIANTS[file.base_version]?.structure.slides ?? []);
+    return {
+        ...file.game,
+        slides,
+        interactive_slides: getInteractiveSlides(slides),
+    };
+};
+
+/**
+ * Parse and fully validate a content pack. Every broken reference is reported, not just the first.
+ */
+export const loadContentPackFile = (input: unknown): ContentPackLoadResult => {
+    const shapeIssues = validateFileShape(input);
+    if (shapeIssues.length > 0) {
+        return {file: null, structure: null, issues: shapeIssues, isValid: false};
+    }
+
+    const file = input as ContentPackFile;
+    const structure = contentPackFileToStructure(file);
+    const issues = validateGameContent(structure, {
+        investmentPhaseSlides: new Map(
+            Object.entries(file.investment_phase_slides).map(([slideId, phaseId]) => [Number(slideId), phaseId])
+        ),
+        doubleDownInvestments: file.double_down_investments,
+    });
+
+    return {
+        file,
+        structure,
+        issues,
+        isValid: !issues.some(issue => issue.severity === 'error'),
+    };
+};
+
+export const parseContentPackJson = (json: string): ContentPackLoadResult => {
+    try {
+        return loadContentPackFile(JSON.parse(json));
+    } catch (error) {
+        return {
+            file: null,
+            structure: null,
+            issues: [{severity: 'error', path: '$', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`}],
+            isValid: false,
+        };
+    }
+};
@@ -0,0 +1,38 @@
+// src/core/content/ContentPacks.ts
+// Host-authored content packs: an editable copy of a variant's slides, challenge options, consequences
+// and payoffs, layered back over that variant when a session is played with the pack.
+
+import {ContentPackContent, GameStructure, Slide} from '@shared/types';
+import {withLeaderboardSpecs} from './LeaderboardSpecs';
+
+export const getInteractiveSlides = (slides: Slide[]): Slide[] =>
+    slides.filter(slide => !!slide.interactive_data_key && slide.type.startsWith('interactive_'));
+
+/**
+ * Deep copy of the editable content of a structure, used as the starting point of a new pack
+ */
+export const extractContentPackContent = (structure: GameStructure): ContentPackContent => {
+    return JSON.parse(JSON.stringify({
+        slides: structure.slides,
+        all_challenge_options: structure.all_challenge_options,
+        all_consequences: structure.all_consequences,
+        all_investment_payoffs: structure.all_investment_payoffs,
+    }));
+};
+
+/**
+ * Structure a session is played with when it uses a content pack. Registries, investment options,
+ * budgets, pricing and rules stay those of the base variant.
+ */
+export const applyContentPack = (base: GameStructure, content: ContentPackContent, name?: string): GameStructure => {
+    const slides = withLeaderboardSpecs(content.slides, base.slides);
+    return {
+        ...base,
+        name: name ?? base.name,
+        slides,
+        interactive_slides: getInteractiveSlides(slides),
+        all_challenge_options: content.all_challenge_options,
+        all_consequences: content.all_consequences,
+        all_investment_payoffs: content.all_investment_payoffs,
+    };
+};
@@ -0,0 +1,301 @@
+// src/core/content/ContentValidation.ts
+// Cross-reference checks for game content. Used by the content editor before a pack is saved and by the
+// content pack loader, so a broken slide key or consequence option is caught before a session is played with it.
+
+import {GameStructure, KpiEffect, KpiKey, LeaderboardSpec} from '@shared/types/game';
+import {SLIDE_TO_INVESTMENT_PHASE_MAP} from './InvestmentRegistry';
+import {DOUBLE_DOWN_INVESTMENTS, DoubleDownInvestment} from './DoubleDownMapping';
+import {LEADERBOARD_METRICS} from './LeaderboardSpecs';
+
+export type ContentIssueSeverity = 'error' | 'warning';
+
+export interface ContentIssue {
+    severity: ContentIssueSeverity;
+    path: string;      // e.g. "slides[17].interactive_data_key", "ch5-conseq[2].effects[0]"
+    message: string;
+    slideId?: number;  // lets the editor jump to the offending slide
+}
+
+const KPI_KEYS: KpiKey[] = ['capacity', 'orders', 'cost', 'asp', 'revenue', 'net_margin', 'net_income'];
+const EFFECT_TIMINGS: KpiEffect['timing'][] = ['immediate', 'permanent_next_round_start', 'end_of_round_adjustment'];
+
+// Consequence entries that are not tied to a team's selection
+const NON_OPTION_CONSEQUENCES = ['setup'];
+
+// Slide mappings that live outside GameStructure; content pack files carry their own copies
+export interface ContentReferences {
+    investmentPhaseSlides: Map<number, string>;
+    doubleDownInvestments: DoubleDownInvestment[];
+}
+
+export const DEFAULT_CONTENT_REFERENCES: ContentReferences = {
+    investmentPhaseSlides: SLIDE_TO_INVESTMENT_PHASE_MAP,
+    doubleDownInvestments: DOUBLE_DOWN_INVESTMENTS,
+};
+
+export const validateKpiEffects = (effects: KpiEffect[], path: string): ContentIssue[] => {
+    const issues: ContentIssue[] = [];
+    effects.forEach((effect, index) => {
+        const effectPath = `${path}.effects[${index}]`;
+        if (!KPI_KEYS.includes(effect.kpi)) {
+            issues.push({severity: 'error', path: effectPath, message: `Unknown KPI "${effect.kpi}"`});
+        }
+        if (typeof effect.change_value !== 'number' || !Number.isFinite(effect.change_value)) {
+            issues.push({severity: 'error', path: effectPath, message: 'Change value must be a number'});
+        }
+        if (!EFFECT_TIMINGS.includes(effect.timing)) {
+            issues.push({severity: 'error', path: effectPath, message: `Unknown timing "${effect.timing}"`});
+        }
+    });
+    return issues;
+};
+
+export const validateLeaderboardSpec = (spec: LeaderboardSpec | undefined, path: string, slideId: number): ContentIssue[] => {
+    if (!spec) {
+        return [{severity: 'error', path, message: `Leaderboard slide ${slideId} has no leaderboard spec`, slideId}];
+    }
+    const issues: ContentIssue[] = [];
+    const error = (field: string, message: string) =>
+        issues.push({severity: 'error', path: `${path}.${field}`, message, slideId});
+
+    if (![1, 2, 3].includes(spec.round)) error('round', 'Leaderboard round must be 1-3');
+    if (!LEADERBOARD_METRICS[spec.metric]) error('metric', `Unknown leaderboard metric "${spec.metric}"`);
+    if (!spec.label?.trim()) error('label', 'Leaderboard label is required');
+    if (spec.sort !== 'asc' && spec.sort !== 'desc') error('sort', 'Sort must be "asc" or "desc"');
+    if (spec.layout !== 'single_bar' && spec.layout !== 'dual_bar') error('layout', 'Layout must be "single_bar" or "dual_bar"');
+    if (spec.reveal !== 'cascade' && spec.reveal !== 'countdown') error('reveal', 'Reveal must be "cascade" or "countdown"');
+    if (spec.layout === 'dual_bar' && (!spec.secondary_metric || !LEADERBOARD_METRICS[spec.secondary_metric])) {
+        error('secondary_metric', 'A dual bar leaderboard needs a second metric');
+    }
+    return issues;
+};
+
+/**
+ * Check every cross-reference between slides, challenge options, consequences, payoffs, budgets, pricing,
+ * rules and the slide registries (challenge_registry consequence slides, payoff and double down slides).
+ */
+export const validateGameContent = (
+    structure: GameStructure,
+    references: ContentReferences = DEFAULT_CONTENT_REFERENCES
+): ContentIssue[] => {
+    const issues: ContentIssue[] = [];
+    const slidesById = new Map<number, GameStructure['slides'][number]>();
+
+    // ===== Slides =====
+    structure.slides.forEach((slide, index) => {
+        const path = `slides[${index}]`;
+        if (slidesById.has(slide.id)) {
+            issues.push({severity: 'error', path, message: `Duplicate slide id ${slide.id}`, slideId: slide.id});
+        }
+        slidesById.set(slide.id, slide);
+
+        if (slide.type.startsWith('interactive_') && !slide.interactive_data_key) {
+            issues.push({
+                severity: 'error',
+                path: `${path}.interactive_data_key`,
+                message: `Interactive slide ${slide.id} has no interactive_data_key`,
+                slideId: slide.id
+            });
+            return;
+        }
+
+        const key = slide.interactive_data_key;
+        if (!key) return;
+
+        const isChoice = slide.type === 'interactive_choice' || slide.type === 'interactive_double_down_select';
+        if (isChoice && !structure.all_challenge_options[key]?.length) {
+            issues.push({
+                severity: 'error',
+                path: `${path}.interactive_data_key`,
+                message: `Slide ${slide.id} references challenge "${key}" which has no options`,
+                slideId: slide.id
+            });
+        }
+        if (slide.type === 'interactive_invest') {
+            if (!structure.all_investment_options[key]?.length) {
+                issues.push({
+                    severity: 'error',
+                    path: `${path}.interactive_data_key`,
+                    message: `Slide ${slide.id} references investment phase "${key}" which has no options`,
+                    slideId: slide.id
+                });
+            }
+            const budget = structure.investment_phase_budgets[key];
+            if (typeof budget !== 'number' || budget <= 0) {
+                issues.push({
+                    severity: 'error',
+                    path: `investment_phase_budgets.${key}`,
+                    message: `Investment phase "${key}" (slide ${slide.id}) has no budget`,
+                    slideId: slide.id
+                });
+            }
+        }
+        if (slide.type === 'leaderboard_chart') {
+            issues.push(...validateLeaderboardSpec(slide.leaderboard, `${path}.leaderboard`, slide.id));
+            if (slide.leaderboard && slide.round_number > 0 && slide.leaderboard.round > slide.round_number) {
+                issues.push({
+                    severity: 'warning',
+                    path: `${path}.leaderboard.round`,
+                    message: `Leaderboard slide ${slide.id} ranks round ${slide.leaderboard.round} before it is played`,
+                    slideId: slide.id
+                });
+            }
+        }
+        if (slide.type === 'double_down_dice_roll') {
+            const isInvestment = Object.values(structure.all_investment_options)
+                .some(options => options.some(option => option.id === key));
+            if (!isInvestment) {
+                issues.push({
+                    severity: 'error',
+                    path: `${path}.interactive_data_key`,
+                    message: `Dice roll slide ${slide.id} references unknown investment "${key}"`,
+                    slideId: slide.id
+                });
+            }
+        }
+    });
+
+    // ===== Challenge registry → consequence slides =====
+    Object.values(structure.challenge_registry).forEach(challenge => {
+        challenge.consequence_slides.forEach(slideId => {
+            const slide = slidesById.get(slideId);
+            const path = `challenge_registry.${challenge.id}.consequence_slides`;
+            if (!slide) {
+                issues.push({severity: 'error', path, message: `Consequence slide ${slideId} for ${challenge.id} does not exist`});
+            } else if (slide.type !== 'consequence_reveal') {
+                issues.push({
+                    severity: 'warning',
+                    path,
+                    message: `Slide ${slideId} is mapped to ${challenge.id} but is a "${slide.type}" slide`,
+                    slideId
+                });
+            }
+        });
+    });
+
+    // ===== Payoff slide map → investment phases =====
+    structure.slides.forEach((slide, index) => {
+        if (slide.type === 'payoff_reveal' && !references.investmentPhaseSlides.has(slide.id)) {
+            issues.push({
+                severity: 'error',
+                path: `slides[${index}]`,
+                message: `Payoff slide ${slide.id} is not mapped to an investment phase`,
+                slideId: slide.id
+            });
+        }
+    });
+
+    references.investmentPhaseSlides.forEach((phaseId, slideId) => {
+        const slide = slidesById.get(slideId);
+        const path = `investment_phase_slides.${slideId}`;
+        if (!slide) {
+            issues.push({severity: 'error', path, message: `Payoff slide ${slideId} for ${phaseId} does not exist`});
+        } else if (slide.type !== 'payoff_reveal') {
+            issues.push({
+                severity: 'warning',
+                path,
+                message: `Slide ${slideId} is mapped to ${phaseId} payoffs but is a "${slide.type}" slide`,
+                slideId
+            });
+        }
+        if (!structure.all_investment_options[phaseId]) {
+            issues.push({severity: 'error', path, message: `Investment phase "${phaseId}" has no options`});
+        }
+    });
+
+    // ===== Consequences → challenge options =====
+    Object.entries(structure.all_consequences).forEach(([key, consequences]) => {
+        const challengeId = key.replace(/-(conseq|immunity)$/, '');
+        const options = structure.all_challenge_options[challengeId];
+        if (!options) {
+            issues.push({severity: 'error', path: key, message: `No challenge options for "${challengeId}"`});
+        }
+
+        consequences.forEach((consequence, index) => {
+            const path = `${key}[${index}]`;
+            if (options && !NON_OPTION_CONSEQUENCES.includes(consequence.challenge_option_id)) {
+                const missing = consequence.challenge_option_id.split(',')
+                    .filter(optionId => !options.some(option => option.id === optionId));
+                if (missing.length > 0) {
+                    issues.push({
+                        severity: 'error',
+                        path: `${path}.challenge_option_id`,
+                        message: `Consequence "${consequence.id}" uses option ${missing.join(', ')} which ${challengeId} does not offer`
+                    });
+                }
+            }
+            issues.push(...validateKpiEffects(consequence.effects, path));
+        });
+    });
+
+    Object.keys(structure.challenge_registry).forEach(challengeId => {
+        if (structure.challenge_registry[challengeId].consequence_slides.length > 0 && !structure.all_consequences[`${challengeId}-conseq`]) {
+            issues.push({severity: 'error', path: `${challengeId}-conseq`, message: `Challenge ${challengeId} has consequence slides but no consequences`});
+        }
+    });
+
+    // ===== Payoffs =====
+    Object.entries(structure.all_investment_payoffs).forEach(([key, payoffs]) => {
+        const phaseId = key.replace('-payoff', '-invest');
+        const options = structure.all_investment_options[phaseId];
+        payoffs.forEach((payoff, index) => {
+            const path = `${key}[${index}]`;
+            if (options && !options.some(option => option.id === payoff.id)) {
+                issues.push({
+                    severity: 'warning',
+                    path: `${path}.id`,
+                    message: `Payoff "${payoff.id}" has no matching ${phaseId} option`
+                });
+            }
+            issues.push(...validateKpiEffects(payoff.effects, path));
+        });
+    });
+
+    // ===== Double down investments =====
+    references.doubleDownInvestments.forEach((investment, index) => {
+        const path = `double_down_investments[${index}]`;
+        const slide = slidesById.get(investment.slideId);
+        if (!slide) {
+            issues.push({severity: 'error', path, message: `Double down slide ${investment.slideId} for ${investment.id} does not exist`});
+        } else if (slide.type !== 'double_down_dice_roll' || slide.interactive_data_key !== investment.id) {
+            issues.push({
+                severity: 'error',
+                path,
+                message: `Slide ${investment.slideId} is not the dice roll slide for investment ${investment.id}`,
+                slideId: investment.slideId
+            });
+        }
+        if (!structure.all_investment_options['rd3-invest']?.some(option => option.id === investment.id)) {
+            issues.push({severity: 'error', path, message: `Double down investment ${investment.id} is not an rd3-invest option`});
+        }
+    });
+
+    // ===== Continuation pricing → investment options =====
+    Object.entries(structure.continuation_pricing).forEach(([round, table]) => {
+        const options = structure.all_investment_options[`${round}-invest`] || [];
+        Object.keys(table).forEach(optionId => {
+            if (!options.some(option => option.id === optionId)) {
+                issues.push({
+                    severity: 'warning',
+                    path: `continuation_pricing.${round}.${optionId}`,
+                    message: `Continuation price for ${optionId} has no matching ${round}-invest option`
+                });
+            }
+        });
+    });
+
+    // ===== Conditional rules =====
+    structure.conditional_rules.forEach((rule, index) => {
+        const path = `conditional_rules[${index}]`;
+        if (rule.kind === 'bonus') {
+            if (!slidesById.has(rule.slideId)) {
+                issues.push({severity: 'error', path, message: `Bonus rule "${rule.id}" targets missing slide ${rule.slideId}`});
+            }
+            issues.push(...validateKpiEffects(rule.effects, path));
+        } else if (!structure.all_challenge_options[rule.challengeId]) {
+            issues.push({severity: 'error', path, message: `Rule "${rule.id}" targets unknown challenge ${rule.challengeId}`});
+        }
+    });
+
+    return issues;
+};
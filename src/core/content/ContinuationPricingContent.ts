@@ -0,0 +1,159 @@
+// src/core/content/ContinuationPricingContent.ts
+// Continuation pricing and round budgets, referenced by each game variant's GameStructure
+
+import {ContinuationPricingTables} from '@shared/types/game';
+
+/**
+ * CONTINUATION PRICING TABLES - Exact values from Ready or Not physical game
+ */
+export const continuationPricingTables_2_0_DD: ContinuationPricingTables = {
+    // RD-1→RD-2 Continuation Pricing Table
+    'rd2': {
+        'A': { // Strategy Investment
+            freshPrice: 75000,
+            continuationPrice: null, // N/A if already purchased
+            requiresPrevious: false,
+            name: 'Strategic Plan (KPI Card)'
+        },
+        'B': { // Production Efficiency
+            freshPrice: 200000,
+            continuationPrice: 75000,
+            requiresPrevious: false,
+            name: 'Production Efficiency II'
+        },
+        'C': { // Expanded 2nd Shift
+            freshPrice: 75000,
+            continuationPrice: 25000,
+            requiresPrevious: false,
+            name: 'Add/Expand 2nd Shift'
+        },
+        'D': { // Supply Chain
+            freshPrice: 150000,
+            continuationPrice: 75000,
+            requiresPrevious: false,
+            name: 'Supply Chain Optimization II'
+        },
+        'E': { // Employee Development
+            freshPrice: 175000,
+            continuationPrice: 75000,
+            requiresPrevious: false,
+            name: 'Employee Development II'
+        },
+        'F': { // Maximize Sales
+            freshPrice: 225000,
+            continuationPrice: 100000,
+            requiresPrevious: false,
+            name: 'Maximize Boutique Sales & Distribution'
+        },
+        // 🎯 ADDED: Missing investments G-K from PDF
+        'G': { // Big Box Expansion
+            freshPrice: 125000,
+            continuationPrice: null, // Fresh only - not available in RD-1
+            requiresPrevious: false,
+            name: 'Expand Distribution Channels: Big Box'
+        },
+        'H': { // ERP
+            freshPrice: 100000,
+            continuationPrice: null, // Fresh only - not available in RD-1
+            requiresPrevious: false,
+            name: 'Enterprise Resource Planning'
+        },
+        'I': { // IT Security
+            freshPrice: 50000,
+            continuationPrice: null, // Fresh only - not available in RD-1
+            requiresPrevious: false,
+            name: 'IT & Cyber Security'
+        },
+        'J': { // Product Line
+            freshPrice: 150000,
+            continuationPrice: null, // Fresh only - not available in RD-1
+            requiresPrevious: false,
+            name: 'Product Line Expansion: Inflatables'
+        },
+        'K': { // Automation
+            freshPrice: 100000,
+            continuationPrice: null, // Fresh only - not available in RD-1
+            requiresPrevious: false,
+            name: 'Automation & Co-Bots'
+        }
+    },
+    // RD-2→RD-3 Continuation Pricing Table
+    'rd3': {
+        'A': { // Strategy - Not available in RD-3
+            freshPrice: null,
+            continuationPrice: null,
+            requiresPrevious: false,
+            name: 'Strategic Plan II - 5 Year Vision',
+            notAvailable: true
+        },
+        'B': { // Production Efficiency - Continuation only ($75K if invested in RD-2, N/A if not)
+            freshPrice: null,
+            continuationPrice: 75000,
+            requiresPrevious: true, // Must have made RD-2 investment
+            name: 'Production Efficiency III - Lean Manufacturing'
+        },
+        'C': { // Expanded 2nd Shift - Both fresh and continuation ($25K if invested in RD-2, $100K if not)
+            freshPrice: 100000,
+            continuationPrice: 25000,
+            requiresPrevious: false,
+            name: 'Expanded 2nd Shift - 24/7 Operations'
+        },
+        'D': { // Supply Chain - Continuation only ($75K if invested in RD-2, N/A if not)
+            freshPrice: null,
+            continuationPrice: 75000,
+            requiresPrevious: true, // Must have made RD-2 investment
+            name: 'Supply Chain Optimization III'
+        },
+        'E': { // Employee Development - Both fresh and continuation ($75K if invested in RD-2, $300K if not)
+            freshPrice: 300000,
+            continuationPrice: 75000,
+            requiresPrevious: false,
+            name: 'Employee Development III'
+        },
+        'F': { // Maximize Sales - Both fresh and continuation ($75K if invested in RD-2, $225K if not)
+            freshPrice: 225000,
+            continuationPrice: 75000,
+            requiresPrevious: false,
+            name: 'Maximize Boutique Sales III'
+        },
+        'G': { // Big Box - Both fresh and continuation ($50K if invested in RD-2, $300K if not)
+            freshPrice: 300000,
+            continuationPrice: 50000,
+            requiresPrevious: false,
+            name: 'Expand Distribution Channels: Big Box III'
+        },
+        'H': { // ERP - Both fresh and continuation ($25K if invested in RD-2, $125K if not)
+            freshPrice: 125000,
+            continuationPrice: 25000,
+            requiresPrevious: false,
+            name: 'Enterprise Resource Planning III'
+        },
+        'I': { // IT Security - Both fresh and continuation ($25K if invested in RD-2, $75K if not)
+            freshPrice: 75000,
+            continuationPrice: 25000,
+            requiresPrevious: false,
+            name: 'IT & Cybersecurity III'
+        },
+        'J': { // Product Line - Both fresh and continuation ($50K if invested in RD-2, $150K if not)
+            freshPrice: 150000,
+            continuationPrice: 50000,
+            requiresPrevious: false,
+            name: 'Product Line Expansion: Inflatables III'
+        },
+        'K': { // Automation - Both fresh and continuation ($200K if invested in RD-2, $300K if not)
+            freshPrice: 300000,
+            continuationPrice: 200000,
+            requiresPrevious: false,
+            name: 'Automation & Co-Bots III'
+        }
+    }
+};
+
+/**
+ * ROUND BUDGETS - Budget available for each round
+ */
+export const roundBudgets_2_0_DD: Record<number, number> = {
+    1: 400000, // RD-1: $400K
+    2: 500000, // RD-2: $500K
+    3: 600000  // RD-3: $600K
+};
@@ -1,14 +1,16 @@
 // src/core/content/GameStructure.ts
-import {GameStructure, Slide} from '@shared/types/game';
+import {GameStructure} from '@shared/types/game';
 import {allGameSlides} from './SlideContent';
 import {allInvestmentOptionsData} from './InvestmentOptions';
 import {allChallengeOptionsData} from './ChallengeOptions';
 import {allConsequencesData} from './ConsequenceContent';
 import {allInvestmentPayoffsData} from './InvestmentPayoffContent';
+import {CHALLENGE_REGISTRY} from './ChallengeRegistry';
+import {continuationPricingTables_2_0_DD, roundBudgets_2_0_DD} from './ContinuationPricingContent';
+import {conditionalRules_2_0_DD} from './ConditionalRules';
+import {getInteractiveSlides} from './ContentPacks';
 
-const interactiveSlides: Slide[] = allGameSlides.filter(
-    (slide) => !!slide.interactive_data_key && slide.type.startsWith('interactive_')
-);
+const interactiveSlides = getInteractiveSlides(allGameSlides);
 
 export const readyOrNotGame_2_0_DD: GameStructure = {
     id: "ready_or_not_2.0_dd",
@@ -24,4 +26,8 @@ export const readyOrNotGame_2_0_DD: GameStructure = {
         'rd2-invest': 500000,
         'rd3-invest': 600000,
     },
-};
\ No newline at end of file
+    challenge_registry: CHALLENGE_REGISTRY,
+    continuation_pricing: continuationPricingTables_2_0_DD,
+    round_budgets: roundBudgets_2_0_DD,
+    conditional_rules: conditionalRules_2_0_DD,
+};
@@ -1 +1,67 @@
-// TODO: Define game variants data here
+// src/core/content/GameVariants.ts
+// Registry mapping a session's game_version to the complete GameStructure it is played with
+
+import {GameStructure, GameVersion} from '@shared/types/game';
+import {readyOrNotGame_2_0_DD} from './GameStructure';
+
+export interface GameVariant {
+    version: GameVersion;
+    label: string;        // e.g. "2.0 with Double Down"
+    shortLabel: string;   // e.g. "2.0"
+    structure: GameStructure;
+}
+
+export const DEFAULT_GAME_VERSION: GameVersion = '2.0_dd';
+
+export const GAME_VARIANTS: Record<GameVersion, GameVariant> = {
+    '2.0_dd': {
+        version: '2.0_dd',
+        label: '2.0 with Double Down',
+        shortLabel: '2.0',
+        structure: readyOrNotGame_2_0_DD,
+    },
+};
+
+// Versions hosts ask for that have no GameStructure yet. 1.5's slide deck, budgets, KPI tables and payoffs have
+// not been authored, so it is listed (disabled) in the create game form until they are, rather than played with
+// another version's content.
+export const UNAVAILABLE_GAME_VERSIONS: { version: string; label: string }[] = [
+    {version: '1.5_dd', label: '1.5 with Double Down'},
+];
+
+// Older builds let a host pick "1.5", but those games were always played with the 2.0 content (the only
+// structure there has ever been), so they keep loading it. Their labels say so (see getGameVersionLabel).
+const LEGACY_GAME_VERSIONS: Record<string, GameVersion> = {
+    '1.5_dd': '2.0_dd',
+    'ready_or_not_1.5_dd': '2.0_dd',
+};
+
+/**
+ * Accepts a stored game_version ('2.0_dd') or a structure id ('ready_or_not_2.0_dd').
+ * Older sessions were written with the structure id, so both forms are in the database.
+ */
+export const normalizeGameVersion = (version: string | null | undefined): GameVersion => {
+    if (!version) return DEFAULT_GAME_VERSION;
+    if (LEGACY_GAME_VERSIONS[version]) return LEGACY_GAME_VERSIONS[version];
+
+    const match = (Object.keys(GAME_VARIANTS) as GameVersion[]).find(
+        candidate => version === candidate || version === GAME_VARIANTS[candidate].structure.id
+    );
+    if (!match) {
+        console.warn(`[GameVariants] Unknown game version "${version}", falling back to ${DEFAULT_GAME_VERSION}`);
+    }
+    return match ?? DEFAULT_GAME_VERSION;
+};
+
+export const getGameVariant = (version?: string | null): GameVariant => {
+    return GAME_VARIANTS[normalizeGameVersion(version)];
+};
+
+export const getGameStructure = (version?: string | null): GameStructure => {
+    return getGameVariant(version).structure;
+};
+
+export const getGameVersionLabel = (version?: string | null): string => {
+    const label = getGameVariant(version).label;
+    return version && LEGACY_GAME_VERSIONS[version] ? `${label} (created as 1.5)` : label;
+};
@@ -0,0 +1,150 @@
+// src/core/content/InvestmentEffectsContent.ts
+// KPI effects of investments outside the payoff slides: continuations and the strategy investment
+
+import {KpiEffect} from '@shared/types/game';
+
+/**
+ * Continuation Effects - Applied when teams continue investments from previous round
+ */
+export const CONTINUATION_EFFECTS: Record<string, Record<string, KpiEffect[]>> = {
+    // RD-1→RD-2 Continuation Effects
+    'rd2': {
+        'B': [ // Production Efficiency continuation
+            {kpi: 'capacity', change_value: 1000, timing: 'immediate', description: 'Production Efficiency (Continued)'}
+        ],
+        'C': [ // Expanded 2nd Shift continuation
+            {kpi: 'capacity', change_value: 750, timing: 'immediate', description: 'Expanded 2nd Shift (Continued)'},
+            {
+                kpi: 'cost',
+                change_value: 150000,
+                timing: 'immediate',
+                description: 'Expanded 2nd Shift Labor (Continued)'
+            }
+        ],
+        'D': [ // Supply Chain continuation
+            {kpi: 'capacity', change_value: 125, timing: 'immediate', description: 'Supply Chain (Continued)'},
+            {kpi: 'cost', change_value: -50000, timing: 'immediate', description: 'Supply Chain Savings (Continued)'}
+        ],
+        'E': [ // Employee Development continuation
+            {kpi: 'capacity', change_value: 125, timing: 'immediate', description: 'Employee Development (Continued)'},
+            {
+                kpi: 'cost',
+                change_value: -12500,
+                timing: 'immediate',
+                description: 'Employee Development Savings (Continued)'
+            }
+        ],
+        'F': [ // Maximize Sales continuation
+            {kpi: 'orders', change_value: 250, timing: 'immediate', description: 'Maximize Sales (Continued)'},
+            {kpi: 'asp', change_value: 10, timing: 'immediate', description: 'Maximize Sales ASP (Continued)'}
+        ]
+    },
+    // RD-2→RD-3 Continuation Effects
+    'rd3': {
+        'B': [ // Production Efficiency continuation (only if RD-2 investment)
+            {
+                kpi: 'capacity',
+                change_value: 1500,
+                timing: 'immediate',
+                description: 'Production Efficiency (RD-3 Continued)'
+            }
+        ],
+        'C': [ // Expanded 2nd Shift continuation
+            {
+                kpi: 'capacity',
+                change_value: 2125,
+                timing: 'immediate',
+                description: 'Expanded 2nd Shift (RD-3 Continued)'
+            },
+            {
+                kpi: 'cost',
+                change_value: 375000,
+                timing: 'immediate',
+                description: 'Expanded 2nd Shift Labor (RD-3 Continued)'
+            }
+        ],
+        'D': [ // Supply Chain continuation (only if RD-2 investment)
+            {kpi: 'capacity', change_value: 100, timing: 'immediate', description: 'Supply Chain (RD-3 Continued)'},
+            {
+                kpi: 'cost',
+                change_value: -37500,
+                timing: 'immediate',
+                description: 'Supply Chain Savings (RD-3 Continued)'
+            }
+        ],
+        'E': [ // Employee Development continuation
+            {
+                kpi: 'capacity',
+                change_value: 150,
+                timing: 'immediate',
+                description: 'Employee Development (RD-3 Continued)'
+            },
+            {
+                kpi: 'cost',
+                change_value: -37500,
+                timing: 'immediate',
+                description: 'Employee Development Savings (RD-3 Continued)'
+            }
+        ],
+        'F': [ // Maximize Sales continuation
+            {kpi: 'orders', change_value: 375, timing: 'immediate', description: 'Maximize Sales (RD-3 Continued)'},
+            {kpi: 'asp', change_value: 12, timing: 'immediate', description: 'Maximize Sales ASP (RD-3 Continued)'}
+        ],
+        'G': [ // Big Box continuation
+            {kpi: 'orders', change_value: 1000, timing: 'immediate', description: 'Big Box (Continued)'}
+        ],
+        'H': [ // ERP continuation
+            {kpi: 'capacity', change_value: 125, timing: 'immediate', description: 'ERP (Continued)'},
+            {kpi: 'cost', change_value: -12500, timing: 'immediate', description: 'ERP Savings (Continued)'}
+        ],
+        'I': [ // IT Security continuation
+            {kpi: 'cost', change_value: -12500, timing: 'immediate', description: 'IT Security Savings (Continued)'}
+        ],
+        'J': [ // Inflatables continuation
+            {kpi: 'orders', change_value: 500, timing: 'immediate', description: 'Inflatables (Continued)'},
+            {kpi: 'asp', change_value: 25, timing: 'immediate', description: 'Inflatables ASP (Continued)'}
+        ],
+        'K': [ // Automation continuation
+            {kpi: 'capacity', change_value: 1000, timing: 'immediate', description: 'Automation (Continued)'},
+            {kpi: 'cost', change_value: 100000, timing: 'immediate', description: 'Automation Costs (Continued)'}
+        ]
+    }
+};
+
+/**
+ * Strategy Investment Effects - These are the permanent effects that persist across all resets
+ * Applied when ANY strategy investment is made (RD-1 or RD-2)
+ */
+export const STRATEGY_INVESTMENT_EFFECTS: KpiEffect[] = [
+    {
+        kpi: 'capacity',
+        change_value: 250,
+        timing: 'permanent_next_round_start',
+        description: 'Strategy Investment - Capacity Boost',
+        applies_to_rounds: [2, 3]
+    },
+    {
+        kpi: 'orders',
+        change_value: 250,
+        timing: 'permanent_next_round_start',
+        description: 'Strategy Investment - Orders Boost',
+        applies_to_rounds: [2, 3]
+    },
+    {
+        kpi: 'asp',
+        change_value: 20,
+        timing: 'permanent_next_round_start',
+        description: 'Strategy Investment - ASP Boost',
+        applies_to_rounds: [2, 3]
+    }
+];
+
+/**
+ * Strategy Investment Types - Different ways strategy can be purchased
+ */
+export const STRATEGY_INVESTMENT_TYPES = {
+    RD1_BUSINESS_GROWTH: 'business_growth_strategy',
+    RD2_STRATEGIC_PLAN: 'strategic_plan'
+} as const;
+
+export type StrategyInvestmentType = typeof STRATEGY_INVESTMENT_TYPES[keyof typeof STRATEGY_INVESTMENT_TYPES];
@@ -0,0 +1,65 @@
+// src/core/content/LeaderboardSpecs.ts
+// Metrics a leaderboard_chart slide can rank, with the label and sort order each one defaults to
+
+import {LeaderboardSpec, MetricKey, Slide} from '@shared/types';
+
+export interface LeaderboardMetricInfo {
+    label: string;
+    sort: LeaderboardSpec['sort'];
+}
+
+export const LEADERBOARD_METRICS: Record<MetricKey, LeaderboardMetricInfo> = {
+    capacity: {label: 'Capacity', sort: 'desc'},
+    orders: {label: 'Orders', sort: 'desc'},
+    cost: {label: 'Total Costs', sort: 'asc'},
+    asp: {label: 'ASP', sort: 'desc'},
+    revenue: {label: 'Revenue', sort: 'desc'},
+    net_margin: {label: 'Net Margin', sort: 'desc'},
+    net_income: {label: 'Net Income', sort: 'desc'},
+    cost_per_board: {label: 'Cost Per Board', sort: 'asc'},
+    units_sold: {label: 'Units Sold', sort: 'desc'},
+    unmet_demand: {label: 'Unmet Demand', sort: 'asc'},
+};
+
+/**
+ * Single bar leaderboard for one metric, with the metric's default label and sort order
+ */
+export const createLeaderboardSpec = (
+    round: LeaderboardSpec['round'],
+    metric: MetricKey,
+    overrides: Partial<LeaderboardSpec> = {}
+): LeaderboardSpec => ({
+    round,
+    metric,
+    label: LEADERBOARD_METRICS[metric].label,
+    sort: LEADERBOARD_METRICS[metric].sort,
+    layout: 'single_bar',
+    reveal: 'cascade',
+    ...overrides
+});
+
+/**
+ * Capacity and orders side by side, ranked by capacity
+ */
+export const createCapacityOrdersSpec = (
+    round: LeaderboardSpec['round'],
+    overrides: Partial<LeaderboardSpec> = {}
+): LeaderboardSpec => createLeaderboardSpec(round, 'capacity', {
+    secondary_metric: 'orders',
+    secondary_label: LEADERBOARD_METRICS.orders.label,
+    layout: 'dual_bar',
+    ...overrides
+});
+
+/**
+ * Packs saved before leaderboard specs existed: give their leaderboard slides the spec of the base slide
+ * with the same id
+ */
+export const withLeaderboardSpecs = (slides: Slide[], baseSlides: Slide[]): Slide[] => {
+    const baseSpecs = new Map(baseSlides.filter(slide => slide.leaderboard).map(slide => [slide.id, slide.leaderboard]));
+    return slides.map(slide =>
+        slide.type === 'leaderboard_chart' && !slide.leaderboard && baseSpecs.has(slide.id)
+            ? {...slide, leaderboard: baseSpecs.get(slide.id)}
+            : slide
+    );
+};
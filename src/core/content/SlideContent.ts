@@ -1,5 +1,6 @@
 // src/core/content/SlideContent.ts
 import {Slide} from '@shared/types/game';
+import {createCapacityOrdersSpec, createLeaderboardSpec} from './LeaderboardSpecs';
 
 export const allGameSlides: Slide[] = [
     // --- Welcome & Setup (Round 0) ---
@@ -619,7 +620,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-1 Leaderboard: Capacity & Orders",
         type: 'leaderboard_chart',
         main_text: "Round 1 Leaderboard: Capacity & Orders",
-        sub_text: "Comparison of production capability and market demand."
+        sub_text: "Comparison of production capability and market demand.",
+        leaderboard: createCapacityOrdersSpec(1)
     },
     {
         id: 63.2,
@@ -627,7 +629,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-1 Leaderboard: Cost Per Board",
         type: 'leaderboard_chart',
         main_text: "Round 1 Leaderboard: Cost Per Board",
-        sub_text: "Efficiency comparison among teams."
+        sub_text: "Efficiency comparison among teams.",
+        leaderboard: createLeaderboardSpec(1, 'cost_per_board')
     },
     {
         id: 63.3,
@@ -635,7 +638,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-1 Leaderboard: Total Costs",
         type: 'leaderboard_chart',
         main_text: "Round 1 Leaderboard: Total Operational Costs",
-        sub_text: "Overall spending by each team."
+        sub_text: "Overall spending by each team.",
+        leaderboard: createLeaderboardSpec(1, 'cost')
     },
     {
         id: 63.4,
@@ -643,7 +647,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-1 Leaderboard: ASP",
         type: 'leaderboard_chart',
         main_text: "Round 1 Leaderboard: Average Selling Price",
-        sub_text: "Pricing strategy comparison."
+        sub_text: "Pricing strategy comparison.",
+        leaderboard: createLeaderboardSpec(1, 'asp')
     },
     {
         id: 63.5,
@@ -651,7 +656,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-1 Leaderboard: Revenue",
         type: 'leaderboard_chart',
         main_text: "Round 1 Leaderboard: Total Revenue",
-        sub_text: "Revenue generation comparison."
+        sub_text: "Revenue generation comparison.",
+        leaderboard: createLeaderboardSpec(1, 'revenue')
     },
     {
         id: 63.6,
@@ -659,7 +665,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-1 Leaderboard: Net Margin",
         type: 'leaderboard_chart',
         main_text: "Round 1 Leaderboard: Net Profit Margin",
-        sub_text: "Profitability percentage comparison."
+        sub_text: "Profitability percentage comparison.",
+        leaderboard: createLeaderboardSpec(1, 'net_margin')
     },
     {
         id: 63.7,
@@ -667,7 +674,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-1 Leaderboard: Net Income",
         type: 'leaderboard_chart',
         main_text: "Round 1 Leaderboard: Net Income",
-        sub_text: "Overall profitability ranking after Round 1."
+        sub_text: "Overall profitability ranking after Round 1.",
+        leaderboard: createLeaderboardSpec(1, 'net_income', {reveal: 'countdown'})
     },
 
     // --- Round 2 Transition (but still showing Round 1 KPIs) ---
@@ -1420,7 +1428,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-2 Leaderboard: Capacity & Orders",
         type: 'leaderboard_chart',
         main_text: "Round 2 Leaderboard: Capacity & Orders",
-        sub_text: "Production capability and market demand after Round 2."
+        sub_text: "Production capability and market demand after Round 2.",
+        leaderboard: createCapacityOrdersSpec(2)
     },
     {
         id: 140.2,
@@ -1428,7 +1437,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-2 Leaderboard: Cost Per Board",
         type: 'leaderboard_chart',
         main_text: "Round 2 Leaderboard: Cost Per Board",
-        sub_text: "Efficiency comparison after Round 2."
+        sub_text: "Efficiency comparison after Round 2.",
+        leaderboard: createLeaderboardSpec(2, 'cost_per_board')
     },
     {
         id: 140.3,
@@ -1436,7 +1446,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-2 Leaderboard: Total Costs",
         type: 'leaderboard_chart',
         main_text: "Round 2 Leaderboard: Total Operational Costs",
-        sub_text: "Overall spending by each team in Round 2."
+        sub_text: "Overall spending by each team in Round 2.",
+        leaderboard: createLeaderboardSpec(2, 'cost')
     },
     {
         id: 140.4,
@@ -1444,7 +1455,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-2 Leaderboard: ASP",
         type: 'leaderboard_chart',
         main_text: "Round 2 Leaderboard: Average Selling Price",
-        sub_text: "Pricing strategy results after Round 2."
+        sub_text: "Pricing strategy results after Round 2.",
+        leaderboard: createLeaderboardSpec(2, 'asp')
     },
     {
         id: 140.5,
@@ -1452,7 +1464,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-2 Leaderboard: Revenue",
         type: 'leaderboard_chart',
         main_text: "Round 2 Leaderboard: Total Revenue",
-        sub_text: "Revenue generation comparison after Round 2."
+        sub_text: "Revenue generation comparison after Round 2.",
+        leaderboard: createLeaderboardSpec(2, 'revenue')
     },
     {
         id: 140.6,
@@ -1460,7 +1473,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-2 Leaderboard: Net Margin",
         type: 'leaderboard_chart',
         main_text: "Round 2 Leaderboard: Net Profit Margin",
-        sub_text: "Profitability percentage after Round 2."
+        sub_text: "Profitability percentage after Round 2.",
+        leaderboard: createLeaderboardSpec(2, 'net_margin')
     },
     {
         id: 140.7,
@@ -1468,7 +1482,8 @@ export const allGameSlides: Slide[] = [
         title: "RD-2 Leaderboard: Cumulative Net Income",
         type: 'leaderboard_chart',
         main_text: "Round 2 Leaderboard: Cumulative Net Income",
-        sub_text: "Total profitability ranking after Rounds 1 & 2."
+        sub_text: "Total profitability ranking after Rounds 1 & 2.",
+        leaderboard: createLeaderboardSpec(2, 'net_income', {reveal: 'countdown'})
     },
 
     // --- Round 3 Transition (but still showing Round 2 KPIs) ---
@@ -2025,7 +2040,8 @@ export const allGameSlides: Slide[] = [
         title: "Final Leaderboard: Capacity & Orders",
         type: 'leaderboard_chart',
         main_text: "Final Leaderboard: Capacity & Orders",
-        sub_text: "Final comparison of production capability and market demand."
+        sub_text: "Final comparison of production capability and market demand.",
+        leaderboard: createCapacityOrdersSpec(3, {heading: 'Final Round 3'})
     },
     {
         id: 196.2,
@@ -2033,7 +2049,8 @@ export const allGameSlides: Slide[] = [
         title: "Final Leaderboard: Cost Per Board",
         type: 'leaderboard_chart',
         main_text: "Final Leaderboard: Cost Per Board",
-        sub_text: "Final efficiency comparison among all teams."
+        sub_text: "Final efficiency comparison among all teams.",
+        leaderboard: createLeaderboardSpec(3, 'cost_per_board', {heading: 'Final Round 3'})
     },
     {
         id: 196.3,
@@ -2041,7 +2058,8 @@ export const allGameSlides: Slide[] = [
         title: "Final Leaderboard: Total Costs",
         type: 'leaderboard_chart',
         main_text: "Final Leaderboard: Total Operational Costs",
-        sub_text: "Overall spending by each team in Round 3."
+        sub_text: "Overall spending by each team in Round 3.",
+        leaderboard: createLeaderboardSpec(3, 'cost', {heading: 'Final Round 3'})
     },
     {
         id: 196.4,
@@ -2049,7 +2067,8 @@ export const allGameSlides: Slide[] = [
         title: "Final Leaderboard: ASP",
         type: 'leaderboard_chart',
         main_text: "Final Leaderboard: Average Selling Price",
-        sub_text: "Final pricing strategy results."
+        sub_text: "Final pricing strategy results.",
+        leaderboard: createLeaderboardSpec(3, 'asp', {heading: 'Final Round 3'})
     },
     {
         id: 196.5,
@@ -2057,7 +2076,8 @@ export const allGameSlides: Slide[] = [
         title: "Final Leaderboard: Revenue",
         type: 'leaderboard_chart',
         main_text: "Final Leaderboard: Total Revenue",
-        sub_text: "Final revenue generation comparison."
+        sub_text: "Final revenue generation comparison.",
+        leaderboard: createLeaderboardSpec(3, 'revenue', {heading: 'Final Round 3'})
     },
     {
         id: 196.6,
@@ -2065,7 +2085,8 @@ export const allGameSlides: Slide[] = [
         title: "Final Leaderboard: Net Margin",
         type: 'leaderboard_chart',
         main_text: "Final Leaderboard: Net Profit Margin",
-        sub_text: "Final profitability percentage comparison."
+        sub_text: "Final profitability percentage comparison.",
+        leaderboard: createLeaderboardSpec(3, 'net_margin', {heading: 'Final Round 3'})
     },
     {
         id: 196.7,
@@ -2077,7 +2098,8 @@ export const allGameSlides: Slide[] = [
         host_alert: {
             title: "Game Complete!",
             message: "The simulation is finished! Congratulations to all teams!"
-        }
+        },
+        leaderboard: createLeaderboardSpec(3, 'net_income', {heading: 'Final Round 3', reveal: 'countdown'})
     },
     {
         id: 197,
@@ -0,0 +1,52 @@
+// src/core/game/ConditionalRulesEngine.ts
+// Loads what the conditional rules need from storage; the evaluation itself lives in RuleEvaluator
+// so the simulation core can use it without a database.
+
+import {db} from '@shared/services/supabase';
+import {TeamDecision} from '@shared/types';
+import {RuleEvaluator} from '@core/simulation/RuleEvaluator';
+import {GameStructureResolver} from './GameStructureResolver';
+
+/**
+ * All decisions of a session grouped by team id. Loaded once per processing pass
+ * so evaluating many rules for many teams costs a single query.
+ */
+export type DecisionSnapshot = Record<string, TeamDecision[]>;
+
+export class ConditionalRulesEngine {
+
+    /**
+     * Load every decision for the session, grouped by team
+     */
+    static async loadDecisionSnapshot(sessionId: string): Promise<DecisionSnapshot> {
+        const allDecisions = await db.decisions.getBySession(sessionId);
+        const snapshot: DecisionSnapshot = {};
+        for (const decision of allDecisions) {
+            (snapshot[decision.team_id] ??= []).push(decision);
+        }
+        return snapshot;
+    }
+
+    /**
+     * Resolve the forced selection for a single team (team app); loads the session's rules and decisions
+     */
+    static async getForcedSelectionForTeam(
+        sessionId: string,
+        teamId: string,
+        challengeId: string
+    ): Promise<{ option: string; reason: string } | null> {
+        try {
+            const {conditional_rules} = await GameStructureResolver.forSession(sessionId);
+            if (!conditional_rules.some(rule => rule.kind === 'forced_selection' && rule.challengeId === challengeId)) {
+                return null;
+            }
+
+            const snapshot = await this.loadDecisionSnapshot(sessionId);
+            const rule = RuleEvaluator.getForcedSelection(conditional_rules, snapshot[teamId], challengeId);
+            return rule ? {option: rule.forcedOption, reason: rule.reason} : null;
+        } catch (error) {
+            console.error(`[ConditionalRulesEngine] Error checking forced selection:`, error);
+            return null;
+        }
+    }
+}
@@ -3,116 +3,9 @@
 
 import {db} from '@shared/services/supabase';
 import {KpiEffect, TeamRoundData} from '@shared/types';
+import {GameSimulator} from '@core/simulation/GameSimulator';
 import {KpiDataUtils} from './KpiDataUtils';
-
-/**
- * Continuation Effects - Applied when teams continue investments from previous round
- * Moved from KpiResetEngine.ts to be used during investment purchases
- */
-const CONTINUATION_EFFECTS: Record<string, Record<string, KpiEffect[]>> = {
-    // RD-1→RD-2 Continuation Effects
-    'rd2': {
-        'B': [ // Production Efficiency continuation
-            {kpi: 'capacity', change_value: 1000, timing: 'immediate', description: 'Production Efficiency (Continued)'}
-        ],
-        'C': [ // Expanded 2nd Shift continuation
-            {kpi: 'capacity', change_value: 750, timing: 'immediate', description: 'Expanded 2nd Shift (Continued)'},
-            {
-                kpi: 'cost',
-                change_value: 150000,
-                timing: 'immediate',
-                description: 'Expanded 2nd Shift Labor (Continued)'
-            }
-        ],
-        'D': [ // Supply Chain continuation
-            {kpi: 'capacity', change_value: 125, timing: 'immediate', description: 'Supply Chain (Continued)'},
-            {kpi: 'cost', change_value: -50000, timing: 'immediate', description: 'Supply Chain Savings (Continued)'}
-        ],
-        'E': [ // Employee Development continuation
-            {kpi: 'capacity', change_value: 125, timing: 'immediate', description: 'Employee Development (Continued)'},
-            {
-                kpi: 'cost',
-                change_value: -12500,
-                timing: 'immediate',
-                description: 'Employee Development Savings (Continued)'
-            }
-        ],
-        'F': [ // Maximize Sales continuation
-            {kpi: 'orders', change_value: 250, timing: 'immediate', description: 'Maximize Sales (Continued)'},
-            {kpi: 'asp', change_value: 10, timing: 'immediate', description: 'Maximize Sales ASP (Continued)'}
-        ]
-    },
-    // RD-2→RD-3 Continuation Effects
-    'rd3': {
-        'B': [ // Production Efficiency continuation (only if RD-2 investment)
-            {
-                kpi: 'capacity',
-                change_value: 1500,
-                timing: 'immediate',
-                description: 'Production Efficiency (RD-3 Continued)'
-            }
-        ],
-        'C': [ // Expanded 2nd Shift continuation
-            {
-                kpi: 'capacity',
-                change_value: 2125,
-                timing: 'immediate',
-                description: 'Expanded 2nd Shift (RD-3 Continued)'
-            },
-            {
-                kpi: 'cost',
-                change_value: 375000,
-                timing: 'immediate',
-                description: 'Expanded 2nd Shift Labor (RD-3 Continued)'
-            }
-        ],
-        'D': [ // Supply Chain continuation (only if RD-2 investment)
-            {kpi: 'capacity', change_value: 100, timing: 'immediate', description: 'Supply Chain (RD-3 Continued)'},
-            {
-                kpi: 'cost',
-                change_value: -37500,
-                timing: 'immediate',
-                description: 'Supply Chain Savings (RD-3 Continued)'
-            }
-        ],
-        'E': [ // Employee Development continuation
-            {
-                kpi: 'capacity',
-                change_value: 150,
-                timing: 'immediate',
-                description: 'Employee Development (RD-3 Continued)'
-            },
-            {
-                kpi: 'cost',
-                change_value: -37500,
-                timing: 'immediate',
-                description: 'Employee Development Savings (RD-3 Continued)'
-            }
-        ],
-        'F': [ // Maximize Sales continuation
-            {kpi: 'orders', change_value: 375, timing: 'immediate', description: 'Maximize Sales (RD-3 Continued)'},
-            {kpi: 'asp', change_value: 12, timing: 'immediate', description: 'Maximize Sales ASP (RD-3 Continued)'}
-        ],
-        'G': [ // Big Box continuation
-            {kpi: 'orders', change_value: 1000, timing: 'immediate', description: 'Big Box (Continued)'}
-        ],
-        'H': [ // ERP continuation
-            {kpi: 'capacity', change_value: 125, timing: 'immediate', description: 'ERP (Continued)'},
-            {kpi: 'cost', change_value: -12500, timing: 'immediate', description: 'ERP Savings (Continued)'}
-        ],
-        'I': [ // IT Security continuation
-            {kpi: 'cost', change_value: -12500, timing: 'immediate', description: 'IT Security Savings (Continued)'}
-        ],
-        'J': [ // Inflatables continuation
-            {kpi: 'orders', change_value: 500, timing: 'immediate', description: 'Inflatables (Continued)'},
-            {kpi: 'asp', change_value: 25, timing: 'immediate', description: 'Inflatables ASP (Continued)'}
-        ],
-        'K': [ // Automation continuation
-            {kpi: 'capacity', change_value: 1000, timing: 'immediate', description: 'Automation (Continued)'},
-            {kpi: 'cost', change_value: 100000, timing: 'immediate', description: 'Automation Costs (Continued)'}
-        ]
-    }
-};
+import {KpiLedger} from './KpiLedger';
 
 export interface ContinuationEffectResult {
     investmentId: string;
@@ -138,12 +31,10 @@ export class ContinuationEffectsProcessor {
         console.log(`[ContinuationEffectsProcessor] Applying continuation effects for team ${teamId}, investment ${investmentId}, round ${targetRound}`);
 
         // Get continuation effects for this investment and round
-        const roundKey = `rd${targetRound}`;
-        const availableContinuations = CONTINUATION_EFFECTS[roundKey] || {};
-        const continuationEffects = availableContinuations[investmentId];
+        const continuationEffects = GameSimulator.getContinuationEffects(investmentId, targetRound);
 
-        if (!continuationEffects || continuationEffects.length === 0) {
-            console.log(`[ContinuationEffectsProcessor] No continuation effects available for investment ${investmentId} in ${roundKey}`);
+        if (continuationEffects.length === 0) {
+            console.log(`[ContinuationEffectsProcessor] No continuation effects available for investment ${investmentId} in rd${targetRound}`);
             return null;
         }
 
@@ -161,15 +52,10 @@ export class ContinuationEffectsProcessor {
             return null;
         }
 
-        // Apply effects to current KPIs
-        const updatedKpis = {...currentKpis};
+        // Apply effects to current KPIs (same calculation as the game simulator)
+        const updatedKpis = GameSimulator.applyEffects(currentKpis, continuationEffects);
         continuationEffects.forEach(effect => {
-            const kpiKey = `current_${effect.kpi}` as keyof TeamRoundData;
-            const currentValue = (updatedKpis[kpiKey] as number) || 0;
-            const newValue = currentValue + effect.change_value;
-            (updatedKpis as any)[kpiKey] = newValue;
-
-            console.log(`[ContinuationEffectsProcessor] Applied ${effect.description}: ${effect.kpi} ${effect.change_value > 0 ? '+' : ''}${effect.change_value} (${currentValue} → ${newValue})`);
+            console.log(`[ContinuationEffectsProcessor] Applied ${effect.description}: ${effect.kpi} ${effect.change_value > 0 ? '+' : ''}${effect.change_value}`);
         });
 
         // Update team round data
@@ -186,6 +72,12 @@ export class ContinuationEffectsProcessor {
             team_id: teamId,
             round_number: targetRound
         });
+        await KpiLedger.record(currentKpis, updatedKpis, {
+            source: 'continuation',
+            sourceId: `rd${targetRound - 1}-invest`,
+            optionId: investmentId,
+            description: `Continued investment ${investmentId} into round ${targetRound}`
+        });
 
         console.log(`[ContinuationEffectsProcessor] ✅ Applied ${continuationEffects.length} continuation effects for investment ${investmentId}`);
 
@@ -233,17 +125,13 @@ export class ContinuationEffectsProcessor {
      * Check if an investment has continuation effects available
      */
     static hasContinuationEffects(investmentId: string, targetRound: 2 | 3): boolean {
-        const roundKey = `rd${targetRound}`;
-        const availableContinuations = CONTINUATION_EFFECTS[roundKey] || {};
-        return !!availableContinuations[investmentId];
+        return GameSimulator.getContinuationEffects(investmentId, targetRound).length > 0;
     }
 
     /**
      * Get continuation effects for preview (without applying them)
      */
     static getContinuationEffects(investmentId: string, targetRound: 2 | 3): KpiEffect[] {
-        const roundKey = `rd${targetRound}`;
-        const availableContinuations = CONTINUATION_EFFECTS[roundKey] || {};
-        return availableContinuations[investmentId] || [];
+        return GameSimulator.getContinuationEffects(investmentId, targetRound);
     }
 }
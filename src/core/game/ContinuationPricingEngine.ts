@@ -2,8 +2,12 @@
 // Implements exact continuation pricing system from Ready or Not physical game
 
 import {db} from '@shared/services/supabase';
+import {ContinuationPricingEntry, ContinuationPricingTables} from '@shared/types';
+import {getGameStructure} from '@core/content/GameVariants';
+import {GameSimulator, InvestmentAvailability} from '@core/simulation/GameSimulator';
+import {GameStructureResolver} from './GameStructureResolver';
 
-export type InvestmentAvailability = 'fresh' | 'continue' | 'not_available';
+export type {InvestmentAvailability};
 
 export interface InvestmentPricing {
     investmentId: string;
@@ -23,161 +27,6 @@ export interface ContinuationPricingResult {
     totalBudget: number;
 }
 
-/**
- * CONTINUATION PRICING TABLES - Exact values from Ready or Not physical game
- */
-const CONTINUATION_PRICING_TABLES = {
-    // RD-1→RD-2 Continuation Pricing Table
-    'rd2': {
-        'A': { // Strategy Investment
-            freshPrice: 75000,
-            continuationPrice: null, // N/A if already purchased
-            requiresPrevious: false,
-            name: 'Strategic Plan (KPI Card)'
-        },
-        'B': { // Production Efficiency
-            freshPrice: 200000,
-            continuationPrice: 75000,
-            requiresPrevious: false,
-            name: 'Production Efficiency II'
-        },
-        'C': { // Expanded 2nd Shift
-            freshPrice: 75000,
-            continuationPrice: 25000,
-            requiresPrevious: false,
-            name: 'Add/Expand 2nd Shift'
-        },
-        'D': { // Supply Chain
-            freshPrice: 150000,
-            continuationPrice: 75000,
-            requiresPrevious: false,
-            name: 'Supply Chain Optimization II'
-        },
-        'E': { // Employee Development
-            freshPrice: 175000,
-            continuationPrice: 75000,
-            requiresPrevious: false,
-            name: 'Employee Development II'
-        },
-        'F': { // Maximize Sales
-            freshPrice: 225000,
-            continuationPrice: 100000,
-            requiresPrevious: false,
-            name: 'Maximize Boutique Sales & Distribution'
-        },
-        // 🎯 ADDED: Missing investments G-K from PDF
-        'G': { // Big Box Expansion
-            freshPrice: 125000,
-            continuationPrice: null, // Fresh only - not available in RD-1
-            requiresPrevious: false,
-            name: 'Expand Distribution Channels: Big Box'
-        },
-        'H': { // ERP
-            freshPrice: 100000,
-            continuationPrice: null, // Fresh only - not available in RD-1
-            requiresPrevious: false,
-            name: 'Enterprise Resource Planning'
-        },
-        'I': { // IT Security
-            freshPrice: 50000,
-            continuationPrice: null, // Fresh only - not available in RD-1
-            requiresPrevious: false,
-            name: 'IT & Cyber Security'
-        },
-        'J': { // Product Line
-            freshPrice: 150000,
-            continuationPrice: null, // Fresh only - not available in RD-1
-            requiresPrevious: false,
-            name: 'Product Line Expansion: Inflatables'
-        },
-        'K': { // Automation
-            freshPrice: 100000,
-            continuationPrice: null, // Fresh only - not available in RD-1
-            requiresPrevious: false,
-            name: 'Automation & Co-Bots'
-        }
-    },
-    // RD-2→RD-3 Continuation Pricing Table
-    'rd3': {
-        'A': { // Strategy - Not available in RD-3
-            freshPrice: null,
-            continuationPrice: null,
-            requiresPrevious: false,
-            name: 'Strategic Plan II - 5 Year Vision',
-            notAvailable: true
-        },
-        'B': { // Production Efficiency - Continuation only ($75K if invested in RD-2, N/A if not)
-            freshPrice: null,
-            continuationPrice: 75000,
-            requiresPrevious: true, // Must have made RD-2 investment
-            name: 'Production Efficiency III - Lean Manufacturing'
-        },
-        'C': { // Expanded 2nd Shift - Both fresh and continuation ($25K if invested in RD-2, $100K if not)
-            freshPrice: 100000,
-            continuationPrice: 25000,
-            requiresPrevious: false,
-            name: 'Expanded 2nd Shift - 24/7 Operations'
-        },
-        'D': { // Supply Chain - Continuation only ($75K if invested in RD-2, N/A if not)
-            freshPrice: null,
-            continuationPrice: 75000,
-            requiresPrevious: true, // Must have made RD-2 investment
-            name: 'Supply Chain Optimization III'
-        },
-        'E': { // Employee Development - Both fresh and continuation ($75K if invested in RD-2, $300K if not)
-            freshPrice: 300000,
-            continuationPrice: 75000,
-            requiresPrevious: false,
-            name: 'Employee Development III'
-        },
-        'F': { // Maximize Sales - Both fresh and continuation ($75K if invested in RD-2, $225K if not)
-            freshPrice: 225000,
-            continuationPrice: 75000,
-            requiresPrevious: false,
-            name: 'Maximize Boutique Sales III'
-        },
-        'G': { // Big Box - Both fresh and continuation ($50K if invested in RD-2, $300K if not)
-            freshPrice: 300000,
-            continuationPrice: 50000,
-            requiresPrevious: false,
-            name: 'Expand Distribution Channels: Big Box III'
-        },
-        'H': { // ERP - Both fresh and continuation ($25K if invested in RD-2, $125K if not)
-            freshPrice: 125000,
-            continuationPrice: 25000,
-            requiresPrevious: false,
-            name: 'Enterprise Resource Planning III'
-        },
-        'I': { // IT Security - Both fresh and continuation ($25K if invested in RD-2, $75K if not)
-            freshPrice: 75000,
-            continuationPrice: 25000,
-            requiresPrevious: false,
-            name: 'IT & Cybersecurity III'
-        },
-        'J': { // Product Line - Both fresh and continuation ($50K if invested in RD-2, $150K if not)
-            freshPrice: 150000,
-            continuationPrice: 50000,
-            requiresPrevious: false,
-            name: 'Product Line Expansion: Inflatables III'
-        },
-        'K': { // Automation - Both fresh and continuation ($200K if invested in RD-2, $300K if not)
-            freshPrice: 300000,
-            continuationPrice: 200000,
-            requiresPrevious: false,
-            name: 'Automation & Co-Bots III'
-        }
-    }
-};
-
-/**
- * ROUND BUDGETS - Budget available for each round
- */
-const ROUND_BUDGETS = {
-    1: 400000, // RD-1: $400K
-    2: 500000, // RD-2: $500K
-    3: 600000  // RD-3: $600K
-} as const;
-
 export class ContinuationPricingEngine {
 
     /**
@@ -188,40 +37,9 @@ export class ContinuationPricingEngine {
         teamId: string,
         targetRound: 2 | 3
     ): Promise<string[]> {
-        const previousRoundPhase = targetRound === 2 ? 'rd1-invest' : 'rd2-invest';
-
         try {
-            // Get regular investment decision
-            const regularDecision = await db.decisions.getForPhase(sessionId, teamId, previousRoundPhase);
-
-            // Get immediate purchases for the previous round
-            const immediatePhaseId = `${previousRoundPhase}_immediate`;
             const allDecisions = await db.decisions.getBySession(sessionId);
-            const immediateDecisions = allDecisions.filter(d =>
-                d.team_id === teamId &&
-                d.phase_id === immediatePhaseId &&
-                d.is_immediate_purchase === true
-            );
-
-            // Combine all investment IDs
-            const investments: string[] = [];
-
-            // Add regular investments
-            if (regularDecision?.selected_investment_options) {
-                investments.push(...regularDecision.selected_investment_options);
-            }
-
-            // Add immediate purchases
-            immediateDecisions.forEach(decision => {
-                if (decision.selected_investment_options) {
-                    investments.push(...decision.selected_investment_options);
-                }
-            });
-
-            // Remove duplicates and sort
-            const uniqueInvestments = [...new Set(investments)].sort();
-
-            return uniqueInvestments;
+            return GameSimulator.getPreviousInvestments(allDecisions.filter(d => d.team_id === teamId), targetRound);
         } catch (error) {
             console.error(`[ContinuationPricingEngine] Error getting previous investments:`, error);
             return [];
@@ -235,48 +53,13 @@ export class ContinuationPricingEngine {
         investmentId: string,
         targetRound: 2 | 3,
         previousInvestments: string[],
-        hasStrategy: boolean
+        hasStrategy: boolean,
+        pricingTables: ContinuationPricingTables = getGameStructure().continuation_pricing
     ): InvestmentAvailability {
-        const roundKey = `rd${targetRound}` as keyof typeof CONTINUATION_PRICING_TABLES;
-        const pricingInfo = CONTINUATION_PRICING_TABLES[roundKey][investmentId as keyof typeof CONTINUATION_PRICING_TABLES[typeof roundKey]];
-
-        if (!pricingInfo) {
+        if (!pricingTables[`rd${targetRound}`][investmentId]) {
             console.warn(`[ContinuationPricingEngine] No pricing info for investment ${investmentId} in round ${targetRound}`);
-            return 'fresh';
         }
-
-        // Special case: Strategy investment in RD-3 is not available
-        if (investmentId === 'A' && targetRound === 3) {
-            return 'not_available';
-        }
-
-        // Special case: Strategy investment in RD-2 - N/A if already purchased
-        if (investmentId === 'A' && targetRound === 2 && hasStrategy) {
-            return 'not_available';
-        }
-
-        // Check if investment requires previous round investment
-        if (pricingInfo.requiresPrevious) {
-            const hasPreviousInvestment = previousInvestments.includes(investmentId);
-            if (hasPreviousInvestment) {
-                return 'continue';
-            } else {
-                return 'not_available'; // Can't make fresh investment, need previous
-            }
-        }
-
-        // Check if team made this investment in previous round
-        const hasPreviousInvestment = previousInvestments.includes(investmentId);
-        if (hasPreviousInvestment && pricingInfo.continuationPrice !== null) {
-            return 'continue';
-        }
-
-        // Default to fresh if available
-        if (pricingInfo.freshPrice !== null) {
-            return 'fresh';
-        }
-
-        return 'not_available';
+        return GameSimulator.getInvestmentAvailability(investmentId, targetRound, previousInvestments, hasStrategy, pricingTables);
     }
 
     /**
@@ -285,28 +68,10 @@ export class ContinuationPricingEngine {
     static calculateFinalPrice(
         investmentId: string,
         targetRound: 2 | 3,
-        availability: InvestmentAvailability
+        availability: InvestmentAvailability,
+        pricingTables: ContinuationPricingTables = getGameStructure().continuation_pricing
     ): number {
-        if (availability === 'not_available') {
-            return 0;
-        }
-
-        const roundKey = `rd${targetRound}` as keyof typeof CONTINUATION_PRICING_TABLES;
-        const pricingInfo = CONTINUATION_PRICING_TABLES[roundKey][investmentId as keyof typeof CONTINUATION_PRICING_TABLES[typeof roundKey]];
-
-        if (!pricingInfo) {
-            return 0;
-        }
-
-        if (availability === 'continue' && pricingInfo.continuationPrice !== null) {
-            return pricingInfo.continuationPrice;
-        }
-
-        if (availability === 'fresh' && pricingInfo.freshPrice !== null) {
-            return pricingInfo.freshPrice;
-        }
-
-        return 0;
+        return GameSimulator.getInvestmentPrice(investmentId, targetRound, availability, pricingTables);
     }
 
     /**
@@ -317,10 +82,10 @@ export class ContinuationPricingEngine {
         targetRound: 2 | 3,
         availability: InvestmentAvailability,
         previousInvestments: string[],
-        hasStrategy: boolean
+        hasStrategy: boolean,
+        pricingTables: ContinuationPricingTables = getGameStructure().continuation_pricing
     ): string {
-        const roundKey = `rd${targetRound}` as keyof typeof CONTINUATION_PRICING_TABLES;
-        const pricingInfo = CONTINUATION_PRICING_TABLES[roundKey][investmentId as keyof typeof CONTINUATION_PRICING_TABLES[typeof roundKey]];
+        const pricingInfo: ContinuationPricingEntry | undefined = pricingTables[`rd${targetRound}`][investmentId];
         const previousRoundNumber = targetRound - 1;
 
         switch (availability) {
@@ -386,19 +151,21 @@ export class ContinuationPricingEngine {
     ): Promise<ContinuationPricingResult> {
         try {
             // Get previous investments and strategy status
-            const [previousInvestments, hasStrategy] = await Promise.all([
+            const [previousInvestments, hasStrategy, gameStructure] = await Promise.all([
                 this.getPreviousInvestments(sessionId, teamId, targetRound),
-                this.hasStrategyInvestment(sessionId, teamId)
+                this.hasStrategyInvestment(sessionId, teamId),
+                GameStructureResolver.forSession(sessionId)
             ]);
 
-            const roundKey = `rd${targetRound}` as keyof typeof CONTINUATION_PRICING_TABLES;
-            const availableInvestments = Object.keys(CONTINUATION_PRICING_TABLES[roundKey]);
+            const pricingTables = gameStructure.continuation_pricing;
+            const roundTable = pricingTables[`rd${targetRound}`];
+            const availableInvestments = Object.keys(roundTable);
 
             const investmentPricing: InvestmentPricing[] = availableInvestments.map(investmentId => {
-                const pricingInfo = CONTINUATION_PRICING_TABLES[roundKey][investmentId as keyof typeof CONTINUATION_PRICING_TABLES[typeof roundKey]];
-                const availability = this.determineAvailability(investmentId, targetRound, previousInvestments, hasStrategy);
-                const finalPrice = this.calculateFinalPrice(investmentId, targetRound, availability);
-                const reason = this.generateReasonText(investmentId, targetRound, availability, previousInvestments, hasStrategy);
+                const pricingInfo = roundTable[investmentId];
+                const availability = this.determineAvailability(investmentId, targetRound, previousInvestments, hasStrategy, pricingTables);
+                const finalPrice = this.calculateFinalPrice(investmentId, targetRound, availability, pricingTables);
+                const reason = this.generateReasonText(investmentId, targetRound, availability, previousInvestments, hasStrategy, pricingTables);
 
                 return {
                     investmentId,
@@ -416,7 +183,7 @@ export class ContinuationPricingEngine {
                 targetRound,
                 previousInvestments,
                 investmentPricing,
-                totalBudget: ROUND_BUDGETS[targetRound]
+                totalBudget: gameStructure.round_budgets[targetRound]
             };
 
             return result;
@@ -0,0 +1,226 @@
+// src/core/game/DebriefBuilder.ts
+// Post-game debrief: the sequence of slides the host steps through after the last game slide, and the
+// session numbers each one shows (choice spread per challenge, biggest KPI swings, double down outcomes)
+
+import {
+    DebriefSection,
+    DoubleDownResult,
+    GameStructure,
+    KpiLedgerEntry,
+    KpiLedgerKpi,
+    Slide,
+    Team,
+    TeamDecision
+} from '@shared/types';
+import {DOUBLE_DOWN_INVESTMENTS} from '@core/content/DoubleDownMapping';
+import {MultiSelectChallengeTracker} from './MultiSelectChallengeTracker';
+import {ChallengeChoiceStats} from './SessionAnalytics';
+
+export interface SwingMomentChange {
+    kpi: KpiLedgerKpi;
+    oldValue: number;
+    newValue: number;
+    favorable: boolean;         // cost going down counts as good news
+}
+
+export interface SwingMoment {
+    teamId: string;
+    teamName: string;
+    roundNumber: number;
+    description: string;
+    changes: SwingMomentChange[];
+    magnitude: number;          // largest relative change among the KPIs, 0.5 = 50%
+}
+
+export interface DoubleDownTeamOutcome {
+    teamId: string;
+    teamName: string;
+    doubledOn: string | null;   // investment names; null when the team passed
+    sacrificed: string | null;
+    boostPercentage: number | null;
+}
+
+export interface DoubleDownRollOutcome {
+    investmentId: string;
+    investmentName: string;
+    dice: [number, number];
+    boostPercentage: number;
+    teamNames: string[];
+}
+
+export interface DoubleDownOutcomes {
+    rolls: DoubleDownRollOutcome[];
+    teams: DoubleDownTeamOutcome[];
+}
+
+// Well clear of any content slide id, so the display never mistakes a debrief slide for a game slide
+export const DEBRIEF_SLIDE_ID_BASE = 10000;
+
+const DEFAULT_SWING_LIMIT = 6;
+
+const SECTION_TITLES: Record<DebriefSection, string> = {
+    kpi_trends: 'Financial Results by Round',
+    operational_trends: 'Operational KPIs by Round',
+    choice_distribution: 'How the Class Chose',
+    swing_moments: 'Biggest Swing Moments',
+    double_down_outcomes: 'Double Down Outcomes'
+};
+
+export class DebriefBuilder {
+    /**
+     * The debrief slides for a game: trends first, then one choice slide per challenge in play order,
+     * then swing moments and double down outcomes
+     */
+    static buildSlides(gameStructure: GameStructure): Slide[] {
+        const challengeSlides = gameStructure.slides.filter(slide =>
+            slide.type === 'interactive_choice' && slide.interactive_data_key
+        );
+        const challengeKeys = [...new Set(challengeSlides.map(slide => slide.interactive_data_key!))];
+
+        const sections: { section: DebriefSection; challenge_key?: string; heading?: string }[] = [
+            {section: 'kpi_trends'},
+            {section: 'operational_trends'},
+            ...challengeKeys.map(key => ({
+                section: 'choice_distribution' as const,
+                challenge_key: key,
+                heading: gameStructure.challenge_registry[key]?.title
+                    ?? challengeSlides.find(slide => slide.interactive_data_key === key)?.title
+                    ?? key
+            })),
+            {section: 'swing_moments'},
+            {section: 'double_down_outcomes'}
+        ];
+
+        return sections.map((spec, index) => ({
+            id: DEBRIEF_SLIDE_ID_BASE + index,
+            title: spec.heading ? `${SECTION_TITLES[spec.section]}: ${spec.heading}` : SECTION_TITLES[spec.section],
+            round_number: 0,
+            type: 'debrief',
+            debrief: spec
+        }));
+    }
+
+    static isDebriefSlide(slide: Slide | null | undefined): boolean {
+        return slide?.type === 'debrief';
+    }
+
+    /**
+     * Class-wide picks for one challenge. Multi-select combinations count as their own option, as in
+     * the cross-game analytics.
+     */
+    static getChoiceDistribution(
+        decisions: TeamDecision[],
+        challengeKey: string,
+        gameStructure: GameStructure
+    ): ChallengeChoiceStats {
+        const options = gameStructure.all_challenge_options[challengeKey] || [];
+        const counts = new Map<string, number>(options.map(option => [option.id, 0]));
+
+        const choices = decisions.filter(decision =>
+            decision.phase_id === challengeKey && decision.selected_challenge_option_id && !decision.is_immediate_purchase
+        );
+        choices.forEach(decision => {
+            const id = decision.selected_challenge_option_id!;
+            counts.set(id, (counts.get(id) || 0) + 1);
+        });
+
+        const optionText = (id: string) => {
+            const option = options.find(candidate => candidate.id === id);
+            if (option) return option.text;
+            return MultiSelectChallengeTracker.getCombinationDisplayText(MultiSelectChallengeTracker.parseSelection(id));
+        };
+
+        return {
+            challengeId: challengeKey,
+            title: gameStructure.challenge_registry[challengeKey]?.title ?? challengeKey,
+            teamCount: choices.length,
+            options: [...counts.entries()].map(([id, count]) => ({
+                id,
+                name: optionText(id),
+                count,
+                share: choices.length > 0 ? count / choices.length : 0
+            }))
+        };
+    }
+
+    /**
+     * The largest single events of the game from the KPI ledger, one moment per team per event.
+     * Round-start resets and host overrides are bookkeeping, not moments.
+     */
+    static getSwingMoments(ledger: KpiLedgerEntry[], teams: Team[], limit: number = DEFAULT_SWING_LIMIT): SwingMoment[] {
+        const teamNames = new Map(teams.map(team => [team.id, team.name]));
+        const moments = new Map<string, SwingMoment>();
+
+        ledger
+            .filter(entry => entry.source !== 'reset' && entry.source !== 'manual_override' && teamNames.has(entry.team_id))
+            .forEach(entry => {
+                const key = `${entry.team_id}|${entry.round_number}|${entry.source}|${entry.slide_id ?? ''}|${entry.description}`;
+                const moment = moments.get(key) ?? {
+                    teamId: entry.team_id,
+                    teamName: teamNames.get(entry.team_id)!,
+                    roundNumber: entry.round_number,
+                    description: entry.description,
+                    changes: [],
+                    magnitude: 0
+                };
+                const change = entry.new_value - entry.old_value;
+                moment.changes.push({
+                    kpi: entry.kpi,
+                    oldValue: entry.old_value,
+                    newValue: entry.new_value,
+                    favorable: entry.kpi === 'cost' ? change < 0 : change > 0
+                });
+                moment.magnitude = Math.max(moment.magnitude, Math.abs(change) / Math.max(Math.abs(entry.old_value), 1));
+                moments.set(key, moment);
+            });
+
+        return [...moments.values()]
+            .sort((a, b) => b.magnitude - a.magnitude)
+            .slice(0, limit);
+    }
+
+    /**
+     * What the dice did for each double down investment, and each team's double down choice
+     */
+    static getDoubleDownOutcomes(
+        results: DoubleDownResult[],
+        decisions: TeamDecision[],
+        teams: Team[],
+        gameStructure: GameStructure
+    ): DoubleDownOutcomes {
+        const investmentName = (id: string) =>
+            gameStructure.all_investment_options['rd3-invest']?.find(option => option.id === id)?.name
+            ?? DOUBLE_DOWN_INVESTMENTS.find(investment => investment.id === id)?.name
+            ?? id;
+
+        const rolls = results.map(result => ({
+            investmentId: result.investment_id,
+            investmentName: investmentName(result.investment_id),
+            dice: [result.dice1_value, result.dice2_value] as [number, number],
+            boostPercentage: result.boost_percentage,
+            teamNames: result.affected_teams
+        }));
+
+        const teamOutcomes = teams
+            .map(team => {
+                const decision = decisions.find(candidate =>
+                    candidate.team_id === team.id && candidate.phase_id === 'ch-dd-prompt'
+                );
+                if (!decision) return null;
+
+                const doubledOn = decision.double_down_on_id;
+                return {
+                    teamId: team.id,
+                    teamName: team.name,
+                    doubledOn: doubledOn ? investmentName(doubledOn) : null,
+                    sacrificed: decision.double_down_sacrifice_id ? investmentName(decision.double_down_sacrifice_id) : null,
+                    boostPercentage: doubledOn
+                        ? results.find(result => result.investment_id === doubledOn)?.boost_percentage ?? null
+                        : null
+                };
+            })
+            .filter((outcome): outcome is DoubleDownTeamOutcome => outcome !== null);
+
+        return {rolls, teams: teamOutcomes};
+    }
+}
@@ -0,0 +1,83 @@
+// src/core/game/DecisionJournal.ts
+// Per-team decision journal for debrief: every submitted decision in slide order, what was chosen and the
+// team's rationale for it
+
+import {GameStructure, Team, TeamDecision} from '@shared/types';
+import {MultiSelectChallengeTracker} from './MultiSelectChallengeTracker';
+
+export interface DecisionJournalEntry {
+    phaseId: string;
+    roundNumber: number;
+    decisionTitle: string;
+    choice: string;             // readable summary, e.g. "B. Automation, D. Training"
+    rationale: string | null;
+    submittedAt: string;
+}
+
+export interface TeamDecisionJournal {
+    team: Team;
+    entries: DecisionJournalEntry[];
+}
+
+export class DecisionJournal {
+    /**
+     * What a decision chose, using option names from the game structure where it has them
+     */
+    static describeChoice(decision: TeamDecision, gameStructure?: GameStructure | null): string {
+        const investmentName = (phaseId: string, id: string) =>
+            gameStructure?.all_investment_options[phaseId]?.find(option => option.id === id)?.name ?? id;
+
+        if (decision.double_down_on_id || decision.double_down_sacrifice_id || decision.selected_challenge_option_id === 'no_dd') {
+            if (decision.selected_challenge_option_id === 'no_dd') return 'No double down';
+            const doubled = decision.double_down_on_id ? investmentName('rd3-invest', decision.double_down_on_id) : 'nothing';
+            const sacrificed = decision.double_down_sacrifice_id ? investmentName('rd3-invest', decision.double_down_sacrifice_id) : 'nothing';
+            return `Double down on ${doubled}, sacrificing ${sacrificed}`;
+        }
+
+        const investments = decision.selected_investment_options || [];
+        if (investments.length > 0) {
+            return [...investments].sort().map(id => investmentName(decision.phase_id, id)).join(', ');
+        }
+
+        const optionId = decision.selected_challenge_option_id;
+        if (optionId) {
+            return optionId.includes(',')
+                ? MultiSelectChallengeTracker.getCombinationDisplayText(MultiSelectChallengeTracker.parseSelection(optionId))
+                : `Option ${optionId}`;
+        }
+
+        return 'No selection';
+    }
+
+    /**
+     * One journal per team, in team order. Immediate purchases are left out: they're made mid-decision
+     * and show up in that decision's investments.
+     */
+    static build(teams: Team[], decisions: TeamDecision[], gameStructure?: GameStructure | null): TeamDecisionJournal[] {
+        const slides = gameStructure?.interactive_slides ?? [];
+        const slideOrder = (phaseId: string) => {
+            const index = slides.findIndex(slide => slide.interactive_data_key === phaseId);
+            return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+        };
+        const titleFor = (phaseId: string) =>
+            slides.find(slide => slide.interactive_data_key === phaseId)?.title ?? phaseId;
+
+        return teams.map(team => ({
+            team,
+            entries: decisions
+                .filter(decision => decision.team_id === team.id && !decision.is_immediate_purchase && decision.submitted_at)
+                .sort((a, b) =>
+                    a.round_number - b.round_number ||
+                    slideOrder(a.phase_id) - slideOrder(b.phase_id) ||
+                    a.submitted_at.localeCompare(b.submitted_at))
+                .map(decision => ({
+                    phaseId: decision.phase_id,
+                    roundNumber: decision.round_number,
+                    decisionTitle: titleFor(decision.phase_id),
+                    choice: DecisionJournal.describeChoice(decision, gameStructure),
+                    rationale: decision.rationale?.trim() || null,
+                    submittedAt: decision.submitted_at
+                }))
+        }));
+    }
+}
@@ -0,0 +1,89 @@
+// src/core/game/DoubleDownDice.ts
+// The one place double down dice are rolled. The backend makes every roll: a digital roll is derived from a seed
+// the server picks, so anyone can re-derive the dice from the stored row; a physical roll records the two dice
+// the facilitator rolled in the room. Re-rolls are host-only, need a reason and keep the roll they replace.
+
+import {DoubleDownResult, DoubleDownRollClaim} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {diceFromSeed, isDieValue} from '@shared/services/supabase/storage/diceRolls';
+import {DoubleDownEffectsProcessor} from './DoubleDownEffectsProcessor';
+
+export type {DoubleDownRollClaim};
+
+export type DoubleDownRollInput =
+    | { mode: 'digital' }
+    | { mode: 'physical'; dice: [number, number] };
+
+export class DoubleDownDice {
+    static diceFromSeed(seed: string): Promise<[number, number]> {
+        return diceFromSeed(seed);
+    }
+
+    /**
+     * Whether a stored digital roll matches its seed. Physical rolls have nothing to check against.
+     */
+    static async verify(result: Pick<DoubleDownResult, 'roll_mode' | 'seed' | 'dice1_value' | 'dice2_value'>): Promise<boolean> {
+        if (result.roll_mode !== 'digital') return true;
+        if (!result.seed) return false;
+        const [dice1, dice2] = await this.diceFromSeed(result.seed);
+        return dice1 === result.dice1_value && dice2 === result.dice2_value;
+    }
+
+    /**
+     * Why an input can't be rolled, or null when it can
+     */
+    static validate(input: DoubleDownRollInput): string | null {
+        if (input.mode === 'physical' && !input.dice.every(isDieValue)) {
+            return 'Enter both dice as a number from 1 to 6';
+        }
+        return null;
+    }
+
+    /**
+     * Roll an investment's dice and apply the boost. Only the first roll for an investment counts: a
+     * second caller gets the stored roll back and applies nothing.
+     */
+    static async roll(sessionId: string, investmentId: string, input: DoubleDownRollInput): Promise<DoubleDownRollClaim> {
+        const validationError = this.validate(input);
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        const claim = await db.doubleDown.rollDice(sessionId, investmentId, input.mode === 'physical' ? input.dice : null);
+
+        // Another display rolled first: its roll stands and its effects were applied with it
+        if (!claim.created) return claim;
+
+        await DoubleDownEffectsProcessor.processDoubleDownForInvestment(sessionId, investmentId, claim.result.boost_percentage);
+        return claim;
+    }
+
+    /**
+     * Replace an investment's roll. The replaced roll is kept in the result's re-roll log with the reason,
+     * and teams are moved from the old boost to the new one.
+     */
+    static async reroll(
+        sessionId: string,
+        investmentId: string,
+        input: DoubleDownRollInput,
+        reason: string
+    ): Promise<DoubleDownResult> {
+        const trimmedReason = reason.trim();
+        if (!trimmedReason) {
+            throw new Error('A reason is required to re-roll');
+        }
+        const validationError = this.validate(input);
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        const updated = await db.doubleDown.rerollDice(
+            sessionId, investmentId, input.mode === 'physical' ? input.dice : null, trimmedReason
+        );
+
+        // The roll just replaced is the last one in the log
+        const replaced = updated.rerolls[updated.rerolls.length - 1];
+        await DoubleDownEffectsProcessor.processReroll(sessionId, investmentId, replaced.boost_percentage, updated.boost_percentage);
+        return updated;
+    }
+}
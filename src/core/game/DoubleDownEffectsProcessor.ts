@@ -1,14 +1,36 @@
 // src/core/game/DoubleDownEffectsProcessor.ts
-import {ScoringEngine} from './ScoringEngine';
-import {allInvestmentPayoffsData} from '@core/content/InvestmentPayoffContent';
 import {db} from '@shared/services/supabase';
+import {DOUBLE_DOWN_INVESTMENT_PHASE, GameSimulator} from '@core/simulation/GameSimulator';
+import {GameStructure, KpiEffect, TeamDecision} from '@shared/types';
+import {GameStructureResolver} from './GameStructureResolver';
+import {KpiLedger} from './KpiLedger';
 
-interface KpiChangeDetail {
+export interface KpiChangeDetail {
     kpi: string;
     change_value: number;
     display_value: string;
 }
 
+// What the double down deal came to for one team: the dice boost on one investment, minus the
+// RD-3 payoff of the investment it sacrificed
+export interface DoubleDownNetEffect {
+    teamId: string;
+    investmentId: string;
+    boostPercentage: number;
+    sacrificedId: string | null;
+    changes: KpiChangeDetail[];
+}
+
+const SACRIFICE_APPLICATION_PHASE = 'double-down-sacrifice';
+
+// The investment's dice roll slide, which the boost and the sacrifice are recorded against
+const findDiceSlideId = (structure: GameStructure, investmentId: string): number | undefined =>
+    structure.slides.find(slide => slide.type === 'double_down_dice_roll' && slide.interactive_data_key === investmentId)?.id;
+
+// A team's decisions keyed by phase, the shape the simulator resolves against
+const toPhaseDecisions = (decisions: TeamDecision[], teamId: string): Record<string, TeamDecision> =>
+    Object.fromEntries(decisions.filter(decision => decision.team_id === teamId).map(decision => [decision.phase_id, decision]));
+
 export class DoubleDownEffectsProcessor {
     /**
      * Process double down effects for a specific investment when dice are rolled
@@ -27,11 +49,16 @@ export class DoubleDownEffectsProcessor {
                 return;
             }
 
-            // FIXED: Calculate multiplier correctly - this is the ADDITIONAL amount to add
-            // 100% = add 100% of original (1x), 75% = add 75% of original (0.75x), etc.
-            const multiplier = boostPercentage / 100; // NOT (1 + boostPercentage / 100)
+            // The boost is the ADDITIONAL amount to add: 100% = add 100% of the original payoff, 75% = add 75%, etc.
+            console.log(`[DoubleDownEffectsProcessor] Applying ${boostPercentage}% bonus to ${decisions.length} teams for investment ${investmentId}`);
 
-            console.log(`[DoubleDownEffectsProcessor] Applying ${boostPercentage}% bonus (${multiplier}x additional) to ${decisions.length} teams for investment ${investmentId}`);
+            const structure = await GameStructureResolver.forSession(sessionId);
+            const slideId = findDiceSlideId(structure, investmentId);
+            if (slideId === undefined) {
+                console.error(`[DoubleDownEffectsProcessor] No dice roll slide for investment ${investmentId}`);
+                return;
+            }
+            const sessionDecisions = await db.decisions.getBySession(sessionId);
 
             // Apply effects to each team
             for (const decision of decisions) {
@@ -39,10 +66,10 @@ export class DoubleDownEffectsProcessor {
                     sessionId,
                     decision.team_id,
                     investmentId,
-                    multiplier,
                     boostPercentage,
-                    185 // Default slide ID for double down, could be passed as parameter
+                    slideId
                 );
+                await this.settleSacrifice(sessionId, decision.team_id, structure, toPhaseDecisions(sessionDecisions, decision.team_id), slideId);
 
                 console.log(`[DoubleDownEffectsProcessor] Applied ${boostPercentage}% bonus to team ${decision.teams.name} for investment ${investmentId}`);
             }
@@ -51,6 +78,49 @@ export class DoubleDownEffectsProcessor {
         }
     }
 
+    /**
+     * Move teams from the replaced roll's boost to the re-roll's. Teams that already received the first
+     * boost get the difference; any team that hadn't been processed yet gets the new boost in full.
+     */
+    static async processReroll(
+        sessionId: string,
+        investmentId: string,
+        previousBoost: number,
+        newBoost: number
+    ): Promise<void> {
+        try {
+            const decisions = await db.doubleDown.getTeamsForInvestment(sessionId, investmentId);
+            const structure = await GameStructureResolver.forSession(sessionId);
+            const difference = GameSimulator.resolveDoubleDownReroll(structure, investmentId, previousBoost, newBoost);
+
+            for (const decision of decisions) {
+                if (!await db.doubleDown.hasEffectsBeenApplied(sessionId, decision.team_id, investmentId)) continue;
+                if (difference.length === 0) continue;
+
+                const currentKpis = await db.kpis.getForTeamRound(sessionId, decision.team_id, 3);
+                if (!currentKpis) {
+                    console.error(`[DoubleDownEffectsProcessor] No KPI data found for team ${decision.team_id.substring(0, 8)}`);
+                    continue;
+                }
+
+                const updatedKpis = GameSimulator.applyEffects(currentKpis, difference);
+                await db.kpis.update(currentKpis.id, updatedKpis);
+                await KpiLedger.record(currentKpis, updatedKpis, {
+                    source: 'double_down',
+                    sourceId: 'rd3-invest',
+                    optionId: investmentId,
+                    slideId: findDiceSlideId(structure, investmentId),
+                    description: `Double down re-roll on investment ${investmentId}: ${previousBoost}% → ${newBoost}% boost`
+                });
+            }
+
+            // Teams not processed before the re-roll (e.g. the first roll's effects failed) get the new boost
+            await this.processDoubleDownForInvestment(sessionId, investmentId, newBoost);
+        } catch (error) {
+            console.error('[DoubleDownEffectsProcessor] Error processing double down re-roll:', error);
+        }
+    }
+
     /**
      * Process all double down results (existing method)
      */
@@ -83,7 +153,6 @@ export class DoubleDownEffectsProcessor {
         sessionId: string,
         teamId: string,
         investmentOptionId: string,
-        multiplier: number,
         boostPercentage: number,
         slideId: number
     ) {
@@ -102,22 +171,15 @@ export class DoubleDownEffectsProcessor {
 
             console.log(`[DoubleDownEffectsProcessor] Applying ${boostPercentage}% boost to team ${teamId.substring(0, 8)} for investment ${investmentOptionId}`);
 
-            // Get the base payoff effects for this investment from RD3 payoffs
-            const rd3Payoffs = allInvestmentPayoffsData['rd3-payoff'] || [];
-            const payoffForOption = rd3Payoffs.find(p => p.id === investmentOptionId);
+            // Boosted share of the investment's RD3 payoff effects
+            const structure = await GameStructureResolver.forSession(sessionId);
+            const multipliedEffects = GameSimulator.resolveDoubleDown(structure, investmentOptionId, boostPercentage);
 
-            if (!payoffForOption?.effects) {
+            if (multipliedEffects.length === 0) {
                 console.warn(`[DoubleDownEffectsProcessor] No payoff effects found for investment ${investmentOptionId}`);
                 return;
             }
 
-            // Apply multiplier to each effect
-            const multipliedEffects = payoffForOption.effects.map(effect => ({
-                ...effect,
-                change_value: Math.round(effect.change_value * multiplier),
-                description: `${effect.description || ''} (+${boostPercentage}% Double Down Bonus)`
-            }));
-
             // Get current team KPIs
             const currentKpis = await db.kpis.getForTeamRound(sessionId, teamId, 3);
 
@@ -126,14 +188,15 @@ export class DoubleDownEffectsProcessor {
                 return;
             }
 
-            // Apply the multiplied effects
-            const updatedKpis = ScoringEngine.applyKpiEffects(currentKpis, multipliedEffects);
-            const finalKpis = ScoringEngine.calculateFinancialMetrics(updatedKpis);
-
-            // Save to database
-            await db.kpis.update(currentKpis.id, {
-                ...updatedKpis,
-                ...finalKpis
+            // Apply the multiplied effects and save to database
+            const updatedKpis = GameSimulator.applyEffects(currentKpis, multipliedEffects);
+            await db.kpis.update(currentKpis.id, updatedKpis);
+            await KpiLedger.record(currentKpis, updatedKpis, {
+                source: 'double_down',
+                sourceId: 'rd3-invest',
+                optionId: investmentOptionId,
+                slideId,
+                description: `Double down on investment ${investmentOptionId}: ${boostPercentage}% boost`
             });
 
             // Record that double down effects have been applied
@@ -156,34 +219,125 @@ export class DoubleDownEffectsProcessor {
     }
 
     /**
-     * Get KPI changes for display purposes
+     * Make sure a team that doubled down doesn't keep its sacrificed investment's RD-3 payoff. Payoff slides
+     * already skip it; a payoff that went through anyway (the decision changed after the payoff slide) is
+     * taken back here. Recorded once per team, so replaying the dice slide changes nothing.
      */
-    static async getKpiChangesForDisplay(
+    private static async settleSacrifice(
         sessionId: string,
-        investmentId: string,
-        boostPercentage: number
-    ): Promise<KpiChangeDetail[]> {
+        teamId: string,
+        structure: GameStructure,
+        phaseDecisions: Record<string, TeamDecision>,
+        slideId: number
+    ) {
+        const sacrificedId = GameSimulator.getSacrificedInvestment(phaseDecisions);
+        if (!sacrificedId) return;
+
         try {
-            const rd3Payoffs = allInvestmentPayoffsData['rd3-payoff'] || [];
-            const payoffForOption = rd3Payoffs.find(p => p.id === investmentId);
+            if (await db.doubleDown.hasEffectsBeenApplied(sessionId, teamId, sacrificedId, SACRIFICE_APPLICATION_PHASE)) return;
+
+            const payoffWasApplied = await db.payoffApplications.hasBeenApplied(
+                sessionId, teamId, DOUBLE_DOWN_INVESTMENT_PHASE, sacrificedId
+            );
+            const reversal = payoffWasApplied ? GameSimulator.resolveSacrifice(structure, phaseDecisions) : [];
 
-            if (!payoffForOption?.effects) {
-                return [];
+            if (reversal.length > 0) {
+                const currentKpis = await db.kpis.getForTeamRound(sessionId, teamId, 3);
+                if (!currentKpis) {
+                    console.error(`[DoubleDownEffectsProcessor] No KPI data found for team ${teamId.substring(0, 8)}`);
+                    return;
+                }
+
+                const updatedKpis = GameSimulator.applyEffects(currentKpis, reversal);
+                await db.kpis.update(currentKpis.id, updatedKpis);
+                await KpiLedger.record(currentKpis, updatedKpis, {
+                    source: 'double_down',
+                    sourceId: 'rd3-invest',
+                    optionId: sacrificedId,
+                    slideId,
+                    description: `Sacrificed investment ${sacrificedId}: RD-3 payoff reversed`
+                });
             }
 
-            const multiplier = 1 + (boostPercentage / 100);
+            await db.doubleDown.recordEffectsApplied(sessionId, teamId, sacrificedId, slideId, SACRIFICE_APPLICATION_PHASE);
+        } catch (error) {
+            console.error(`[DoubleDownEffectsProcessor] Error settling sacrifice for team ${teamId.substring(0, 8)}:`, error);
+        }
+    }
+
+    /**
+     * Net KPI change of a team's double down: the boost it rolled plus the payoff it sacrificed, per KPI
+     */
+    static getNetChanges(
+        structure: GameStructure,
+        phaseDecisions: Record<string, TeamDecision>,
+        investmentId: string,
+        boostPercentage: number
+    ): KpiChangeDetail[] {
+        const effects: KpiEffect[] = [
+            ...GameSimulator.resolveDoubleDown(structure, investmentId, boostPercentage),
+            ...GameSimulator.resolveSacrifice(structure, phaseDecisions)
+        ];
+
+        const totals = new Map<string, number>();
+        effects.forEach(effect => totals.set(effect.kpi, (totals.get(effect.kpi) || 0) + effect.change_value));
+
+        return [...totals.entries()]
+            .filter(([, value]) => value !== 0)
+            .map(([kpi, value]) => ({kpi, change_value: value, display_value: this.formatKpiValue(kpi, value)}));
+    }
 
-            return payoffForOption.effects.map(effect => ({
-                kpi: effect.kpi,
-                change_value: Math.round(effect.change_value * multiplier),
-                display_value: this.formatKpiValue(effect.kpi, Math.round(effect.change_value * multiplier))
+    /**
+     * Net double down effect for every team that doubled down on an investment, by team name
+     */
+    static async getTeamNetChangesForDisplay(
+        sessionId: string,
+        investmentId: string,
+        boostPercentage: number
+    ): Promise<{ team_name: string; changes: KpiChangeDetail[] }[]> {
+        try {
+            const [structure, teams, decisions] = await Promise.all([
+                GameStructureResolver.forSession(sessionId),
+                db.doubleDown.getTeamsForInvestment(sessionId, investmentId),
+                db.decisions.getBySession(sessionId)
+            ]);
+
+            return teams.map(team => ({
+                team_name: team.teams.name,
+                changes: this.getNetChanges(structure, toPhaseDecisions(decisions, team.team_id), investmentId, boostPercentage)
             }));
         } catch (error) {
-            console.error('[DoubleDownEffectsProcessor] Error getting KPI changes for display:', error);
+            console.error('[DoubleDownEffectsProcessor] Error getting team net changes for display:', error);
             return [];
         }
     }
 
+    /**
+     * A team's double down outcome once its dice have been rolled, or null before that (or if it passed)
+     */
+    static async getNetEffectForTeam(sessionId: string, teamId: string): Promise<DoubleDownNetEffect | null> {
+        try {
+            const phaseDecisions = toPhaseDecisions(await db.decisions.getBySession(sessionId), teamId);
+            const investmentId = phaseDecisions['ch-dd-prompt']?.double_down_on_id;
+            if (!investmentId) return null;
+
+            const result = await db.doubleDown.getResultForInvestment(sessionId, investmentId);
+            if (!result) return null;
+
+            const structure = await GameStructureResolver.forSession(sessionId);
+            return {
+                teamId,
+                investmentId,
+                boostPercentage: result.boost_percentage,
+                sacrificedId: GameSimulator.getSacrificedInvestment(phaseDecisions),
+                changes: this.getNetChanges(structure, phaseDecisions, investmentId, result.boost_percentage)
+            };
+        } catch (error) {
+            console.error('[DoubleDownEffectsProcessor] Error getting net effect for team:', error);
+            return null;
+        }
+    }
+
     /**
      * Format KPI values for display
      */
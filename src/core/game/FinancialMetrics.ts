@@ -0,0 +1,101 @@
+// src/core/game/FinancialMetrics.ts
+// The one definition of every derived financial metric. Scoring, stored round data, leaderboards,
+// charts, results and exports all read their numbers from here so they can never disagree.
+
+import {MetricKey, TeamRoundData} from '@shared/types';
+
+type MetricsKpis = Pick<TeamRoundData, 'current_capacity' | 'current_orders' | 'current_cost' | 'current_asp'>;
+
+export interface FinancialMetricValues {
+    unitsSold: number;          // boards built and sold: orders beyond capacity can't be filled
+    unmetDemand: number;        // orders lost to missing capacity
+    revenue: number;            // units sold x ASP
+    netIncome: number;          // revenue - cost
+    netMargin: number;          // net income / revenue as a fraction (0.25 = 25%), 0 without revenue
+    costPerBoard: number;       // cost / units sold (the full cost when nothing was sold)
+}
+
+// The derived columns saved on team_round_data
+export interface StoredFinancialMetrics {
+    revenue: number;
+    net_income: number;
+    net_margin: number;
+}
+
+export class FinancialMetrics {
+    static calculate(kpis: MetricsKpis): FinancialMetricValues {
+        const capacity = kpis.current_capacity || 0;
+        const orders = kpis.current_orders || 0;
+        const cost = kpis.current_cost || 0;
+        const asp = kpis.current_asp || 0;
+
+        const unitsSold = Math.max(0, Math.min(capacity, orders));
+        const revenue = unitsSold * asp;
+        const netIncome = revenue - cost;
+
+        return {
+            unitsSold,
+            unmetDemand: Math.max(0, orders - Math.max(0, capacity)),
+            revenue: Math.round(revenue),
+            netIncome: Math.round(netIncome),
+            netMargin: revenue > 0 ? parseFloat((netIncome / revenue).toFixed(4)) : 0,
+            costPerBoard: cost / Math.max(unitsSold, 1)
+        };
+    }
+
+    /**
+     * Value of a single KPI or derived metric, as shown on leaderboards and charts
+     */
+    static getValue(kpis: MetricsKpis, metric: MetricKey): number {
+        switch (metric) {
+            case 'capacity':
+                return kpis.current_capacity || 0;
+            case 'orders':
+                return kpis.current_orders || 0;
+            case 'cost':
+                return kpis.current_cost || 0;
+            case 'asp':
+                return kpis.current_asp || 0;
+        }
+
+        const metrics = this.calculate(kpis);
+        switch (metric) {
+            case 'revenue':
+                return metrics.revenue;
+            case 'net_income':
+                return metrics.netIncome;
+            case 'net_margin':
+                return metrics.netMargin;
+            case 'cost_per_board':
+                return metrics.costPerBoard;
+            case 'units_sold':
+                return metrics.unitsSold;
+            case 'unmet_demand':
+                return metrics.unmetDemand;
+            default:
+                return 0;
+        }
+    }
+
+    /**
+     * The revenue / net_income / net_margin columns to save alongside the current KPIs
+     */
+    static toStoredFields(kpis: MetricsKpis): StoredFinancialMetrics {
+        const metrics = this.calculate(kpis);
+        return {
+            revenue: metrics.revenue,
+            net_income: metrics.netIncome,
+            net_margin: metrics.netMargin
+        };
+    }
+
+    /**
+     * Whether a saved row's derived columns no longer match its current KPIs
+     */
+    static isStale(roundData: MetricsKpis & Partial<StoredFinancialMetrics>): boolean {
+        const expected = this.toStoredFields(roundData);
+        return Number(roundData.revenue) !== expected.revenue ||
+            Number(roundData.net_income) !== expected.net_income ||
+            Math.abs(Number(roundData.net_margin) - expected.net_margin) > 0.00005;
+    }
+}
@@ -0,0 +1,240 @@
+// src/core/game/GameResultsExport.ts
+// Collects a finished game's standings, round KPIs, decisions, decision journal and applied effects as
+// plain tables for export
+
+import {
+    GameSession,
+    GameStructure,
+    KpiLedgerEntry,
+    PermanentKpiAdjustment,
+    Team,
+    TeamDecision,
+    TeamRoundData
+} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {ExportTable} from '@shared/utils/export';
+import {GameSessionManager} from './GameSessionManager';
+import {FinancialMetrics} from './FinancialMetrics';
+import {GameStructureResolver} from './GameStructureResolver';
+import {DecisionJournal} from './DecisionJournal';
+
+export interface GameResultsData {
+    session: GameSession;
+    gameStructure: GameStructure;
+    teams: Team[];
+    roundData: TeamRoundData[];
+    decisions: TeamDecision[];
+    ledger: KpiLedgerEntry[];
+    adjustments: PermanentKpiAdjustment[];
+}
+
+export interface GameResultsStanding {
+    rank: number;
+    team: Team;
+    finalRound: number;         // last round the team has KPIs for
+    netIncome: number;
+    revenue: number;
+    netMargin: number;          // fraction, 0.25 = 25%
+    capacity: number;
+    orders: number;
+    cost: number;
+    asp: number;
+}
+
+const decisionType = (decision: TeamDecision): string => {
+    if (decision.is_immediate_purchase) return 'immediate_purchase';
+    if (decision.double_down_on_id || decision.double_down_sacrifice_id) return 'double_down';
+    if (decision.selected_investment_options?.length) return 'investment';
+    if (decision.selected_challenge_option_id) return 'challenge';
+    return 'other';
+};
+
+export class GameResultsExport {
+    static async load(sessionId: string): Promise<GameResultsData> {
+        const [session, teams, roundData, decisions, ledger, adjustments] = await Promise.all([
+            GameSessionManager.getInstance().loadSession(sessionId),
+            db.teams.getBySession(sessionId),
+            db.kpis.getBySession(sessionId),
+            db.decisions.getBySession(sessionId),
+            db.kpiLedger.getBySession(sessionId),
+            db.adjustments.getBySession(sessionId)
+        ]);
+
+        const gameStructure = await GameStructureResolver.forSessionRecord(session);
+
+        return {
+            session,
+            gameStructure,
+            teams: teams as Team[],
+            roundData: roundData as TeamRoundData[],
+            decisions: decisions as TeamDecision[],
+            ledger,
+            adjustments: adjustments as PermanentKpiAdjustment[]
+        };
+    }
+
+    /**
+     * Final standings by net income of each team's last played round (round 3 for a completed game)
+     */
+    static getStandings(data: GameResultsData): GameResultsStanding[] {
+        const standings: GameResultsStanding[] = [];
+        data.teams.forEach(team => {
+            const finalData = data.roundData
+                .filter(row => row.team_id === team.id)
+                .sort((a, b) => b.round_number - a.round_number)[0];
+            if (!finalData) return;
+
+            const {netIncome, revenue, netMargin} = FinancialMetrics.calculate(finalData);
+            standings.push({
+                rank: 0,
+                team,
+                finalRound: finalData.round_number,
+                netIncome,
+                revenue,
+                netMargin,
+                capacity: finalData.current_capacity,
+                orders: finalData.current_orders,
+                cost: finalData.current_cost,
+                asp: finalData.current_asp
+            });
+        });
+
+        return standings
+            .sort((a, b) => b.netIncome - a.netIncome)
+            .map((standing, index) => ({...standing, rank: index + 1}));
+    }
+
+    static buildTables(data: GameResultsData): ExportTable[] {
+        const teamName = (teamId: string) => data.teams.find(team => team.id === teamId)?.name ?? teamId;
+        const teamOrder = (teamId: string) => data.teams.findIndex(team => team.id === teamId);
+        const byTeamThenRound = <T extends { team_id: string }>(rows: T[], round: (row: T) => number) =>
+            [...rows].sort((a, b) => teamOrder(a.team_id) - teamOrder(b.team_id) || round(a) - round(b));
+
+        const standings: ExportTable = {
+            name: 'standings',
+            columns: ['rank', 'team', 'final_round', 'net_income', 'revenue', 'net_margin_pct', 'capacity', 'orders', 'cost', 'asp'],
+            rows: this.getStandings(data).map(standing => [
+                standing.rank,
+                standing.team.name,
+                standing.finalRound,
+                standing.netIncome,
+                standing.revenue,
+                Math.round(standing.netMargin * 1000) / 10,
+                standing.capacity,
+                standing.orders,
+                standing.cost,
+                standing.asp
+            ])
+        };
+
+        const roundKpis: ExportTable = {
+            name: 'round_kpis',
+            columns: [
+                'team', 'round',
+                'start_capacity', 'current_capacity', 'start_orders', 'current_orders',
+                'start_cost', 'current_cost', 'start_asp', 'current_asp',
+                'units_sold', 'unmet_demand', 'revenue', 'net_income', 'net_margin_pct', 'cost_per_board'
+            ],
+            rows: byTeamThenRound(data.roundData, row => row.round_number).map(row => {
+                const metrics = FinancialMetrics.calculate(row);
+                return [
+                    teamName(row.team_id),
+                    row.round_number,
+                    row.start_capacity, row.current_capacity,
+                    row.start_orders, row.current_orders,
+                    row.start_cost, row.current_cost,
+                    row.start_asp, row.current_asp,
+                    metrics.unitsSold,
+                    metrics.unmetDemand,
+                    metrics.revenue,
+                    metrics.netIncome,
+                    Math.round(metrics.netMargin * 1000) / 10,
+                    Math.round(metrics.costPerBoard * 100) / 100
+                ];
+            })
+        };
+
+        const decisions: ExportTable = {
+            name: 'decisions',
+            columns: [
+                'team', 'round', 'phase_id', 'type', 'investments', 'challenge_option',
+                'double_down_on', 'double_down_sacrifice', 'immediate_purchase_type', 'total_spent_budget',
+                'rationale', 'submitted_at'
+            ],
+            rows: byTeamThenRound(data.decisions, decision => decision.round_number).map(decision => [
+                teamName(decision.team_id),
+                decision.round_number,
+                decision.phase_id,
+                decisionType(decision),
+                (decision.selected_investment_options || []).join(' '),
+                decision.selected_challenge_option_id,
+                decision.double_down_on_id,
+                decision.double_down_sacrifice_id,
+                decision.immediate_purchase_type,
+                decision.total_spent_budget,
+                decision.rationale,
+                decision.submitted_at
+            ])
+        };
+
+        const decisionJournal: ExportTable = {
+            name: 'decision_journal',
+            columns: ['team', 'round', 'decision', 'choice', 'rationale', 'submitted_at'],
+            rows: DecisionJournal.build(data.teams, data.decisions, data.gameStructure).flatMap(journal =>
+                journal.entries.map(entry => [
+                    journal.team.name,
+                    entry.roundNumber,
+                    entry.decisionTitle,
+                    entry.choice,
+                    entry.rationale,
+                    entry.submittedAt
+                ]))
+        };
+
+        const appliedEffects: ExportTable = {
+            name: 'applied_effects',
+            columns: [
+                'team', 'round', 'kpi', 'old_value', 'new_value', 'change', 'source', 'source_id', 'option_id',
+                'slide_id', 'description', 'created_at'
+            ],
+            rows: data.ledger.map(entry => [
+                teamName(entry.team_id),
+                entry.round_number,
+                entry.kpi,
+                entry.old_value,
+                entry.new_value,
+                entry.new_value - entry.old_value,
+                entry.source,
+                entry.source_id,
+                entry.option_id,
+                entry.slide_id,
+                entry.description,
+                entry.created_at
+            ])
+        };
+
+        const permanentAdjustments: ExportTable = {
+            name: 'permanent_adjustments',
+            columns: ['team', 'applies_to_round_start', 'kpi', 'change', 'challenge_id', 'option_id', 'description'],
+            rows: byTeamThenRound(data.adjustments, adjustment => adjustment.applies_to_round_start).map(adjustment => [
+                teamName(adjustment.team_id),
+                adjustment.applies_to_round_start,
+                adjustment.kpi_key,
+                adjustment.change_value,
+                adjustment.challenge_id,
+                adjustment.option_id,
+                adjustment.description
+            ])
+        };
+
+        return [standings, roundKpis, decisions, decisionJournal, appliedEffects, permanentAdjustments];
+    }
+
+    /**
+     * File name stem shared by every export format, e.g. "period-3-results-2026-05-14"
+     */
+    static getFileStem(session: GameSession): string {
+        const slug = session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'game';
+        return `${slug}-results-${new Date().toISOString().split('T')[0]}`;
+    }
+}
@@ -1,7 +1,17 @@
 // src/core/game/GameSessionManager.ts - COMPLETE VERSION
-import {GameStructure, GameSession, GameSessionInsert, NewGameData, TeamRoundData} from '@shared/types';
+import {
+    ContentPackSnapshot,
+    GameStructure,
+    GameSession,
+    GameSessionInsert,
+    NewGameData,
+    TeamRoundData
+} from '@shared/types';
 import {db, formatSupabaseError} from '@shared/services/supabase';
 import { ScoringEngine } from './ScoringEngine';
+import { FinancialMetrics } from './FinancialMetrics';
+import {GameStructureResolver} from './GameStructureResolver';
+import {normalizeGameVersion} from '@core/content/GameVariants';
 import {SimpleRealtimeManager} from "@core/sync";
 
 export class GameSessionManager {
@@ -30,7 +40,7 @@ export class GameSessionManager {
             name: `Draft Game - ${new Date().toLocaleDateString()}`,
             host_id: hostId,
             status: 'draft',
-            game_version: '2.0_dd',
+            game_version: normalizeGameVersion(fullGameStructure.id),
             current_slide_index: 0,
             is_playing: false,
             is_complete: false,
@@ -62,19 +72,43 @@ export class GameSessionManager {
         }
     }
 
+    /**
+     * The game is played with a copy of its content pack, taken here when the game is created
+     */
+    private async snapshotContentPack(packId: string | null | undefined): Promise<Partial<GameSessionInsert>> {
+        if (!packId) return {};
+
+        const pack = await db.contentPacks.getById(packId);
+        if (!pack) {
+            throw new Error('The selected content pack no longer exists. Pick another one, or the standard content.');
+        }
+        const snapshot: ContentPackSnapshot = {
+            pack_id: pack.id,
+            name: pack.name,
+            content: pack.content,
+            updated_at: pack.updated_at,
+        };
+        return {content_pack_id: pack.id, content_pack_snapshot: snapshot};
+    }
+
     async finalizeDraftSession(
         sessionId: string,
         finalGameData: NewGameData
     ): Promise<GameSession> {
         try {
+            const contentPackFields = await this.snapshotContentPack(finalGameData.content_pack_id);
             const updatedSession = await this.updateSession(sessionId, {
                 status: 'active',
                 name: finalGameData.name.trim() || `Game Session - ${new Date().toLocaleDateString()}`,
                 class_name: finalGameData.class_name?.trim() || null,
                 grade_level: finalGameData.grade_level || null,
                 game_version: finalGameData.game_version,
+                ...contentPackFields,
+                ...(finalGameData.team_submission_mode ? {team_submission_mode: finalGameData.team_submission_mode} : {}),
+                ...(finalGameData.max_devices_per_team ? {max_devices_per_team: finalGameData.max_devices_per_team} : {}),
                 wizard_state: null,
             });
+            GameStructureResolver.clearCache(sessionId);
 
             const teamsToCreate = finalGameData.teams_config || [];
             if (teamsToCreate.length > 0) {
@@ -96,14 +130,10 @@ export class GameSessionManager {
                         1 // Start with Round 1
                     );
 
-                    // Create temporary object with id for financial metrics calculation
-                    const kpiWithId = { ...baselineKpis, id: 'temp' } as TeamRoundData;
-                    const financialMetrics = ScoringEngine.calculateFinancialMetrics(kpiWithId);
-
                     // Insert initial KPI data into database
                     await db.kpis.create({
                         ...baselineKpis,
-                        ...financialMetrics
+                        ...FinancialMetrics.toStoredFields(baselineKpis)
                     });
                 }));
             }
@@ -172,6 +202,7 @@ export class GameSessionManager {
             throw new Error("Game structure is missing slides, cannot create session.");
         }
 
+        const contentPackFields = await this.snapshotContentPack(gameCreationData.content_pack_id);
         const sessionToInsert: GameSessionInsert = {
             name: gameCreationData.name.trim() || `Game Session - ${new Date().toLocaleDateString()}`,
             host_id: hostId,
@@ -179,6 +210,9 @@ export class GameSessionManager {
             class_name: gameCreationData.class_name?.trim() || null,
             grade_level: gameCreationData.grade_level || null,
             game_version: gameCreationData.game_version,
+            ...contentPackFields,
+            ...(gameCreationData.team_submission_mode ? {team_submission_mode: gameCreationData.team_submission_mode} : {}),
+            ...(gameCreationData.max_devices_per_team ? {max_devices_per_team: gameCreationData.max_devices_per_team} : {}),
             current_slide_index: 0,
             is_playing: false,
             is_complete: false,
@@ -224,6 +258,20 @@ export class GameSessionManager {
         }
     }
 
+    /**
+     * Data migration: rewrites revenue / net_income / net_margin on any of the session's round rows that were
+     * saved with an older formula, so stored results match FinancialMetrics. Returns the number of rows fixed.
+     */
+    async recomputeFinancialMetrics(sessionId: string): Promise<number> {
+        const roundData = await db.kpis.getBySession(sessionId) as TeamRoundData[];
+        const staleRows = roundData.filter(row => FinancialMetrics.isStale(row));
+
+        for (const row of staleRows) {
+            await db.kpis.update(row.id, FinancialMetrics.toStoredFields(row));
+        }
+        return staleRows.length;
+    }
+
     async updateSession(sessionId: string, updates: Partial<GameSessionInsert>): Promise<GameSession> {
         if (!sessionId || sessionId === 'new') {
             throw new Error('Cannot update session: Invalid session ID');
@@ -0,0 +1,76 @@
+// src/core/game/GameStructureResolver.ts
+// Resolves the GameStructure a session is played with, for engines that only receive a sessionId
+
+import {db} from '@shared/services/supabase';
+import {GameSession, GameStructure} from '@shared/types';
+import {getGameStructure} from '@core/content/GameVariants';
+import {applyContentPack} from '@core/content/ContentPacks';
+
+export class GameStructureResolver {
+    // A session's version and content pack snapshot never change after creation, so one lookup per session is enough
+    private static cache = new Map<string, Promise<GameStructure>>();
+
+    static forSession(sessionId: string): Promise<GameStructure> {
+        const cached = this.cache.get(sessionId);
+        if (cached) return cached;
+
+        const pending = db.sessions.getById(sessionId)
+            .then(session => this.resolve(session))
+            .catch(error => {
+                console.error(`[GameStructureResolver] Failed to load game version for session ${sessionId}, using default:`, error);
+                this.cache.delete(sessionId);
+                return getGameStructure();
+            });
+
+        this.cache.set(sessionId, pending);
+        return pending;
+    }
+
+    /**
+     * Same as forSession when the caller already holds the session row
+     */
+    static forSessionRecord(session: GameSession): Promise<GameStructure> {
+        const cached = this.cache.get(session.id);
+        if (cached) return cached;
+
+        const pending = this.resolve(session).catch(error => {
+            console.error(`[GameStructureResolver] Failed to load content pack for session ${session.id}, using base content:`, error);
+            this.cache.delete(session.id);
+            return getGameStructure(session.game_version);
+        });
+
+        this.cache.set(session.id, pending);
+        return pending;
+    }
+
+    /**
+     * The structure without any lookup: the variant with the session's content pack snapshot applied. Only
+     * sessions created before packs were snapshotted still need forSessionRecord to load their live pack.
+     */
+    static fromSnapshot(session: GameSession | null): GameStructure {
+        const base = getGameStructure(session?.game_version);
+        const snapshot = session?.content_pack_snapshot;
+        return snapshot ? applyContentPack(base, snapshot.content, snapshot.name) : base;
+    }
+
+    static clearCache(sessionId?: string): void {
+        if (sessionId) {
+            this.cache.delete(sessionId);
+        } else {
+            this.cache.clear();
+        }
+    }
+
+    private static async resolve(session: GameSession | null): Promise<GameStructure> {
+        if (!session?.content_pack_id || session.content_pack_snapshot) return this.fromSnapshot(session);
+
+        // Created before packs were snapshotted: the live pack is all there is
+        const base = getGameStructure(session.game_version);
+        const pack = await db.contentPacks.getById(session.content_pack_id);
+        if (!pack) {
+            console.warn(`[GameStructureResolver] Content pack ${session.content_pack_id} not found, using base content`);
+            return base;
+        }
+        return applyContentPack(base, pack.content, pack.name);
+    }
+}
@@ -3,7 +3,9 @@
 
 import {ContinuationEffectsProcessor} from './ContinuationEffectsProcessor';
 import {ContinuationPricingEngine} from './ContinuationPricingEngine';
+import {GameSimulator} from '@core/simulation/GameSimulator';
 import {StrategyInvestmentTracker} from './StrategyInvestmentTracker';
+import {GameStructureResolver} from './GameStructureResolver';
 import {TeamRoundData} from '@shared/types';
 
 export interface InvestmentPurchaseContext {
@@ -63,42 +65,41 @@ export class InvestmentPurchaseHandler {
             teamId
         );
 
+        const {continuation_pricing} = await GameStructureResolver.forSession(sessionId);
+
         const continuationEffectsApplied: Array<{
             investmentId: string;
             effects: any[];
             appliedAt: string;
         }> = [];
 
-        // Process each selected investment
-        for (const investmentId of selectedInvestments) {
-            // Determine if this is a continuation purchase
-            const availability = ContinuationPricingEngine.determineAvailability(
+        // Continued investments get their continuation effects immediately
+        const continuations = GameSimulator.resolveContinuations(
+            continuation_pricing,
+            targetRound,
+            selectedInvestments,
+            previousInvestments,
+            strategyStatus.hasStrategy
+        );
+
+        for (const {investmentId} of continuations) {
+            const result = await ContinuationEffectsProcessor.applyContinuationEffects(
+                sessionId,
+                teamId,
                 investmentId,
                 targetRound,
-                previousInvestments,
-                strategyStatus.hasStrategy
+                teamRoundData,
+                setTeamRoundDataDirectly
             );
 
-            // If this is a continuation, apply continuation effects immediately
-            if (availability === 'continue') {
-                const result = await ContinuationEffectsProcessor.applyContinuationEffects(
-                    sessionId,
-                    teamId,
-                    investmentId,
-                    targetRound,
-                    teamRoundData,
-                    setTeamRoundDataDirectly
-                );
-
-                if (result) {
-                    continuationEffectsApplied.push({
-                        investmentId: result.investmentId,
-                        effects: result.effects,
-                        appliedAt: result.appliedAt
-                    });
-                } else {
-                    console.warn(`[InvestmentPurchaseHandler] Failed to apply continuation effects for ${investmentId}`);
-                }
+            if (result) {
+                continuationEffectsApplied.push({
+                    investmentId: result.investmentId,
+                    effects: result.effects,
+                    appliedAt: result.appliedAt
+                });
+            } else {
+                console.warn(`[InvestmentPurchaseHandler] Failed to apply continuation effects for ${investmentId}`);
             }
         }
 
@@ -145,34 +146,14 @@ export class InvestmentPurchaseHandler {
             teamId
         );
 
-        const preview: Array<{
-            investmentId: string;
-            effects: any[];
-            availability: string;
-        }> = [];
-
-        for (const investmentId of selectedInvestments) {
-            const availability = ContinuationPricingEngine.determineAvailability(
-                investmentId,
-                targetRound,
-                previousInvestments,
-                strategyStatus.hasStrategy
-            );
+        const {continuation_pricing} = await GameStructureResolver.forSession(sessionId);
 
-            if (availability === 'continue') {
-                const effects = ContinuationEffectsProcessor.getContinuationEffects(
-                    investmentId,
-                    targetRound
-                );
-
-                preview.push({
-                    investmentId,
-                    effects,
-                    availability
-                });
-            }
-        }
-
-        return preview;
+        return GameSimulator.resolveContinuations(
+            continuation_pricing,
+            targetRound,
+            selectedInvestments,
+            previousInvestments,
+            strategyStatus.hasStrategy
+        ).map(({investmentId, effects}) => ({investmentId, effects, availability: 'continue'}));
     }
 }
@@ -4,6 +4,7 @@
 import {TeamRoundData, KpiEffect} from '@shared/types';
 import {db} from '@shared/services/supabase';
 import {ScoringEngine} from './ScoringEngine';
+import {KpiLedger} from './KpiLedger';
 
 export class KpiDataUtils {
     /**
@@ -49,7 +50,8 @@ export class KpiDataUtils {
             teamRoundData[teamId]
         );
 
-        // Apply any existing permanent adjustments
+        // Apply any existing permanent adjustments (applied in place, so keep the baseline for the ledger)
+        const baselineData = {...newRoundData};
         const adjustments = await db.adjustments.getBySession(sessionId);
         const adjustedData = ScoringEngine.applyPermanentAdjustments(
             newRoundData,
@@ -60,6 +62,10 @@ export class KpiDataUtils {
 
         // Insert into database
         const insertedData = await db.kpis.create(adjustedData);
+        await KpiLedger.record(baselineData, adjustedData, {
+            source: 'reset',
+            description: `Round ${roundNumber} start: baseline plus permanent effects`
+        });
 
         // Update local state
         setTeamRoundDataDirectly(prev => ({
@@ -0,0 +1,101 @@
+// src/core/game/KpiLedger.ts
+// Records every change to a team's current KPIs and rebuilds the step-by-step "why is my number this" view
+
+import {KpiLedgerEntry, KpiLedgerEntryInsert, KpiLedgerKpi, KpiLedgerSource, TeamRoundData} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {ScoringEngine} from './ScoringEngine';
+
+type LedgerKpis = Pick<TeamRoundData, 'session_id' | 'team_id' | 'round_number' | 'current_capacity' | 'current_orders' | 'current_cost' | 'current_asp'>;
+
+export interface KpiLedgerContext {
+    source: KpiLedgerSource;
+    sourceId?: string | null;
+    optionId?: string | null;
+    slideId?: number | null;
+    description: string;
+}
+
+export interface KpiReconciliationStep {
+    entry: KpiLedgerEntry;
+    untracked: number;      // change between the previous step and this one that the ledger has no entry for
+}
+
+export interface KpiReconciliation {
+    kpi: KpiLedgerKpi;
+    startValue: number;     // round baseline before any effect
+    steps: KpiReconciliationStep[];
+    currentValue: number;
+    untracked: number;      // difference between the last step and the saved value
+}
+
+export const KPI_LEDGER_KPIS: KpiLedgerKpi[] = ['capacity', 'orders', 'cost', 'asp'];
+
+const CURRENT_FIELDS: Record<KpiLedgerKpi, 'current_capacity' | 'current_orders' | 'current_cost' | 'current_asp'> = {
+    capacity: 'current_capacity',
+    orders: 'current_orders',
+    cost: 'current_cost',
+    asp: 'current_asp'
+};
+
+export class KpiLedger {
+    /**
+     * One ledger entry per KPI that differs between two versions of a team's round data
+     */
+    static diff(before: LedgerKpis, after: LedgerKpis, context: KpiLedgerContext): KpiLedgerEntryInsert[] {
+        return KPI_LEDGER_KPIS
+            .filter(kpi => before[CURRENT_FIELDS[kpi]] !== after[CURRENT_FIELDS[kpi]])
+            .map(kpi => ({
+                session_id: after.session_id,
+                team_id: after.team_id,
+                round_number: after.round_number,
+                kpi,
+                old_value: before[CURRENT_FIELDS[kpi]],
+                new_value: after[CURRENT_FIELDS[kpi]],
+                source: context.source,
+                source_id: context.sourceId ?? null,
+                option_id: context.optionId ?? null,
+                slide_id: context.slideId ?? null,
+                description: context.description
+            }));
+    }
+
+    /**
+     * Append the changes to the ledger. Never throws: a missing ledger row must not stop scoring.
+     */
+    static async record(before: LedgerKpis, after: LedgerKpis, context: KpiLedgerContext): Promise<void> {
+        const entries = this.diff(before, after, context);
+        if (entries.length === 0) return;
+
+        try {
+            await db.kpiLedger.append(entries);
+        } catch (error) {
+            console.error(`[KpiLedger] ❌ Failed to record ${context.source} changes for team ${after.team_id}:`, error);
+        }
+    }
+
+    /**
+     * Walk a round's entries from the baseline to the saved values, per KPI
+     */
+    static reconcile(entries: KpiLedgerEntry[], roundData: TeamRoundData): KpiReconciliation[] {
+        const baseline = ScoringEngine.createNewRoundData(roundData.session_id, roundData.team_id, roundData.round_number);
+        const roundEntries = entries.filter(entry =>
+            entry.team_id === roundData.team_id && entry.round_number === roundData.round_number
+        );
+
+        return KPI_LEDGER_KPIS.map(kpi => {
+            const startValue = baseline[CURRENT_FIELDS[kpi]];
+            let runningValue = startValue;
+
+            const steps = roundEntries
+                .filter(entry => entry.kpi === kpi)
+                .map(entry => {
+                    const step = {entry, untracked: entry.old_value - runningValue};
+                    runningValue = entry.new_value;
+                    return step;
+                });
+
+            const currentValue = roundData[CURRENT_FIELDS[kpi]];
+            return {kpi, startValue, steps, currentValue, untracked: currentValue - runningValue};
+        });
+    }
+}
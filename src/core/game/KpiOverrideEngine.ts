@@ -0,0 +1,122 @@
+// src/core/game/KpiOverrideEngine.ts
+// Host corrections to a team's KPIs: a signed change applied now or at a round start, and its undo
+
+import {KpiEffect, KpiLedgerKpi, KpiOverride, KpiOverrideTiming, TeamRoundData} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {GameSimulator} from '@core/simulation/GameSimulator';
+import {KpiLedger} from './KpiLedger';
+
+// challenge_id of the permanent adjustments created for round start corrections (option_id is the override id)
+export const HOST_OVERRIDE_CHALLENGE_ID = 'host_override';
+
+export interface KpiOverrideRequest {
+    sessionId: string;
+    teamId: string;
+    roundNumber: 1 | 2 | 3;
+    kpi: KpiLedgerKpi;
+    changeValue: number;
+    timing: KpiOverrideTiming;
+    reason: string;
+}
+
+export interface KpiOverrideResult {
+    override: KpiOverride;
+    updatedKpis: TeamRoundData | null;      // the round's saved KPIs when they changed right away
+}
+
+export class KpiOverrideEngine {
+    /**
+     * Why a request can't be applied, or null when it can
+     */
+    static validate(request: KpiOverrideRequest, roundStarted: boolean): string | null {
+        if (!request.reason.trim()) return 'A reason is required';
+        if (!Number.isFinite(request.changeValue) || request.changeValue === 0) return 'Enter a non-zero change';
+        if (request.timing === 'immediate' && !roundStarted) {
+            return `Round ${request.roundNumber} has not started for this team yet`;
+        }
+        if (request.timing === 'round_start') {
+            if (request.roundNumber === 1) return 'Round 1 has no round start adjustment';
+            if (roundStarted) return `Round ${request.roundNumber} has already started, apply the change now instead`;
+        }
+        return null;
+    }
+
+    static async applyOverride(request: KpiOverrideRequest): Promise<KpiOverrideResult> {
+        const {sessionId, teamId, roundNumber, kpi, changeValue, timing} = request;
+        const reason = request.reason.trim();
+        const currentKpis = await db.kpis.getForTeamRound(sessionId, teamId, roundNumber) as TeamRoundData | null;
+
+        const validationError = this.validate(request, !!currentKpis);
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        const override = await db.kpiOverrides.create({
+            session_id: sessionId,
+            team_id: teamId,
+            round_number: roundNumber,
+            kpi,
+            change_value: changeValue,
+            timing,
+            reason
+        });
+
+        if (timing === 'round_start') {
+            await db.adjustments.upsert([{
+                session_id: sessionId,
+                team_id: teamId,
+                applies_to_round_start: roundNumber,
+                kpi_key: kpi,
+                change_value: changeValue,
+                description: `Host correction: ${reason}`,
+                challenge_id: HOST_OVERRIDE_CHALLENGE_ID,
+                option_id: override.id
+            }]);
+            return {override, updatedKpis: null};
+        }
+
+        const updatedKpis = await this.applyChange(currentKpis!, kpi, changeValue, override.id, reason);
+        return {override, updatedKpis};
+    }
+
+    /**
+     * Reverse an override. A round start correction whose round already started is also taken off the
+     * round's current values, since the reset already applied it.
+     */
+    static async undoOverride(override: KpiOverride): Promise<KpiOverrideResult> {
+        if (override.undone_at) {
+            throw new Error('This correction has already been undone');
+        }
+
+        if (override.timing === 'round_start') {
+            await db.adjustments.deleteForOption(override.session_id, override.team_id, HOST_OVERRIDE_CHALLENGE_ID, override.id);
+        }
+
+        const currentKpis = await db.kpis.getForTeamRound(override.session_id, override.team_id, override.round_number) as TeamRoundData | null;
+        const updatedKpis = currentKpis
+            ? await this.applyChange(currentKpis, override.kpi, -override.change_value, override.id, `Undo: ${override.reason}`)
+            : null;
+
+        const undone = await db.kpiOverrides.markUndone(override.id);
+        return {override: undone, updatedKpis};
+    }
+
+    private static async applyChange(
+        currentKpis: TeamRoundData,
+        kpi: KpiLedgerKpi,
+        changeValue: number,
+        overrideId: string,
+        description: string
+    ): Promise<TeamRoundData> {
+        const effect: KpiEffect = {kpi, change_value: changeValue, timing: 'immediate', description};
+        const updatedKpis = GameSimulator.applyEffects(currentKpis, [effect]);
+
+        await db.kpis.update(currentKpis.id, updatedKpis);
+        await KpiLedger.record(currentKpis, updatedKpis, {
+            source: 'manual_override',
+            sourceId: overrideId,
+            description
+        });
+        return updatedKpis;
+    }
+}
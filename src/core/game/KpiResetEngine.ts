@@ -3,7 +3,9 @@
 
 import {TeamRoundData, KpiEffect} from '@shared/types';
 import {db} from '@shared/services/supabase';
+import {GameSimulator} from '@core/simulation/GameSimulator';
 import {ScoringEngine} from './ScoringEngine';
+import {FinancialMetrics} from './FinancialMetrics';
 
 export interface KpiResetResult {
     resetKpis: TeamRoundData;
@@ -45,36 +47,13 @@ export class KpiResetEngine {
     ): Promise<{ updatedKpis: Omit<TeamRoundData, 'id'>; effectsApplied: KpiEffect[] }> {
         console.log(`[KpiResetEngine] Step 2: Applying permanent effects for team ${teamId}`);
 
-        const effectsApplied: KpiEffect[] = [];
-        const updatedKpis = {...roundData};
-
-        // Get all permanent adjustments for this team
+        // Get all permanent adjustments for this team (Strategy Investment included)
         const allAdjustments = await db.adjustments.getBySession(sessionId);
         const teamAdjustments = allAdjustments.filter(adj => adj.team_id === teamId);
 
         console.log(`[KpiResetEngine] Found ${teamAdjustments.length} permanent adjustments for team ${teamId}`);
 
-        // FIXED: Apply all permanent adjustments (including Strategy Investment) from database
-        // Don't double-apply with hardcoded effects
-        const permanentAdjustments = teamAdjustments.filter(adj =>
-            adj.applies_to_round_start === roundData.round_number
-        );
-
-        permanentAdjustments.forEach(adj => {
-            const effect: KpiEffect = {
-                kpi: adj.kpi_key as any,
-                change_value: adj.change_value,
-                timing: 'immediate',
-                description: adj.description || 'Permanent Effect'
-            };
-
-            console.log(`[KpiResetEngine] Applying: ${adj.description} - ${adj.kpi_key}: ${adj.change_value > 0 ? '+' : ''}${adj.change_value}`);
-            (updatedKpis as any)[`current_${adj.kpi_key}`] += adj.change_value;
-            effectsApplied.push(effect);
-        });
-
-        // REMOVED: Hardcoded STRATEGY_INVESTMENT_EFFECTS application
-        // This was causing double-application since Strategy effects are already in database
+        const {updatedKpis, effectsApplied} = GameSimulator.applyPermanentAdjustments(roundData, teamAdjustments);
 
         console.log(`[KpiResetEngine] ✅ Applied ${effectsApplied.length} permanent effects`);
         return {updatedKpis, effectsApplied};
@@ -87,13 +66,9 @@ export class KpiResetEngine {
     static calculateFinalKpis(roundData: Omit<TeamRoundData, 'id'>): Omit<TeamRoundData, 'id'> {
         console.log(`[KpiResetEngine] Step 4: Calculating final KPIs`);
 
-        const financialMetrics = ScoringEngine.calculateFinancialMetrics(roundData as TeamRoundData);
-
         const finalKpis = {
             ...roundData,
-            revenue: financialMetrics.revenue,
-            net_income: financialMetrics.net_income,
-            net_margin: financialMetrics.net_margin
+            ...FinancialMetrics.toStoredFields(roundData)
         };
 
         console.log(`[KpiResetEngine] ✅ Final KPIs calculated:`, {
@@ -20,7 +20,7 @@ export class ScoringEngine {
     /**
      * Applies KPI effects to a team's round data
      */
-    static applyKpiEffects(roundData: TeamRoundData, effects: KpiEffect[]): TeamRoundData {
+    static applyKpiEffects<T extends Omit<TeamRoundData, 'id'>>(roundData: T, effects: KpiEffect[]): T {
         const updated = {...roundData};
 
         effects
@@ -45,26 +45,6 @@ export class ScoringEngine {
         return updated;
     }
 
-    /**
-     * Calculates derived financial metrics
-     */
-    static calculateFinancialMetrics(kpis: TeamRoundData): {
-        revenue: number;
-        net_income: number;
-        net_margin: number;
-    } {
-        const unitsProduced = Math.min(kpis.current_capacity, kpis.current_orders);
-        const revenue = unitsProduced * kpis.current_asp;
-        const netIncome = revenue - kpis.current_cost;
-        const netMargin = revenue > 0 ? netIncome / revenue : 0;
-
-        return {
-            revenue: Math.round(revenue),
-            net_income: Math.round(netIncome),
-            net_margin: parseFloat(netMargin.toFixed(4))
-        };
-    }
-
     /**
      * Creates new round data with base values for a team
      */
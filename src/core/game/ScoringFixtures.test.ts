@@ -0,0 +1,266 @@
+// src/core/game/ScoringFixtures.test.ts
+// Plays every golden scoring fixture (scripts/scoring-fixtures) through the engines the live game runs - team
+// submissions, continuation pricing and effects, consequence and payoff slides, KPI resets and the double down
+// dice - on the in-memory storage backend, and checks each round ends on the fixture's numbers.
+
+import {describe, expect, it} from 'vitest';
+import {GameSession, GameStructure, Slide, Team, TeamDecision, TeamRoundData} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {getGameStructure} from '@core/content/GameVariants';
+import {
+    buildFixtureDecisions,
+    compareScoringSnapshots,
+    runScoringFixture,
+    ScoringFixture,
+    ScoringRoundSnapshot,
+    ScoringSnapshot
+} from '@core/simulation/ScoringFixtures';
+import {GameSessionManager} from './GameSessionManager';
+import {UnifiedEffectsProcessor} from './UnifiedEffectsProcessor';
+import {InvestmentPurchaseHandler} from './InvestmentPurchaseHandler';
+import {ContinuationPricingEngine} from './ContinuationPricingEngine';
+import {StrategyInvestmentTracker, StrategyInvestmentType} from './StrategyInvestmentTracker';
+import {DoubleDownDice} from './DoubleDownDice';
+import {DoubleDownEffectsProcessor} from './DoubleDownEffectsProcessor';
+
+const fixtures = Object.entries(
+    import.meta.glob<ScoringFixture>('../../../scripts/scoring-fixtures/*.json', {eager: true, import: 'default'})
+).sort(([a], [b]) => a.localeCompare(b)).map(([, fixture]) => fixture);
+
+const FIXTURE_PASSCODE = '1234';
+const STRATEGY_PURCHASE_TYPES: string[] = ['business_growth_strategy', 'strategic_plan'];
+
+interface LiveGame {
+    session: GameSession;
+    team: Team;
+    token: string;
+    structure: GameStructure;
+}
+
+const startGame = async (fixture: ScoringFixture): Promise<LiveGame> => {
+    const structure = getGameStructure(fixture.game_version);
+    const manager = GameSessionManager.getInstance();
+
+    const draft = await manager.createDraftSession('fixture-host', structure);
+    const session = await manager.finalizeDraftSession(draft.id, {
+        game_version: fixture.game_version,
+        name: fixture.name,
+        class_name: '',
+        grade_level: '',
+        num_players: 4,
+        num_teams: 1,
+        teams_config: [{name: 'Fixture Team', passcode: FIXTURE_PASSCODE}]
+    });
+
+    const [team] = await db.teams.getBySession(session.id);
+    const grant = await db.teams.verifyLogin(team.id, session.id, FIXTURE_PASSCODE, {id: 'fixture-device', name: 'Fixture device'});
+    if (!grant) throw new Error(`Fixture team could not log in to ${session.id}`);
+
+    return {session, team, token: grant.token, structure};
+};
+
+// The team app's submission: everything but the row identity, authorized by the team's login token
+const submit = (game: LiveGame, decision: TeamDecision) => {
+    const {id: _id, session_id: _sessionId, team_id: _teamId, ...fields} = decision;
+    return db.decisions.submitForTeam(game.token, {...fields, submitted_at: new Date().toISOString()});
+};
+
+const submitInvestments = async (
+    game: LiveGame,
+    slide: Slide,
+    decisions: Record<string, TeamDecision>,
+    prices: Record<string, Record<string, number>>
+) => {
+    const phaseId = slide.interactive_data_key!;
+    const {session, team} = game;
+
+    const immediate = decisions[`${phaseId}_immediate`];
+    if (immediate) {
+        await submit(game, immediate);
+        if (STRATEGY_PURCHASE_TYPES.includes(immediate.immediate_purchase_type || '')) {
+            await StrategyInvestmentTracker.processStrategyInvestment(
+                session.id, team.id, immediate.immediate_purchase_type as StrategyInvestmentType, slide.round_number as 1 | 2
+            );
+        }
+    }
+
+    const regular = decisions[phaseId];
+    const selected = regular?.selected_investment_options || [];
+    if (!regular || selected.length === 0) return;
+
+    let totalSpent = regular.total_spent_budget;
+    if (slide.round_number === 2 || slide.round_number === 3) {
+        const pricing = await ContinuationPricingEngine.calculateContinuationPricing(session.id, team.id, slide.round_number);
+        prices[phaseId] = Object.fromEntries(selected.map(investmentId =>
+            [investmentId, pricing.investmentPricing.find(price => price.investmentId === investmentId)?.finalPrice ?? 0]
+        ));
+        totalSpent = Object.values(prices[phaseId]).reduce((total, price) => total + price, 0);
+    }
+
+    await submit(game, {...regular, total_spent_budget: totalSpent});
+    await InvestmentPurchaseHandler.processInvestmentPurchases({
+        sessionId: session.id,
+        teamId: team.id,
+        investmentPhase: phaseId,
+        selectedInvestments: selected,
+        teamRoundData: {},
+        setTeamRoundDataDirectly: () => {}
+    });
+};
+
+// What the host's hooks hold when an effect slide comes up, read fresh from storage
+const loadHostState = async (game: LiveGame) => {
+    const {session, team} = game;
+    const [decisions, kpis] = await Promise.all([db.decisions.getBySession(session.id), db.kpis.getBySession(session.id)]);
+
+    return {
+        currentDbSession: session,
+        gameStructure: game.structure,
+        teams: [team],
+        teamDecisions: {[team.id]: Object.fromEntries(decisions.map(decision => [decision.phase_id, decision]))},
+        teamRoundData: {[team.id]: Object.fromEntries(kpis.map((round: TeamRoundData) => [round.round_number, round]))},
+        fetchTeamRoundDataFromHook: async () => {},
+        setTeamRoundDataDirectly: () => {}
+    };
+};
+
+// The team's KPIs as they stand, in the fixture's shape
+const readSnapshot = async (game: LiveGame, continuationPrices: Record<string, Record<string, number>>): Promise<Partial<ScoringSnapshot>> => {
+    const rounds: Record<string, ScoringRoundSnapshot> = {};
+    (await db.kpis.getBySession(game.session.id)).forEach((kpis: TeamRoundData) => {
+        rounds[kpis.round_number] = {
+            capacity: kpis.current_capacity,
+            orders: kpis.current_orders,
+            cost: kpis.current_cost,
+            asp: kpis.current_asp,
+            revenue: kpis.revenue,
+            net_income: kpis.net_income,
+            net_margin: kpis.net_margin
+        };
+    });
+
+    return {
+        rounds,
+        continuation_prices: continuationPrices,
+        total_net_income: Object.values(rounds).reduce((total, round) => total + round.net_income, 0)
+    };
+};
+
+// lateDoubleDown holds the team's double down decision back until the dice slide, as if the team changed it
+// after the RD-3 payoff slide had already paid out the investment it sacrificed
+const playLive = async (
+    fixture: ScoringFixture,
+    options: { lateDoubleDown?: boolean } = {}
+): Promise<{ game: LiveGame; actual: Partial<ScoringSnapshot> }> => {
+    const game = await startGame(fixture);
+    const {decisions} = buildFixtureDecisions(fixture, game.structure);
+    const processor = new UnifiedEffectsProcessor(await loadHostState(game));
+    const continuationPrices: Record<string, Record<string, number>> = {};
+    const submitted = new Set<string>();
+    let heldBackDecision: TeamDecision | null = null;
+
+    for (const slide of game.structure.slides) {
+        const key = slide.interactive_data_key;
+
+        switch (slide.type) {
+            case 'interactive_invest':
+                if (!key || submitted.has(key)) break;
+                submitted.add(key);
+                await submitInvestments(game, slide, decisions, continuationPrices);
+                break;
+
+            case 'interactive_choice':
+            case 'interactive_double_down_select':
+                if (!key || submitted.has(key) || !decisions[key]) break;
+                submitted.add(key);
+                if (options.lateDoubleDown && slide.type === 'interactive_double_down_select') {
+                    heldBackDecision = decisions[key];
+                    break;
+                }
+                await submit(game, decisions[key]);
+                break;
+
+            case 'consequence_reveal':
+            case 'payoff_reveal':
+            case 'kpi_reset':
+                processor.updateProps(await loadHostState(game));
+                await processor.processEffectSlide(slide);
+                break;
+
+            case 'double_down_dice_roll': {
+                // The host only rolls for investments a team doubled down on
+                const dice = key ? fixture.dice?.[key] : undefined;
+                if (heldBackDecision) {
+                    await submit(game, heldBackDecision);
+                    heldBackDecision = null;
+                }
+                if (key && dice && fixture.double_down?.on === key) {
+                    await DoubleDownDice.roll(game.session.id, key, {mode: 'physical', dice});
+                }
+                break;
+            }
+        }
+    }
+
+    return {game, actual: await readSnapshot(game, continuationPrices)};
+};
+
+describe('scoring fixtures', () => {
+    it('finds all five archetypes', () => {
+        expect(fixtures).toHaveLength(5);
+    });
+
+    describe.each(fixtures.map(fixture => [fixture.name, fixture] as const))('%s', (_name, fixture) => {
+        it('matches the simulator', () => {
+            expect(runScoringFixture(fixture).mismatches).toEqual([]);
+        });
+
+        it('matches the live engines', async () => {
+            const {rounds, continuation_prices, total_net_income} = fixture.expected!;
+            const {actual} = await playLive(fixture);
+            expect(compareScoringSnapshots({rounds, continuation_prices, total_net_income}, actual)).toEqual([]);
+        });
+    });
+
+    describe('double down sacrifice', () => {
+        const fixture = fixtures.find(candidate => candidate.double_down?.sacrifice)!;
+        const expected = () => {
+            const {rounds, continuation_prices, total_net_income} = fixture.expected!;
+            return {rounds, continuation_prices, total_net_income};
+        };
+        const countSacrificeRecords = async (game: LiveGame) =>
+            (await db.payoffApplications.getBySession(game.session.id))
+                .filter(application => application.investment_phase_id === 'double-down-sacrifice')
+                .length;
+
+        const getReversalEntries = async (game: LiveGame) =>
+            (await db.kpiLedger.getBySession(game.session.id))
+                .filter(entry => entry.source === 'double_down' && entry.option_id === fixture.double_down!.sacrifice);
+
+        it('reverses a sacrificed payoff that was paid out before the team doubled down', async () => {
+            const {game, actual} = await playLive(fixture, {lateDoubleDown: true});
+            expect(compareScoringSnapshots(expected(), actual)).toEqual([]);
+            expect(await countSacrificeRecords(game)).toBe(1);
+
+            // Recorded against the dice slide of the investment the team doubled down on
+            const diceSlide = game.structure.slides.find(slide =>
+                slide.type === 'double_down_dice_roll' && slide.interactive_data_key === fixture.double_down!.on);
+            const reversals = await getReversalEntries(game);
+            expect(reversals.length).toBeGreaterThan(0);
+            expect(reversals.every(entry => entry.slide_id === diceSlide!.id)).toBe(true);
+        });
+
+        it('settles the sacrifice only once when the dice are processed again', async () => {
+            const {game, actual} = await playLive(fixture, {lateDoubleDown: true});
+            const reversalCount = (await getReversalEntries(game)).length;
+
+            await DoubleDownEffectsProcessor.processDoubleDownResults(game.session.id);
+            await DoubleDownEffectsProcessor.processDoubleDownResults(game.session.id);
+
+            const replayed = await readSnapshot(game, actual.continuation_prices!);
+            expect(compareScoringSnapshots(expected(), replayed)).toEqual([]);
+            expect(await countSacrificeRecords(game)).toBe(1);
+            expect(await getReversalEntries(game)).toHaveLength(reversalCount);
+        });
+    });
+});
@@ -0,0 +1,459 @@
+// src/core/game/SessionAnalytics.ts
+// Aggregates decisions and results across all of a host's completed games: net income spread,
+// investment and challenge choice frequencies, double down picks and what the winners did differently
+
+import {DoubleDownResult, GameSession, Team, TeamDecision, TeamRoundData} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {getGameStructure} from '@core/content/GameVariants';
+import {DOUBLE_DOWN_INVESTMENTS} from '@core/content/DoubleDownMapping';
+import {FinancialMetrics} from './FinancialMetrics';
+
+export interface SessionAnalyticsData {
+    sessions: GameSession[];
+    teams: Team[];
+    roundData: TeamRoundData[];
+    decisions: TeamDecision[];
+    doubleDownResults: DoubleDownResult[];
+}
+
+// Empty strings mean "any"; dates are YYYY-MM-DD and inclusive
+export interface SessionAnalyticsFilters {
+    className: string;
+    gradeLevel: string;
+    fromDate: string;
+    toDate: string;
+}
+
+export const EMPTY_ANALYTICS_FILTERS: SessionAnalyticsFilters = {className: '', gradeLevel: '', fromDate: '', toDate: ''};
+
+export interface NetIncomeBucket {
+    label: string;
+    from: number;
+    to: number;
+    count: number;
+}
+
+export interface NetIncomeDistribution {
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    buckets: NetIncomeBucket[];
+}
+
+export interface OptionFrequency {
+    id: string;
+    name: string;
+    count: number;
+    share: number;              // fraction of the teams counted, 0.25 = 25%
+}
+
+export interface RoundInvestmentStats {
+    round: 1 | 2 | 3;
+    teamCount: number;
+    options: OptionFrequency[]; // most chosen first
+}
+
+export interface ChallengeChoiceStats {
+    challengeId: string;
+    title: string;
+    teamCount: number;          // teams with a recorded choice
+    options: OptionFrequency[]; // in option order
+}
+
+export interface DoubleDownStats {
+    investmentId: string;
+    name: string;
+    picks: number;
+    pickRate: number;           // fraction of all teams
+    rolls: number;              // games where the dice were rolled for this investment
+    averageBoost: number | null;
+    boosts: number[];
+}
+
+export interface WinningInvestmentPattern {
+    round: 1 | 2 | 3;
+    id: string;
+    name: string;
+    winnerRate: number;         // fraction of winning teams that bought it
+    overallRate: number;        // fraction of all teams that bought it
+    lift: number;               // winnerRate - overallRate
+}
+
+export interface WinningCombo {
+    round: 1 | 2 | 3;
+    ids: string[];
+    count: number;              // winning teams that bought exactly this set
+}
+
+export interface WinningStrategyStats {
+    winnerCount: number;
+    patterns: WinningInvestmentPattern[];       // biggest positive lift first
+    combos: WinningCombo[];                     // most common first, per round
+    doubleDownPicks: OptionFrequency[];
+}
+
+export interface SessionAnalyticsSummary {
+    sessionCount: number;
+    teamCount: number;
+    netIncome: NetIncomeDistribution;
+    investments: RoundInvestmentStats[];
+    challenges: ChallengeChoiceStats[];
+    doubleDown: DoubleDownStats[];
+    winningStrategies: WinningStrategyStats;
+}
+
+const ROUNDS: (1 | 2 | 3)[] = [1, 2, 3];
+
+// Keeps every bulk query well under the API's default row cap
+const SESSIONS_PER_QUERY = 5;
+
+const chunk = <T, >(items: T[], size: number): T[][] =>
+    Array.from({length: Math.ceil(items.length / size)}, (_, index) => items.slice(index * size, (index + 1) * size));
+
+const median = (sorted: number[]): number => {
+    if (sorted.length === 0) return 0;
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// 1, 2 or 5 times a power of ten, so bucket edges read as round numbers
+const niceStep = (rough: number): number => {
+    if (rough <= 0) return 1;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const normalized = rough / magnitude;
+    if (normalized <= 1) return magnitude;
+    if (normalized <= 2) return 2 * magnitude;
+    if (normalized <= 5) return 5 * magnitude;
+    return 10 * magnitude;
+};
+
+const formatCompactDollars = (value: number): string => {
+    const abs = Math.abs(value);
+    const sign = value < 0 ? '-' : '';
+    if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(abs % 1000000 === 0 ? 0 : 1)}M`;
+    if (abs >= 1000) return `${sign}$${Math.round(abs / 1000)}K`;
+    return `${sign}$${abs}`;
+};
+
+export class SessionAnalytics {
+    /**
+     * Everything needed for analytics across the host's completed games
+     */
+    static async load(hostId: string): Promise<SessionAnalyticsData> {
+        const allSessions = await db.sessions.getByHost(hostId) as GameSession[];
+        const sessions = allSessions.filter(session => session.status === 'completed' || session.is_complete);
+
+        const batches = await Promise.all(chunk(sessions.map(session => session.id), SESSIONS_PER_QUERY).map(ids =>
+            Promise.all([
+                db.teams.getBySessions(ids),
+                db.kpis.getBySessions(ids),
+                db.decisions.getBySessions(ids),
+                db.doubleDown.getResultsForSessions(ids)
+            ])
+        ));
+
+        return {
+            sessions,
+            teams: batches.flatMap(([teams]) => teams as Team[]),
+            roundData: batches.flatMap(([, roundData]) => roundData as TeamRoundData[]),
+            decisions: batches.flatMap(([, , decisions]) => decisions as TeamDecision[]),
+            doubleDownResults: batches.flatMap(([, , , results]) => results)
+        };
+    }
+
+    static getFilterOptions(sessions: GameSession[]): { classNames: string[]; gradeLevels: string[] } {
+        const distinct = (values: (string | null)[]) =>
+            [...new Set(values.filter((value): value is string => !!value?.trim()))].sort();
+        return {
+            classNames: distinct(sessions.map(session => session.class_name)),
+            gradeLevels: distinct(sessions.map(session => session.grade_level))
+        };
+    }
+
+    /**
+     * The same data limited to sessions matching the filters
+     */
+    static applyFilters(data: SessionAnalyticsData, filters: SessionAnalyticsFilters): SessionAnalyticsData {
+        const sessions = data.sessions.filter(session => {
+            const date = session.created_at.split('T')[0];
+            return (!filters.className || session.class_name === filters.className) &&
+                (!filters.gradeLevel || session.grade_level === filters.gradeLevel) &&
+                (!filters.fromDate || date >= filters.fromDate) &&
+                (!filters.toDate || date <= filters.toDate);
+        });
+
+        const sessionIds = new Set(sessions.map(session => session.id));
+        return {
+            sessions,
+            teams: data.teams.filter(team => sessionIds.has(team.session_id)),
+            roundData: data.roundData.filter(row => sessionIds.has(row.session_id)),
+            decisions: data.decisions.filter(decision => sessionIds.has(decision.session_id)),
+            doubleDownResults: data.doubleDownResults.filter(result => sessionIds.has(result.session_id))
+        };
+    }
+
+    static summarize(data: SessionAnalyticsData): SessionAnalyticsSummary {
+        const finalNetIncome = this.getFinalNetIncomes(data);
+        const teamInvestments = this.getTeamInvestments(data);
+
+        return {
+            sessionCount: data.sessions.length,
+            teamCount: data.teams.length,
+            netIncome: this.getNetIncomeDistribution([...finalNetIncome.values()]),
+            investments: this.getInvestmentStats(data, teamInvestments),
+            challenges: this.getChallengeStats(data),
+            doubleDown: this.getDoubleDownStats(data),
+            winningStrategies: this.getWinningStrategies(data, finalNetIncome, teamInvestments)
+        };
+    }
+
+    /**
+     * Net income of each team's last played round, keyed by team id
+     */
+    private static getFinalNetIncomes(data: SessionAnalyticsData): Map<string, number> {
+        const latest = new Map<string, TeamRoundData>();
+        data.roundData.forEach(row => {
+            const current = latest.get(row.team_id);
+            if (!current || row.round_number > current.round_number) latest.set(row.team_id, row);
+        });
+
+        const netIncomes = new Map<string, number>();
+        latest.forEach((row, teamId) => netIncomes.set(teamId, FinancialMetrics.calculate(row).netIncome));
+        return netIncomes;
+    }
+
+    private static getNetIncomeDistribution(values: number[]): NetIncomeDistribution {
+        if (values.length === 0) {
+            return {count: 0, min: 0, max: 0, mean: 0, median: 0, buckets: []};
+        }
+
+        const sorted = [...values].sort((a, b) => a - b);
+        const min = sorted[0];
+        const max = sorted[sorted.length - 1];
+        const bucketCount = Math.min(10, Math.max(1, Math.ceil(Math.sqrt(sorted.length))));
+        const width = niceStep((max - min) / bucketCount || Math.abs(max) || 1);
+        const start = Math.floor(min / width) * width;
+
+        const buckets: NetIncomeBucket[] = [];
+        for (let from = start; from <= max; from += width) {
+            const to = from + width;
+            buckets.push({
+                label: `${formatCompactDollars(from)} – ${formatCompactDollars(to)}`,
+                from,
+                to,
+                count: sorted.filter(value => value >= from && value < to).length
+            });
+        }
+
+        return {
+            count: sorted.length,
+            min,
+            max,
+            mean: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+            median: Math.round(median(sorted)),
+            buckets
+        };
+    }
+
+    /**
+     * Investments each team bought per round, regular and immediate purchases combined: team id → round → ids
+     */
+    private static getTeamInvestments(data: SessionAnalyticsData): Map<string, Record<number, Set<string>>> {
+        const investments = new Map<string, Record<number, Set<string>>>();
+        data.teams.forEach(team => investments.set(team.id, {1: new Set(), 2: new Set(), 3: new Set()}));
+
+        data.decisions.forEach(decision => {
+            const match = decision.phase_id.match(/^rd(\d)-invest(_immediate)?$/);
+            const rounds = investments.get(decision.team_id);
+            if (!match || !rounds) return;
+            (decision.selected_investment_options || []).forEach(id => rounds[Number(match[1])]?.add(id));
+        });
+        return investments;
+    }
+
+    // Investment and challenge option names from the variant each session was played with
+    private static getStructures(data: SessionAnalyticsData) {
+        const versions = [...new Set(data.sessions.map(session => session.game_version))];
+        return versions.length > 0 ? versions.map(version => getGameStructure(version)) : [getGameStructure()];
+    }
+
+    private static getInvestmentName(data: SessionAnalyticsData, round: number, id: string): string {
+        for (const structure of this.getStructures(data)) {
+            const option = structure.all_investment_options[`rd${round}-invest`]?.find(candidate => candidate.id === id);
+            if (option) return option.name;
+        }
+        return id;
+    }
+
+    private static getInvestmentStats(
+        data: SessionAnalyticsData,
+        teamInvestments: Map<string, Record<number, Set<string>>>
+    ): RoundInvestmentStats[] {
+        const teamCount = data.teams.length;
+        return ROUNDS.map(round => {
+            const counts = new Map<string, number>();
+            this.getStructures(data).forEach(structure =>
+                (structure.all_investment_options[`rd${round}-invest`] || []).forEach(option => counts.set(option.id, 0))
+            );
+            teamInvestments.forEach(rounds => rounds[round].forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+
+            return {
+                round,
+                teamCount,
+                options: [...counts.entries()]
+                    .map(([id, count]) => ({
+                        id,
+                        name: this.getInvestmentName(data, round, id),
+                        count,
+                        share: teamCount > 0 ? count / teamCount : 0
+                    }))
+                    .sort((a, b) => b.count - a.count || a.id.localeCompare(b.id))
+            };
+        });
+    }
+
+    private static getChallengeStats(data: SessionAnalyticsData): ChallengeChoiceStats[] {
+        const structures = this.getStructures(data);
+        // The registry also tracks non-challenge entries such as the strategy investment
+        const challengeIds = [...new Set(structures.flatMap(structure => Object.keys(structure.challenge_registry)))]
+            .filter(id => /^ch\d+$/.test(id))
+            .sort((a, b) => Number(a.replace(/\D/g, '')) - Number(b.replace(/\D/g, '')));
+
+        return challengeIds.map(challengeId => {
+            const counts = new Map<string, number>();
+            let title = challengeId;
+            structures.forEach(structure => {
+                title = structure.challenge_registry[challengeId]?.title ?? title;
+                (structure.all_challenge_options[challengeId] || []).forEach(option => {
+                    if (!counts.has(option.id)) counts.set(option.id, 0);
+                });
+            });
+
+            const choices = data.decisions.filter(decision =>
+                decision.phase_id === challengeId && decision.selected_challenge_option_id
+            );
+            choices.forEach(decision => {
+                const id = decision.selected_challenge_option_id!;
+                counts.set(id, (counts.get(id) || 0) + 1);
+            });
+
+            const optionText = (id: string) => {
+                for (const structure of structures) {
+                    const option = structure.all_challenge_options[challengeId]?.find(candidate => candidate.id === id);
+                    if (option) return option.text;
+                }
+                return id;
+            };
+
+            return {
+                challengeId,
+                title,
+                teamCount: choices.length,
+                options: [...counts.entries()].map(([id, count]) => ({
+                    id,
+                    name: optionText(id),
+                    count,
+                    share: choices.length > 0 ? count / choices.length : 0
+                }))
+            };
+        });
+    }
+
+    private static getDoubleDownStats(data: SessionAnalyticsData): DoubleDownStats[] {
+        const teamCount = data.teams.length;
+        return DOUBLE_DOWN_INVESTMENTS.map(investment => {
+            const picks = data.decisions.filter(decision => decision.double_down_on_id === investment.id).length;
+            const boosts = data.doubleDownResults
+                .filter(result => result.investment_id === investment.id)
+                .map(result => result.boost_percentage);
+
+            return {
+                investmentId: investment.id,
+                name: investment.name,
+                picks,
+                pickRate: teamCount > 0 ? picks / teamCount : 0,
+                rolls: boosts.length,
+                averageBoost: boosts.length > 0
+                    ? Math.round(boosts.reduce((sum, boost) => sum + boost, 0) / boosts.length)
+                    : null,
+                boosts
+            };
+        });
+    }
+
+    /**
+     * Compares the team with the highest final net income in each game against everyone else
+     */
+    private static getWinningStrategies(
+        data: SessionAnalyticsData,
+        finalNetIncome: Map<string, number>,
+        teamInvestments: Map<string, Record<number, Set<string>>>
+    ): WinningStrategyStats {
+        const winners: string[] = [];
+        data.sessions.forEach(session => {
+            const ranked = data.teams
+                .filter(team => team.session_id === session.id && finalNetIncome.has(team.id))
+                .sort((a, b) => finalNetIncome.get(b.id)! - finalNetIncome.get(a.id)!);
+            if (ranked[0]) winners.push(ranked[0].id);
+        });
+
+        const teamCount = data.teams.length;
+        const patterns: WinningInvestmentPattern[] = [];
+        const combos: WinningCombo[] = [];
+
+        ROUNDS.forEach(round => {
+            const ids = new Set<string>();
+            teamInvestments.forEach(rounds => rounds[round].forEach(id => ids.add(id)));
+
+            ids.forEach(id => {
+                const boughtBy = (teamIds: Iterable<string>) =>
+                    [...teamIds].filter(teamId => teamInvestments.get(teamId)?.[round].has(id)).length;
+                const winnerRate = winners.length > 0 ? boughtBy(winners) / winners.length : 0;
+                const overallRate = teamCount > 0 ? boughtBy(teamInvestments.keys()) / teamCount : 0;
+                patterns.push({
+                    round,
+                    id,
+                    name: this.getInvestmentName(data, round, id),
+                    winnerRate,
+                    overallRate,
+                    lift: winnerRate - overallRate
+                });
+            });
+
+            const comboCounts = new Map<string, number>();
+            winners.forEach(teamId => {
+                const key = [...(teamInvestments.get(teamId)?.[round] ?? [])].sort().join(',');
+                comboCounts.set(key, (comboCounts.get(key) || 0) + 1);
+            });
+            [...comboCounts.entries()]
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, 3)
+                .forEach(([key, count]) => combos.push({round, ids: key ? key.split(',') : [], count}));
+        });
+
+        const winnerSet = new Set(winners);
+        const winnerDoubleDowns = data.decisions.filter(decision =>
+            winnerSet.has(decision.team_id) && decision.double_down_on_id
+        );
+
+        return {
+            winnerCount: winners.length,
+            patterns: patterns.sort((a, b) => b.lift - a.lift),
+            combos,
+            doubleDownPicks: DOUBLE_DOWN_INVESTMENTS
+                .map(investment => {
+                    const count = winnerDoubleDowns.filter(decision => decision.double_down_on_id === investment.id).length;
+                    return {
+                        id: investment.id,
+                        name: investment.name,
+                        count,
+                        share: winners.length > 0 ? count / winners.length : 0
+                    };
+                })
+                .filter(pick => pick.count > 0)
+                .sort((a, b) => b.count - a.count)
+        };
+    }
+}
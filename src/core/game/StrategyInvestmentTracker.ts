@@ -4,44 +4,15 @@
 import {db} from '@shared/services/supabase';
 import {KpiEffect} from '@shared/types';
 import {PermanentKpiAdjustment} from '@shared/types/database';
+import {
+    STRATEGY_INVESTMENT_EFFECTS,
+    STRATEGY_INVESTMENT_TYPES,
+    StrategyInvestmentType
+} from '@core/content/InvestmentEffectsContent';
+import {GameSimulator} from '@core/simulation/GameSimulator';
 
-/**
- * Strategy Investment Effects - These are the permanent effects that persist across all resets
- * Applied when ANY strategy investment is made (RD-1 or RD-2)
- */
-export const STRATEGY_INVESTMENT_EFFECTS: KpiEffect[] = [
-    {
-        kpi: 'capacity',
-        change_value: 250,
-        timing: 'permanent_next_round_start',
-        description: 'Strategy Investment - Capacity Boost',
-        applies_to_rounds: [2, 3]
-    },
-    {
-        kpi: 'orders',
-        change_value: 250,
-        timing: 'permanent_next_round_start',
-        description: 'Strategy Investment - Orders Boost',
-        applies_to_rounds: [2, 3]
-    },
-    {
-        kpi: 'asp',
-        change_value: 20,
-        timing: 'permanent_next_round_start',
-        description: 'Strategy Investment - ASP Boost',
-        applies_to_rounds: [2, 3]
-    }
-];
-
-/**
- * Strategy Investment Types - Different ways strategy can be purchased
- */
-export const STRATEGY_INVESTMENT_TYPES = {
-    RD1_BUSINESS_GROWTH: 'business_growth_strategy',
-    RD2_STRATEGIC_PLAN: 'strategic_plan'
-} as const;
-
-export type StrategyInvestmentType = typeof STRATEGY_INVESTMENT_TYPES[keyof typeof STRATEGY_INVESTMENT_TYPES];
+export {STRATEGY_INVESTMENT_EFFECTS, STRATEGY_INVESTMENT_TYPES};
+export type {StrategyInvestmentType};
 
 export interface StrategyInvestmentRecord {
     teamId: string;
@@ -233,24 +204,7 @@ export class StrategyInvestmentTracker {
             }
 
             // Create permanent adjustment records for each effect
-            const adjustmentsToCreate: Omit<PermanentKpiAdjustment, 'id' | 'created_at'>[] = [];
-
-            STRATEGY_INVESTMENT_EFFECTS.forEach(effect => {
-                if (effect.applies_to_rounds) {
-                    effect.applies_to_rounds.forEach(roundNum => {
-                        adjustmentsToCreate.push({
-                            session_id: sessionId,
-                            team_id: teamId,
-                            applies_to_round_start: roundNum,
-                            kpi_key: effect.kpi,
-                            change_value: effect.change_value,
-                            description: `${effect.description} (Purchased RD-${purchaseRound})`,
-                            challenge_id: 'strategy',
-                            option_id: 'A'
-                        });
-                    });
-                }
-            });
+            const adjustmentsToCreate = GameSimulator.buildStrategyAdjustments(sessionId, teamId, purchaseRound);
 
             if (adjustmentsToCreate.length > 0) {
                 await db.adjustments.upsert(adjustmentsToCreate);
@@ -0,0 +1,121 @@
+// src/core/game/TeamAccess.test.ts
+// Team login and team-scoped access tokens on the in-memory storage backend: wrong passcodes and the lockout,
+// token expiry, and a passcode reset logging every device of the team out.
+
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {GameSession, Team, TeamDecision} from '@shared/types';
+import {db, getStorage} from '@shared/services/supabase';
+import {
+    TEAM_LOGIN_LOCKED,
+    TEAM_LOGIN_LOCKOUT_MS,
+    TEAM_LOGIN_MAX_ATTEMPTS,
+    TEAM_TOKEN_INVALID
+} from '@shared/services/supabase/storage/types';
+import {TEAM_TOKEN_TTL_MS} from '@shared/services/supabase/storage/teamCredentials';
+import {getGameStructure} from '@core/content/GameVariants';
+import {GameSessionManager} from './GameSessionManager';
+
+const PASSCODE = '1234';
+const DEVICE = {id: 'team-access-device', name: 'Team access device'};
+
+const startGame = async (): Promise<{ session: GameSession; team: Team }> => {
+    const structure = getGameStructure('2.0_dd');
+    const manager = GameSessionManager.getInstance();
+
+    const draft = await manager.createDraftSession('team-access-host', structure);
+    const session = await manager.finalizeDraftSession(draft.id, {
+        game_version: '2.0_dd',
+        name: 'Team access',
+        class_name: '',
+        grade_level: '',
+        num_players: 4,
+        num_teams: 1,
+        teams_config: [{name: 'Access Team', passcode: PASSCODE}]
+    });
+
+    const [team] = await db.teams.getBySession(session.id);
+    return {session, team};
+};
+
+const login = async (session: GameSession, team: Team, passcode: string = PASSCODE) =>
+    getStorage().verifyTeamLogin(session.id, team.id, passcode, DEVICE);
+
+const decision: Partial<TeamDecision> = {
+    phase_id: 'rd1-invest',
+    round_number: 1,
+    selected_investment_options: [],
+    total_spent_budget: 0,
+    submitted_at: new Date().toISOString()
+};
+
+describe('team access', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('rejects a wrong passcode and accepts the right one', async () => {
+        const {session, team} = await startGame();
+
+        const wrong = await login(session, team, '9999');
+        expect(wrong.error).toBeNull();
+        expect(wrong.data).toBeNull();
+
+        const right = await login(session, team);
+        expect(right.error).toBeNull();
+        expect(right.data?.team.id).toBe(team.id);
+        expect(right.data?.token).toBeTruthy();
+    });
+
+    it('locks the passcode login after too many wrong passcodes in a row', async () => {
+        const {session, team} = await startGame();
+
+        for (let attempt = 0; attempt < TEAM_LOGIN_MAX_ATTEMPTS; attempt++) {
+            expect((await login(session, team, '9999')).data).toBeNull();
+        }
+        const locked = await login(session, team);
+        expect(locked.data).toBeNull();
+        expect(locked.error?.code).toBe(TEAM_LOGIN_LOCKED);
+
+        vi.useFakeTimers({toFake: ['Date']});
+        vi.setSystemTime(Date.now() + TEAM_LOGIN_LOCKOUT_MS + 1000);
+        expect((await login(session, team)).data?.team.id).toBe(team.id);
+    });
+
+    it('stops honouring a token once it expires', async () => {
+        const {session, team} = await startGame();
+        const {data: grant} = await login(session, team);
+
+        expect((await getStorage().resumeTeamSession(grant!.token)).data?.team.id).toBe(team.id);
+
+        vi.useFakeTimers({toFake: ['Date']});
+        vi.setSystemTime(Date.now() + TEAM_TOKEN_TTL_MS + 1000);
+        expect((await getStorage().resumeTeamSession(grant!.token)).data).toBeNull();
+
+        const submitted = await getStorage().submitTeamDecision(grant!.token, decision);
+        expect(submitted.data).toBeNull();
+        expect(submitted.error?.code).toBe(TEAM_TOKEN_INVALID);
+    });
+
+    it('revokes the team\'s live tokens when its passcode is reset', async () => {
+        const {session, team} = await startGame();
+        const {data: grant} = await login(session, team);
+
+        await db.teams.resetPasscode(team.id, '5678');
+
+        expect((await getStorage().resumeTeamSession(grant!.token)).data).toBeNull();
+        expect((await login(session, team)).data).toBeNull();
+        expect((await login(session, team, '5678')).data?.team.id).toBe(team.id);
+    });
+
+    it('refuses a decision submitted with a revoked token', async () => {
+        const {session, team} = await startGame();
+        const {data: grant} = await login(session, team);
+
+        await db.teams.resetPasscode(team.id, '5678');
+
+        const submitted = await getStorage().submitTeamDecision(grant!.token, decision);
+        expect(submitted.data).toBeNull();
+        expect(submitted.error?.code).toBe(TEAM_TOKEN_INVALID);
+        expect(await db.decisions.getBySession(session.id)).toHaveLength(0);
+    });
+});
@@ -0,0 +1,161 @@
+// src/core/game/TeamDraftEngine.ts
+// Rules for a team's shared decision draft: recording who changed what, and who may submit under the
+// session's submission mode (anyone, the team's captain only, or after every connected member confirms).
+// The backend applies the same submission rules in submit_team_decision.
+
+import {
+    TeamDecisionDraft,
+    TeamDecisionDraftUpsert,
+    TeamDraftChange,
+    TeamDraftSelections,
+    TeamSubmissionMode
+} from '@shared/types';
+
+// Enough to see the last few edits on a phone without the row growing for the whole phase
+const MAX_CHANGES = 20;
+
+export interface DraftDevice {
+    deviceId: string;
+    deviceName: string;
+}
+
+export interface SubmitPermission {
+    allowed: boolean;
+    reason: string | null;      // why this device can't submit yet
+}
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+export class TeamDraftEngine {
+    static emptySelections(): TeamDraftSelections {
+        return {
+            selectedInvestmentOptions: [],
+            spentBudget: 0,
+            immediatePurchases: [],
+            selectedChallengeOptionId: null,
+            sacrificeInvestmentId: null,
+            doubleDownOnInvestmentId: null
+        };
+    }
+
+    static selectionsEqual(a: TeamDraftSelections, b: TeamDraftSelections): boolean {
+        return sameList(a.selectedInvestmentOptions, b.selectedInvestmentOptions) &&
+            sameList(a.immediatePurchases, b.immediatePurchases) &&
+            a.spentBudget === b.spentBudget &&
+            a.selectedChallengeOptionId === b.selectedChallengeOptionId &&
+            a.sacrificeInvestmentId === b.sacrificeInvestmentId &&
+            a.doubleDownOnInvestmentId === b.doubleDownOnInvestmentId;
+    }
+
+    /**
+     * Short description of an edit for the team's change list, e.g. "added B, removed C"
+     */
+    static describeChange(previous: TeamDraftSelections, next: TeamDraftSelections): string {
+        const parts: string[] = [];
+
+        const added = next.selectedInvestmentOptions.filter(id => !previous.selectedInvestmentOptions.includes(id));
+        const removed = previous.selectedInvestmentOptions.filter(id => !next.selectedInvestmentOptions.includes(id));
+        const bought = next.immediatePurchases.filter(id => !previous.immediatePurchases.includes(id));
+        if (added.length > 0) parts.push(`added ${added.join(', ')}`);
+        if (removed.length > 0) parts.push(`removed ${removed.join(', ')}`);
+        if (bought.length > 0) parts.push(`bought ${bought.join(', ')} now`);
+
+        if (next.selectedChallengeOptionId !== previous.selectedChallengeOptionId) {
+            parts.push(next.selectedChallengeOptionId ? `picked option ${next.selectedChallengeOptionId}` : 'cleared the pick');
+        }
+        if (next.sacrificeInvestmentId !== previous.sacrificeInvestmentId && next.sacrificeInvestmentId) {
+            parts.push(`chose to sacrifice ${next.sacrificeInvestmentId}`);
+        }
+        if (next.doubleDownOnInvestmentId !== previous.doubleDownOnInvestmentId && next.doubleDownOnInvestmentId) {
+            parts.push(`chose to double down on ${next.doubleDownOnInvestmentId}`);
+        }
+
+        return parts.length > 0 ? parts.join(', ') : 'updated the draft';
+    }
+
+    /**
+     * New draft contents after a device edits the selections. Any edit withdraws earlier confirmations.
+     */
+    static applySelections(
+        draft: TeamDecisionDraftUpsert,
+        selections: TeamDraftSelections,
+        device: DraftDevice
+    ): TeamDecisionDraftUpsert {
+        const change: TeamDraftChange = {
+            device_id: device.deviceId,
+            device_name: device.deviceName,
+            description: TeamDraftEngine.describeChange(draft.selections, selections),
+            at: new Date().toISOString()
+        };
+        return {
+            ...draft,
+            selections,
+            changes: [...draft.changes, change].slice(-MAX_CHANGES),
+            confirmed_device_ids: []
+        };
+    }
+
+    static setConfirmed(draft: TeamDecisionDraftUpsert, deviceId: string, confirmed: boolean): TeamDecisionDraftUpsert {
+        const others = draft.confirmed_device_ids.filter(id => id !== deviceId);
+        return {...draft, confirmed_device_ids: confirmed ? [...others, deviceId] : others};
+    }
+
+    static newDraft(sessionId: string, teamId: string, phaseId: string, selections: TeamDraftSelections): TeamDecisionDraftUpsert {
+        return {
+            session_id: sessionId,
+            team_id: teamId,
+            phase_id: phaseId,
+            selections,
+            changes: [],
+            confirmed_device_ids: [],
+            submitted_at: null
+        };
+    }
+
+    static toUpsert(draft: TeamDecisionDraft): TeamDecisionDraftUpsert {
+        const {id: _id, updated_at: _updatedAt, ...rest} = draft;
+        return rest;
+    }
+
+    /**
+     * A device can take over as captain only while the team has none or its captain is offline; otherwise
+     * the host hands the captaincy over
+     */
+    static canClaimCaptain(captainDeviceId: string | null, deviceId: string, connectedDeviceIds: string[]): boolean {
+        if (!captainDeviceId) return true;
+        return captainDeviceId !== deviceId && !connectedDeviceIds.includes(captainDeviceId);
+    }
+
+    /**
+     * Whether this device may submit the team's decision. connectedDeviceIds are the team's devices
+     * currently online (presence), including this one.
+     */
+    static canSubmit(
+        mode: TeamSubmissionMode,
+        draft: TeamDecisionDraftUpsert | null,
+        captainDeviceId: string | null,
+        deviceId: string,
+        connectedDeviceIds: string[]
+    ): SubmitPermission {
+        switch (mode) {
+            case 'captain': {
+                if (!captainDeviceId) return {allowed: false, reason: 'Choose a team captain to submit'};
+                if (captainDeviceId !== deviceId) return {allowed: false, reason: 'Only your team captain can submit'};
+                return {allowed: true, reason: null};
+            }
+            case 'all_confirm': {
+                const confirmed = draft?.confirmed_device_ids ?? [];
+                const waitingFor = [...new Set([...connectedDeviceIds, deviceId])].filter(id => !confirmed.includes(id));
+                if (waitingFor.length === 0) return {allowed: true, reason: null};
+                return {
+                    allowed: false,
+                    reason: waitingFor.includes(deviceId)
+                        ? 'Confirm the draft, then wait for your teammates'
+                        : `Waiting for ${waitingFor.length} teammate${waitingFor.length === 1 ? '' : 's'} to confirm`
+                };
+            }
+            default:
+                return {allowed: true, reason: null};
+        }
+    }
+}
@@ -13,7 +13,7 @@ import {
     GameSession,
     Slide
 } from '@shared/types';
-import {ScoringEngine} from './ScoringEngine';
+import {FinancialMetrics} from './FinancialMetrics';
 import {KpiDataUtils} from './KpiDataUtils';
 import {UnifiedEffectsProcessor} from './UnifiedEffectsProcessor';
 import {SimpleRealtimeManager} from "@core/sync";
@@ -35,6 +35,7 @@ interface UseGameProcessingReturn {
     processConsequenceSlide: (consequenceSlide: Slide) => Promise<void>;
     processPayoffSlide: (payoffSlide: Slide) => Promise<void>;
     processKpiResetSlide: (kpiResetSlide: Slide) => Promise<void>;
+    submitDefaultDecisions: (slide: Slide) => Promise<void>;
     calculateAndFinalizeRoundKPIs: (roundNumber: 1 | 2 | 3) => void;
     resetGameProgress: () => void;
     isLoadingProcessingDecisions: boolean;
@@ -150,6 +151,13 @@ export const useGameProcessing = (props: UseGameProcessingProps): UseGameProcess
         }
     }, [currentDbSession, gameStructure, teamDecisions, teams]);
 
+    // Record defaults for teams that haven't submitted and refresh the host's decision view
+    const submitDefaultDecisions = useCallback(async (slide: Slide) => {
+        if (!currentDbSession?.id) return;
+        await ensureAllTeamsHaveChoices(slide);
+        await fetchTeamDecisionsFromHook(currentDbSession.id);
+    }, [currentDbSession?.id, ensureAllTeamsHaveChoices, fetchTeamDecisionsFromHook]);
+
     // Interactive slide processing (simplified inline implementation)
     const processInteractiveSlide = useCallback(async (completedSlide: Slide) => {
         if (!currentDbSession?.id || !gameStructure || teams.length === 0) {
@@ -237,7 +245,7 @@ export const useGameProcessing = (props: UseGameProcessingProps): UseGameProcess
             for (const team of teams) {
                 const kpis = teamRoundData[team.id]?.[roundNumber];
                 if (kpis?.id) {
-                    const financialMetrics = ScoringEngine.calculateFinancialMetrics(kpis);
+                    const financialMetrics = FinancialMetrics.toStoredFields(kpis);
                     await db.kpis.update(kpis.id, {
                         ...kpis,
                         ...financialMetrics,
@@ -277,6 +285,9 @@ export const useGameProcessing = (props: UseGameProcessingProps): UseGameProcess
                     db.adjustments.deleteBySession(currentDbSession.id),
                     db.consequenceApplications.deleteBySession(currentDbSession.id),
                     db.payoffApplications.deleteBySession(currentDbSession.id), // NEW: Clean up payoff applications
+                    db.kpiLedger.deleteBySession(currentDbSession.id),
+                    db.kpiOverrides.deleteBySession(currentDbSession.id),
+                    db.teamDrafts.deleteBySession(currentDbSession.id),
                 ]);
 
                 // Reset session to slide 0
@@ -300,6 +311,7 @@ export const useGameProcessing = (props: UseGameProcessingProps): UseGameProcess
         processConsequenceSlide,        // ✅ Uses UnifiedEffectsProcessor (real logic)
         processPayoffSlide,             // ✅ NEW: Slide-specific payoff processing
         processKpiResetSlide,
+        submitDefaultDecisions,         // Decision timer auto-submit on expiry
         calculateAndFinalizeRoundKPIs: calculateKPIsExecute,
         resetGameProgress: resetGameProgressExecute,
         isLoadingProcessingDecisions: false,
@@ -0,0 +1,650 @@
+// src/core/simulation/GameSimulator.ts
+// Pure, deterministic replay of a full 3-round game. Given the content, the teams, their decisions and
+// the double down dice it computes every round's KPIs plus an audit of each effect applied.
+// The live processors resolve effects through the same methods and only add persistence on top,
+// so a replay always agrees with what happened in the session.
+
+import {
+    ContinuationPricingTables,
+    GameStructure,
+    KpiEffect,
+    KpiKey,
+    PermanentKpiAdjustment,
+    Slide,
+    Team,
+    TeamDecision,
+    TeamRoundData
+} from '@shared/types';
+import {findChallengeIdForSlide} from '@core/content/ChallengeRegistry';
+import {getInvestmentPhaseBySlideId, getRoundForInvestmentPhase} from '@core/content/InvestmentRegistry';
+import {
+    CONTINUATION_EFFECTS,
+    STRATEGY_INVESTMENT_EFFECTS,
+    STRATEGY_INVESTMENT_TYPES
+} from '@core/content/InvestmentEffectsContent';
+import {ScoringEngine} from '@core/game/ScoringEngine';
+import {FinancialMetrics} from '@core/game/FinancialMetrics';
+import {MultiSelectChallengeTracker} from '@core/game/MultiSelectChallengeTracker';
+import {RuleEvaluator} from './RuleEvaluator';
+
+/**
+ * Each team's decisions keyed by team id, then phase id ('rd1-invest', 'ch1', 'rd1-invest_immediate', ...).
+ * Same shape as the host's teamDecisions state.
+ */
+export type DecisionsByPhase = Record<string, Record<string, TeamDecision>>;
+
+export interface DiceRoll {
+    dice1_value: number;
+    dice2_value: number;
+}
+
+// Double down dice keyed by investment id
+export type DiceRolls = Record<string, DiceRoll>;
+
+export type SimulatedAdjustment = Omit<PermanentKpiAdjustment, 'id' | 'created_at'>;
+
+export type SimulatedEffectSource =
+    | 'setup'
+    | 'consequence'
+    | 'immunity'
+    | 'payoff'
+    | 'bonus'
+    | 'continuation'
+    | 'permanent'
+    | 'double_down';
+
+export interface SimulationAuditEntry {
+    teamId: string;
+    round: 1 | 2 | 3;
+    slideId: number;
+    source: SimulatedEffectSource;
+    sourceId: string;           // challenge id, investment phase or investment id
+    optionId: string | null;
+    effect: KpiEffect;
+}
+
+export interface SimulationResult {
+    roundData: Record<string, Record<number, TeamRoundData>>;
+    permanentAdjustments: Record<string, SimulatedAdjustment[]>;
+    audit: SimulationAuditEntry[];
+}
+
+export interface ConsequenceOutcome {
+    source: 'setup' | 'consequence' | 'immunity';
+    challengeId: string;
+    optionId: string;
+    immediateEffects: KpiEffect[];
+    permanentEffects: KpiEffect[];
+}
+
+export interface PayoffOutcome {
+    source: 'payoff' | 'bonus';
+    phaseId: string;
+    optionId: string | null;
+    effects: KpiEffect[];
+    strategyPurchaseRound: 1 | 2 | null;    // set when the payoff is for the strategy investment
+}
+
+export type InvestmentAvailability = 'fresh' | 'continue' | 'not_available';
+
+export interface ContinuationOutcome {
+    investmentId: string;
+    effects: KpiEffect[];
+}
+
+export const DOUBLE_DOWN_PHASE_ID = 'ch-dd-prompt';
+
+// Double down picks, and the sacrifice, are made among a team's RD-3 investments
+export const DOUBLE_DOWN_INVESTMENT_PHASE = 'rd3-invest';
+
+// Boost percentage for each two-dice total
+export const DOUBLE_DOWN_DICE_BOOSTS: Record<number, number> = {
+    2: 0,
+    3: 25,
+    4: 25,
+    5: 75,
+    6: 75,
+    7: 75,
+    8: 75,
+    9: 100,
+    10: 100,
+    11: 100,
+    12: 100
+};
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L'];
+
+const isImmediate = (effect: KpiEffect) => effect.timing === 'immediate';
+
+export class GameSimulator {
+
+    /**
+     * Apply immediate effects and recompute revenue, net income and margin
+     */
+    static applyEffects<T extends Omit<TeamRoundData, 'id'>>(kpis: T, effects: KpiEffect[]): T {
+        const updated = ScoringEngine.applyKpiEffects(kpis, effects);
+        return {...updated, ...FinancialMetrics.toStoredFields(updated)};
+    }
+
+    /**
+     * Round data for a round that has none yet: baseline with permanent adjustments folded into the start values
+     */
+    static createRoundData(
+        sessionId: string,
+        teamId: string,
+        round: 1 | 2 | 3,
+        adjustments: SimulatedAdjustment[]
+    ): Omit<TeamRoundData, 'id'> {
+        const roundData = ScoringEngine.createNewRoundData(sessionId, teamId, round);
+        const adjusted = ScoringEngine.applyPermanentAdjustments(roundData, adjustments as PermanentKpiAdjustment[], teamId, round);
+        return {...adjusted, ...FinancialMetrics.toStoredFields(adjusted)};
+    }
+
+    /**
+     * Add the permanent adjustments due at the start of this round to the current KPIs
+     */
+    static applyPermanentAdjustments<T extends Omit<TeamRoundData, 'id'>>(
+        roundData: T,
+        adjustments: SimulatedAdjustment[]
+    ): { updatedKpis: T; effectsApplied: KpiEffect[]; adjustmentsApplied: SimulatedAdjustment[] } {
+        const updatedKpis = {...roundData};
+        const adjustmentsApplied = adjustments.filter(adj => adj.applies_to_round_start === roundData.round_number);
+
+        const effectsApplied = adjustmentsApplied.map((adj): KpiEffect => {
+            const key = `current_${adj.kpi_key}` as keyof Omit<TeamRoundData, 'id'>;
+            (updatedKpis as Record<string, unknown>)[key] = (updatedKpis[key] as number) + adj.change_value;
+            return {
+                kpi: adj.kpi_key as KpiKey,
+                change_value: adj.change_value,
+                timing: 'immediate',
+                description: adj.description || 'Permanent Effect'
+            };
+        });
+
+        return {updatedKpis, effectsApplied, adjustmentsApplied};
+    }
+
+    /**
+     * KPI reset at the start of round 2 or 3: baseline values, then permanent adjustments, then financials
+     */
+    static resetRound(
+        sessionId: string,
+        teamId: string,
+        round: 2 | 3,
+        adjustments: SimulatedAdjustment[]
+    ): { resetKpis: Omit<TeamRoundData, 'id'>; finalKpis: Omit<TeamRoundData, 'id'>; effectsApplied: KpiEffect[]; adjustmentsApplied: SimulatedAdjustment[] } {
+        const resetKpis = ScoringEngine.createNewRoundData(sessionId, teamId, round);
+        const {updatedKpis, effectsApplied, adjustmentsApplied} = this.applyPermanentAdjustments(resetKpis, adjustments);
+        const finalKpis = {...updatedKpis, ...FinancialMetrics.toStoredFields(updatedKpis)};
+        return {resetKpis, finalKpis, effectsApplied, adjustmentsApplied};
+    }
+
+    /**
+     * Which option (A-D) a consequence slide is for, from its title
+     */
+    static getConsequenceSlideOption(slide: Slide): string | null {
+        const title = slide.title?.toLowerCase() || '';
+
+        for (const letter of ['a', 'b', 'c', 'd']) {
+            if (title.includes(`option ${letter}`) || title.startsWith(`${letter}.`) || title.startsWith(`${letter})`)) {
+                return letter.toUpperCase();
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Position-based option detection for payoff slides: the phase's payoff slides, other than its bonus
+     * slides, map to A, B, C, ... in slide order
+     */
+    static getPayoffSlideOption(structure: GameStructure, slideId: number, investmentPhase: string): string | null {
+        const optionSlides = structure.slides.filter(slide =>
+            slide.type === 'payoff_reveal' &&
+            getInvestmentPhaseBySlideId(slide.id) === investmentPhase &&
+            !RuleEvaluator.isBonusSlide(structure.conditional_rules, slide.id)
+        );
+        const index = optionSlides.findIndex(slide => slide.id === slideId);
+        return index >= 0 ? OPTION_LETTERS[index] || null : null;
+    }
+
+    /**
+     * Whether a consequence slide is where a challenge's 'setup' consequence hits every team, regardless of
+     * their decision: the first of the challenge's consequence slides, for challenges that have one
+     */
+    static isSetupSlide(structure: GameStructure, challengeId: string, slideId: number): boolean {
+        const hasSetup = (structure.all_consequences[`${challengeId}-conseq`] || [])
+            .some(cons => cons.challenge_option_id === 'setup');
+        if (!hasSetup) return false;
+
+        const consequenceSlides = structure.challenge_registry[challengeId]?.consequence_slides || [];
+        return structure.slides.find(slide => consequenceSlides.includes(slide.id))?.id === slideId;
+    }
+
+    /**
+     * What a consequence slide does to one team, or null when it doesn't concern them
+     */
+    static resolveConsequence(
+        structure: GameStructure,
+        slide: Slide,
+        phaseDecisions: Record<string, TeamDecision> | undefined,
+        ruleDecisions: TeamDecision[] | undefined
+    ): ConsequenceOutcome | null {
+        const challengeId = findChallengeIdForSlide(structure.challenge_registry, slide.id);
+        if (!challengeId) return null;
+
+        const consequences = structure.all_consequences[`${challengeId}-conseq`] || [];
+
+        if (this.isSetupSlide(structure, challengeId, slide.id)) {
+            const setup = consequences.find(cons => cons.challenge_option_id === 'setup');
+            return setup ? {
+                source: 'setup',
+                challengeId,
+                optionId: 'setup',
+                immediateEffects: setup.effects.filter(isImmediate),
+                permanentEffects: []
+            } : null;
+        }
+
+        const slideOption = this.getConsequenceSlideOption(slide);
+        if (!slideOption || consequences.length === 0) return null;
+
+        // Team's exact selection (could be "A", "A,C", "B,C", ...)
+        const selection = phaseDecisions?.[challengeId]?.selected_challenge_option_id;
+        if (!selection) return null;
+
+        if (MultiSelectChallengeTracker.isMultiSelectChallenge(challengeId)) {
+            if (!MultiSelectChallengeTracker.shouldSlideProcessSelection(slide.id, selection)) return null;
+        } else if (selection !== slideOption) {
+            return null;
+        }
+
+        const consequence = consequences.find(cons => cons.challenge_option_id === selection);
+        if (!consequence?.effects) return null;
+
+        const rules = structure.conditional_rules;
+
+        // Immune teams only get the challenge's immunity benefits, if it defines any
+        if (RuleEvaluator.getImmunity(rules, ruleDecisions, challengeId)) {
+            const immunity = (structure.all_consequences[`${challengeId}-immunity`] || [])
+                .find(cons => cons.challenge_option_id === selection);
+            return {
+                source: 'immunity',
+                challengeId,
+                optionId: selection,
+                immediateEffects: immunity?.effects.filter(isImmediate) ?? [],
+                permanentEffects: []
+            };
+        }
+
+        return {
+            source: 'consequence',
+            challengeId,
+            optionId: selection,
+            immediateEffects: RuleEvaluator.applyEffectOverrides(
+                rules, ruleDecisions, challengeId, selection, consequence.effects, 'immediate'
+            ).filter(isImmediate),
+            permanentEffects: RuleEvaluator.applyEffectOverrides(
+                rules,
+                ruleDecisions,
+                challengeId,
+                selection,
+                consequence.effects.filter(eff => eff.timing === 'permanent_next_round_start'),
+                'permanent_next_round_start'
+            )
+        };
+    }
+
+    /**
+     * What a payoff slide does to one team, or null when it doesn't concern them
+     */
+    static resolvePayoff(
+        structure: GameStructure,
+        slide: Slide,
+        phaseDecisions: Record<string, TeamDecision> | undefined,
+        ruleDecisions: TeamDecision[] | undefined
+    ): PayoffOutcome | null {
+        const phaseId = getInvestmentPhaseBySlideId(slide.id);
+        if (!phaseId) return null;
+
+        // Synergy bonus slides are driven entirely by the game's bonus rules
+        const rules = structure.conditional_rules;
+        if (RuleEvaluator.isBonusSlide(rules, slide.id)) {
+            const effects = RuleEvaluator.getBonusEffects(rules, ruleDecisions, slide.id);
+            return effects.length > 0
+                ? {source: 'bonus', phaseId, optionId: null, effects, strategyPurchaseRound: null}
+                : null;
+        }
+
+        const optionId = this.getPayoffSlideOption(structure, slide.id, phaseId);
+        if (!optionId) return null;
+
+        if (!this.getPurchasedInvestments(phaseDecisions, phaseId).includes(optionId)) return null;
+
+        // The investment a team sacrificed to double down pays nothing in RD-3
+        if (phaseId === DOUBLE_DOWN_INVESTMENT_PHASE && this.getSacrificedInvestment(phaseDecisions) === optionId) return null;
+
+        const payoff = (structure.all_investment_payoffs[`rd${getRoundForInvestmentPhase(phaseId)}-payoff`] || [])
+            .find(p => p.id === optionId);
+        const strategyPurchaseRound = optionId === 'A' ? (phaseId === 'rd1-invest' ? 1 : 2) : null;
+        if (!payoff?.effects && !strategyPurchaseRound) return null;
+
+        return {
+            source: 'payoff',
+            phaseId,
+            optionId,
+            effects: payoff?.effects.filter(isImmediate) ?? [],
+            strategyPurchaseRound
+        };
+    }
+
+    /**
+     * Regular and immediate purchases of an investment phase
+     */
+    static getPurchasedInvestments(phaseDecisions: Record<string, TeamDecision> | undefined, phaseId: string): string[] {
+        return [
+            ...(phaseDecisions?.[phaseId]?.selected_investment_options || []),
+            ...(phaseDecisions?.[`${phaseId}_immediate`]?.selected_investment_options || [])
+        ];
+    }
+
+    static getSacrificedInvestment(phaseDecisions: Record<string, TeamDecision> | undefined): string | null {
+        return phaseDecisions?.[DOUBLE_DOWN_PHASE_ID]?.double_down_sacrifice_id ?? null;
+    }
+
+    /**
+     * What a team gives up by sacrificing an RD-3 investment: its payoff effects, negated. Used to take back
+     * a payoff that was applied before the sacrifice was settled. Empty when the team never bought it.
+     */
+    static resolveSacrifice(structure: GameStructure, phaseDecisions: Record<string, TeamDecision> | undefined): KpiEffect[] {
+        const investmentId = this.getSacrificedInvestment(phaseDecisions);
+        if (!investmentId || !this.getPurchasedInvestments(phaseDecisions, DOUBLE_DOWN_INVESTMENT_PHASE).includes(investmentId)) {
+            return [];
+        }
+
+        const payoff = (structure.all_investment_payoffs['rd3-payoff'] || []).find(p => p.id === investmentId);
+        return (payoff?.effects.filter(isImmediate) ?? []).map(effect => ({
+            ...effect,
+            change_value: -effect.change_value,
+            description: `${effect.description || ''} (sacrificed for Double Down)`
+        }));
+    }
+
+    /**
+     * Permanent adjustments granted by the strategy investment
+     */
+    static buildStrategyAdjustments(sessionId: string, teamId: string, purchaseRound: 1 | 2): SimulatedAdjustment[] {
+        return STRATEGY_INVESTMENT_EFFECTS.flatMap(effect => (effect.applies_to_rounds || []).map(roundNum => ({
+            session_id: sessionId,
+            team_id: teamId,
+            applies_to_round_start: roundNum,
+            kpi_key: effect.kpi,
+            change_value: effect.change_value,
+            description: `${effect.description} (Purchased RD-${purchaseRound})`,
+            challenge_id: 'strategy',
+            option_id: 'A'
+        })));
+    }
+
+    /**
+     * Whether the team bought the strategy investment (immediate purchase or option A) in RD-1 or RD-2
+     */
+    static hasStrategyInvestment(teamDecisions: TeamDecision[]): boolean {
+        const strategyTypes: string[] = Object.values(STRATEGY_INVESTMENT_TYPES);
+        return teamDecisions.some(decision =>
+            (decision.is_immediate_purchase && strategyTypes.includes(decision.immediate_purchase_type || '')) ||
+            (!decision.is_immediate_purchase &&
+                (decision.phase_id === 'rd1-invest' || decision.phase_id === 'rd2-invest') &&
+                (decision.selected_investment_options?.includes('A') ?? false))
+        );
+    }
+
+    /**
+     * Investments (regular and immediate) the team made in the round before targetRound
+     */
+    static getPreviousInvestments(teamDecisions: TeamDecision[], targetRound: 2 | 3): string[] {
+        const previousPhase = targetRound === 2 ? 'rd1-invest' : 'rd2-invest';
+        const investments = teamDecisions
+            .filter(decision =>
+                (decision.phase_id === previousPhase && !decision.is_immediate_purchase) ||
+                (decision.phase_id === `${previousPhase}_immediate` && decision.is_immediate_purchase)
+            )
+            .flatMap(decision => decision.selected_investment_options || []);
+
+        return [...new Set(investments)].sort();
+    }
+
+    /**
+     * Whether an investment is bought fresh, continued from last round, or not available
+     */
+    static getInvestmentAvailability(
+        investmentId: string,
+        targetRound: 2 | 3,
+        previousInvestments: string[],
+        hasStrategy: boolean,
+        pricingTables: ContinuationPricingTables
+    ): InvestmentAvailability {
+        const pricingInfo = pricingTables[`rd${targetRound}`][investmentId];
+        if (!pricingInfo) return 'fresh';
+
+        // Strategy can't be bought in RD-3, nor again in RD-2 once owned
+        if (investmentId === 'A' && (targetRound === 3 || hasStrategy)) return 'not_available';
+
+        const hasPreviousInvestment = previousInvestments.includes(investmentId);
+
+        // Continuation-only investments need last round's purchase
+        if (pricingInfo.requiresPrevious) {
+            return hasPreviousInvestment ? 'continue' : 'not_available';
+        }
+        if (hasPreviousInvestment && pricingInfo.continuationPrice !== null) return 'continue';
+        if (pricingInfo.freshPrice !== null) return 'fresh';
+        return 'not_available';
+    }
+
+    /**
+     * What the team pays for an investment: its continuation price when continued, its fresh price otherwise
+     */
+    static getInvestmentPrice(
+        investmentId: string,
+        targetRound: 2 | 3,
+        availability: InvestmentAvailability,
+        pricingTables: ContinuationPricingTables
+    ): number {
+        const pricingInfo = pricingTables[`rd${targetRound}`][investmentId];
+        if (availability === 'not_available' || !pricingInfo) return 0;
+
+        if (availability === 'continue' && pricingInfo.continuationPrice !== null) return pricingInfo.continuationPrice;
+        if (availability === 'fresh' && pricingInfo.freshPrice !== null) return pricingInfo.freshPrice;
+        return 0;
+    }
+
+    /**
+     * Continuation effects for investments continued from the previous round
+     */
+    static resolveContinuations(
+        pricingTables: ContinuationPricingTables,
+        targetRound: 2 | 3,
+        selectedInvestments: string[],
+        previousInvestments: string[],
+        hasStrategy: boolean
+    ): ContinuationOutcome[] {
+        return selectedInvestments
+            .filter(investmentId =>
+                this.getInvestmentAvailability(investmentId, targetRound, previousInvestments, hasStrategy, pricingTables) === 'continue'
+            )
+            .map(investmentId => ({investmentId, effects: this.getContinuationEffects(investmentId, targetRound)}))
+            .filter(outcome => outcome.effects.length > 0);
+    }
+
+    static getContinuationEffects(investmentId: string, targetRound: 2 | 3): KpiEffect[] {
+        return CONTINUATION_EFFECTS[`rd${targetRound}`]?.[investmentId] || [];
+    }
+
+    static getDoubleDownBoost(diceTotal: number): number {
+        return DOUBLE_DOWN_DICE_BOOSTS[diceTotal] ?? 0;
+    }
+
+    /**
+     * Extra RD-3 payoff effects for teams that doubled down: boostPercentage of the original payoff on top
+     */
+    static resolveDoubleDown(structure: GameStructure, investmentId: string, boostPercentage: number): KpiEffect[] {
+        const payoff = (structure.all_investment_payoffs['rd3-payoff'] || []).find(p => p.id === investmentId);
+        if (!payoff?.effects) return [];
+
+        const multiplier = boostPercentage / 100;
+        return payoff.effects.map(effect => ({
+            ...effect,
+            change_value: Math.round(effect.change_value * multiplier),
+            description: `${effect.description || ''} (+${boostPercentage}% Double Down Bonus)`
+        }));
+    }
+
+    /**
+     * What a re-roll changes for a team that already received the first roll's boost
+     */
+    static resolveDoubleDownReroll(
+        structure: GameStructure,
+        investmentId: string,
+        previousBoost: number,
+        newBoost: number
+    ): KpiEffect[] {
+        const previous = this.resolveDoubleDown(structure, investmentId, previousBoost);
+        return this.resolveDoubleDown(structure, investmentId, newBoost)
+            .map((effect, index) => ({
+                ...effect,
+                change_value: effect.change_value - (previous[index]?.change_value ?? 0),
+                description: `${effect.description || ''} (re-rolled from ${previousBoost}%)`
+            }))
+            .filter(effect => effect.change_value !== 0);
+    }
+}
+
+/**
+ * Replay the full game slide by slide. Teams without a decision for a phase simply get no effects
+ * from it, exactly as in a live session.
+ */
+export function simulateGame(
+    structure: GameStructure,
+    teams: Pick<Team, 'id' | 'session_id'>[],
+    decisionsByPhase: DecisionsByPhase,
+    diceRolls: DiceRolls = {}
+): SimulationResult {
+    const roundData: Record<string, Record<number, TeamRoundData>> = {};
+    const permanentAdjustments: Record<string, SimulatedAdjustment[]> = {};
+    const audit: SimulationAuditEntry[] = [];
+
+    const withId = (kpis: Omit<TeamRoundData, 'id'>): TeamRoundData =>
+        ({id: `${kpis.team_id}-rd${kpis.round_number}`, ...kpis});
+
+    const getKpis = (team: Pick<Team, 'id' | 'session_id'>, round: 1 | 2 | 3): TeamRoundData =>
+        roundData[team.id][round] ??= withId(
+            GameSimulator.createRoundData(team.session_id, team.id, round, permanentAdjustments[team.id])
+        );
+
+    const apply = (
+        team: Pick<Team, 'id' | 'session_id'>,
+        slide: Slide,
+        round: 1 | 2 | 3,
+        source: SimulatedEffectSource,
+        sourceId: string,
+        optionId: string | null,
+        effects: KpiEffect[]
+    ) => {
+        const applicable = effects.filter(isImmediate);
+        if (applicable.length === 0) return;
+
+        roundData[team.id][round] = GameSimulator.applyEffects(getKpis(team, round), applicable);
+        applicable.forEach(effect => audit.push({teamId: team.id, round, slideId: slide.id, source, sourceId, optionId, effect}));
+    };
+
+    // Round 1 exists from the moment the session is created
+    teams.forEach(team => {
+        roundData[team.id] = {};
+        permanentAdjustments[team.id] = [];
+        getKpis(team, 1);
+    });
+
+    for (const slide of structure.slides) {
+        if (slide.round_number === 0) continue;
+        const round = slide.round_number;
+
+        for (const team of teams) {
+            const phaseDecisions = decisionsByPhase[team.id] ?? {};
+            const teamDecisions = Object.values(phaseDecisions);
+
+            switch (slide.type) {
+                case 'kpi_reset': {
+                    if (round === 1) break;
+                    const reset = GameSimulator.resetRound(team.session_id, team.id, round, permanentAdjustments[team.id]);
+                    roundData[team.id][round] = withId(reset.finalKpis);
+                    reset.effectsApplied.forEach((effect, index) => audit.push({
+                        teamId: team.id,
+                        round,
+                        slideId: slide.id,
+                        source: 'permanent',
+                        sourceId: reset.adjustmentsApplied[index].challenge_id,
+                        optionId: reset.adjustmentsApplied[index].option_id,
+                        effect
+                    }));
+                    break;
+                }
+
+                case 'interactive_invest': {
+                    const phaseId = slide.interactive_data_key;
+                    const targetRound = phaseId ? getRoundForInvestmentPhase(phaseId) : null;
+                    if (!phaseId || (targetRound !== 2 && targetRound !== 3)) break;
+
+                    const continuations = GameSimulator.resolveContinuations(
+                        structure.continuation_pricing,
+                        targetRound,
+                        phaseDecisions[phaseId]?.selected_investment_options || [],
+                        GameSimulator.getPreviousInvestments(teamDecisions, targetRound),
+                        GameSimulator.hasStrategyInvestment(teamDecisions)
+                    );
+                    continuations.forEach(continuation =>
+                        apply(team, slide, targetRound, 'continuation', continuation.investmentId, null, continuation.effects)
+                    );
+                    break;
+                }
+
+                case 'consequence_reveal': {
+                    const outcome = GameSimulator.resolveConsequence(structure, slide, phaseDecisions, teamDecisions);
+                    if (!outcome) break;
+
+                    apply(team, slide, round, outcome.source, outcome.challengeId, outcome.optionId, outcome.immediateEffects);
+                    permanentAdjustments[team.id].push(...ScoringEngine.createPermanentAdjustments(
+                        outcome.permanentEffects, team.session_id, team.id, outcome.challengeId, outcome.optionId
+                    ));
+                    break;
+                }
+
+                case 'payoff_reveal': {
+                    const outcome = GameSimulator.resolvePayoff(structure, slide, phaseDecisions, teamDecisions);
+                    if (!outcome) break;
+
+                    if (outcome.strategyPurchaseRound &&
+                        !permanentAdjustments[team.id].some(adj => adj.challenge_id === 'strategy')) {
+                        permanentAdjustments[team.id].push(
+                            ...GameSimulator.buildStrategyAdjustments(team.session_id, team.id, outcome.strategyPurchaseRound)
+                        );
+                    }
+                    apply(team, slide, round, outcome.source, outcome.phaseId, outcome.optionId, outcome.effects);
+                    break;
+                }
+
+                case 'double_down_dice_roll': {
+                    const investmentId = slide.interactive_data_key;
+                    const roll = investmentId ? diceRolls[investmentId] : undefined;
+                    if (!investmentId || !roll) break;
+                    if (phaseDecisions[DOUBLE_DOWN_PHASE_ID]?.double_down_on_id !== investmentId) break;
+
+                    const boost = GameSimulator.getDoubleDownBoost(roll.dice1_value + roll.dice2_value);
+                    apply(team, slide, 3, 'double_down', investmentId, null,
+                        GameSimulator.resolveDoubleDown(structure, investmentId, boost));
+                    break;
+                }
+            }
+        }
+    }
+
+    return {roundData, permanentAdjustments, audit};
+}
@@ -0,0 +1,125 @@
+// src/core/simulation/RuleEvaluator.ts
+// Evaluates the declarative conditional rules (immunities, forced selections, effect overrides, bonuses)
+// from the game structure against one team's decisions. Pure: no storage access.
+
+import {
+    BonusRule,
+    ConditionalRule,
+    EffectOverrideRule,
+    ForcedSelectionRule,
+    ImmunityRule,
+    KpiEffect,
+    RuleCondition,
+    TeamDecision
+} from '@shared/types';
+
+export class RuleEvaluator {
+
+    /**
+     * Evaluate a condition against one team's decisions
+     */
+    static evaluate(condition: RuleCondition, teamDecisions: TeamDecision[] = []): boolean {
+        switch (condition.type) {
+            case 'investment':
+                return teamDecisions.some(decision =>
+                    decision.phase_id === condition.phase &&
+                    (decision.selected_investment_options?.includes(condition.option) ?? false)
+                );
+            case 'challenge':
+                return teamDecisions.some(decision =>
+                    decision.phase_id === condition.phase &&
+                    decision.selected_challenge_option_id === condition.option
+                );
+            case 'all':
+                return condition.conditions.every(c => this.evaluate(c, teamDecisions));
+            case 'any':
+                return condition.conditions.some(c => this.evaluate(c, teamDecisions));
+        }
+    }
+
+    /**
+     * Immunity rule that protects the team from a challenge, if any
+     */
+    static getImmunity(
+        rules: ConditionalRule[],
+        teamDecisions: TeamDecision[] | undefined,
+        challengeId: string
+    ): ImmunityRule | null {
+        return rules.find((rule): rule is ImmunityRule =>
+            rule.kind === 'immunity' &&
+            rule.challengeId === challengeId &&
+            this.evaluate(rule.when, teamDecisions)
+        ) ?? null;
+    }
+
+    /**
+     * Forced selection rule that applies to the team for a challenge, if any
+     */
+    static getForcedSelection(
+        rules: ConditionalRule[],
+        teamDecisions: TeamDecision[] | undefined,
+        challengeId: string
+    ): ForcedSelectionRule | null {
+        return rules.find((rule): rule is ForcedSelectionRule =>
+            rule.kind === 'forced_selection' &&
+            rule.challengeId === challengeId &&
+            this.evaluate(rule.when, teamDecisions)
+        ) ?? null;
+    }
+
+    /**
+     * Rewrite the effects of a challenge option according to any matching effect override rules
+     */
+    static applyEffectOverrides(
+        rules: ConditionalRule[],
+        teamDecisions: TeamDecision[] | undefined,
+        challengeId: string,
+        selectedOption: string,
+        effects: KpiEffect[],
+        timing: KpiEffect['timing']
+    ): KpiEffect[] {
+        const overrides = rules.filter((rule): rule is EffectOverrideRule =>
+            rule.kind === 'effect_override' &&
+            rule.challengeId === challengeId &&
+            rule.timing === timing &&
+            rule.options.includes(selectedOption)
+        );
+        if (overrides.length === 0) return effects;
+
+        return effects.map(effect => {
+            const override = overrides.find(rule =>
+                rule.kpi === effect.kpi &&
+                rule.timing === effect.timing &&
+                (!rule.descriptionMatch || (effect.description?.includes(rule.descriptionMatch) ?? false))
+            );
+            if (!override) return effect;
+
+            const outcome = this.evaluate(override.when, teamDecisions) ? override.then : override.otherwise;
+            return {...effect, change_value: outcome.change_value, description: outcome.description};
+        });
+    }
+
+    /**
+     * Whether a slide is driven by bonus rules instead of the regular payoff content
+     */
+    static isBonusSlide(rules: ConditionalRule[], slideId: number): boolean {
+        return rules.some(rule => rule.kind === 'bonus' && rule.slideId === slideId);
+    }
+
+    /**
+     * Effects of every bonus rule on the slide that the team qualifies for
+     */
+    static getBonusEffects(
+        rules: ConditionalRule[],
+        teamDecisions: TeamDecision[] | undefined,
+        slideId: number
+    ): KpiEffect[] {
+        return rules
+            .filter((rule): rule is BonusRule =>
+                rule.kind === 'bonus' &&
+                rule.slideId === slideId &&
+                this.evaluate(rule.when, teamDecisions)
+            )
+            .flatMap(rule => rule.effects);
+    }
+}
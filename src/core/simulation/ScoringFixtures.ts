@@ -0,0 +1,238 @@
+// src/core/simulation/ScoringFixtures.ts
+// Golden-file scoring fixtures: one team's complete decision path plus the exact KPIs it must finish each
+// round with. `npm test` replays them through the simulator and through the live engines
+// (src/core/game/ScoringFixtures.test.ts) so content or engine edits can't silently change game outcomes.
+// The expected numbers are edited by hand, never regenerated from the simulator.
+
+import {GameStructure, GameVersion, TeamDecision} from '@shared/types';
+import {getGameStructure} from '@core/content/GameVariants';
+import {DOUBLE_DOWN_PHASE_ID, GameSimulator, SimulatedEffectSource, simulateGame} from './GameSimulator';
+import {RuleEvaluator} from './RuleEvaluator';
+
+export interface ScoringFixture {
+    name: string;
+    description: string;
+    game_version: GameVersion;
+    // Investment phase -> options; immediate purchases under '<phase>_immediate'
+    investments: Record<string, string[]>;
+    // Challenge -> option ('A,C' for multi-select). Challenges left out get their default option,
+    // as when the host closes the slide before the team submits.
+    challenges: Record<string, string>;
+    double_down?: { on: string; sacrifice: string | null };
+    // Investment id -> both dice
+    dice?: Record<string, [number, number]>;
+    expected?: ScoringSnapshot;
+}
+
+export interface ScoringRoundSnapshot {
+    capacity: number;
+    orders: number;
+    cost: number;
+    asp: number;
+    revenue: number;
+    net_income: number;
+    net_margin: number;
+}
+
+export interface ScoringSnapshot {
+    rounds: Record<string, ScoringRoundSnapshot>;
+    effects_by_source: Partial<Record<SimulatedEffectSource, number>>;
+    // Investment phase -> option -> what the team paid for it in RD-2 and RD-3
+    continuation_prices: Record<string, Record<string, number>>;
+    total_net_income: number;
+}
+
+export interface ScoringFixtureResult {
+    actual: ScoringSnapshot;
+    forcedSelections: string[];     // challenges where a forced selection rule replaced the fixture's choice
+    mismatches: string[];
+}
+
+const FIXTURE_TEAM_ID = 'fixture-team';
+const FIXTURE_SESSION_ID = 'fixture-session';
+
+const createDecision = (phaseId: string, roundNumber: number, fields: Partial<TeamDecision>): TeamDecision => ({
+    id: `${FIXTURE_TEAM_ID}-${phaseId}`,
+    session_id: FIXTURE_SESSION_ID,
+    team_id: FIXTURE_TEAM_ID,
+    phase_id: phaseId,
+    round_number: roundNumber,
+    selected_investment_options: null,
+    selected_challenge_option_id: null,
+    double_down_sacrifice_id: null,
+    double_down_on_id: null,
+    rationale: null,
+    total_spent_budget: 0,
+    submitted_at: '',
+    is_immediate_purchase: false,
+    immediate_purchase_type: null,
+    immediate_purchase_data: null,
+    report_given: false,
+    report_given_at: null,
+    ...fields
+});
+
+/**
+ * Expand a fixture into the decisions a team app would have submitted, walking the slides in order so
+ * forced selection rules see exactly the decisions made before them
+ */
+export function buildFixtureDecisions(
+    fixture: ScoringFixture,
+    structure: GameStructure
+): { decisions: Record<string, TeamDecision>; forcedSelections: string[] } {
+    const decisions: Record<string, TeamDecision> = {};
+    const forcedSelections: string[] = [];
+
+    for (const slide of structure.slides) {
+        const key = slide.interactive_data_key;
+        if (!key || decisions[key]) continue;
+
+        if (slide.type === 'interactive_invest') {
+            const options = structure.all_investment_options[key] || [];
+            const investmentCost = (ids: string[]) =>
+                ids.reduce((total, id) => total + (options.find(option => option.id === id)?.cost ?? 0), 0);
+
+            const immediate = fixture.investments[`${key}_immediate`] || [];
+            if (immediate.length > 0) {
+                decisions[`${key}_immediate`] = createDecision(`${key}_immediate`, slide.round_number, {
+                    selected_investment_options: immediate,
+                    total_spent_budget: investmentCost(immediate),
+                    is_immediate_purchase: true,
+                    immediate_purchase_type: options.find(option => option.id === immediate[0])?.immediate_purchase_type ?? immediate[0]
+                });
+            }
+
+            const regular = fixture.investments[key] || [];
+            if (regular.length > 0) {
+                decisions[key] = createDecision(key, slide.round_number, {
+                    selected_investment_options: regular,
+                    total_spent_budget: investmentCost(regular)
+                });
+            }
+        } else if (slide.type === 'interactive_choice') {
+            let option = fixture.challenges[key]
+                ?? structure.all_challenge_options[key]?.find(choice => choice.is_default_choice)?.id;
+
+            const forced = RuleEvaluator.getForcedSelection(structure.conditional_rules, Object.values(decisions), key);
+            if (forced && forced.forcedOption !== option) {
+                forcedSelections.push(`${key}: ${option ?? 'none'} -> ${forced.forcedOption}`);
+                option = forced.forcedOption;
+            }
+
+            if (option) {
+                decisions[key] = createDecision(key, slide.round_number, {selected_challenge_option_id: option});
+            }
+        } else if (slide.type === 'interactive_double_down_select' && key === DOUBLE_DOWN_PHASE_ID && fixture.double_down) {
+            decisions[key] = createDecision(key, slide.round_number, {
+                selected_challenge_option_id: 'yes_dd',
+                double_down_on_id: fixture.double_down.on,
+                double_down_sacrifice_id: fixture.double_down.sacrifice
+            });
+        }
+    }
+
+    return {decisions, forcedSelections};
+}
+
+/**
+ * What the team pays for each investment it buys in RD-2 and RD-3, priced against its other decisions
+ */
+export function priceFixtureInvestments(
+    structure: GameStructure,
+    decisions: Record<string, TeamDecision>
+): Record<string, Record<string, number>> {
+    const prices: Record<string, Record<string, number>> = {};
+
+    ([2, 3] as const).forEach(targetRound => {
+        const phaseId = `rd${targetRound}-invest`;
+        const selected = decisions[phaseId]?.selected_investment_options || [];
+        if (selected.length === 0) return;
+
+        const otherDecisions = Object.values(decisions).filter(decision => decision.phase_id !== phaseId);
+        const previousInvestments = GameSimulator.getPreviousInvestments(otherDecisions, targetRound);
+        const hasStrategy = GameSimulator.hasStrategyInvestment(otherDecisions);
+
+        prices[phaseId] = Object.fromEntries(selected.map(investmentId => {
+            const availability = GameSimulator.getInvestmentAvailability(
+                investmentId, targetRound, previousInvestments, hasStrategy, structure.continuation_pricing
+            );
+            return [investmentId, GameSimulator.getInvestmentPrice(investmentId, targetRound, availability, structure.continuation_pricing)];
+        }));
+    });
+
+    return prices;
+}
+
+/**
+ * Replay the fixture and compare the outcome with its expected snapshot
+ */
+export function runScoringFixture(fixture: ScoringFixture): ScoringFixtureResult {
+    const structure = getGameStructure(fixture.game_version);
+    const {decisions, forcedSelections} = buildFixtureDecisions(fixture, structure);
+
+    const diceRolls = Object.fromEntries(Object.entries(fixture.dice || {}).map(([investmentId, [dice1, dice2]]) =>
+        [investmentId, {dice1_value: dice1, dice2_value: dice2}]
+    ));
+
+    const result = simulateGame(
+        structure,
+        [{id: FIXTURE_TEAM_ID, session_id: FIXTURE_SESSION_ID}],
+        {[FIXTURE_TEAM_ID]: decisions},
+        diceRolls
+    );
+
+    const rounds: Record<string, ScoringRoundSnapshot> = {};
+    Object.values(result.roundData[FIXTURE_TEAM_ID]).forEach(kpis => {
+        rounds[kpis.round_number] = {
+            capacity: kpis.current_capacity,
+            orders: kpis.current_orders,
+            cost: kpis.current_cost,
+            asp: kpis.current_asp,
+            revenue: kpis.revenue,
+            net_income: kpis.net_income,
+            net_margin: kpis.net_margin
+        };
+    });
+
+    const effectsBySource: Partial<Record<SimulatedEffectSource, number>> = {};
+    result.audit.forEach(entry => {
+        effectsBySource[entry.source] = (effectsBySource[entry.source] ?? 0) + 1;
+    });
+
+    const actual: ScoringSnapshot = {
+        rounds,
+        effects_by_source: effectsBySource,
+        continuation_prices: priceFixtureInvestments(structure, decisions),
+        total_net_income: Object.values(rounds).reduce((total, round) => total + round.net_income, 0)
+    };
+
+    return {
+        actual,
+        forcedSelections,
+        mismatches: fixture.expected ? compareScoringSnapshots(fixture.expected, actual) : ['expected: missing']
+    };
+}
+
+/**
+ * Every value that differs between two snapshots, as "path: expected X, got Y"
+ */
+export function compareScoringSnapshots(expected: Partial<ScoringSnapshot>, actual: Partial<ScoringSnapshot>): string[] {
+    const mismatches: string[] = [];
+
+    const compare = (path: string, expectedValue: unknown, actualValue: unknown) => {
+        if (expectedValue !== null && typeof expectedValue === 'object' &&
+            actualValue !== null && typeof actualValue === 'object') {
+            const keys = new Set([...Object.keys(expectedValue), ...Object.keys(actualValue)]);
+            keys.forEach(key => compare(
+                path ? `${path}.${key}` : key,
+                (expectedValue as Record<string, unknown>)[key],
+                (actualValue as Record<string, unknown>)[key]
+            ));
+        } else if (expectedValue !== actualValue) {
+            mismatches.push(`${path}: expected ${JSON.stringify(expectedValue)}, got ${JSON.stringify(actualValue)}`);
+        }
+    };
+
+    compare('', expected, actual);
+    return mismatches;
+}
@@ -0,0 +1,19 @@
+// src/core/simulation/index.ts
+// Side-effect-free game logic: nothing in this folder may touch storage, realtime or React
+export {GameSimulator, simulateGame, DOUBLE_DOWN_DICE_BOOSTS, DOUBLE_DOWN_PHASE_ID} from './GameSimulator';
+export type {
+    ConsequenceOutcome,
+    ContinuationOutcome,
+    DecisionsByPhase,
+    DiceRoll,
+    DiceRolls,
+    InvestmentAvailability,
+    PayoffOutcome,
+    SimulatedAdjustment,
+    SimulatedEffectSource,
+    SimulationAuditEntry,
+    SimulationResult
+} from './GameSimulator';
+export {RuleEvaluator} from './RuleEvaluator';
+export {buildFixtureDecisions, compareScoringSnapshots, runScoringFixture} from './ScoringFixtures';
+export type {ScoringFixture, ScoringFixtureResult, ScoringRoundSnapshot, ScoringSnapshot} from './ScoringFixtures';
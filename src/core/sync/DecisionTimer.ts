@@ -0,0 +1,83 @@
+// src/core/sync/DecisionTimer.ts
+// Pure state transitions for the decision countdown. The host applies them and broadcasts the result;
+// teams and the presentation only read the state, so every device agrees on when the window closes.
+
+import type {Slide} from '@shared/types/game';
+import type {DecisionTimerExpiryAction, DecisionTimerState} from '@shared/types/sync';
+
+export class DecisionTimer {
+    static getDefaultDurationSeconds(slide: Slide): number | null {
+        return slide.timer_duration_seconds && slide.timer_duration_seconds > 0 ? slide.timer_duration_seconds : null;
+    }
+
+    static start(slide: Slide, durationSeconds: number, expiryAction: DecisionTimerExpiryAction, now: number): DecisionTimerState {
+        return {
+            slideId: slide.id,
+            decisionKey: slide.interactive_data_key || '',
+            status: 'running',
+            durationSeconds,
+            endsAt: now + durationSeconds * 1000,
+            remainingMs: durationSeconds * 1000,
+            expiryAction,
+            updatedAt: now,
+        };
+    }
+
+    static pause(timer: DecisionTimerState, now: number): DecisionTimerState {
+        if (timer.status !== 'running') return timer;
+        return {...timer, status: 'paused', endsAt: null, remainingMs: DecisionTimer.getRemainingMs(timer, now), updatedAt: now};
+    }
+
+    static resume(timer: DecisionTimerState, now: number): DecisionTimerState {
+        if (timer.status !== 'paused') return timer;
+        return {...timer, status: 'running', endsAt: now + timer.remainingMs, updatedAt: now};
+    }
+
+    // Extending an expired or ended window reopens it
+    static extend(timer: DecisionTimerState, seconds: number, now: number): DecisionTimerState {
+        const extraMs = seconds * 1000;
+        const durationSeconds = timer.durationSeconds + seconds;
+
+        if (timer.status === 'running') {
+            return {...timer, durationSeconds, endsAt: (timer.endsAt ?? now) + extraMs, updatedAt: now};
+        }
+        if (timer.status === 'paused') {
+            return {...timer, durationSeconds, remainingMs: timer.remainingMs + extraMs, updatedAt: now};
+        }
+        return {...timer, status: 'running', durationSeconds, endsAt: now + extraMs, remainingMs: extraMs, updatedAt: now};
+    }
+
+    // Host closed the window early
+    static end(timer: DecisionTimerState, now: number): DecisionTimerState {
+        return {...timer, status: 'ended', endsAt: null, remainingMs: 0, updatedAt: now};
+    }
+
+    static expire(timer: DecisionTimerState, now: number): DecisionTimerState {
+        return {...timer, status: 'expired', endsAt: null, remainingMs: 0, updatedAt: now};
+    }
+
+    static setExpiryAction(timer: DecisionTimerState, expiryAction: DecisionTimerExpiryAction, now: number): DecisionTimerState {
+        return {...timer, expiryAction, updatedAt: now};
+    }
+
+    static getRemainingMs(timer: DecisionTimerState, now: number): number {
+        if (timer.status === 'running' && timer.endsAt !== null) {
+            return Math.max(0, timer.endsAt - now);
+        }
+        return timer.status === 'paused' ? timer.remainingMs : 0;
+    }
+
+    // A running timer past its deadline is treated as closed even before the host marks it expired
+    static isClosed(timer: DecisionTimerState | null, now: number): boolean {
+        if (!timer) return false;
+        if (timer.status === 'expired' || timer.status === 'ended') return true;
+        return timer.status === 'running' && DecisionTimer.getRemainingMs(timer, now) === 0;
+    }
+
+    static formatRemaining(remainingMs: number): string {
+        const totalSeconds = Math.ceil(remainingMs / 1000);
+        const minutes = Math.floor(totalSeconds / 60);
+        const seconds = totalSeconds % 60;
+        return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    }
+}
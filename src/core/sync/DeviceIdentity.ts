@@ -0,0 +1,57 @@
+// src/core/sync/DeviceIdentity.ts
+// Stable per-browser device id and the running app version, reported in team presence
+
+const DEVICE_ID_KEY = 'ron_deviceId';
+
+// Set VITE_APP_VERSION at build time (e.g. the release tag or commit) to tell team devices' builds apart
+export const APP_VERSION: string = import.meta.env.VITE_APP_VERSION || 'dev';
+
+let cachedDeviceId: string | null = null;
+
+const generateId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Kept in localStorage so a reload or rejoin counts as the same device
+export const getDeviceId = (): string => {
+    if (cachedDeviceId) return cachedDeviceId;
+    try {
+        cachedDeviceId = localStorage.getItem(DEVICE_ID_KEY);
+        if (!cachedDeviceId) {
+            cachedDeviceId = generateId();
+            localStorage.setItem(DEVICE_ID_KEY, cachedDeviceId);
+        }
+    } catch {
+        // Private mode or storage disabled: fall back to an id for this page load
+        cachedDeviceId = cachedDeviceId || generateId();
+    }
+    return cachedDeviceId;
+};
+
+const DEVICE_NAME_KEY = 'ron_deviceName';
+
+// What teammates see next to this device's edits; defaults to a short form of the device id
+export const getDeviceName = (): string => {
+    try {
+        const saved = localStorage.getItem(DEVICE_NAME_KEY);
+        if (saved) return saved;
+    } catch {
+        // Fall through to the default name
+    }
+    return `Device ${getDeviceId().slice(0, 4).toUpperCase()}`;
+};
+
+export const setDeviceName = (name: string): void => {
+    try {
+        if (name.trim()) {
+            localStorage.setItem(DEVICE_NAME_KEY, name.trim());
+        } else {
+            localStorage.removeItem(DEVICE_NAME_KEY);
+        }
+    } catch {
+        // Not persisted; the default name stays in use
+    }
+};
@@ -0,0 +1,88 @@
+// src/core/sync/ServerClock.ts
+// Skew-corrected clock shared by every device in a session.
+// Countdown deadlines are stored in server time; each device converts with its own measured offset.
+
+import {db} from '@shared/services/supabase';
+
+const SAMPLE_COUNT = 3;
+const RESYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * ServerClock - Singleton that estimates the offset between this device and the backend clock
+ * Takes a few samples and keeps the one with the shortest round trip (least network noise)
+ */
+export class ServerClock {
+    private static instance: ServerClock | null = null;
+    private offsetMs: number = 0;
+    private bestRoundTripMs: number = Infinity;
+    private lastSyncAt: number = 0;
+    private syncPromise: Promise<number> | null = null;
+
+    private constructor() {
+    }
+
+    static getInstance(): ServerClock {
+        if (!ServerClock.instance) {
+            ServerClock.instance = new ServerClock();
+        }
+        return ServerClock.instance;
+    }
+
+    // Current server time in epoch ms
+    now(): number {
+        return Date.now() + this.offsetMs;
+    }
+
+    getOffsetMs(): number {
+        return this.offsetMs;
+    }
+
+    isSynced(): boolean {
+        return this.lastSyncAt > 0;
+    }
+
+    /**
+     * Measure the offset. Concurrent callers share one measurement; recent results are reused
+     * unless forced. Falls back to the device clock (offset 0) if the backend is unreachable.
+     */
+    async sync(force: boolean = false): Promise<number> {
+        if (!force && this.isSynced() && Date.now() - this.lastSyncAt < RESYNC_INTERVAL_MS) {
+            return this.offsetMs;
+        }
+        if (this.syncPromise) return this.syncPromise;
+
+        this.syncPromise = (async () => {
+            let bestRoundTripMs = Infinity;
+            let bestOffsetMs = this.offsetMs;
+
+            for (let i = 0; i < SAMPLE_COUNT; i++) {
+                try {
+                    const sample = await db.health.getServerTime();
+                    if (sample.roundTripMs < bestRoundTripMs) {
+                        bestRoundTripMs = sample.roundTripMs;
+                        bestOffsetMs = sample.offsetMs;
+                    }
+                } catch (error) {
+                    console.warn('[ServerClock] Server time sample failed:', error);
+                }
+            }
+
+            if (bestRoundTripMs < Infinity) {
+                this.offsetMs = Math.round(bestOffsetMs);
+                this.bestRoundTripMs = bestRoundTripMs;
+            } else {
+                console.warn('[ServerClock] Could not reach server clock, using device time');
+            }
+            this.lastSyncAt = Date.now();
+            return this.offsetMs;
+        })().finally(() => {
+            this.syncPromise = null;
+        });
+
+        return this.syncPromise;
+    }
+
+    getLastRoundTripMs(): number {
+        return this.bestRoundTripMs;
+    }
+}
@@ -2,6 +2,8 @@
 // Enhanced version with KPI update broadcasting support
 
 import {Slide} from '@shared/types/game';
+import {DoubleDownResult} from '@shared/types/database';
+import {DecisionTimerState} from '@shared/types/sync';
 import {HostCommand, SlideUpdate, PresentationStatus} from './types';
 
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
@@ -45,6 +47,8 @@ export class SimpleBroadcastManager {
     private commandHandlers: Set<(command: HostCommand) => void> = new Set();
     private slideHandlers: Set<(slide: Slide) => void> = new Set();
     private kpiHandlers: Set<(data: KpiUpdateData) => void> = new Set(); // NEW: KPI update handlers
+    private timerHandlers: Set<(timer: DecisionTimerState | null) => void> = new Set();
+    private diceRollHandlers: Set<(result: DoubleDownResult) => void> = new Set();
 
     // Track if this instance has been destroyed
     private isDestroyed: boolean = false;
@@ -113,6 +117,18 @@ export class SimpleBroadcastManager {
                     }
                     break;
 
+                case 'DECISION_TIMER':
+                    if (this.mode === 'presentation' || this.mode === 'team') {
+                        this.timerHandlers.forEach(handler => handler(message.timer));
+                    }
+                    break;
+
+                case 'DICE_ROLL':
+                    if (this.mode === 'presentation') {
+                        this.diceRollHandlers.forEach(handler => handler(message.result));
+                    }
+                    break;
+
                 case 'PRESENTATION_STATUS':
                     if (this.mode === 'host') {
                         const status = message as PresentationStatus;
@@ -241,6 +257,29 @@ export class SimpleBroadcastManager {
         this.sendMessage(update);
     }
 
+    sendDecisionTimer(timer: DecisionTimerState | null): void {
+        if (this.mode !== 'host' || this.isDestroyed) return;
+
+        this.sendMessage({
+            type: 'DECISION_TIMER',
+            sessionId: this.sessionId,
+            timer,
+            timestamp: Date.now()
+        });
+    }
+
+    // The host's double down roll (or re-roll), so the presentation animates the same dice
+    sendDiceRoll(result: DoubleDownResult): void {
+        if (this.mode !== 'host' || this.isDestroyed) return;
+
+        this.sendMessage({
+            type: 'DICE_ROLL',
+            sessionId: this.sessionId,
+            result,
+            timestamp: Date.now()
+        });
+    }
+
     onPresentationStatus(callback: (status: ConnectionStatus) => void): () => void {
         if (this.isDestroyed) return () => {
         };
@@ -287,6 +326,26 @@ export class SimpleBroadcastManager {
         };
     }
 
+    onDecisionTimer(callback: (timer: DecisionTimerState | null) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.timerHandlers.add(callback);
+        return () => {
+            this.timerHandlers.delete(callback);
+        };
+    }
+
+    onDiceRoll(callback: (result: DoubleDownResult) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.diceRollHandlers.add(callback);
+        return () => {
+            this.diceRollHandlers.delete(callback);
+        };
+    }
+
     sendStatus(status: 'ready' | 'pong'): void {
         if (this.mode !== 'presentation' || this.isDestroyed) return;
 
@@ -330,6 +389,8 @@ export class SimpleBroadcastManager {
         this.commandHandlers.clear();
         this.slideHandlers.clear();
         this.kpiHandlers.clear(); // NEW: Clear KPI handlers
+        this.timerHandlers.clear();
+        this.diceRollHandlers.clear();
 
         // Remove from instances map
         const key = `${this.sessionId}-${this.mode}`;
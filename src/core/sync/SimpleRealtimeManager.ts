@@ -4,12 +4,21 @@
 
 import {supabase} from '@shared/services/supabase';
 import type {Slide} from '@shared/types/game';
+import type {DecisionTimerState, TeamPresence} from '@shared/types/sync';
+import type {HelpRequest, TeamDecisionDraft, TeamMessage, TeamMessageRead} from '@shared/types/database';
+import {APP_VERSION, getDeviceId, getDeviceName} from './DeviceIdentity';
 
 export type RealtimeConnectionStatus = 'disconnected' | 'connecting' | 'connected';
 
+// A team's captain changed: a device claimed it or the host handed it over
+export interface TeamCaptainChange {
+    teamId: string;
+    captainDeviceId: string | null;
+}
+
 // Team game event structure
 export interface TeamGameEvent {
-    type: 'decision_time' | 'decision_closed' | 'kpi_updated' | 'decision_reset' | 'game_ended';
+    type: 'decision_time' | 'decision_closed' | 'decision_timer' | 'kpi_updated' | 'decision_reset' | 'game_ended' | 'device_revoked';
     sessionId: string;
     data?: any;
     timestamp: number;
@@ -23,6 +32,7 @@ export interface TeamGameEvent {
 export class SimpleRealtimeManager {
     private static instances: Map<string, SimpleRealtimeManager> = new Map();
     private channel: any; // Supabase channel
+    private messageChannel: any; // Separate channel for host messages, read receipts and help requests
     private sessionId: string;
     private mode: 'host' | 'team';
 
@@ -32,6 +42,15 @@ export class SimpleRealtimeManager {
 
     // Event handlers (mirrors SimpleBroadcastManager)
     private teamEventHandlers: Set<(event: TeamGameEvent) => void> = new Set();
+    private teamMessageHandlers: Set<(message: TeamMessage) => void> = new Set();
+    private messageReadHandlers: Set<(read: TeamMessageRead) => void> = new Set();
+    private helpRequestHandlers: Set<(request: HelpRequest) => void> = new Set();
+    private presenceHandlers: Set<(presence: TeamPresence[]) => void> = new Set();
+    private teamDraftHandlers: Set<(draft: TeamDecisionDraft) => void> = new Set();
+    private teamCaptainHandlers: Set<(change: TeamCaptainChange) => void> = new Set();
+
+    // Team devices publish this through presence once a team is logged in
+    private trackedPresence: TeamPresence | null = null;
 
     // Track if this instance has been destroyed
     private isDestroyed: boolean = false;
@@ -40,6 +59,7 @@ export class SimpleRealtimeManager {
         this.sessionId = sessionId;
         this.mode = mode;
         this.setupChannel();
+        this.setupMessageChannel();
     }
 
     static getInstance(sessionId: string, mode: 'host' | 'team'): SimpleRealtimeManager {
@@ -60,8 +80,11 @@ export class SimpleRealtimeManager {
     private setupChannel(): void {
         if (this.isDestroyed) return;
 
-        // Create Supabase custom channel for this session
-        this.channel = supabase.channel(`team-events-${this.sessionId}`);
+        // Create Supabase custom channel for this session. Team devices join presence keyed by device,
+        // so several phones logged in as one team show up as separate entries.
+        this.channel = this.mode === 'team'
+            ? supabase.channel(`team-events-${this.sessionId}`, {config: {presence: {key: getDeviceId()}}})
+            : supabase.channel(`team-events-${this.sessionId}`);
 
         // Listen for team game events (teams only)
         if (this.mode === 'team') {
@@ -79,6 +102,12 @@ export class SimpleRealtimeManager {
             });
         }
 
+        // Host watches which team devices are connected; team devices watch for their teammates
+        this.channel.on('presence', {event: 'sync'}, () => {
+            if (this.isDestroyed) return;
+            this.notify(this.presenceHandlers, this.getPresence(), 'presence');
+        });
+
         // Subscribe to the channel
         this.channel.subscribe((status: string) => {
             if (this.isDestroyed) return;
@@ -86,6 +115,10 @@ export class SimpleRealtimeManager {
             switch (status) {
                 case 'SUBSCRIBED':
                     this.updateConnectionStatus('connected');
+                    // Presence is dropped with the socket, so publish again after every (re)join
+                    if (this.trackedPresence) {
+                        this.channel.track(this.trackedPresence);
+                    }
                     console.log(`[SimpleRealtimeManager] ${this.mode} connected to team events for session ${this.sessionId}`);
                     break;
                 case 'CHANNEL_ERROR':
@@ -100,6 +133,67 @@ export class SimpleRealtimeManager {
         });
     }
 
+    // Messages ride their own channel so announcements never mix with game flow events
+    private setupMessageChannel(): void {
+        if (this.isDestroyed) return;
+
+        this.messageChannel = supabase.channel(`team-messages-${this.sessionId}`);
+
+        // Teams receive messages and help request updates, the host receives read receipts and help requests
+        if (this.mode === 'team') {
+            this.messageChannel.on('broadcast', {event: 'team_message'}, (payload: any) => {
+                if (this.isDestroyed) return;
+                this.notify(this.teamMessageHandlers, payload.payload as TeamMessage, 'team message');
+            });
+            // Shared drafts go to every device in the session; each device keeps only its own team's
+            this.messageChannel.on('broadcast', {event: 'team_draft'}, (payload: any) => {
+                if (this.isDestroyed) return;
+                this.notify(this.teamDraftHandlers, payload.payload as TeamDecisionDraft, 'team draft');
+            });
+            this.messageChannel.on('broadcast', {event: 'team_captain'}, (payload: any) => {
+                if (this.isDestroyed) return;
+                this.notify(this.teamCaptainHandlers, payload.payload as TeamCaptainChange, 'team captain');
+            });
+        } else {
+            this.messageChannel.on('broadcast', {event: 'team_message_read'}, (payload: any) => {
+                if (this.isDestroyed) return;
+                this.notify(this.messageReadHandlers, payload.payload as TeamMessageRead, 'message read');
+            });
+        }
+        // Both sides send the whole request: teams when asking, the host when claiming or resolving
+        this.messageChannel.on('broadcast', {event: this.mode === 'team' ? 'help_request_updated' : 'help_request'}, (payload: any) => {
+            if (this.isDestroyed) return;
+            this.notify(this.helpRequestHandlers, payload.payload as HelpRequest, 'help request');
+        });
+
+        this.messageChannel.subscribe((status: string) => {
+            if (this.isDestroyed) return;
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+                console.error(`[SimpleRealtimeManager] ${this.mode} message channel error: ${status}`);
+            }
+        });
+    }
+
+    private sendOnMessageChannel(event: string, payload: unknown): void {
+        if (this.isDestroyed || !this.messageChannel) return;
+
+        try {
+            this.messageChannel.send({type: 'broadcast', event, payload});
+        } catch (error) {
+            console.error(`[SimpleRealtimeManager] Failed to send ${event}:`, error);
+        }
+    }
+
+    private notify<T>(handlers: Set<(value: T) => void>, value: T, label: string): void {
+        handlers.forEach(handler => {
+            try {
+                handler(value);
+            } catch (error) {
+                console.error(`[SimpleRealtimeManager] Error in ${label} handler:`, error);
+            }
+        });
+    }
+
     private updateConnectionStatus(status: RealtimeConnectionStatus): void {
         if (this.isDestroyed) return;
 
@@ -170,12 +264,49 @@ export class SimpleRealtimeManager {
         });
     }
 
+    // null clears the countdown (host left the slide)
+    sendDecisionTimer(timer: DecisionTimerState | null): void {
+        this.sendTeamEvent('decision_timer', {timer});
+    }
+
     sendGameEnded(): void {
         this.sendTeamEvent('game_ended', {
             message: 'Game session has ended'
         });
     }
 
+    // The device's token is already revoked; this just logs it out without waiting for its next check
+    sendDeviceRevoked(teamId: string, deviceSessionId: string): void {
+        this.sendTeamEvent('device_revoked', {teamId, deviceSessionId});
+    }
+
+    // Message is already saved; teams filter out ones addressed to another team
+    sendTeamMessage(message: TeamMessage): void {
+        if (this.mode !== 'host' || this.isDestroyed || !this.messageChannel) return;
+
+        try {
+            this.messageChannel.send({
+                type: 'broadcast',
+                event: 'team_message',
+                payload: message
+            });
+        } catch (error) {
+            console.error('[SimpleRealtimeManager] Failed to send team message:', error);
+        }
+    }
+
+    onMessageRead(callback: (read: TeamMessageRead) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.messageReadHandlers.add(callback);
+        return () => {
+            if (!this.isDestroyed) {
+                this.messageReadHandlers.delete(callback);
+            }
+        };
+    }
+
     // TEAM METHODS - Listening to host events
     onTeamEvent(callback: (event: TeamGameEvent) => void): () => void {
         if (this.isDestroyed) return () => {
@@ -189,6 +320,125 @@ export class SimpleRealtimeManager {
         };
     }
 
+    onTeamMessage(callback: (message: TeamMessage) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.teamMessageHandlers.add(callback);
+        return () => {
+            if (!this.isDestroyed) {
+                this.teamMessageHandlers.delete(callback);
+            }
+        };
+    }
+
+    sendMessageRead(read: TeamMessageRead): void {
+        if (this.mode !== 'team') return;
+        this.sendOnMessageChannel('team_message_read', read);
+    }
+
+    // Teams announce a new request to the host; the host sends it back as it is claimed or resolved
+    sendHelpRequest(request: HelpRequest): void {
+        this.sendOnMessageChannel(this.mode === 'team' ? 'help_request' : 'help_request_updated', request);
+    }
+
+    onHelpRequest(callback: (request: HelpRequest) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.helpRequestHandlers.add(callback);
+        return () => {
+            if (!this.isDestroyed) {
+                this.helpRequestHandlers.delete(callback);
+            }
+        };
+    }
+
+    // Teammates' devices pick this up; the sending device already has it
+    sendTeamDraft(draft: TeamDecisionDraft): void {
+        if (this.mode !== 'team') return;
+        this.sendOnMessageChannel('team_draft', draft);
+    }
+
+    onTeamDraft(callback: (draft: TeamDecisionDraft) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.teamDraftHandlers.add(callback);
+        return () => {
+            if (!this.isDestroyed) {
+                this.teamDraftHandlers.delete(callback);
+            }
+        };
+    }
+
+    // Sent by the device that claimed captain, or by the host when it hands the captaincy over
+    sendTeamCaptain(teamId: string, captainDeviceId: string | null): void {
+        this.sendOnMessageChannel('team_captain', {teamId, captainDeviceId});
+    }
+
+    onTeamCaptain(callback: (change: TeamCaptainChange) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.teamCaptainHandlers.add(callback);
+        return () => {
+            if (!this.isDestroyed) {
+                this.teamCaptainHandlers.delete(callback);
+            }
+        };
+    }
+
+    // PRESENCE METHODS
+    // Call again after renaming the device to republish its name
+    trackPresence(teamId: string): void {
+        if (this.mode !== 'team' || this.isDestroyed || !this.channel) return;
+
+        this.trackedPresence = {
+            team_id: teamId,
+            device_id: getDeviceId(),
+            device_name: getDeviceName(),
+            app_version: APP_VERSION,
+            online_at: new Date().toISOString()
+        };
+        if (this.connectionStatus === 'connected') {
+            this.channel.track(this.trackedPresence);
+        }
+    }
+
+    untrackPresence(): void {
+        if (this.mode !== 'team' || this.isDestroyed || !this.channel || !this.trackedPresence) return;
+
+        this.trackedPresence = null;
+        this.channel.untrack();
+    }
+
+    // Every connected team device, one entry per device
+    getPresence(): TeamPresence[] {
+        if (!this.channel) return [];
+
+        const state = this.channel.presenceState() as Record<string, (TeamPresence & { presence_ref: string })[]>;
+        return Object.values(state).flatMap(entries => entries.map(({team_id, device_id, device_name, app_version, online_at}) => ({
+            team_id,
+            device_id,
+            device_name,
+            app_version,
+            online_at
+        })));
+    }
+
+    onPresence(callback: (presence: TeamPresence[]) => void): () => void {
+        if (this.isDestroyed) return () => {
+        };
+
+        this.presenceHandlers.add(callback);
+        return () => {
+            if (!this.isDestroyed) {
+                this.presenceHandlers.delete(callback);
+            }
+        };
+    }
+
     // CONNECTION STATUS METHODS (mirrors SimpleBroadcastManager)
     onConnectionStatus(callback: (status: RealtimeConnectionStatus) => void): () => void {
         if (this.isDestroyed) return () => {
@@ -216,6 +466,13 @@ export class SimpleRealtimeManager {
 
         // Clear all handlers
         this.teamEventHandlers.clear();
+        this.teamMessageHandlers.clear();
+        this.messageReadHandlers.clear();
+        this.helpRequestHandlers.clear();
+        this.presenceHandlers.clear();
+        this.teamDraftHandlers.clear();
+        this.teamCaptainHandlers.clear();
+        this.trackedPresence = null;
         this.statusCallbacks.clear();
 
         // Remove Supabase channel
@@ -223,6 +480,10 @@ export class SimpleRealtimeManager {
             supabase.removeChannel(this.channel);
             this.channel = null;
         }
+        if (this.messageChannel) {
+            supabase.removeChannel(this.messageChannel);
+            this.messageChannel = null;
+        }
 
         // Remove from static instances
         const key = `${this.sessionId}-${this.mode}`;
@@ -0,0 +1,68 @@
+// src/core/sync/TeamAccess.ts
+// The device session a team device got at login. The team's decision writes are authorized with its token,
+// so they can only ever land on the team that logged in, and a saved login lets a reloaded page carry on
+// without the passcode until it expires or the host revokes the device.
+
+import {TeamAccessGrant} from '@shared/types';
+
+export interface SavedTeamAccess {
+    token: string;
+    expires_at: string;
+    device_session_id: string;
+    team_id: string;
+    team_name: string;
+}
+
+const accessKey = (sessionId: string) => `ron_teamAccess_${sessionId}`;
+
+// Per browser (localStorage), like the device id: the server treats one browser as one device, and a login
+// from it replaces the previous one
+export const saveTeamAccess = (sessionId: string, grant: TeamAccessGrant): void => {
+    const saved: SavedTeamAccess = {
+        token: grant.token,
+        expires_at: grant.expires_at,
+        device_session_id: grant.device_session_id,
+        team_id: grant.team.id,
+        team_name: grant.team.name
+    };
+    try {
+        localStorage.setItem(accessKey(sessionId), JSON.stringify(saved));
+    } catch {
+        // Storage disabled: the team will have to log in again after a reload
+    }
+};
+
+// null when there is no login for this session or it has expired
+export const getSavedTeamAccess = (sessionId: string): SavedTeamAccess | null => {
+    try {
+        const saved = localStorage.getItem(accessKey(sessionId));
+        if (!saved) return null;
+        const access = JSON.parse(saved) as SavedTeamAccess;
+        return access.token && Date.parse(access.expires_at) > Date.now() ? access : null;
+    } catch {
+        return null;
+    }
+};
+
+export const getTeamAccessToken = (sessionId: string): string | null =>
+    getSavedTeamAccess(sessionId)?.token ?? null;
+
+// For a team write: the token, or an error telling the team to log in again
+export const requireTeamAccessToken = (sessionId: string): string => {
+    const token = getTeamAccessToken(sessionId);
+    if (!token) {
+        throw new Error('Your team login has expired. Log out and log back in with your team passcode.');
+    }
+    return token;
+};
+
+export const clearTeamAccess = (sessionId: string): void => {
+    try {
+        localStorage.removeItem(accessKey(sessionId));
+        // Team identity saved by older builds
+        localStorage.removeItem(`ron_teamId_${sessionId}`);
+        localStorage.removeItem(`ron_teamName_${sessionId}`);
+    } catch {
+        // Nothing stored
+    }
+};
@@ -5,4 +5,10 @@ export type { HostCommand, SlideUpdate, PresentationStatus } from './types';
 
 // NEW: Export SimpleRealtimeManager
 export { SimpleRealtimeManager } from './SimpleRealtimeManager';
-export type { RealtimeConnectionStatus, TeamGameEvent } from './SimpleRealtimeManager';
+export type { RealtimeConnectionStatus, TeamCaptainChange, TeamGameEvent } from './SimpleRealtimeManager';
+
+export { ServerClock } from './ServerClock';
+export { DecisionTimer } from './DecisionTimer';
+export { APP_VERSION, getDeviceId, getDeviceName, setDeviceName } from './DeviceIdentity';
+export { saveTeamAccess, getSavedTeamAccess, getTeamAccessToken, requireTeamAccessToken, clearTeamAccess } from './TeamAccess';
+export type { SavedTeamAccess } from './TeamAccess';
@@ -1,19 +1,13 @@
 // src/shared/components/DoubleDownDice/DoubleDownDiceDisplay.tsx
-import React, {useState, useEffect} from 'react';
-import {Dice1, Dice2, Dice3, Dice4, Dice5, Dice6, Users, TrendingUp, CheckCircle} from 'lucide-react';
+import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {Dice1, Dice2, Dice3, Dice4, Dice5, Dice6, Users, TrendingUp, CheckCircle, RotateCcw} from 'lucide-react';
 import {DoubleDownEffectsProcessor} from '@core/game/DoubleDownEffectsProcessor';
+import {DoubleDownDice, DoubleDownRollInput} from '@core/game/DoubleDownDice';
+import {ServerClock} from '@core/sync/ServerClock';
+import {SimpleBroadcastManager} from '@core/sync/SimpleBroadcastManager';
 import {SimpleRealtimeManager} from '@core/sync/SimpleRealtimeManager';
 import {db} from '@shared/services/supabase';
-import {Slide} from "@shared/types";
-
-interface DiceResult {
-    investment_id: string;
-    dice1_value: number;
-    dice2_value: number;
-    total_value: number;
-    boost_percentage: number;
-    affected_teams: string[];
-}
+import {DoubleDownResult, DoubleDownRollMode, Slide} from "@shared/types";
 
 interface KpiChange {
     team_name: string;
@@ -29,22 +23,14 @@ interface DoubleDownDiceDisplayProps {
     investmentId: string;
     investmentName: string;
     slideId: number;
+    isHost: boolean;
 }
 
-// TWO DICE: Sum ranges from 2-12 (using existing correct mapping)
-const DICE_BOOSTS = {
-    2: 0,      // 0% boost
-    3: 25,     // 25% boost
-    4: 25,     // 25% boost
-    5: 75,     // 75% boost
-    6: 75,     // 75% boost
-    7: 75,     // 75% boost
-    8: 75,     // 75% boost
-    9: 100,    // 100% boost (double)
-    10: 100,   // 100% boost (double)
-    11: 100,   // 100% boost (double)
-    12: 100    // 100% boost (double)
-} as const;
+// Every display animates a digital roll until rolled_at + this on the server clock, so the host preview
+// and the presentation land on the result together
+const ROLL_ANIMATION_MS = 2500;
+const ROLL_FRAME_MS = 100;
+const DIE_VALUES = [1, 2, 3, 4, 5, 6];
 
 const DiceIcon: React.FC<{ value: number }> = ({value}) => {
     const icons = {
@@ -59,234 +45,249 @@ const DiceIcon: React.FC<{ value: number }> = ({value}) => {
     return <Icon className="w-20 h-20"/>;
 };
 
+const RollModeToggle: React.FC<{
+    mode: DoubleDownRollMode;
+    onChange: (mode: DoubleDownRollMode) => void;
+}> = ({mode, onChange}) => (
+    <div className="inline-flex rounded-lg border border-slate-600 overflow-hidden">
+        {(['digital', 'physical'] as const).map(option => (
+            <button
+                key={option}
+                onClick={() => onChange(option)}
+                className={`px-4 py-2 text-sm font-medium ${
+                    mode === option ? 'bg-blue-600 text-white' : 'bg-slate-800 text-gray-300 hover:bg-slate-700'
+                }`}
+            >
+                {option === 'digital' ? 'Digital dice' : 'Physical dice'}
+            </button>
+        ))}
+    </div>
+);
+
+const PhysicalDiceInput: React.FC<{
+    dice: [number, number];
+    onChange: (dice: [number, number]) => void;
+}> = ({dice, onChange}) => (
+    <div className="flex items-center justify-center gap-3 text-white">
+        {[0, 1].map(index => (
+            <label key={index} className="flex items-center gap-2">
+                <span className="text-sm text-gray-300">Die {index + 1}</span>
+                <select
+                    value={dice[index]}
+                    onChange={e => {
+                        const next: [number, number] = [...dice];
+                        next[index] = Number(e.target.value);
+                        onChange(next);
+                    }}
+                    className="bg-slate-800 border border-slate-600 rounded-md px-3 py-2 text-lg"
+                >
+                    {DIE_VALUES.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+            </label>
+        ))}
+    </div>
+);
+
+const toRollInput = (mode: DoubleDownRollMode, dice: [number, number]): DoubleDownRollInput =>
+    mode === 'physical' ? {mode, dice} : {mode};
+
 const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
                                                                          sessionId,
                                                                          investmentId,
                                                                          investmentName,
-                                                                         slideId
+                                                                         slideId,
+                                                                         isHost
                                                                      }) => {
-    const [diceResult, setDiceResult] = useState<DiceResult | null>(null);
+    const [diceResult, setDiceResult] = useState<DoubleDownResult | null>(null);
+    const [rollingFaces, setRollingFaces] = useState<[number, number]>([1, 1]);
     const [kpiChanges, setKpiChanges] = useState<KpiChange[]>([]);
-    const [isRolling, setIsRolling] = useState(false);
-    const [hasRolled, setHasRolled] = useState(false);
-    const [hasAppliedEffects, setHasAppliedEffects] = useState(false);
-    const [currentPhase, setCurrentPhase] = useState<'loading' | 'showing_teams' | 'rolling' | 'showing_results' | 'applying_effects' | 'complete'>('loading');
+    const [currentPhase, setCurrentPhase] = useState<'loading' | 'showing_teams' | 'rolling' | 'complete'>('loading');
     const [affectedTeams, setAffectedTeams] = useState<string[]>([]);
 
-    useEffect(() => {
-        initializeDoubleDownRoll();
+    // Host controls
+    const [rollMode, setRollMode] = useState<DoubleDownRollMode>('digital');
+    const [physicalDice, setPhysicalDice] = useState<[number, number]>([1, 1]);
+    const [isRerollOpen, setIsRerollOpen] = useState(false);
+    const [rerollReason, setRerollReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [rollError, setRollError] = useState<string | null>(null);
+    const [isRollVerified, setIsRollVerified] = useState<boolean | null>(null);
+
+    const animationRef = useRef<NodeJS.Timeout | null>(null);
+
+    const stopAnimation = () => {
+        if (animationRef.current) {
+            clearInterval(animationRef.current);
+            animationRef.current = null;
+        }
+    };
 
-        // REMOVED: No longer subscribing to unnecessary broadcasts
-        // The component manages its own state locally
-    }, [sessionId, investmentId]);
+    // Each team's net change: the boost on this investment minus the payoff it sacrificed
+    const loadKpiChangesForDisplay = useCallback((boostPercentage: number): Promise<KpiChange[]> =>
+        DoubleDownEffectsProcessor.getTeamNetChangesForDisplay(sessionId, investmentId, boostPercentage),
+    [sessionId, investmentId]);
 
-    const initializeDoubleDownRoll = async () => {
-        try {
-            // First, check if this investment has already been processed
-            const existingResult = await db.doubleDown.getResultForInvestment(sessionId, investmentId);
-
-            if (existingResult) {
-                // Already processed - show the completed state
-                setDiceResult(existingResult);
-                setHasRolled(true);
-                setHasAppliedEffects(true);
-                setCurrentPhase('complete');
+    const finishRoll = useCallback(async (result: DoubleDownResult) => {
+        stopAnimation();
+        setCurrentPhase('complete');
+        if (result.affected_teams.length > 0) {
+            setKpiChanges(await loadKpiChangesForDisplay(result.boost_percentage));
+        }
+    }, [loadKpiChangesForDisplay]);
 
-                // FIXED: Set affected teams from existing result
-                setAffectedTeams(existingResult.affected_teams || []);
+    // Show a roll made by the host. Digital rolls tumble until rolled_at + ROLL_ANIMATION_MS; the faces
+    // shown meanwhile are only animation, the result is already fixed.
+    const showRoll = useCallback((result: DoubleDownResult) => {
+        stopAnimation();
+        setDiceResult(result);
+        setAffectedTeams(result.affected_teams || []);
 
-                // Load KPI changes for display if teams were affected
-                if (existingResult.affected_teams && existingResult.affected_teams.length > 0) {
-                    const changes = await loadKpiChangesForDisplay(existingResult.affected_teams, existingResult.boost_percentage);
-                    setKpiChanges(changes);
-                }
+        // rolled_at is the backend's time, so compare it with the server clock rather than this device's
+        const clock = ServerClock.getInstance();
+        const landsAt = Date.parse(result.rolled_at) + ROLL_ANIMATION_MS;
+        if (result.roll_mode !== 'digital' || clock.now() >= landsAt) {
+            void finishRoll(result);
+            return;
+        }
 
-                return;
+        setCurrentPhase('rolling');
+        let frame = 0;
+        animationRef.current = setInterval(() => {
+            frame++;
+            setRollingFaces([(frame % 6) + 1, ((frame * 5 + 2) % 6) + 1]);
+            if (clock.now() >= landsAt) {
+                void finishRoll(result);
             }
+        }, ROLL_FRAME_MS);
+    }, [finishRoll]);
 
-            // Get teams that chose to double down on this investment
-            const decisions = await db.doubleDown.getTeamsForInvestment(sessionId, investmentId);
-            const teamNames = decisions.map(decision => decision.teams.name);
-
-            setAffectedTeams(teamNames);
+    useEffect(() => {
+        void ServerClock.getInstance().sync();
+    }, []);
 
-            if (teamNames.length === 0) {
-                // No teams doubled down on this investment
-                setCurrentPhase('complete');
-                return;
-            }
+    // Re-derive a digital roll from its seed for the roll record
+    useEffect(() => {
+        setIsRollVerified(null);
+        if (!diceResult) return;
+
+        let cancelled = false;
+        DoubleDownDice.verify(diceResult)
+            .then(verified => {
+                if (!cancelled) setIsRollVerified(verified);
+            })
+            .catch(error => console.error('Error verifying double down dice:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [diceResult]);
 
-            // Show teams for 3 seconds, then proceed to rolling
-            setCurrentPhase('showing_teams');
-            setTimeout(() => {
-                if (!hasRolled) {
-                    rollDice();
+    useEffect(() => {
+        let cancelled = false;
+
+        const initializeDoubleDownRoll = async () => {
+            try {
+                const existingResult = await db.doubleDown.getResultForInvestment(sessionId, investmentId) as DoubleDownResult | null;
+                if (cancelled) return;
+
+                if (existingResult) {
+                    // Already rolled - show the completed state
+                    setDiceResult(existingResult);
+                    setAffectedTeams(existingResult.affected_teams || []);
+                    await finishRoll(existingResult);
+                    return;
                 }
-            }, 3000);
 
-        } catch (error) {
-            console.error('Error initializing double down roll:', error);
-            setCurrentPhase('complete');
-        }
-    };
-
-    const rollDice = async () => {
-        if (hasRolled || affectedTeams.length === 0) return;
-
-        setIsRolling(true);
-        setCurrentPhase('rolling');
+                // Get teams that chose to double down on this investment
+                const decisions = await db.doubleDown.getTeamsForInvestment(sessionId, investmentId);
+                if (cancelled) return;
 
-        // Simulate dice rolling animation
-        const rollDuration = 2000;
-        const rollInterval = 100;
-        const animationSteps = rollDuration / rollInterval;
-
-        for (let i = 0; i < animationSteps; i++) {
-            await new Promise(resolve => setTimeout(resolve, rollInterval));
-
-            // Show random dice values during rolling
-            const tempResult: DiceResult = {
-                investment_id: investmentId,
-                dice1_value: Math.floor(Math.random() * 6) + 1,
-                dice2_value: Math.floor(Math.random() * 6) + 1,
-                total_value: 0,
-                boost_percentage: 0,
-                affected_teams: affectedTeams
-            };
-            tempResult.total_value = tempResult.dice1_value + tempResult.dice2_value;
-            tempResult.boost_percentage = DICE_BOOSTS[tempResult.total_value as keyof typeof DICE_BOOSTS];
-            setDiceResult(tempResult);
-        }
+                const teamNames = decisions.map(decision => decision.teams.name);
+                setAffectedTeams(teamNames);
 
-        // Final dice result
-        const finalDice1 = Math.floor(Math.random() * 6) + 1;
-        const finalDice2 = Math.floor(Math.random() * 6) + 1;
-        const finalTotal = finalDice1 + finalDice2;
-        const finalBoost = DICE_BOOSTS[finalTotal as keyof typeof DICE_BOOSTS];
-
-        const result: DiceResult = {
-            investment_id: investmentId,
-            dice1_value: finalDice1,
-            dice2_value: finalDice2,
-            total_value: finalTotal,
-            boost_percentage: finalBoost,
-            affected_teams: affectedTeams
+                // No teams doubled down on this investment, nothing to roll for
+                setCurrentPhase(teamNames.length === 0 ? 'complete' : 'showing_teams');
+            } catch (error) {
+                console.error('Error initializing double down roll:', error);
+                setCurrentPhase('complete');
+            }
         };
 
-        setDiceResult(result);
-        setIsRolling(false);
-        setHasRolled(true);
-        setCurrentPhase('showing_results');
-
-        // Save to database
-        await saveResult(result);
+        initializeDoubleDownRoll();
 
-        // Show results for 3 seconds, then apply effects
-        setTimeout(async () => {
-            await applyDoubleDownEffects(result);
-        }, 3000);
-    };
+        return () => {
+            cancelled = true;
+            stopAnimation();
+        };
+    }, [sessionId, investmentId, finishRoll]);
 
-    const saveResult = async (result: DiceResult) => {
-        try {
-            // Check if result already exists before saving
-            const existingResult = await db.doubleDown.getResultForInvestment(sessionId, investmentId);
+    // The presentation display never rolls: it animates whatever the host rolled
+    useEffect(() => {
+        if (isHost) return;
 
-            if (existingResult) {
-                console.log(`[DoubleDownDiceDisplay] Result already exists for investment ${investmentId}, skipping save`);
-                return;
+        const broadcastManager = SimpleBroadcastManager.getInstance(sessionId, 'presentation');
+        return broadcastManager.onDiceRoll(result => {
+            if (result.investment_id === investmentId) {
+                showRoll(result);
             }
+        });
+    }, [isHost, sessionId, investmentId, showRoll]);
+
+    // Tell team devices to refresh their KPIs after a roll changed them
+    const notifyTeams = (result: DoubleDownResult) => {
+        const realtimeManager = SimpleRealtimeManager.getInstance(sessionId, 'host');
+
+        // Create a mock slide object for the sendKpiUpdated method
+        const mockSlide: Slide = {
+            id: slideId,
+            type: 'double_down_dice_roll' as const,
+            round_number: 3,
+            title: `Bonus: ${investmentName}`,
+            interactive_data_key: investmentId
+        };
 
-            await db.doubleDown.saveResult(sessionId, investmentId, {
-                dice1_value: result.dice1_value,
-                dice2_value: result.dice2_value,
-                total_value: result.total_value,
-                boost_percentage: result.boost_percentage,
-                affected_teams: result.affected_teams
-            });
-
-            console.log(`[DoubleDownDiceDisplay] Successfully saved result for investment ${investmentId}`);
-
-            // REMOVED: No longer broadcasting dice-roll events - unnecessary complexity
-
-        } catch (error) {
-            console.error('Error saving dice result:', error);
-        }
+        realtimeManager.sendKpiUpdated(mockSlide, {
+            doubleDownApplied: true,
+            investment_name: investmentName,
+            boost_percentage: result.boost_percentage,
+            affected_teams: result.affected_teams
+        });
     };
 
-    const applyDoubleDownEffects = async (result: DiceResult) => {
-        if (hasAppliedEffects || result.affected_teams.length === 0) {
-            console.log(`[DoubleDownDiceDisplay] Skipping effects application - already applied: ${hasAppliedEffects}, teams: ${result.affected_teams.length}`);
-            return;
-        }
-
-        setCurrentPhase('applying_effects');
+    const publishRoll = (result: DoubleDownResult) => {
+        SimpleBroadcastManager.getInstance(sessionId, 'host').sendDiceRoll(result);
+        showRoll(result);
+    };
 
+    const handleRoll = async () => {
+        setIsSubmitting(true);
+        setRollError(null);
         try {
-            console.log(`[DoubleDownDiceDisplay] Applying effects for investment ${investmentId} with ${result.boost_percentage}% boost`);
-
-            // Apply effects using the existing processor (updates database)
-            await DoubleDownEffectsProcessor.processDoubleDownForInvestment(
-                sessionId,
-                investmentId,
-                result.boost_percentage
-            );
-
-            // Get the KPI changes for display (local display only)
-            const changes = await loadKpiChangesForDisplay(result.affected_teams, result.boost_percentage);
-            setKpiChanges(changes);
-
-            setHasAppliedEffects(true);
-            setCurrentPhase('complete');
-
-            console.log(`[DoubleDownDiceDisplay] Successfully applied effects for investment ${investmentId}`);
-
-            // FIXED: Use centralized real-time system to notify teams
-            const realtimeManager = SimpleRealtimeManager.getInstance(sessionId, 'host');
-
-            // Create a mock slide object for the sendKpiUpdated method
-            const mockSlide: Slide = {
-                id: slideId,
-                type: 'double_down_dice_roll' as const,
-                round_number: 3,
-                title: `Bonus: ${investmentName}`,
-                interactive_data_key: investmentId
-            };
-
-            // Broadcast KPI update - teams will refresh their KPIs from database
-            realtimeManager.sendKpiUpdated(mockSlide, {
-                // Additional context for teams (optional)
-                doubleDownApplied: true,
-                investment_name: investmentName,
-                boost_percentage: result.boost_percentage,
-                affected_teams: result.affected_teams
-            });
-
-            console.log(`[DoubleDownDiceDisplay] 📱 Broadcasted KPI update to teams via team-events-${sessionId}`);
-
+            const {result, created} = await DoubleDownDice.roll(sessionId, investmentId, toRollInput(rollMode, physicalDice));
+            publishRoll(result);
+            if (created) notifyTeams(result);
         } catch (error) {
-            console.error('Error applying double down effects:', error);
-            setCurrentPhase('complete');
+            console.error('Error rolling double down dice:', error);
+            setRollError(error instanceof Error ? error.message : 'Failed to roll the dice');
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
-    const loadKpiChangesForDisplay = async (teamNames: string[], boostPercentage: number): Promise<KpiChange[]> => {
+    const handleReroll = async () => {
+        setIsSubmitting(true);
+        setRollError(null);
         try {
-            // Get the KPI changes for this investment
-            const kpiChanges = await DoubleDownEffectsProcessor.getKpiChangesForDisplay(
-                sessionId,
-                investmentId,
-                boostPercentage
-            );
-
-            // Convert to display format grouped by team
-            return teamNames.map(teamName => ({
-                team_name: teamName,
-                changes: kpiChanges
-            }));
+            const result = await DoubleDownDice.reroll(sessionId, investmentId, toRollInput(rollMode, physicalDice), rerollReason);
+            setIsRerollOpen(false);
+            setRerollReason('');
+            setKpiChanges([]);
+            publishRoll(result);
+            notifyTeams(result);
         } catch (error) {
-            console.error('Error loading KPI changes for display:', error);
-            return [];
+            console.error('Error re-rolling double down dice:', error);
+            setRollError(error instanceof Error ? error.message : 'Failed to re-roll the dice');
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
@@ -308,6 +309,75 @@ const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
         );
     };
 
+    // Host only: how the next roll is made, and for a re-roll, why
+    const renderRollControls = (onSubmit: () => void) => {
+        const isReroll = isRerollOpen;
+        const canSubmit = !isSubmitting && (!isReroll || rerollReason.trim().length > 0);
+        const label = rollMode === 'physical'
+            ? (isReroll ? 'Record Re-roll' : 'Record Dice')
+            : (isReroll ? 'Re-roll Dice' : 'Roll Dice');
+
+        return (
+            <div className="bg-slate-800/70 border border-slate-700 rounded-lg p-5 space-y-4 max-w-xl mx-auto">
+                <RollModeToggle mode={rollMode} onChange={setRollMode}/>
+                {rollMode === 'physical' && (
+                    <PhysicalDiceInput dice={physicalDice} onChange={setPhysicalDice}/>
+                )}
+                {isReroll && (
+                    <textarea
+                        value={rerollReason}
+                        onChange={e => setRerollReason(e.target.value)}
+                        placeholder="Why are you re-rolling? (required, kept in the game record)"
+                        rows={2}
+                        className="w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-white text-sm"
+                    />
+                )}
+                {rollError && <p className="text-red-400 text-sm">{rollError}</p>}
+                <div className="flex justify-center gap-3">
+                    {isReroll && (
+                        <button
+                            onClick={() => {
+                                setIsRerollOpen(false);
+                                setRollError(null);
+                            }}
+                            className="px-4 py-2 text-gray-300 border border-slate-600 rounded-lg hover:bg-slate-700"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    <button
+                        onClick={onSubmit}
+                        disabled={!canSubmit}
+                        className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSubmitting ? 'Saving...' : label}
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    // How the roll was made, so anyone can check it: the seed re-derives digital dice
+    const renderRollRecord = (result: DoubleDownResult) => (
+        <div className="text-xs text-gray-400 mb-6 space-y-1">
+            <div>
+                {result.roll_mode === 'physical' ? 'Physical dice entered by the facilitator' : result.seed ? (
+                    <>
+                        Seed <span className="font-mono">{result.seed}</span>
+                        {isRollVerified === null ? '' : isRollVerified ? ' · verified' : ' · does not match the dice'}
+                    </>
+                ) : 'No seed recorded'}
+                {' · '}rolled {new Date(result.rolled_at ?? result.created_at).toLocaleTimeString()}
+            </div>
+            {(result.rerolls || []).map((reroll, index) => (
+                <div key={reroll.replaced_at} className="text-amber-300/80">
+                    Re-roll {index + 1}: replaced {reroll.dice1_value} + {reroll.dice2_value}
+                    {' '}({reroll.boost_percentage}%) — {reroll.reason}
+                </div>
+            ))}
+        </div>
+    );
+
     const getPhaseDisplay = () => {
         switch (currentPhase) {
             case 'loading':
@@ -335,9 +405,11 @@ const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
                                 </div>
                             ))}
                         </div>
-                        <div className="text-gray-300 text-lg">
-                            Rolling dice automatically in 3... 2... 1...
-                        </div>
+                        {isHost ? renderRollControls(handleRoll) : (
+                            <div className="text-gray-300 text-lg">
+                                Waiting for the facilitator to roll...
+                            </div>
+                        )}
                     </div>
                 );
 
@@ -351,59 +423,16 @@ const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
                         <div className="animate-bounce">
                             <div className="flex gap-4 justify-center mb-6">
                                 <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 shadow-inner">
-                                    <DiceIcon value={diceResult?.dice1_value || 1}/>
+                                    <DiceIcon value={rollingFaces[0]}/>
                                 </div>
                                 <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 shadow-inner">
-                                    <DiceIcon value={diceResult?.dice2_value || 1}/>
+                                    <DiceIcon value={rollingFaces[1]}/>
                                 </div>
                             </div>
                         </div>
                     </div>
                 );
 
-            case 'showing_results':
-                return (
-                    <div className="text-center">
-                        <h2 className="text-4xl font-bold text-white mb-8 bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
-                            {investmentName}
-                        </h2>
-                        <h3 className="text-2xl font-bold text-white mb-4">Final Result:</h3>
-                        <div className="flex gap-4 justify-center mb-6">
-                            <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 shadow-inner">
-                                <DiceIcon value={diceResult?.dice1_value || 1}/>
-                            </div>
-                            <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 shadow-inner">
-                                <DiceIcon value={diceResult?.dice2_value || 1}/>
-                            </div>
-                        </div>
-                        <div className="text-5xl font-bold text-white mb-4">
-                            Total: {diceResult?.total_value}
-                        </div>
-                        <div className={`text-3xl font-bold mb-6 ${getBoostColor(diceResult?.boost_percentage || 0)}`}>
-                            {diceResult?.boost_percentage}%
-                            Boost {diceResult?.boost_percentage === 100 ? 'Applied' : 'Applied'}
-                        </div>
-                        <div className="text-gray-300">
-                            Applying effects to team KPIs...
-                        </div>
-                    </div>
-                );
-
-            case 'applying_effects':
-                return (
-                    <div className="text-center">
-                        <h2 className="text-4xl font-bold text-white mb-8 bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
-                            {investmentName}
-                        </h2>
-                        <div className="animate-pulse">
-                            <TrendingUp className="mx-auto mb-4 text-green-400" size={64}/>
-                            <div className="text-2xl font-bold text-white mb-4">
-                                Applying effects to team KPIs...
-                            </div>
-                        </div>
-                    </div>
-                );
-
             case 'complete':
                 if (affectedTeams.length === 0) {
                     return (
@@ -443,6 +472,8 @@ const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
                                     {diceResult.boost_percentage}% Boost Applied
                                 </div>
 
+                                {renderRollRecord(diceResult)}
+
                                 {diceResult.boost_percentage > 0 && (
                                     <div className="mb-6">
                                         <h3 className="text-xl font-bold text-white mb-4 flex items-center justify-center gap-2">
@@ -467,6 +498,9 @@ const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
                                 <h3 className="text-xl font-bold text-white mb-4 flex items-center justify-center gap-2">
                                     📊 KPI Changes - Update Your Physical Boards!
                                 </h3>
+                                <p className="text-sm text-gray-400 -mt-2 mb-4">
+                                    Net of the boost and the RD-3 payoff each team sacrificed
+                                </p>
                                 <div className="space-y-4">
                                     {kpiChanges.map((teamChange, index) => (
                                         <div key={index} className="bg-slate-700/50 rounded-lg p-4">
@@ -479,6 +513,9 @@ const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
                                                         {formatKpiChange(change)}
                                                     </div>
                                                 ))}
+                                                {teamChange.changes.length === 0 && (
+                                                    <span className="text-gray-400">No net change</span>
+                                                )}
                                             </div>
                                         </div>
                                     ))}
@@ -495,6 +532,20 @@ const DoubleDownDiceDisplay: React.FC<DoubleDownDiceDisplayProps> = ({
                                 Double Down Complete!
                             </div>
                         </div>
+
+                        {isHost && diceResult && (
+                            <div className="mt-6">
+                                {isRerollOpen ? renderRollControls(handleReroll) : (
+                                    <button
+                                        onClick={() => setIsRerollOpen(true)}
+                                        className="inline-flex items-center gap-2 px-4 py-2 text-sm text-gray-300 border border-slate-600 rounded-lg hover:bg-slate-700"
+                                    >
+                                        <RotateCcw size={16}/>
+                                        Re-roll...
+                                    </button>
+                                )}
+                            </div>
+                        )}
                     </div>
                 );
 
@@ -0,0 +1,151 @@
+// src/shared/components/KpiLedger/KpiLedgerView.tsx
+// "Why is my number this?" - reconciles a team's current KPIs from the round baseline, one ledger entry at a time
+import React, {useMemo, useState} from 'react';
+import {AlertTriangle, Building, DollarSign, ShoppingCart, TrendingUp} from 'lucide-react';
+import {KpiLedgerKpi, KpiLedgerSource, TeamRoundData} from '@shared/types';
+import {useSupabaseQuery} from '@shared/hooks/supabase';
+import {db} from '@shared/services/supabase';
+import {KpiLedger} from '@core/game/KpiLedger';
+
+interface KpiLedgerViewProps {
+    sessionId: string;
+    teamId: string;
+    roundData: Record<number, TeamRoundData>;   // the team's saved KPIs by round
+    initialRound: number;
+}
+
+const KPI_LABELS: Record<KpiLedgerKpi, { label: string; icon: React.ReactNode }> = {
+    capacity: {label: 'Capacity', icon: <Building className="w-4 h-4 text-blue-500"/>},
+    orders: {label: 'Orders', icon: <ShoppingCart className="w-4 h-4 text-yellow-500"/>},
+    cost: {label: 'Cost', icon: <DollarSign className="w-4 h-4 text-green-500"/>},
+    asp: {label: 'ASP', icon: <TrendingUp className="w-4 h-4 text-red-500"/>}
+};
+
+const SOURCE_LABELS: Record<KpiLedgerSource, string> = {
+    challenge: 'Challenge',
+    investment_payoff: 'Investment payoff',
+    continuation: 'Continuation',
+    double_down: 'Double down',
+    reset: 'Round start',
+    manual_override: 'Host override'
+};
+
+const formatValue = (kpi: KpiLedgerKpi, value: number): string =>
+    kpi === 'cost' || kpi === 'asp' ? `$${value.toLocaleString()}` : value.toLocaleString();
+
+const formatChange = (kpi: KpiLedgerKpi, change: number): string => {
+    const sign = change >= 0 ? '+' : '-';
+    return kpi === 'cost' || kpi === 'asp'
+        ? `${sign}$${Math.abs(change).toLocaleString()}`
+        : `${sign}${Math.abs(change).toLocaleString()}`;
+};
+
+const KpiLedgerView: React.FC<KpiLedgerViewProps> = ({sessionId, teamId, roundData, initialRound}) => {
+    const rounds = Object.keys(roundData).map(Number).sort();
+    const [selectedRound, setSelectedRound] = useState<number>(
+        roundData[initialRound] ? initialRound : rounds[rounds.length - 1] ?? 1
+    );
+    const currentKpis = roundData[selectedRound];
+
+    // Refetch whenever the saved numbers move
+    const kpiVersion = currentKpis
+        ? `${currentKpis.current_capacity}-${currentKpis.current_orders}-${currentKpis.current_cost}-${currentKpis.current_asp}`
+        : 'none';
+
+    const {data: entries, isLoading, error} = useSupabaseQuery(
+        () => db.kpiLedger.getForTeam(sessionId, teamId),
+        [sessionId, teamId, selectedRound, kpiVersion],
+        {cacheKey: `kpi-ledger-${sessionId}-${teamId}-${kpiVersion}`, cacheTimeout: 2000}
+    );
+
+    const reconciliation = useMemo(() => {
+        if (!currentKpis || !entries) return [];
+        return KpiLedger.reconcile(entries, currentKpis);
+    }, [entries, currentKpis]);
+
+    if (!currentKpis) {
+        return <p className="text-sm text-gray-500">No KPI data for this team yet.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {rounds.length > 1 && (
+                <div className="flex gap-2">
+                    {rounds.map(round => (
+                        <button
+                            key={round}
+                            onClick={() => setSelectedRound(round)}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border transition-colors ${
+                                round === selectedRound
+                                    ? 'bg-blue-600 text-white border-blue-600'
+                                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                            }`}
+                        >
+                            Round {round}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {isLoading && !entries && <p className="text-sm text-gray-500">Loading KPI history...</p>}
+            {error && <p className="text-sm text-red-600">Could not load KPI history: {error}</p>}
+
+            {reconciliation.map(({kpi, startValue, steps, currentValue, untracked}) => (
+                <div key={kpi} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center gap-2 font-semibold text-gray-900">
+                            {KPI_LABELS[kpi].icon}
+                            {KPI_LABELS[kpi].label}
+                        </div>
+                        <span className="font-bold text-gray-900">{formatValue(kpi, currentValue)}</span>
+                    </div>
+
+                    <table className="w-full text-xs">
+                        <tbody>
+                        <tr className="text-gray-500">
+                            <td className="py-1">Round {selectedRound} baseline</td>
+                            <td/>
+                            <td className="py-1 text-right">{formatValue(kpi, startValue)}</td>
+                        </tr>
+                        {steps.map(({entry, untracked: gap}) => (
+                            <React.Fragment key={entry.id}>
+                                {gap !== 0 && (
+                                    <tr className="text-amber-700">
+                                        <td className="py-1">Unrecorded change</td>
+                                        <td className="py-1 text-right">{formatChange(kpi, gap)}</td>
+                                        <td className="py-1 text-right">{formatValue(kpi, entry.old_value)}</td>
+                                    </tr>
+                                )}
+                                <tr className="text-gray-700 border-t border-gray-100">
+                                    <td className="py-1">
+                                        <span className="font-medium">{SOURCE_LABELS[entry.source]}</span>
+                                        <span className="text-gray-500"> · {entry.description}</span>
+                                    </td>
+                                    <td className={`py-1 text-right font-medium ${
+                                        entry.new_value >= entry.old_value ? 'text-green-700' : 'text-red-700'
+                                    }`}>
+                                        {formatChange(kpi, entry.new_value - entry.old_value)}
+                                    </td>
+                                    <td className="py-1 text-right">{formatValue(kpi, entry.new_value)}</td>
+                                </tr>
+                            </React.Fragment>
+                        ))}
+                        {untracked !== 0 && (
+                            <tr className="text-amber-700 border-t border-gray-100">
+                                <td className="py-1">
+                                    <AlertTriangle className="w-3 h-3 inline mr-1"/>
+                                    Unrecorded change
+                                </td>
+                                <td className="py-1 text-right">{formatChange(kpi, untracked)}</td>
+                                <td className="py-1 text-right">{formatValue(kpi, currentValue)}</td>
+                            </tr>
+                        )}
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default KpiLedgerView;
@@ -1,9 +1,9 @@
-// src/views/host/components/KPITrendCharts.tsx
+// src/shared/components/UI/Charts/KPITrendCharts.tsx
 // Line charts showing KPI progression across all 3 rounds
 import React, {useMemo} from 'react';
 import {LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer} from 'recharts';
 import {Team, TeamRoundData} from '@shared/types';
-import {calculateKpiValue} from '@shared/components/UI/Leaderboard/utils';
+import {FinancialMetrics} from '@core/game/FinancialMetrics';
 import {TrendingUp, DollarSign, BarChart2, Zap} from 'lucide-react';
 
 interface KPITrendChartsProps {
@@ -51,10 +51,10 @@ const KPITrendCharts: React.FC<KPITrendChartsProps> = ({teams, teamRoundData}) =
             teams.forEach(team => {
                 const roundData = teamRoundData[team.id]?.[roundNum];
                 if (roundData) {
-                    netIncomePoint[team.name] = calculateKpiValue(roundData, 'net_income');
-                    revenuePoint[team.name] = calculateKpiValue(roundData, 'revenue');
-                    netMarginPoint[team.name] = calculateKpiValue(roundData, 'net_margin');
-                    capacityPoint[team.name] = calculateKpiValue(roundData, 'capacity');
+                    netIncomePoint[team.name] = FinancialMetrics.getValue(roundData, 'net_income');
+                    revenuePoint[team.name] = FinancialMetrics.getValue(roundData, 'revenue');
+                    netMarginPoint[team.name] = FinancialMetrics.getValue(roundData, 'net_margin');
+                    capacityPoint[team.name] = FinancialMetrics.getValue(roundData, 'capacity');
                 } else {
                     // Handle missing data gracefully
                     netIncomePoint[team.name] = 0;
@@ -1,4 +1,4 @@
-// src/views/host/components/OperationalKPITrends.tsx
+// src/shared/components/UI/Charts/OperationalKPITrends.tsx
 // Line charts showing the 4 core operational KPIs that teams directly manage
 import React, {useMemo} from 'react';
 import {LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer} from 'recharts';
@@ -0,0 +1,3 @@
+// src/shared/components/UI/Charts/index.ts
+export { default as KPITrendCharts } from './KPITrendCharts';
+export { default as OperationalKPITrends } from './OperationalKPITrends';
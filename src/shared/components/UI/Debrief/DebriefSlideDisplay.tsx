@@ -0,0 +1,257 @@
+// src/shared/components/UI/Debrief/DebriefSlideDisplay.tsx
+// One post-game debrief slide, built from the session's own data: KPI trends, the class's choices per
+// challenge, the biggest swings and the double down results
+import React, {useMemo} from 'react';
+import {BarChart3, Dice5, MessageSquareText, Zap} from 'lucide-react';
+import {useGameContext} from '@app/providers/GameProvider.tsx';
+import {DebriefSpec, KpiLedgerKpi} from '@shared/types';
+import {useSupabaseQuery} from '@shared/hooks/supabase';
+import {db} from '@shared/services/supabase';
+import {KPITrendCharts, OperationalKPITrends} from '@shared/components/UI/Charts';
+import {DebriefBuilder} from '@core/game/DebriefBuilder';
+
+interface DebriefSlideDisplayProps {
+    spec?: DebriefSpec;
+    sessionId?: string | null;
+}
+
+const KPI_LABELS: Record<KpiLedgerKpi, string> = {
+    capacity: 'Capacity',
+    orders: 'Orders',
+    cost: 'Cost',
+    asp: 'ASP'
+};
+
+const formatKpi = (kpi: KpiLedgerKpi, value: number): string =>
+    kpi === 'cost' || kpi === 'asp' ? `$${value.toLocaleString()}` : value.toLocaleString();
+
+// Hook to safely get game context
+const useSafeGameContext = () => {
+    try {
+        return useGameContext();
+    } catch {
+        return null;
+    }
+};
+
+const DebriefFrame: React.FC<{ icon: React.ReactNode; title: string; subtitle?: string; children: React.ReactNode }> = ({
+                                                                                                                          icon,
+                                                                                                                          title,
+                                                                                                                          subtitle,
+                                                                                                                          children
+                                                                                                                      }) => (
+    <div className="h-full w-full flex flex-col p-6 md:p-10 bg-gray-900 text-white overflow-auto">
+        <div className="text-center mb-8">
+            <h2 className="text-3xl md:text-4xl font-bold flex items-center justify-center gap-3">
+                {icon}
+                {title}
+            </h2>
+            {subtitle && <p className="text-gray-400 mt-2 text-lg">{subtitle}</p>}
+        </div>
+        <div className="flex-1 w-full max-w-6xl mx-auto">{children}</div>
+    </div>
+);
+
+const EmptyState: React.FC<{ message: string }> = ({message}) => (
+    <p className="text-center text-gray-400 text-xl mt-16">{message}</p>
+);
+
+const SwingMoments: React.FC<{ sessionId: string }> = ({sessionId}) => {
+    const gameContext = useSafeGameContext();
+    const teams = gameContext?.state.teams;
+
+    const {data: ledger, isLoading} = useSupabaseQuery(
+        () => db.kpiLedger.getBySession(sessionId),
+        [sessionId],
+        {cacheKey: `debrief-ledger-${sessionId}`, cacheTimeout: 10000}
+    );
+
+    const moments = useMemo(() => DebriefBuilder.getSwingMoments(ledger ?? [], teams ?? []), [ledger, teams]);
+
+    if (isLoading && !ledger) return <EmptyState message="Loading the game's KPI history..."/>;
+    if (moments.length === 0) return <EmptyState message="No KPI changes were recorded this game."/>;
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {moments.map((moment, index) => (
+                <div key={`${moment.teamId}-${moment.roundNumber}-${moment.description}`}
+                     className="bg-gray-800 border border-gray-700 rounded-xl p-5">
+                    <div className="flex items-baseline justify-between gap-3 mb-2">
+                        <span className="text-2xl font-bold text-sky-300">#{index + 1} {moment.teamName}</span>
+                        <span className="text-sm text-gray-400">Round {moment.roundNumber}</span>
+                    </div>
+                    <p className="text-gray-300 mb-3">{moment.description}</p>
+                    <ul className="space-y-1">
+                        {moment.changes.map(change => (
+                            <li key={change.kpi} className="flex justify-between text-lg">
+                                <span className="text-gray-400">{KPI_LABELS[change.kpi]}</span>
+                                <span className={change.favorable ? 'text-green-400' : 'text-red-400'}>
+                                    {formatKpi(change.kpi, change.oldValue)} → {formatKpi(change.kpi, change.newValue)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const DoubleDownOutcomesView: React.FC<{ sessionId: string }> = ({sessionId}) => {
+    const gameContext = useSafeGameContext();
+    const state = gameContext?.state;
+
+    const {data: results, isLoading} = useSupabaseQuery(
+        () => db.doubleDown.getResultsForSession(sessionId),
+        [sessionId],
+        {cacheKey: `debrief-double-down-${sessionId}`, cacheTimeout: 10000}
+    );
+
+    const outcomes = useMemo(() => {
+        if (!state?.gameStructure) return null;
+        const decisions = Object.values(state.teamDecisions).flatMap(byPhase => Object.values(byPhase));
+        return DebriefBuilder.getDoubleDownOutcomes(results ?? [], decisions, state.teams, state.gameStructure);
+    }, [results, state?.teamDecisions, state?.teams, state?.gameStructure]);
+
+    if (isLoading && !results) return <EmptyState message="Loading double down results..."/>;
+    if (!outcomes || (outcomes.rolls.length === 0 && outcomes.teams.length === 0)) {
+        return <EmptyState message="No team doubled down this game."/>;
+    }
+
+    return (
+        <div className="space-y-8">
+            {outcomes.rolls.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {outcomes.rolls.map(roll => (
+                        <div key={roll.investmentId} className="bg-gray-800 border border-gray-700 rounded-xl p-5 text-center">
+                            <p className="text-lg font-semibold text-gray-200">{roll.investmentName}</p>
+                            <p className="text-4xl font-bold text-yellow-300 my-2">{roll.dice[0]} + {roll.dice[1]}</p>
+                            <p className="text-2xl font-bold text-green-400">{roll.boostPercentage}% boost</p>
+                            <p className="text-sm text-gray-400 mt-2">
+                                {roll.teamNames.length > 0 ? roll.teamNames.join(', ') : 'No teams'}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {outcomes.teams.length > 0 && (
+                <table className="w-full text-lg">
+                    <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-700">
+                        <th className="py-2">Team</th>
+                        <th className="py-2">Doubled down on</th>
+                        <th className="py-2">Sacrificed</th>
+                        <th className="py-2 text-right">Boost</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {outcomes.teams.map(outcome => (
+                        <tr key={outcome.teamId} className="border-b border-gray-800">
+                            <td className="py-2 font-semibold">{outcome.teamName}</td>
+                            <td className="py-2">{outcome.doubledOn ?? <span className="text-gray-500">Passed</span>}</td>
+                            <td className="py-2">{outcome.sacrificed ?? '—'}</td>
+                            <td className="py-2 text-right text-green-400">
+                                {outcome.boostPercentage !== null ? `${outcome.boostPercentage}%` : '—'}
+                            </td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+const DebriefSlideDisplay: React.FC<DebriefSlideDisplayProps> = ({spec, sessionId}) => {
+    const gameContext = useSafeGameContext();
+    const state = gameContext?.state;
+    const teams = state?.teams ?? [];
+    const teamRoundData = state?.teamRoundData ?? {};
+
+    const distribution = useMemo(() => {
+        if (spec?.section !== 'choice_distribution' || !spec.challenge_key || !state?.gameStructure) return null;
+        const decisions = Object.values(state.teamDecisions).flatMap(byPhase => Object.values(byPhase));
+        return DebriefBuilder.getChoiceDistribution(decisions, spec.challenge_key, state.gameStructure);
+    }, [spec, state?.teamDecisions, state?.gameStructure]);
+
+    if (!spec || !sessionId) {
+        return (
+            <DebriefFrame icon={<MessageSquareText size={36} className="text-sky-400"/>} title="Debrief">
+                <EmptyState message="Debrief data is not available for this session."/>
+            </DebriefFrame>
+        );
+    }
+
+    switch (spec.section) {
+        case 'kpi_trends':
+            return (
+                <div className="h-full w-full overflow-auto bg-gray-50 p-6 md:p-10">
+                    <KPITrendCharts teams={teams} teamRoundData={teamRoundData}/>
+                </div>
+            );
+
+        case 'operational_trends':
+            return (
+                <div className="h-full w-full overflow-auto bg-gray-50 p-6 md:p-10">
+                    <OperationalKPITrends teams={teams} teamRoundData={teamRoundData}/>
+                </div>
+            );
+
+        case 'choice_distribution':
+            return (
+                <DebriefFrame
+                    icon={<BarChart3 size={36} className="text-sky-400"/>}
+                    title={spec.heading ?? distribution?.title ?? 'How the Class Chose'}
+                    subtitle={distribution ? `${distribution.teamCount} of ${teams.length} teams decided` : undefined}
+                >
+                    {distribution && distribution.options.length > 0 ? (
+                        <ul className="space-y-4">
+                            {distribution.options.map(option => (
+                                <li key={option.id}>
+                                    <div className="flex justify-between text-xl mb-1">
+                                        <span><span className="font-bold text-sky-300 mr-2">{option.id}</span>{option.name}</span>
+                                        <span className="font-semibold">{option.count}</span>
+                                    </div>
+                                    <div className="h-4 bg-gray-800 rounded-full overflow-hidden">
+                                        <div
+                                            className="h-full bg-sky-500 rounded-full transition-all duration-700"
+                                            style={{width: `${Math.round(option.share * 100)}%`}}
+                                        />
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <EmptyState message="No choices were recorded for this challenge."/>
+                    )}
+                </DebriefFrame>
+            );
+
+        case 'swing_moments':
+            return (
+                <DebriefFrame
+                    icon={<Zap size={36} className="text-yellow-400"/>}
+                    title={spec.heading ?? 'Biggest Swing Moments'}
+                    subtitle="The single events that moved a team's numbers the most"
+                >
+                    <SwingMoments sessionId={sessionId}/>
+                </DebriefFrame>
+            );
+
+        case 'double_down_outcomes':
+            return (
+                <DebriefFrame
+                    icon={<Dice5 size={36} className="text-yellow-400"/>}
+                    title={spec.heading ?? 'Double Down Outcomes'}
+                >
+                    <DoubleDownOutcomesView sessionId={sessionId}/>
+                </DebriefFrame>
+            );
+
+        default:
+            return null;
+    }
+};
+
+export default DebriefSlideDisplay;
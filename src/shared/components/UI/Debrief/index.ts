@@ -0,0 +1,2 @@
+// src/shared/components/UI/Debrief/index.ts
+export { default as DebriefSlideDisplay } from './DebriefSlideDisplay';
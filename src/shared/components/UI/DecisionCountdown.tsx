@@ -0,0 +1,41 @@
+// src/shared/components/UI/DecisionCountdown.tsx
+// Countdown badge shown on team devices and the presentation display
+import React from 'react';
+import {Clock, Lock, Pause} from 'lucide-react';
+import {useDecisionCountdown} from '@shared/hooks/useDecisionCountdown';
+import type {DecisionTimerState} from '@shared/types/sync';
+
+interface DecisionCountdownProps {
+    timer: DecisionTimerState | null;
+    size?: 'md' | 'lg';
+}
+
+const LOW_TIME_SECONDS = 30;
+
+const DecisionCountdown: React.FC<DecisionCountdownProps> = ({timer, size = 'md'}) => {
+    const countdown = useDecisionCountdown(timer);
+
+    if (!timer) return null;
+
+    const isLow = countdown.isRunning && countdown.remainingSeconds <= LOW_TIME_SECONDS;
+    const colorClasses = countdown.isClosed
+        ? 'bg-gray-800/90 text-gray-200 border-gray-600'
+        : isLow
+            ? 'bg-red-600/90 text-white border-red-400 animate-pulse'
+            : countdown.isPaused
+                ? 'bg-yellow-500/90 text-gray-900 border-yellow-300'
+                : 'bg-blue-600/90 text-white border-blue-400';
+    const sizeClasses = size === 'lg' ? 'text-4xl px-6 py-3 gap-3' : 'text-lg px-3 py-1.5 gap-2';
+    const iconSize = size === 'lg' ? 32 : 18;
+
+    return (
+        <div className={`inline-flex items-center font-bold tabular-nums rounded-xl border shadow-lg ${sizeClasses} ${colorClasses}`}
+             role="timer"
+             aria-live="polite">
+            {countdown.isClosed ? <Lock size={iconSize}/> : countdown.isPaused ? <Pause size={iconSize}/> : <Clock size={iconSize}/>}
+            <span>{countdown.isClosed ? "Time's up" : countdown.formatted}</span>
+        </div>
+    );
+};
+
+export default DecisionCountdown;
@@ -4,12 +4,8 @@ import {useGameContext} from '@app/providers/GameProvider.tsx';
 import {Team, TeamRoundData} from '@shared/types/database';
 import {Trophy} from 'lucide-react';
 import {LeaderboardChartDisplayProps, LeaderboardItem} from './types';
-import {
-    getDataKeyFromSlideId,
-    getMetricAndSortOrder,
-    calculateKpiValue,
-    formatValueForDisplay
-} from './utils';
+import {formatValueForDisplay} from './utils';
+import {FinancialMetrics} from '@core/game/FinancialMetrics';
 import UnifiedLeaderboard from './UnifiedLeaderboard';
 
 // Hook to safely get game context
@@ -22,8 +18,7 @@ const useSafeGameContext = () => {
 };
 
 const LeaderboardChartDisplay: React.FC<LeaderboardChartDisplayProps> = ({
-                                                                             slideId,
-                                                                             currentRoundForDisplay,
+                                                                             spec,
                                                                              teams: propTeams,
                                                                              teamRoundData: propTeamRoundData
                                                                          }) => {
@@ -31,40 +26,35 @@ const LeaderboardChartDisplay: React.FC<LeaderboardChartDisplayProps> = ({
     const gameContext = useSafeGameContext();
     const contextState = gameContext?.state;
 
-    const teams = propTeams || contextState?.teams || [];
-    const teamRoundData = propTeamRoundData || contextState?.teamRoundData || {};
-
-    // Generate dataKey from slideId
-    const dataKey = useMemo(() => getDataKeyFromSlideId(slideId), [slideId]);
-
-    const {
-        metric,
-        kpiLabel,
-        higherIsBetter,
-        secondaryMetric,
-        secondaryKpiLabel
-    } = useMemo(() => getMetricAndSortOrder(dataKey), [dataKey]);
+    const contextTeams = contextState?.teams;
+    const contextTeamRoundData = contextState?.teamRoundData;
+    const teams = useMemo(() => propTeams || contextTeams || [], [propTeams, contextTeams]);
+    const teamRoundData = useMemo(
+        () => propTeamRoundData || contextTeamRoundData || {},
+        [propTeamRoundData, contextTeamRoundData]
+    );
 
     const leaderboardData = useMemo((): LeaderboardItem[] => {
-        if (!currentRoundForDisplay || teams.length === 0) return [];
+        if (!spec || teams.length === 0) return [];
 
         const dataForRound: { team: Team; roundData: TeamRoundData | undefined }[] = teams.map(team => ({
             team,
-            roundData: teamRoundData[team.id]?.[currentRoundForDisplay]
+            roundData: teamRoundData[team.id]?.[spec.round]
         }));
 
         const itemsWithValues = dataForRound
             .map(({team, roundData}) => {
                 if (!roundData) return null;
 
-                const value = calculateKpiValue(roundData, metric);
-                const formattedValue = formatValueForDisplay(value, metric);
+                const value = FinancialMetrics.getValue(roundData, spec.metric);
+                const formattedValue = formatValueForDisplay(value, spec.metric);
 
-                // For capacity & orders, show both values
+                // Dual bar leaderboards show both values
                 let secondaryValue: string | undefined;
-                if (secondaryMetric) {
-                    const secValue = calculateKpiValue(roundData, secondaryMetric);
-                    secondaryValue = formatValueForDisplay(secValue, secondaryMetric);
+                let secondaryNumericValue: number | undefined;
+                if (spec.layout === 'dual_bar' && spec.secondary_metric) {
+                    secondaryNumericValue = FinancialMetrics.getValue(roundData, spec.secondary_metric);
+                    secondaryValue = formatValueForDisplay(secondaryNumericValue, spec.secondary_metric);
                 }
 
                 return {
@@ -72,6 +62,7 @@ const LeaderboardChartDisplay: React.FC<LeaderboardChartDisplayProps> = ({
                     value,
                     formattedValue,
                     secondaryValue,
+                    secondaryNumericValue,
                     rank: 0 // Will be set after sorting
                 };
             })
@@ -79,31 +70,27 @@ const LeaderboardChartDisplay: React.FC<LeaderboardChartDisplayProps> = ({
 
         // Sort by value
         const sortedItems = itemsWithValues.sort((a, b) =>
-            higherIsBetter ? b.value - a.value : a.value - b.value
+            spec.sort === 'desc' ? b.value - a.value : a.value - b.value
         );
 
-        // Assign ranks
+        // Assign ranks; anonymized boards name teams by finishing position
         return sortedItems.map((item, index) => ({
             ...item,
+            teamName: spec.anonymize_teams ? `Team ${String.fromCharCode(65 + index)}` : item.teamName,
             rank: index + 1
         }));
-    }, [teams, teamRoundData, currentRoundForDisplay, metric, secondaryMetric, higherIsBetter]);
-
-    // Determine round display text
-    const roundDisplay = useMemo(() => {
-        if (!currentRoundForDisplay) return 'Round';
+    }, [teams, teamRoundData, spec]);
 
-        // Check if this is a final leaderboard
-        if (dataKey.includes('rd3_leaderboard')) {
-            return 'Final Round 3';
-        }
-
-        return `Round ${currentRoundForDisplay}`;
-    }, [currentRoundForDisplay, dataKey]);
-
-    // Check leaderboard type
-    const isCapacityOrdersLeaderboard = dataKey.includes('capord');
-    const isNetIncomeLeaderboard = dataKey.includes('income');
+    if (!spec) {
+        return (
+            <div
+                className="h-full w-full flex flex-col items-center justify-center p-4 md:p-8 bg-gray-800 text-white rounded-lg shadow-2xl">
+                <Trophy size={48} className="text-yellow-400 mb-4"/>
+                <h2 className="text-2xl md:text-3xl font-bold mb-2 text-center">Leaderboard Not Configured</h2>
+                <p className="text-gray-400 text-center">This slide has no leaderboard settings. Add them in the content editor.</p>
+            </div>
+        );
+    }
 
     if (leaderboardData.length === 0) {
         return (
@@ -120,12 +107,8 @@ const LeaderboardChartDisplay: React.FC<LeaderboardChartDisplayProps> = ({
     return (
         <UnifiedLeaderboard
             leaderboardData={leaderboardData}
-            kpiLabel={kpiLabel}
-            secondaryKpiLabel={secondaryKpiLabel}
-            roundDisplay={roundDisplay}
-            dataKey={dataKey}
-            isDualBar={isCapacityOrdersLeaderboard}
-            isNetIncomeReveal={isNetIncomeLeaderboard}
+            roundDisplay={spec.heading || `Round ${spec.round}`}
+            spec={spec}
         />
     );
 };
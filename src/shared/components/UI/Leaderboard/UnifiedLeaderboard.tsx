@@ -2,29 +2,38 @@
 import React, {useState, useEffect, useMemo} from 'react';
 import {
     Trophy, TrendingUp, DollarSign, BarChart2, Target, Package,
-    Zap, Crown, Medal, Award
+    Zap, ShoppingCart, AlertTriangle
 } from 'lucide-react';
+import {LeaderboardSpec, MetricKey} from '@shared/types/game';
 import {LeaderboardItem} from './types';
 
 interface UnifiedLeaderboardProps {
     leaderboardData: LeaderboardItem[];
-    kpiLabel: string;
-    secondaryKpiLabel?: string;
     roundDisplay: string;
-    dataKey: string;
-    isDualBar?: boolean;
-    isNetIncomeReveal?: boolean;
+    spec: LeaderboardSpec;
 }
 
+const METRIC_GRADIENTS: Partial<Record<MetricKey, string>> = {
+    revenue: 'from-orange-500 to-orange-600',
+    net_income: 'from-yellow-400 to-yellow-600',
+    net_margin: 'from-purple-500 to-purple-600',
+    asp: 'from-green-500 to-green-600',
+    cost: 'from-red-500 to-red-600',
+    cost_per_board: 'from-red-500 to-red-600',
+    capacity: 'from-blue-500 to-blue-600',
+    orders: 'from-blue-500 to-blue-600',
+    units_sold: 'from-teal-500 to-teal-600',
+    unmet_demand: 'from-pink-500 to-pink-600'
+};
+
 const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
                                                                    leaderboardData,
-                                                                   kpiLabel,
-                                                                   secondaryKpiLabel,
                                                                    roundDisplay,
-                                                                   dataKey,
-                                                                   isDualBar = false,
-                                                                   isNetIncomeReveal = false
+                                                                   spec
                                                                }) => {
+    const isDualBar = spec.layout === 'dual_bar' && !!spec.secondary_metric;
+    const isNetIncomeReveal = spec.reveal === 'countdown';
+    const kpiLabel = isDualBar ? `${spec.label} & ${spec.secondary_label ?? ''}` : spec.label;
     const [isVisible, setIsVisible] = useState(false);
     const [hoveredTeam, setHoveredTeam] = useState<string | null>(null);
     const [revealStage, setRevealStage] = useState(0);
@@ -52,34 +61,39 @@ const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
 
     const maxSecondary = useMemo(() => {
         if (!isDualBar) return 0;
-        return Math.max(...sortedData.map(item =>
-            parseFloat(item.secondaryValue?.replace(/,/g, '') || '0')
-        ));
+        return Math.max(...sortedData.map(item => item.secondaryNumericValue ?? 0));
     }, [sortedData, isDualBar]);
 
     // Get appropriate gradient colors based on KPI
-    const getGradientScheme = () => {
-        if (dataKey.includes('revenue')) return 'from-orange-500 to-orange-600';
-        if (dataKey.includes('income')) return 'from-yellow-400 to-yellow-600';
-        if (dataKey.includes('margin')) return 'from-purple-500 to-purple-600';
-        if (dataKey.includes('asp')) return 'from-green-500 to-green-600';
-        if (dataKey.includes('cpb') || dataKey.includes('cost')) return 'from-red-500 to-red-600';
-        if (dataKey.includes('capord')) return 'from-blue-500 to-blue-600';
-        return 'from-indigo-500 to-indigo-600';
-    };
+    const getGradientScheme = () => METRIC_GRADIENTS[spec.metric] ?? 'from-indigo-500 to-indigo-600';
 
     // Get appropriate icon for the metric
     const getMetricIcon = () => {
-        if (dataKey.includes('revenue')) return <TrendingUp className="w-6 h-6"/>;
-        if (dataKey.includes('income')) return <DollarSign className="w-6 h-6"/>;
-        if (dataKey.includes('margin')) return <BarChart2 className="w-6 h-6"/>;
-        if (dataKey.includes('asp')) return <Target className="w-6 h-6"/>;
-        if (dataKey.includes('cpb') || dataKey.includes('cost')) return <Package className="w-6 h-6"/>;
-        if (dataKey.includes('capord')) return <Zap className="w-6 h-6"/>;
-        return <Trophy className="w-6 h-6"/>;
+        switch (spec.metric) {
+            case 'revenue':
+                return <TrendingUp className="w-6 h-6"/>;
+            case 'net_income':
+                return <DollarSign className="w-6 h-6"/>;
+            case 'net_margin':
+                return <BarChart2 className="w-6 h-6"/>;
+            case 'asp':
+                return <Target className="w-6 h-6"/>;
+            case 'cost':
+            case 'cost_per_board':
+                return <Package className="w-6 h-6"/>;
+            case 'capacity':
+            case 'orders':
+                return <Zap className="w-6 h-6"/>;
+            case 'units_sold':
+                return <ShoppingCart className="w-6 h-6"/>;
+            case 'unmet_demand':
+                return <AlertTriangle className="w-6 h-6"/>;
+            default:
+                return <Trophy className="w-6 h-6"/>;
+        }
     };
 
-    // Handle special Net Income reveal animation
+    // Handle the countdown reveal animation (last place first)
     useEffect(() => {
         if (isNetIncomeReveal) {
             setRevealStage(0);
@@ -95,7 +109,7 @@ const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
         }
     }, [isNetIncomeReveal, revealStage, sortedData.length]);
 
-    // Special rendering for Net Income (bottom-up reveal)
+    // Special rendering for the countdown reveal (bottom-up)
     if (isNetIncomeReveal) {
         return (
             <div
@@ -215,7 +229,7 @@ const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
                     </h1>
                 </div>
                 <p className={`text-3xl font-bold bg-gradient-to-r ${getGradientScheme()} bg-clip-text text-transparent`}>
-                    {isDualBar ? 'CAPACITY & ORDERS' : kpiLabel.toUpperCase()}
+                    {kpiLabel.toUpperCase()}
                 </p>
             </div>
 
@@ -225,9 +239,9 @@ const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
                     const isLeader = team.rank === 1;
 
                     if (isDualBar) {
-                        // Dual bar mode for Capacity & Orders - compact stacked layout
+                        // Dual bar mode (e.g. Capacity & Orders) - compact stacked layout
                         const capWidth = (team.value / maxPrimary) * 100;
-                        const ordWidth = (parseFloat(team.secondaryValue?.replace(/,/g, '') || '0') / maxSecondary) * 100;
+                        const ordWidth = ((team.secondaryNumericValue ?? 0) / maxSecondary) * 100;
 
                         return (
                             <div
@@ -254,7 +268,7 @@ const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
                                     <div className="bg-gray-800 rounded-lg overflow-hidden">
                                         {/* Stacked bars */}
                                         <div className="relative">
-                                            {/* Capacity bar (top half) */}
+                                            {/* Primary bar (top half) */}
                                             <div className="h-8 relative bg-gray-700">
                                                 <div
                                                     className="h-full bg-gradient-to-r from-blue-500 to-blue-600 transition-all duration-1000 ease-out relative overflow-hidden"
@@ -263,12 +277,12 @@ const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
                                                     <div
                                                         className="absolute inset-0 flex items-center justify-end px-3">
                                                         <span
-                                                            className="text-xs font-bold text-white drop-shadow-md">Capacity: {team.formattedValue}</span>
+                                                            className="text-xs font-bold text-white drop-shadow-md">{spec.label}: {team.formattedValue}</span>
                                                     </div>
                                                 </div>
                                             </div>
 
-                                            {/* Orders bar (bottom half) */}
+                                            {/* Secondary bar (bottom half) */}
                                             <div className="h-8 relative bg-gray-700">
                                                 <div
                                                     className="h-full bg-gradient-to-r from-yellow-400 to-yellow-600 transition-all duration-1000 ease-out relative overflow-hidden"
@@ -277,7 +291,7 @@ const UnifiedLeaderboard: React.FC<UnifiedLeaderboardProps> = ({
                                                     <div
                                                         className="absolute inset-0 flex items-center justify-end px-3">
                                                         <span
-                                                            className="text-xs font-bold text-gray-900">Orders: {team.secondaryValue}</span>
+                                                            className="text-xs font-bold text-gray-900">{spec.secondary_label}: {team.secondaryValue}</span>
                                                     </div>
                                                 </div>
                                             </div>
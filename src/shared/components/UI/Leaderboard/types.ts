@@ -1,17 +1,18 @@
 // src/shared/components/UI/Leaderboard/types.ts
 import {Team, TeamRoundData} from '@shared/types/database';
+import {LeaderboardSpec} from '@shared/types/game';
 
 export interface LeaderboardItem {
     teamName: string;
     value: number;
     formattedValue: string;
     rank: number;
-    secondaryValue?: string; // For capacity & orders display
+    secondaryValue?: string; // For dual bar leaderboards (e.g. capacity & orders)
+    secondaryNumericValue?: number;
 }
 
 export interface LeaderboardChartDisplayProps {
-    slideId: number;
-    currentRoundForDisplay: number | null;
+    spec?: LeaderboardSpec;
     teams?: Team[];
     teamRoundData?: Record<string, Record<number, TeamRoundData>>;
 }
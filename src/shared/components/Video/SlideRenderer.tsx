@@ -5,6 +5,7 @@ import React, {useState, useEffect} from 'react';
 import {Slide} from '@shared/types/game';
 import {AlertCircle, ListChecks} from 'lucide-react';
 import {LeaderboardChartDisplay} from '@shared/components/UI/Leaderboard';
+import {DebriefSlideDisplay} from '@shared/components/UI/Debrief';
 import {isVideo, useHostVideo, usePresentationVideo} from '@shared/utils/video';
 import HostVideoControls from '@shared/components/Video/HostVideoControls';
 import {useSignedMediaUrl} from '@shared/hooks/useSignedMediaUrl';
@@ -22,8 +23,9 @@ const SlideContent: React.FC<{
     slide: Slide,
     sourceUrl: string,
     className?: string,
-    sessionId?: string | null
-}> = ({slide, sourceUrl, className, sessionId}) => {
+    sessionId?: string | null,
+    isHost: boolean
+}> = ({slide, sourceUrl, className, sessionId, isHost}) => {
     switch (slide.type) {
         case 'image':
             return (
@@ -39,10 +41,14 @@ const SlideContent: React.FC<{
         case 'leaderboard_chart':
             return (
                 <div className={`w-full h-full ${className}`}>
-                    <LeaderboardChartDisplay
-                        slideId={slide.id}
-                        currentRoundForDisplay={slide.round_number}
-                    />
+                    <LeaderboardChartDisplay spec={slide.leaderboard}/>
+                </div>
+            );
+
+        case 'debrief':
+            return (
+                <div className={`w-full h-full ${className}`}>
+                    <DebriefSlideDisplay spec={slide.debrief} sessionId={sessionId}/>
                 </div>
             );
 
@@ -65,6 +71,7 @@ const SlideContent: React.FC<{
                         investmentId={investment.id}
                         investmentName={investment.name}
                         slideId={slide.id}
+                        isHost={isHost}
                     />
                 </div>
             );
@@ -144,7 +151,7 @@ const SlideRenderer: React.FC<SlideRendererProps> = ({slide, sessionId, isHost,
     }
 
     const renderContent = () => {
-        if (!sourceUrl && slide.type !== 'leaderboard_chart' && slide.type !== 'double_down_dice_roll') {
+        if (!sourceUrl && slide.type !== 'leaderboard_chart' && slide.type !== 'double_down_dice_roll' && slide.type !== 'debrief') {
             return null;
         }
 
@@ -153,6 +160,7 @@ const SlideRenderer: React.FC<SlideRendererProps> = ({slide, sessionId, isHost,
                 slide={slide}
                 sourceUrl={sourceUrl || ''}
                 sessionId={sessionId}
+                isHost={isHost}
                 className="w-full h-full"
             />
         );
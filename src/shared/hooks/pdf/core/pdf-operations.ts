@@ -26,7 +26,7 @@ export const addImageToPDF = (pdf: any, imageData: string, isFirstPage: boolean,
     pdf.addImage(imageData, 'PNG', 0, 0, 11, 8.5);
 };
 
-export const generateTimestampedFilename = (): string => {
+export const generateTimestampedFilename = (prefix: string = 'team-name-cards-html2canvas'): string => {
     const timestamp = new Date().toISOString().split('T')[0];
-    return `team-name-cards-html2canvas-${timestamp}.pdf`;
+    return `${prefix}-${timestamp}.pdf`;
 };
\ No newline at end of file
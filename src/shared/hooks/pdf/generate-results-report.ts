@@ -0,0 +1,47 @@
+import { PDFConfig, ResultsReportData } from './types';
+import { DEFAULT_CONFIG } from './config';
+
+import { validateConfig } from './utils/validation';
+import { processLogo } from './utils/assets';
+import { createCaptureContainer, cleanupCaptureContainer, sleep } from './utils/dom';
+import { createPDFDocument, addImageToPDF, generateTimestampedFilename } from './core/pdf-operations';
+import { captureElementToPNG } from './core/capture';
+import { generateResultsReportPages } from './templates/results-report';
+
+
+export const generateResultsReportPDF = async (
+    data: ResultsReportData,
+    logoUrl?: string,
+    filename: string = generateTimestampedFilename('game-results-report'),
+    customConfig?: Partial<PDFConfig>,
+    debug: boolean = false,
+): Promise<void> => {
+    const config = { ...DEFAULT_CONFIG, scale: 2, ...customConfig };
+    validateConfig(config);
+
+    try {
+        await processLogo(logoUrl);
+
+        const pdf = createPDFDocument(config, debug);
+        const container = createCaptureContainer();
+
+        try {
+            const pages = generateResultsReportPages(data, logoUrl);
+            for (let i = 0; i < pages.length; i++) {
+                container.innerHTML = pages[i];
+                await sleep(150);
+                const imageData = await captureElementToPNG(container, config, debug);
+                addImageToPDF(pdf, imageData, i === 0, debug);
+            }
+
+            pdf.save(filename);
+
+        } finally {
+            cleanupCaptureContainer(container);
+        }
+
+    } catch (error) {
+        console.error("Error during results report generation:", error);
+        throw error;
+    }
+};
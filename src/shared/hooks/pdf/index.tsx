@@ -1,9 +1,10 @@
 
 // Main function
 export { generateTeamCardsPDF } from './generate-team-cards.ts';
+export { generateResultsReportPDF } from './generate-results-report';
 
 // Types
-export type { TeamConfig, PDFConfig, TeamCardAssets } from './types';
+export type { TeamConfig, PDFConfig, TeamCardAssets, ResultsReportData } from './types';
 
 // Config
 export { DEFAULT_CONFIG } from './config';
@@ -12,6 +13,7 @@ export { DEFAULT_CONFIG } from './config';
 export { validateTeams, validateConfig } from './utils/validation';
 export { processLogo, generateQRCodeDataImage } from './utils/assets';
 export { generateTeamCardHTML } from './templates/team-card';
+export { generateResultsReportPages } from './templates/results-report';
 
 import React, { createContext, useContext, useCallback, useState } from 'react';
 import { generateTeamCardsPDF } from '../pdf';
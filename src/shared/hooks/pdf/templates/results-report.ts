@@ -0,0 +1,193 @@
+import { ResultsReportData, ResultsReportJournalEntry, ResultsReportRound, ResultsReportStanding } from '../types';
+
+const fontFamily = "'Century Gothic','Nunito Sans', sans-serif";
+const brandBlue = '#1e40af';
+
+export const STANDINGS_ROWS_PER_PAGE = 10;
+export const TEAMS_PER_PAGE = 2;
+export const JOURNAL_ENTRIES_PER_PAGE = 7;
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (value: number): string => `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString()}`;
+
+const cellStyle = (align: 'left' | 'right', header: boolean = false): string => `
+    padding: 8px 12px;
+    text-align: ${align};
+    border-bottom: 1px solid #e5e7eb;
+    ${header ? `background: ${brandBlue}; color: white; font-weight: 700;` : 'color: #111827;'}
+`;
+
+// Landscape letter page (matches the 11 x 8.5 image placed by addImageToPDF)
+const createReportPage = (content: string, logoUrl: string | undefined, footer: string): string => `
+    <div style="
+        width: 1100px;
+        height: 850px;
+        box-sizing: border-box;
+        padding: 48px 56px;
+        background: white;
+        font-family: ${fontFamily};
+        display: flex;
+        flex-direction: column;
+    ">
+        <div style="display: flex; align-items: center; justify-content: space-between; border-bottom: 4px solid ${brandBlue}; padding-bottom: 12px;">
+            ${logoUrl ? `<img src="${logoUrl}" style="height: 56px; object-fit: contain;" crossorigin="anonymous" />` : '<div></div>'}
+            <div style="font-size: 16px; color: #6b7280;">Game Results Report</div>
+        </div>
+        <div style="flex: 1; padding-top: 24px;">${content}</div>
+        <div style="font-size: 12px; color: #9ca3af; text-align: right;">${escapeHtml(footer)}</div>
+    </div>
+`;
+
+const createStandingsTable = (standings: ResultsReportStanding[]): string => `
+    <table style="width: 100%; border-collapse: collapse; font-size: 18px;">
+        <thead>
+            <tr>
+                <th style="${cellStyle('left', true)}">Rank</th>
+                <th style="${cellStyle('left', true)}">Team</th>
+                <th style="${cellStyle('right', true)}">Net Income</th>
+                <th style="${cellStyle('right', true)}">Revenue</th>
+                <th style="${cellStyle('right', true)}">Net Margin</th>
+                <th style="${cellStyle('right', true)}">Capacity</th>
+                <th style="${cellStyle('right', true)}">Orders</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${standings.map(standing => `
+                <tr style="${standing.rank === 1 ? 'background: #fef9c3; font-weight: 700;' : ''}">
+                    <td style="${cellStyle('left')}">#${standing.rank}</td>
+                    <td style="${cellStyle('left')}">${escapeHtml(standing.teamName)}</td>
+                    <td style="${cellStyle('right')}">${money(standing.netIncome)}</td>
+                    <td style="${cellStyle('right')}">${money(standing.revenue)}</td>
+                    <td style="${cellStyle('right')}">${standing.netMarginPct.toFixed(1)}%</td>
+                    <td style="${cellStyle('right')}">${standing.capacity.toLocaleString()}</td>
+                    <td style="${cellStyle('right')}">${standing.orders.toLocaleString()}</td>
+                </tr>
+            `).join('')}
+        </tbody>
+    </table>
+`;
+
+const createTeamRoundsTable = (teamName: string, rounds: ResultsReportRound[]): string => `
+    <div style="margin-bottom: 28px;">
+        <h3 style="font-size: 24px; margin: 0 0 8px 0; color: ${brandBlue};">${escapeHtml(teamName)}</h3>
+        <table style="width: 100%; border-collapse: collapse; font-size: 16px;">
+            <thead>
+                <tr>
+                    <th style="${cellStyle('left', true)}">Round</th>
+                    <th style="${cellStyle('right', true)}">Capacity</th>
+                    <th style="${cellStyle('right', true)}">Orders</th>
+                    <th style="${cellStyle('right', true)}">Cost</th>
+                    <th style="${cellStyle('right', true)}">ASP</th>
+                    <th style="${cellStyle('right', true)}">Revenue</th>
+                    <th style="${cellStyle('right', true)}">Net Income</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${rounds.map(round => `
+                    <tr>
+                        <td style="${cellStyle('left')}">Round ${round.roundNumber}</td>
+                        <td style="${cellStyle('right')}">${round.capacity.toLocaleString()}</td>
+                        <td style="${cellStyle('right')}">${round.orders.toLocaleString()}</td>
+                        <td style="${cellStyle('right')}">${money(round.cost)}</td>
+                        <td style="${cellStyle('right')}">${money(round.asp)}</td>
+                        <td style="${cellStyle('right')}">${money(round.revenue)}</td>
+                        <td style="${cellStyle('right')}">${money(round.netIncome)}</td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+    </div>
+`;
+
+const createJournalTable = (teamName: string, entries: ResultsReportJournalEntry[]): string => `
+    <h3 style="font-size: 24px; margin: 0 0 8px 0; color: ${brandBlue};">${escapeHtml(teamName)}</h3>
+    <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+        <thead>
+            <tr>
+                <th style="${cellStyle('left', true)} width: 70px;">Round</th>
+                <th style="${cellStyle('left', true)} width: 200px;">Decision</th>
+                <th style="${cellStyle('left', true)} width: 240px;">Choice</th>
+                <th style="${cellStyle('left', true)}">Why</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${entries.map(entry => `
+                <tr>
+                    <td style="${cellStyle('left')}">${entry.roundNumber}</td>
+                    <td style="${cellStyle('left')}">${escapeHtml(entry.decisionTitle)}</td>
+                    <td style="${cellStyle('left')}">${escapeHtml(entry.choice)}</td>
+                    <td style="${cellStyle('left')} ${entry.rationale ? '' : 'color: #9ca3af;'}">
+                        ${entry.rationale ? escapeHtml(entry.rationale) : 'No rationale given'}
+                    </td>
+                </tr>
+            `).join('')}
+        </tbody>
+    </table>
+`;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+};
+
+/**
+ * One HTML string per report page: cover with the winner and standings, round-by-round KPIs per team,
+ * then each team's decision journal
+ */
+export const generateResultsReportPages = (data: ResultsReportData, logoUrl?: string): string[] => {
+    const winner = data.standings[0];
+    const standingsPages = chunk(data.standings, STANDINGS_ROWS_PER_PAGE);
+    const teamPages = chunk(data.teamRounds, TEAMS_PER_PAGE);
+    const journalPages = data.journals
+        .filter(journal => journal.entries.length > 0)
+        .flatMap(journal => chunk(journal.entries, JOURNAL_ENTRIES_PER_PAGE)
+            .map(entries => ({teamName: journal.teamName, entries})));
+    const totalPages = Math.max(standingsPages.length, 1) + teamPages.length + journalPages.length;
+    const footer = (page: number) => `${data.sessionName} · Page ${page} of ${totalPages}`;
+
+    const cover = `
+        <h1 style="font-size: 40px; margin: 0 0 4px 0; color: #111827;">${escapeHtml(data.sessionName)}</h1>
+        <div style="font-size: 18px; color: #6b7280; margin-bottom: 24px;">${escapeHtml(data.subtitle)}</div>
+        ${winner ? `
+            <div style="background: #fefce8; border: 2px solid #facc15; border-radius: 12px; padding: 16px 24px; margin-bottom: 24px;">
+                <div style="font-size: 16px; font-weight: 700; color: #ca8a04; letter-spacing: 2px;">WINNER</div>
+                <div style="font-size: 32px; font-weight: 700; color: #111827;">${escapeHtml(winner.teamName)}</div>
+                <div style="font-size: 20px; color: #16a34a;">${money(winner.netIncome)} Net Income</div>
+            </div>
+        ` : ''}
+    `;
+
+    const pages = (standingsPages.length > 0 ? standingsPages : [[]]).map((standings, index) =>
+        createReportPage(
+            `${index === 0 ? cover : ''}
+             <h2 style="font-size: 26px; margin: 0 0 12px 0; color: #111827;">Final Rankings</h2>
+             ${standings.length > 0 ? createStandingsTable(standings) : '<p style="color: #6b7280;">No results recorded.</p>'}`,
+            logoUrl,
+            footer(index + 1)
+        ));
+
+    teamPages.forEach(teams => {
+        pages.push(createReportPage(
+            `<h2 style="font-size: 26px; margin: 0 0 12px 0; color: #111827;">Round-by-Round KPIs</h2>
+             ${teams.map(team => createTeamRoundsTable(team.teamName, team.rounds)).join('')}`,
+            logoUrl,
+            footer(pages.length + 1)
+        ));
+    });
+
+    journalPages.forEach(({teamName, entries}) => {
+        pages.push(createReportPage(
+            `<h2 style="font-size: 26px; margin: 0 0 12px 0; color: #111827;">Decision Journal</h2>
+             ${createJournalTable(teamName, entries)}`,
+            logoUrl,
+            footer(pages.length + 1)
+        ));
+    });
+
+    return pages;
+};
@@ -3,6 +3,7 @@ export interface TeamConfig {
     members?: string[];
     category?: string;
     id?: string;
+    joinUrl?: string;   // per-team QR login link; the card falls back to the session's join URL
 }
 
 export interface PDFConfig {
@@ -22,4 +23,38 @@ export interface TeamCardAssets {
 
 export interface ProcessedTeamAssets {
     qrCodeUrl?: string;
-}
\ No newline at end of file
+}
+export interface ResultsReportStanding {
+    rank: number;
+    teamName: string;
+    netIncome: number;
+    revenue: number;
+    netMarginPct: number;
+    capacity: number;
+    orders: number;
+}
+
+export interface ResultsReportRound {
+    roundNumber: number;
+    capacity: number;
+    orders: number;
+    cost: number;
+    asp: number;
+    revenue: number;
+    netIncome: number;
+}
+
+export interface ResultsReportJournalEntry {
+    roundNumber: number;
+    decisionTitle: string;
+    choice: string;
+    rationale: string | null;
+}
+
+export interface ResultsReportData {
+    sessionName: string;
+    subtitle: string;           // e.g. "Completed 5/14/2026 · 6 Teams"
+    standings: ResultsReportStanding[];
+    teamRounds: { teamName: string; rounds: ResultsReportRound[] }[];
+    journals: { teamName: string; entries: ResultsReportJournalEntry[] }[];
+}
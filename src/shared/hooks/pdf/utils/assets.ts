@@ -57,7 +57,7 @@ export const processTeamAssets = async (
     assets: TeamCardAssets,
 ): Promise<ProcessedTeamAssets> => {
     const [qrCodeUrl] = await Promise.all([
-        processQRCode(team, assets.teamJoinUrl!),
+        processQRCode(team, team.joinUrl ?? assets.teamJoinUrl!),
     ]);
 
     return { qrCodeUrl };
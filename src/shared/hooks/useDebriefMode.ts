@@ -0,0 +1,51 @@
+// src/shared/hooks/useDebriefMode.ts
+// Host side of the post-game debrief: whether it is showing, its generated slides and which one is up.
+// While active, the debrief slide replaces the game slide on the host preview and the presentation display.
+import {useCallback, useMemo, useState} from 'react';
+import {GameStructure, Slide} from '@shared/types';
+import {DebriefBuilder} from '@core/game/DebriefBuilder';
+
+export interface UseDebriefModeReturn {
+    isActive: boolean;
+    slides: Slide[];
+    index: number;
+    currentSlide: Slide | null;     // null when the debrief is not showing
+    isFirst: boolean;
+    isLast: boolean;
+    start: () => void;
+    exit: () => void;
+    next: () => void;
+    previous: () => void;
+}
+
+export const useDebriefMode = (gameStructure: GameStructure | null): UseDebriefModeReturn => {
+    const [isActive, setIsActive] = useState(false);
+    const [index, setIndex] = useState(0);
+
+    const slides = useMemo(() => gameStructure ? DebriefBuilder.buildSlides(gameStructure) : [], [gameStructure]);
+
+    const start = useCallback(() => {
+        if (slides.length === 0) return;
+        setIndex(0);
+        setIsActive(true);
+    }, [slides.length]);
+
+    const exit = useCallback(() => setIsActive(false), []);
+
+    const next = useCallback(() => setIndex(current => Math.min(current + 1, slides.length - 1)), [slides.length]);
+
+    const previous = useCallback(() => setIndex(current => Math.max(current - 1, 0)), []);
+
+    return {
+        isActive,
+        slides,
+        index,
+        currentSlide: isActive ? slides[index] ?? null : null,
+        isFirst: index === 0,
+        isLast: index >= slides.length - 1,
+        start,
+        exit,
+        next,
+        previous
+    };
+};
@@ -0,0 +1,45 @@
+// src/shared/hooks/useDecisionCountdown.ts
+// Ticks a decision timer against the skew-corrected server clock. Read-only: the host owns the state.
+import {useEffect, useState} from 'react';
+import {DecisionTimer} from '@core/sync/DecisionTimer';
+import {ServerClock} from '@core/sync/ServerClock';
+import type {DecisionTimerState} from '@shared/types/sync';
+
+const TICK_MS = 250;
+
+export interface DecisionCountdown {
+    remainingMs: number;
+    remainingSeconds: number;
+    formatted: string;
+    isRunning: boolean;
+    isPaused: boolean;
+    isClosed: boolean;
+}
+
+export const useDecisionCountdown = (timer: DecisionTimerState | null): DecisionCountdown => {
+    const clock = ServerClock.getInstance();
+    const [now, setNow] = useState(() => clock.now());
+
+    useEffect(() => {
+        clock.sync().then(() => setNow(clock.now()));
+    }, [clock]);
+
+    useEffect(() => {
+        setNow(clock.now());
+        if (timer?.status !== 'running') return;
+
+        const interval = setInterval(() => setNow(clock.now()), TICK_MS);
+        return () => clearInterval(interval);
+    }, [clock, timer]);
+
+    const remainingMs = timer ? DecisionTimer.getRemainingMs(timer, now) : 0;
+
+    return {
+        remainingMs,
+        remainingSeconds: Math.ceil(remainingMs / 1000),
+        formatted: DecisionTimer.formatRemaining(remainingMs),
+        isRunning: timer?.status === 'running' && remainingMs > 0,
+        isPaused: timer?.status === 'paused',
+        isClosed: DecisionTimer.isClosed(timer, now),
+    };
+};
@@ -0,0 +1,58 @@
+// src/shared/hooks/useHelpRequests.ts
+// Host side of team help requests: the session's queue, live arrivals from team devices,
+// and the claim/resolve workflow (each change is sent back to the asking team).
+import {useCallback, useEffect, useState} from 'react';
+import {db} from '@shared/services/supabase';
+import {SimpleRealtimeManager} from '@core/sync';
+import {HelpRequest} from '@shared/types';
+
+export interface UseHelpRequestsReturn {
+    requests: HelpRequest[];
+    openCount: number;      // waiting for someone to claim them
+    claim: (requestId: string) => Promise<void>;
+    resolve: (requestId: string) => Promise<void>;
+}
+
+const upsertRequest = (requests: HelpRequest[], request: HelpRequest): HelpRequest[] =>
+    requests.some(r => r.id === request.id)
+        ? requests.map(r => r.id === request.id ? request : r)
+        : [...requests, request];
+
+export const useHelpRequests = (sessionId: string | null): UseHelpRequestsReturn => {
+    const [requests, setRequests] = useState<HelpRequest[]>([]);
+
+    useEffect(() => {
+        setRequests([]);
+        if (!sessionId || sessionId === 'new') return;
+
+        let cancelled = false;
+        db.helpRequests.getBySession(sessionId)
+            .then(history => {
+                if (!cancelled) setRequests(prev => history.reduce(upsertRequest, prev));
+            })
+            .catch(error => console.error('[useHelpRequests] Failed to load help requests:', error));
+
+        const unsubscribe = SimpleRealtimeManager.getInstance(sessionId, 'host').onHelpRequest(request => {
+            setRequests(prev => upsertRequest(prev, request));
+        });
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [sessionId]);
+
+    const updateStatus = useCallback(async (requestId: string, status: 'claimed' | 'resolved') => {
+        if (!sessionId) return;
+        const updated = await db.helpRequests.updateStatus(requestId, status);
+        setRequests(prev => upsertRequest(prev, updated));
+        SimpleRealtimeManager.getInstance(sessionId, 'host').sendHelpRequest(updated);
+    }, [sessionId]);
+
+    const claim = useCallback((requestId: string) => updateStatus(requestId, 'claimed'), [updateStatus]);
+    const resolve = useCallback((requestId: string) => updateStatus(requestId, 'resolved'), [updateStatus]);
+
+    const openCount = requests.filter(request => request.status === 'open').length;
+
+    return {requests, openCount, claim, resolve};
+};
@@ -0,0 +1,34 @@
+// src/shared/hooks/useSessionGameStructure.ts
+import {useEffect, useRef, useState} from 'react';
+import {GameSession, GameStructure} from '@shared/types';
+import {GameStructureResolver} from '@core/game/GameStructureResolver';
+
+/**
+ * The GameStructure a session is played with: its game variant plus the content pack snapshot taken when the
+ * game was created. Sessions from before snapshots load their live pack and show the base variant until then.
+ */
+export const useSessionGameStructure = (session: GameSession | null): GameStructure => {
+    const [gameStructure, setGameStructure] = useState<GameStructure>(() => GameStructureResolver.fromSnapshot(session));
+    // The session object is replaced on every update; only its id, version and pack decide the structure
+    const sessionRef = useRef(session);
+    sessionRef.current = session;
+    const sessionId = session?.id;
+    const gameVersion = session?.game_version;
+    const contentPackId = session?.content_pack_id;
+
+    useEffect(() => {
+        const current = sessionRef.current;
+        setGameStructure(GameStructureResolver.fromSnapshot(current));
+        if (!current?.content_pack_id || current.content_pack_snapshot) return;
+
+        let cancelled = false;
+        GameStructureResolver.forSessionRecord(current).then(structure => {
+            if (!cancelled) setGameStructure(structure);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, gameVersion, contentPackId]);
+
+    return gameStructure;
+};
@@ -4,6 +4,7 @@ import {useNavigate} from 'react-router-dom';
 import {GameSession, GameSessionInsert, GameStructure, NewGameData} from '@shared/types';
 import {User} from '@shared/services/supabase'
 import {GameSessionManager} from '@core/game/GameSessionManager';
+import {normalizeGameVersion} from '@core/content/GameVariants';
 
 interface SessionManagerOutput {
     session: GameSession | null;
@@ -70,7 +71,7 @@ export const useSessionManager = (
                     // Construct NewGameData payload for GameSessionManager.createSession
                     // This is a minimal payload for initial creation via the game route
                     const newGameDataPayload: NewGameData = {
-                        game_version: gameStructure.id as '2.0_dd' | '1.5_dd',
+                        game_version: normalizeGameVersion(gameStructure.id),
                         name: `New Game - ${new Date().toLocaleDateString()}`,
                         class_name: '', // Will be updated via the create-game wizard
                         grade_level: 'Freshman',
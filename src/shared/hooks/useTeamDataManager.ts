@@ -136,6 +136,8 @@ export const useTeamDataManager = (initialSessionId: string | null): TeamDataMan
         try {
             // This will now use the FIXED delete function that protects immediate purchases
             await db.decisions.delete(sessionId, teamId, phaseId);
+            // The team starts the phase again from an empty shared draft
+            await db.teamDrafts.delete(sessionId, teamId, phaseId);
             setTeamDecisions(prev => {
                 const updated = JSON.parse(JSON.stringify(prev)); // Deep clone
                 if (updated[teamId] && updated[teamId][phaseId]) {
@@ -0,0 +1,65 @@
+// src/shared/hooks/useTeamMessaging.ts
+// Host side of team messaging: message history for the session, sending to one team or all teams,
+// and live read receipts coming back from team devices.
+import {useCallback, useEffect, useState} from 'react';
+import {db} from '@shared/services/supabase';
+import {SimpleRealtimeManager} from '@core/sync';
+import {TeamMessage, TeamMessageRead} from '@shared/types';
+
+export interface UseTeamMessagingReturn {
+    messages: TeamMessage[];
+    reads: TeamMessageRead[];
+    sendMessage: (body: string, teamId: string | null) => Promise<void>;
+    isReadBy: (messageId: string, teamId: string) => boolean;
+    latestMessageForTeam: (teamId: string) => TeamMessage | null;
+}
+
+export const useTeamMessaging = (sessionId: string | null): UseTeamMessagingReturn => {
+    const [messages, setMessages] = useState<TeamMessage[]>([]);
+    const [reads, setReads] = useState<TeamMessageRead[]>([]);
+
+    useEffect(() => {
+        setMessages([]);
+        setReads([]);
+        if (!sessionId || sessionId === 'new') return;
+
+        let cancelled = false;
+        Promise.all([db.teamMessages.getBySession(sessionId), db.teamMessages.getReadsBySession(sessionId)])
+            .then(([history, receipts]) => {
+                if (cancelled) return;
+                setMessages(history);
+                setReads(receipts);
+            })
+            .catch(error => console.error('[useTeamMessaging] Failed to load message history:', error));
+
+        const unsubscribe = SimpleRealtimeManager.getInstance(sessionId, 'host').onMessageRead(read => {
+            setReads(prev => [...prev.filter(r => !(r.message_id === read.message_id && r.team_id === read.team_id)), read]);
+        });
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [sessionId]);
+
+    const sendMessage = useCallback(async (body: string, teamId: string | null) => {
+        const text = body.trim();
+        if (!sessionId || !text) return;
+
+        const message = await db.teamMessages.create({session_id: sessionId, team_id: teamId, body: text});
+        setMessages(prev => [...prev, message]);
+        SimpleRealtimeManager.getInstance(sessionId, 'host').sendTeamMessage(message);
+    }, [sessionId]);
+
+    const isReadBy = useCallback((messageId: string, teamId: string) =>
+        reads.some(read => read.message_id === messageId && read.team_id === teamId), [reads]);
+
+    const latestMessageForTeam = useCallback((teamId: string) => {
+        for (let i = messages.length - 1; i >= 0; i--) {
+            if (messages[i].team_id === null || messages[i].team_id === teamId) return messages[i];
+        }
+        return null;
+    }, [messages]);
+
+    return {messages, reads, sendMessage, isReadBy, latestMessageForTeam};
+};
@@ -1,10 +1,24 @@
 // src/utils/supabase/auth.ts - Authentication utilities (for future use)
 import { supabase } from './client';
 import { User } from '@supabase/supabase-js';
+import { isLocalStorageBackend } from './storage';
 export type { User };
 
+// Offline sessions have no auth server; every host on this device is the same local facilitator
+const LOCAL_HOST_USER = {
+    id: '00000000-0000-4000-8000-000000000001',
+    email: 'host@local',
+    aud: 'authenticated',
+    app_metadata: {},
+    user_metadata: {},
+    created_at: new Date(0).toISOString()
+} as User;
+
+const localSession = { user: LOCAL_HOST_USER };
+
 export const auth = {
     async signIn(email: string, password: string) {
+        if (isLocalStorageBackend()) return { user: LOCAL_HOST_USER, session: localSession };
         const { data, error } = await supabase.auth.signInWithPassword({
             email,
             password
@@ -14,6 +28,7 @@ export const auth = {
     },
 
     async signUp(email: string, password: string) {
+        if (isLocalStorageBackend()) return { user: LOCAL_HOST_USER, session: localSession };
         const { data, error } = await supabase.auth.signUp({
             email,
             password
@@ -23,17 +38,22 @@ export const auth = {
     },
 
     async signOut() {
+        if (isLocalStorageBackend()) return;
         const { error } = await supabase.auth.signOut();
         if (error) throw error;
     },
 
     async getSession() {
+        if (isLocalStorageBackend()) return localSession;
         const { data, error } = await supabase.auth.getSession();
         if (error) throw error;
         return data.session;
     },
 
     onAuthStateChange(callback: (event: string, session: any) => void) {
+        if (isLocalStorageBackend()) {
+            return { data: { subscription: { unsubscribe: () => {} } } };
+        }
         return supabase.auth.onAuthStateChange(callback);
     }
 };
@@ -1,8 +1,12 @@
 // src/utils/supabase/client.ts - Core Supabase client setup
 import { createClient } from '@supabase/supabase-js';
+import { resolveStorageBackend } from './storage/config';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const isLocalBackend = resolveStorageBackend() === 'local';
+
+// Offline sessions don't talk to Supabase for data, but realtime/auth imports still need a client
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || (isLocalBackend ? 'http://localhost:54321' : undefined);
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || (isLocalBackend ? 'local-anon-key' : undefined);
 
 if (!supabaseUrl || !supabaseAnonKey) {
     throw new Error('Missing Supabase environment variables');
@@ -11,7 +15,8 @@ if (!supabaseUrl || !supabaseAnonKey) {
 console.log('[Supabase] Initializing client with:', {
     url: supabaseUrl,
     hasAnonKey: !!supabaseAnonKey,
-    environment: import.meta.env.MODE
+    environment: import.meta.env.MODE,
+    storageBackend: isLocalBackend ? 'local' : 'supabase'
 });
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
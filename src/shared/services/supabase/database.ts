@@ -48,6 +48,12 @@ export const formatSupabaseError = (error: any): string => {
                 return 'Cannot delete - this record is referenced by other data';
             case '42501':
                 return 'Permission denied - you may not have access to this resource';
+            case '28000':
+                return 'Your team login has expired or was ended by your facilitator - log out and log back in';
+            case '53400':
+                return 'Your team already has the maximum number of devices logged in - ask your facilitator for a rejoin code';
+            case '55000':
+                return "Time's up - this decision closed before your submission arrived. Ask your facilitator if you need more time";
             case 'PGRST301':
                 return 'Request timeout - please try again';
             case 'PGRST204':
@@ -6,6 +6,17 @@ export {supabase} from './client';
 
 export {db} from './services';
 
+// Pluggable storage backend (Supabase or offline local)
+export {
+    getStorage,
+    getStorageBackend,
+    isLocalStorageBackend,
+    setStorageAdapter,
+    initializeStorage,
+    type StorageAdapter,
+    type StorageBackend
+} from './storage';
+
 // Enhanced database operations with circuit breaker (RPC REMOVED)
 export {
     formatSupabaseError,
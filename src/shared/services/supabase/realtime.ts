@@ -2,6 +2,7 @@
 // CRITICAL FIX: Enhanced realtime subscriptions with stability improvements
 
 import {supabase} from './client';
+import {getStorage, StorageChangePayload, TableName} from './storage';
 import {useEffect, useRef} from 'react';
 
 export interface RealtimeSubscriptionConfig {
@@ -17,6 +18,16 @@ export const createChannel = (channelName: string) => {
     return supabase.channel(channelName);
 };
 
+// Evaluates a postgres_changes filter such as `session_id=eq.abc` against a local change payload
+const matchesFilter = (payload: StorageChangePayload, filter?: string): boolean => {
+    if (!filter) return true;
+    const match = filter.match(/^(\w+)=eq\.(.+)$/);
+    if (!match) return true;
+    const [, column, value] = match;
+    const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+    return String(row?.[column]) === value;
+};
+
 // CRITICAL FIX: Enhanced hook for managing realtime subscriptions
 export const useRealtimeSubscription = (
     channelName: string,
@@ -24,6 +35,7 @@ export const useRealtimeSubscription = (
     enabled: boolean = true
 ) => {
     const channelRef = useRef<any>(null);
+    const localUnsubscribeRef = useRef<(() => void) | null>(null);
     const configRef = useRef<RealtimeSubscriptionConfig>(config);
     const retryCountRef = useRef(0);
     const maxRetries = 3;
@@ -43,6 +55,26 @@ export const useRealtimeSubscription = (
             return;
         }
 
+        // Offline backend: listen to the adapter's change feed instead of a Supabase channel
+        const storage = getStorage();
+        if (storage.subscribe) {
+            localUnsubscribeRef.current = storage.subscribe(configRef.current.table as TableName, (payload) => {
+                const currentConfig = configRef.current;
+                if (currentConfig.event && currentConfig.event !== '*' && currentConfig.event !== payload.eventType) return;
+                if (!matchesFilter(payload, currentConfig.filter)) return;
+                try {
+                    currentConfig.onchange(payload);
+                } catch (error) {
+                    console.error(`[Local Realtime] Error in subscription callback for ${channelName}:`, error);
+                }
+            });
+
+            return () => {
+                localUnsubscribeRef.current?.();
+                localUnsubscribeRef.current = null;
+            };
+        }
+
         // CRITICAL FIX: Enhanced subscription setup with error handling
         const setupSubscription = () => {
             if (typeof document !== 'undefined' && document.hidden) return;
@@ -1,12 +1,12 @@
 // src/shared/services/supabase/services/adjustmentService.ts
-import {supabase} from '../client';
+import {getStorage} from '../storage';
 import {withRetry} from '../database';
 import {PermanentKpiAdjustment} from "@shared/types";
 
 export const adjustmentService = {
     async getBySession(sessionId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('permanent_kpi_adjustments')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -21,7 +21,7 @@ export const adjustmentService = {
 
     async create(adjustmentData: any) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('permanent_kpi_adjustments')
                 .insert(adjustmentData)
                 .select();
@@ -37,7 +37,7 @@ export const adjustmentService = {
         return withRetry(async () => {
             if (adjustments.length === 0) return [];
 
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('permanent_kpi_adjustments')
                 .upsert(adjustments, {
                     // PRODUCTION: Use the new unique constraint
@@ -59,9 +59,26 @@ export const adjustmentService = {
         }, 2, 1000, `Upsert KPI adjustments`);
     },
 
+    // Removes the adjustments one challenge option created (used to undo host corrections)
+    async deleteForOption(sessionId: string, teamId: string, challengeId: string, optionId: string) {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('permanent_kpi_adjustments')
+                .delete()
+                .eq('session_id', sessionId)
+                .eq('team_id', teamId)
+                .eq('challenge_id', challengeId)
+                .eq('option_id', optionId);
+            if (error) {
+                console.error(`[adjustmentService.deleteForOption(teamId:${teamId}, challengeId:${challengeId}, optionId:${optionId})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Delete ${challengeId} adjustments for team ${teamId.substring(0, 8)}`);
+    },
+
     async deleteBySession(sessionId: string) {
         return withRetry(async () => {
-            const {error} = await supabase
+            const {error} = await getStorage()
                 .from('permanent_kpi_adjustments')
                 .delete()
                 .eq('session_id', sessionId);
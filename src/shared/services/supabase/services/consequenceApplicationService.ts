@@ -2,27 +2,11 @@
 // src/shared/services/supabase/services/consequenceApplicationService.ts
 // Service for managing consequence applications to prevent duplicate KPI updates
 
-import {supabase} from '../client';
+import {getStorage} from '../storage';
 import {withRetry} from '../database';
+import {ConsequenceApplication, ConsequenceApplicationInsert} from '@shared/types';
 
-export interface ConsequenceApplication {
-    id: string;
-    session_id: string;
-    team_id: string;
-    challenge_id: string;
-    option_id: string;
-    slide_id: number;
-    applied_at: string;
-    created_at: string;
-}
-
-export interface ConsequenceApplicationInsert {
-    session_id: string;
-    team_id: string;
-    challenge_id: string;
-    option_id: string;
-    slide_id: number;
-}
+export type {ConsequenceApplication, ConsequenceApplicationInsert};
 
 export const consequenceApplicationService = {
 
@@ -31,7 +15,7 @@ export const consequenceApplicationService = {
      */
     async getBySession(sessionId: string): Promise<ConsequenceApplication[]> {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('consequence_applications')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -50,7 +34,7 @@ export const consequenceApplicationService = {
      */
     async deleteBySession(sessionId: string): Promise<void> {
         return withRetry(async () => {
-            const {error} = await supabase
+            const {error} = await getStorage()
                 .from('consequence_applications')
                 .delete()
                 .eq('session_id', sessionId);
@@ -0,0 +1,90 @@
+// src/shared/services/supabase/services/contentPackService.ts - Host-authored content packs
+import {ContentPack, ContentPackInsert} from '@shared/types';
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+
+export const contentPackService = {
+    async getByHost(hostId: string): Promise<ContentPack[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('content_packs')
+                .select('*')
+                .eq('host_id', hostId)
+                .order('updated_at', {ascending: false});
+            if (error) {
+                console.error(`[contentPackService.getByHost(hostId:${hostId.substring(0, 8)})] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch content packs for host ${hostId.substring(0, 8)}`);
+    },
+
+    async getById(packId: string): Promise<ContentPack | null> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('content_packs')
+                .select('*')
+                .eq('id', packId)
+                .single();
+            if (error) {
+                if (error.code === 'PGRST116') {
+                    return null;
+                }
+                console.error(`[contentPackService.getById(packId:${packId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data;
+        }, 3, 1000, `Fetch content pack ${packId.substring(0, 8)}`);
+    },
+
+    async create(pack: ContentPackInsert): Promise<ContentPack> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('content_packs')
+                .insert({
+                    ...pack,
+                    created_at: new Date().toISOString(),
+                    updated_at: new Date().toISOString()
+                })
+                .select()
+                .single();
+            if (error) {
+                console.error(`[contentPackService.create(name:${pack.name})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as ContentPack;
+        }, 2, 1000, 'Create content pack');
+    },
+
+    async update(packId: string, updates: Partial<Pick<ContentPack, 'name' | 'content'>>): Promise<ContentPack> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('content_packs')
+                .update({
+                    ...updates,
+                    updated_at: new Date().toISOString()
+                })
+                .eq('id', packId)
+                .select()
+                .single();
+            if (error) {
+                console.error(`[contentPackService.update(packId:${packId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as ContentPack;
+        }, 2, 1000, `Update content pack ${packId.substring(0, 8)}`);
+    },
+
+    async delete(packId: string): Promise<void> {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('content_packs')
+                .delete()
+                .eq('id', packId);
+            if (error) {
+                console.error(`[contentPackService.delete(packId:${packId})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Delete content pack ${packId.substring(0, 8)}`);
+    }
+};
@@ -1,14 +1,14 @@
 // src/shared/services/supabase/services/decisionService.ts
 // Enhanced version with missing methods for immediate purchases
 
-import {supabase} from '../client';
+import {getStorage} from '../storage';
 import {withRetry} from '../database';
 import {TeamDecision} from '@shared/types';
 
 export const decisionService = {
     async getBySession(sessionId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -21,10 +21,26 @@ export const decisionService = {
         }, 3, 1000, `Fetch decisions for session ${sessionId.substring(0, 8)}`);
     },
 
+    async getBySessions(sessionIds: string[]) {
+        if (sessionIds.length === 0) return [];
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_decisions')
+                .select('*')
+                .in('session_id', sessionIds)
+                .order('submitted_at', {ascending: false});
+            if (error) {
+                console.error(`[decisionService.getBySessions(${sessionIds.length} sessions)] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch decisions for ${sessionIds.length} sessions`);
+    },
+
     // ENHANCED: Now protects immediate purchases from being deleted
     async delete(sessionId: string, teamId: string, phaseId: string) {
         return withRetry(async () => {
-            const {error} = await supabase
+            const {error} = await getStorage()
                 .from('team_decisions')
                 .delete()
                 .eq('session_id', sessionId)
@@ -41,7 +57,7 @@ export const decisionService = {
 
     async deleteBySession(sessionId: string) {
         return withRetry(async () => {
-            const {error} = await supabase
+            const {error} = await getStorage()
                 .from('team_decisions')
                 .delete()
                 .eq('session_id', sessionId);
@@ -55,7 +71,7 @@ export const decisionService = {
     // EXISTING: Get regular decisions (non-immediate purchases)
     async getForPhase(sessionId: string, teamId: string, phaseId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -76,7 +92,7 @@ export const decisionService = {
     async getImmediatePurchases(sessionId: string, teamId: string, phaseId: string) {
         return withRetry(async () => {
             const immediatePhaseId = `${phaseId}_immediate`;
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -95,7 +111,7 @@ export const decisionService = {
     // NEW: Get all immediate purchases for a session (for host monitoring)
     async getAllImmediatePurchases(sessionId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .select('id, team_id, total_spent_budget, submitted_at, report_given, selected_investment_options')
                 .eq('session_id', sessionId)
@@ -114,7 +130,7 @@ export const decisionService = {
     // ENHANCED: Create with longer timeout for submissions
     async create(decisionData: Omit<TeamDecision, 'id' | 'created_at'>) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .insert({
                     ...decisionData,
@@ -133,9 +149,24 @@ export const decisionService = {
         }, 2, 1000, `Create decision for team ${decisionData.team_id?.substring(0, 8)}`, 15000); // Longer timeout for submissions
     },
 
+    // A team's own write: session and team come from the access token issued at login, not from decisionData
+    async submitForTeam(token: string, decisionData: Omit<Partial<TeamDecision>, 'id' | 'session_id' | 'team_id'> & Pick<TeamDecision, 'phase_id' | 'round_number'>) {
+        return withRetry(async () => {
+            const {data, error} = await getStorage().submitTeamDecision(token, {
+                ...decisionData,
+                submitted_at: decisionData.submitted_at || new Date().toISOString()
+            });
+            if (error) {
+                console.error(`[decisionService.submitForTeam(phase_id:${decisionData.phase_id})] failed with error: ${error.message}`)
+                throw error;
+            }
+            return data as TeamDecision;
+        }, 2, 1000, `Submit team decision for phase ${decisionData.phase_id}`, 15000);
+    },
+
     async upsert(decisionData: any) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .upsert(decisionData, {onConflict: 'id'})
                 .select()
@@ -1,11 +1,12 @@
 // src/shared/services/supabase/services/doubleDownService.ts
-import {supabase} from '../client';
+import {getStorage} from '../storage';
 import {withRetry} from '../database';
+import {DoubleDownResult, DoubleDownRollClaim, DoubleDownTeamChoice} from '@shared/types';
 
 export const doubleDownService = {
     async getResultsForSession(sessionId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('double_down_results')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -19,9 +20,26 @@ export const doubleDownService = {
         }, 3, 1000, `Fetch double down results for session ${sessionId.substring(0, 8)}`);
     },
 
+    async getResultsForSessions(sessionIds: string[]) {
+        if (sessionIds.length === 0) return [];
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('double_down_results')
+                .select('*')
+                .in('session_id', sessionIds)
+                .order('created_at', {ascending: true});
+
+            if (error) {
+                console.error(`[doubleDownService.getResultsForSessions(${sessionIds.length} sessions)] failed with error: ${error}`);
+                throw error;
+            }
+            return (data || []) as DoubleDownResult[];
+        }, 3, 1000, `Fetch double down results for ${sessionIds.length} sessions`);
+    },
+
     async getResultForInvestment(sessionId: string, investmentId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('double_down_results')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -39,42 +57,38 @@ export const doubleDownService = {
         }, 3, 1000, `Get double down result for investment ${investmentId}`);
     },
 
-    async saveResult(sessionId: string, investmentId: string, resultData: {
-        dice1_value: number;
-        dice2_value: number;
-        total_value: number;
-        boost_percentage: number;
-        affected_teams: string[];
-    }) {
+    // Rolled on the backend, which picks the seed and the time. The first roll for an investment wins: a second
+    // display or a double click gets the stored roll back (created: false) instead of overwriting it.
+    async rollDice(sessionId: string, investmentId: string, dice: [number, number] | null): Promise<DoubleDownRollClaim> {
         return withRetry(async () => {
-            // Use upsert to handle duplicates gracefully
-            const {data, error} = await supabase
-                .from('double_down_results')
-                .upsert({
-                    session_id: sessionId,
-                    investment_id: investmentId,
-                    ...resultData,
-                    created_at: new Date().toISOString()
-                }, {
-                    onConflict: 'session_id,investment_id', // Handle duplicates on this combination
-                    ignoreDuplicates: false // We want to update if exists
-                })
-                .select()
-                .single();
+            const {data, error} = await getStorage().rollDoubleDownDice(sessionId, investmentId, dice);
 
-            if (error) {
-                console.error(`[doubleDownService.saveResult(sessionId:${sessionId}, investmentId:${investmentId})] failed with error: ${error}`);
-                throw error;
+            if (error || !data) {
+                console.error(`[doubleDownService.rollDice(sessionId:${sessionId}, investmentId:${investmentId})] failed with error: ${error}`);
+                throw error ?? new Error('The dice roll was not saved');
+            }
+            return data;
+        }, 2, 1000, `Roll double down dice for investment ${investmentId}`);
+    },
+
+    // Host only, with a reason; the backend keeps the replaced roll in the re-roll log
+    async rerollDice(sessionId: string, investmentId: string, dice: [number, number] | null, reason: string): Promise<DoubleDownResult> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage().rerollDoubleDownDice(sessionId, investmentId, dice, reason);
+
+            if (error || !data) {
+                console.error(`[doubleDownService.rerollDice(sessionId:${sessionId}, investmentId:${investmentId})] failed with error: ${error}`);
+                throw error ?? new Error('The dice re-roll was not saved');
             }
             return data;
-        }, 2, 1000, `Save double down result for investment ${investmentId}`);
+        }, 2, 1000, `Re-roll double down dice for investment ${investmentId}`);
     },
 
     async getTeamsForInvestment(sessionId: string, investmentId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
-                .select(`
+                .select<DoubleDownTeamChoice>(`
                     team_id,
                     double_down_on_id,
                     teams!inner(name)
@@ -93,9 +107,9 @@ export const doubleDownService = {
 
     async getAllDoubleDownDecisions(sessionId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
-                .select(`
+                .select<DoubleDownTeamChoice>(`
                     team_id,
                     double_down_on_id,
                     teams!inner(name)
@@ -111,15 +125,16 @@ export const doubleDownService = {
         }, 3, 1000, `Get all double down decisions for session ${sessionId.substring(0, 8)}`);
     },
 
-    async hasEffectsBeenApplied(sessionId: string, teamId: string, investmentId: string) {
+    // applicationPhase separates the boost ('double-down') from the sacrifice ('double-down-sacrifice')
+    async hasEffectsBeenApplied(sessionId: string, teamId: string, investmentId: string, applicationPhase: string = 'double-down') {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('payoff_applications')
                 .select('id')
                 .eq('session_id', sessionId)
                 .eq('team_id', teamId)
                 .eq('option_id', investmentId)
-                .eq('investment_phase_id', 'double-down')
+                .eq('investment_phase_id', applicationPhase)
                 .limit(1);
 
             if (error) {
@@ -130,23 +145,23 @@ export const doubleDownService = {
         }, 2, 1000, `Check if double down effects applied for team ${teamId.substring(0, 8)}`);
     },
 
-    async recordEffectsApplied(sessionId: string, teamId: string, investmentId: string, slideId: number) {
+    async recordEffectsApplied(sessionId: string, teamId: string, investmentId: string, slideId: number, applicationPhase: string = 'double-down') {
         return withRetry(async () => {
             // Check if already exists first to avoid duplicate errors
-            const existing = await this.hasEffectsBeenApplied(sessionId, teamId, investmentId);
+            const existing = await this.hasEffectsBeenApplied(sessionId, teamId, investmentId, applicationPhase);
 
             if (existing) {
                 console.log(`[doubleDownService.recordEffectsApplied] Effects already recorded for team ${teamId.substring(0, 8)}, investment ${investmentId}`);
                 return null; // Already exists, return success
             }
 
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('payoff_applications')
                 .insert({
                     session_id: sessionId,
                     team_id: teamId,
                     option_id: investmentId,
-                    investment_phase_id: 'double-down',
+                    investment_phase_id: applicationPhase,
                     slide_id: slideId,
                     applied_at: new Date().toISOString()
                 })
@@ -1,12 +1,18 @@
 // src/utils/supabase/services/healthService.ts - Health check and utilities
-import { supabase } from '../client';
+import {getStorage} from '../storage';
 import { withRetry, formatSupabaseError } from '../database';
 
+export interface ServerTimeSample {
+    serverTime: number;
+    offsetMs: number;
+    roundTripMs: number;
+}
+
 export const healthService = {
     async healthCheck(): Promise<{ isHealthy: boolean; latency: number; error?: string }> {
         const startTime = Date.now();
         try {
-            const { data, error } = await supabase
+            const { data, error } = await getStorage()
                 .from('sessions')
                 .select('id')
                 .limit(1);
@@ -24,16 +30,18 @@ export const healthService = {
         }
     },
 
-    async getServerTime() {
+    // offsetMs is what to add to Date.now() to get server time, assuming a symmetric round trip
+    async getServerTime(): Promise<ServerTimeSample> {
         return withRetry(async () => {
-            // Use PostgreSQL's built-in now() function instead of RPC
-            const { data, error } = await supabase
-                .from('sessions')
-                .select('created_at')
-                .limit(1)
-                .single();
-            if (error && error.code !== 'PGRST116') throw error;
-            return new Date().toISOString(); // Fallback to client time
+            const requestedAt = Date.now();
+            const serverTime = await getStorage().getServerTime();
+            const receivedAt = Date.now();
+            const roundTripMs = receivedAt - requestedAt;
+            return {
+                serverTime,
+                roundTripMs,
+                offsetMs: serverTime - (requestedAt + roundTripMs / 2),
+            };
         }, 1, 500, 'Get server time');
     }
 };
@@ -0,0 +1,64 @@
+// src/shared/services/supabase/services/helpRequestService.ts
+// Team help requests and their claim/resolve history, kept per session for review after the game
+
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+import {HelpRequest, HelpRequestInsert, HelpRequestStatus} from '@shared/types';
+
+export const helpRequestService = {
+    async create(request: HelpRequestInsert): Promise<HelpRequest> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('help_requests')
+                .insert({...request, status: 'open'})
+                .select()
+                .single();
+
+            if (error) {
+                console.error(`[helpRequestService.create(teamId:${request.team_id})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as HelpRequest;
+        }, 2, 1000, `Create help request for team ${request.team_id.substring(0, 8)}`);
+    },
+
+    /**
+     * Get all help requests for a session, oldest first
+     */
+    async getBySession(sessionId: string): Promise<HelpRequest[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('help_requests')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('created_at', {ascending: true});
+
+            if (error) {
+                console.error(`[helpRequestService.getBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch help requests for session ${sessionId.substring(0, 8)}`);
+    },
+
+    /**
+     * Move a request to claimed or resolved, stamping when it happened
+     */
+    async updateStatus(requestId: string, status: Exclude<HelpRequestStatus, 'open'>): Promise<HelpRequest> {
+        return withRetry(async () => {
+            const now = new Date().toISOString();
+            const {data, error} = await getStorage()
+                .from('help_requests')
+                .update(status === 'claimed' ? {status, claimed_at: now} : {status, resolved_at: now})
+                .eq('id', requestId)
+                .select()
+                .single();
+
+            if (error) {
+                console.error(`[helpRequestService.updateStatus(requestId:${requestId}, status:${status})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as HelpRequest;
+        }, 2, 1000, `Mark help request ${requestId.substring(0, 8)} ${status}`);
+    },
+};
@@ -7,6 +7,15 @@ import { adjustmentService } from './adjustmentService';
 import { consequenceApplicationService } from './consequenceApplicationService';
 import { payoffApplicationService } from './payoffApplicationService';
 import { doubleDownService } from './doubleDownService';
+import { contentPackService } from './contentPackService';
+import { kpiLedgerService } from './kpiLedgerService';
+import { kpiOverrideService } from './kpiOverrideService';
+import { teamMessageService } from './teamMessageService';
+import { helpRequestService } from './helpRequestService';
+import { teamDraftService } from './teamDraftService';
+import { teamDeviceService } from './teamDeviceService';
+import { teamJoinTokenService } from './teamJoinTokenService';
+import { healthService } from './healthService';
 
 export const db = {
     sessions: sessionService,
@@ -17,4 +26,13 @@ export const db = {
     consequenceApplications: consequenceApplicationService,
     payoffApplications: payoffApplicationService,
     doubleDown: doubleDownService,
+    contentPacks: contentPackService,
+    kpiLedger: kpiLedgerService,
+    kpiOverrides: kpiOverrideService,
+    teamMessages: teamMessageService,
+    helpRequests: helpRequestService,
+    teamDrafts: teamDraftService,
+    teamDevices: teamDeviceService,
+    teamJoinTokens: teamJoinTokenService,
+    health: healthService,
 };
\ No newline at end of file
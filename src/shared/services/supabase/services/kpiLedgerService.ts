@@ -0,0 +1,81 @@
+// src/shared/services/supabase/services/kpiLedgerService.ts
+// Append-only KPI ledger: one row per change to a team's capacity, orders, cost or ASP
+
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+import {KpiLedgerEntry, KpiLedgerEntryInsert} from '@shared/types';
+
+export const kpiLedgerService = {
+    /**
+     * Append entries (never updated afterwards)
+     */
+    async append(entries: KpiLedgerEntryInsert[]): Promise<void> {
+        if (entries.length === 0) return;
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('kpi_ledger')
+                .insert(entries);
+
+            if (error) {
+                console.error(`[kpiLedgerService.append(entries:${entries.length})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Append ${entries.length} KPI ledger entries for team ${entries[0].team_id.substring(0, 8)}`);
+    },
+
+    /**
+     * Get a team's ledger, oldest first
+     */
+    async getForTeam(sessionId: string, teamId: string): Promise<KpiLedgerEntry[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('kpi_ledger')
+                .select('*')
+                .eq('session_id', sessionId)
+                .eq('team_id', teamId)
+                .order('created_at', {ascending: true});
+
+            if (error) {
+                console.error(`[kpiLedgerService.getForTeam(sessionId:${sessionId}, teamId:${teamId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch KPI ledger for team ${teamId.substring(0, 8)}`);
+    },
+
+    /**
+     * Get the whole session's ledger, oldest first
+     */
+    async getBySession(sessionId: string): Promise<KpiLedgerEntry[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('kpi_ledger')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('created_at', {ascending: true});
+
+            if (error) {
+                console.error(`[kpiLedgerService.getBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch KPI ledger for session ${sessionId.substring(0, 8)}`);
+    },
+
+    /**
+     * Delete the session's ledger (for game reset)
+     */
+    async deleteBySession(sessionId: string): Promise<void> {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('kpi_ledger')
+                .delete()
+                .eq('session_id', sessionId);
+
+            if (error) {
+                console.error(`[kpiLedgerService.deleteBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Delete KPI ledger for session ${sessionId.substring(0, 8)}`);
+    },
+};
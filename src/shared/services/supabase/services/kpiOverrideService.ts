@@ -0,0 +1,77 @@
+// src/shared/services/supabase/services/kpiOverrideService.ts
+// Host KPI corrections, kept so each one can be listed and undone
+
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+import {KpiOverride, KpiOverrideInsert} from '@shared/types';
+
+export const kpiOverrideService = {
+    async create(override: KpiOverrideInsert): Promise<KpiOverride> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('kpi_overrides')
+                .insert(override)
+                .select()
+                .single();
+
+            if (error) {
+                console.error(`[kpiOverrideService.create(teamId:${override.team_id}, kpi:${override.kpi})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as KpiOverride;
+        }, 2, 1000, `Create KPI override for team ${override.team_id.substring(0, 8)}`);
+    },
+
+    /**
+     * Get all overrides for a session, newest first
+     */
+    async getBySession(sessionId: string): Promise<KpiOverride[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('kpi_overrides')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('created_at', {ascending: false});
+
+            if (error) {
+                console.error(`[kpiOverrideService.getBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch KPI overrides for session ${sessionId.substring(0, 8)}`);
+    },
+
+    async markUndone(overrideId: string): Promise<KpiOverride> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('kpi_overrides')
+                .update({undone_at: new Date().toISOString()})
+                .eq('id', overrideId)
+                .select()
+                .single();
+
+            if (error) {
+                console.error(`[kpiOverrideService.markUndone(overrideId:${overrideId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as KpiOverride;
+        }, 2, 1000, `Undo KPI override ${overrideId.substring(0, 8)}`);
+    },
+
+    /**
+     * Delete all overrides for a session (for game reset)
+     */
+    async deleteBySession(sessionId: string): Promise<void> {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('kpi_overrides')
+                .delete()
+                .eq('session_id', sessionId);
+
+            if (error) {
+                console.error(`[kpiOverrideService.deleteBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Delete KPI overrides for session ${sessionId.substring(0, 8)}`);
+    },
+};
@@ -1,12 +1,12 @@
 // 1. FIXED: src/shared/services/supabase/services/kpiService.ts
-import {supabase} from '../client';
+import {getStorage} from '../storage';
 import {withRetry} from '../database';
 import * as console from "node:console";
 
 export const kpiService = {
     async getBySession(sessionId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_round_data')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -19,10 +19,26 @@ export const kpiService = {
         }, 3, 1000, `Fetch KPIs for session ${sessionId.substring(0, 8)}`);
     },
 
+    async getBySessions(sessionIds: string[]) {
+        if (sessionIds.length === 0) return [];
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_round_data')
+                .select('*')
+                .in('session_id', sessionIds)
+                .order('round_number', {ascending: true});
+            if (error) {
+                console.error(`[kpiService.getBySessions(${sessionIds.length} sessions)] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch KPIs for ${sessionIds.length} sessions`);
+    },
+
     // ✅ FIXED: Removed RPC call, replaced with direct query
     async getForTeamRound(sessionId: string, teamId: string, roundNumber: number) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_round_data')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -42,7 +58,7 @@ export const kpiService = {
 
     async create(kpiData: any) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_round_data')
                 .insert(kpiData)
                 .select()
@@ -57,7 +73,7 @@ export const kpiService = {
 
     async update(kpiId: string, updates: any) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_round_data')
                 .update(updates)
                 .eq('id', kpiId)
@@ -73,7 +89,7 @@ export const kpiService = {
 
     async upsert(kpiData: any) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_round_data')
                 .upsert(kpiData, {onConflict: 'id'})
                 .select()
@@ -88,7 +104,7 @@ export const kpiService = {
 
     async deleteBySession(sessionId: string) {
         return withRetry(async () => {
-            const {error} = await supabase
+            const {error} = await getStorage()
                 .from('team_round_data')
                 .delete()
                 .eq('session_id', sessionId);
@@ -1,26 +1,11 @@
 // src/shared/services/supabase/services/payoffApplicationService.ts
 // Service for managing payoff applications to prevent duplicate KPI updates
 
-import {supabase} from '../client';
+import {getStorage} from '../storage';
 import {withRetry} from '../database';
+import {PayoffApplication, PayoffApplicationInsert} from '@shared/types';
 
-export interface PayoffApplication {
-    id: string;
-    session_id: string;
-    team_id: string;
-    investment_id: string;
-    slide_id: number;  // Changed to number to match schema
-    applied_at: string;
-    created_at: string;
-}
-
-export interface PayoffApplicationInsert {
-    session_id: string;
-    team_id: string;
-    investment_phase_id: string;
-    option_id: string;
-    slide_id: number;
-}
+export type {PayoffApplication, PayoffApplicationInsert};
 
 export const payoffApplicationService = {
      /**
@@ -28,7 +13,7 @@ export const payoffApplicationService = {
      */
     async getBySession(sessionId: string): Promise<PayoffApplication[]> {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('payoff_applications')
                 .select('*')
                 .eq('session_id', sessionId)
@@ -42,12 +27,54 @@ export const payoffApplicationService = {
         }, 3, 1000, `Fetch payoff applications for session ${sessionId.substring(0, 8)}`);
     },
 
+    /**
+     * Whether a team's payoff for one investment of a phase has been applied
+     */
+    async hasBeenApplied(sessionId: string, teamId: string, investmentPhaseId: string, optionId: string): Promise<boolean> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('payoff_applications')
+                .select('id')
+                .eq('session_id', sessionId)
+                .eq('team_id', teamId)
+                .eq('investment_phase_id', investmentPhaseId)
+                .eq('option_id', optionId)
+                .limit(1);
+
+            if (error) {
+                console.error(`[payoffApplicationService.hasBeenApplied(sessionId:${sessionId}, teamId:${teamId}, optionId:${optionId})] failed with error: ${error}`)
+                throw error;
+            }
+            return (data?.length || 0) > 0;
+        }, 2, 1000, `Check payoff application for team ${teamId.substring(0, 8)}`);
+    },
+
+    /**
+     * Record that a team's payoff was applied. Recording the same payoff again is a no-op.
+     */
+    async recordApplication(application: PayoffApplicationInsert): Promise<void> {
+        return withRetry(async () => {
+            const {session_id, team_id, investment_phase_id, option_id} = application;
+            if (await this.hasBeenApplied(session_id, team_id, investment_phase_id, option_id)) return;
+
+            const {error} = await getStorage()
+                .from('payoff_applications')
+                .insert({...application, applied_at: new Date().toISOString()});
+
+            // A unique violation means another host tab recorded it first
+            if (error && error.code !== '23505') {
+                console.error(`[payoffApplicationService.recordApplication(sessionId:${session_id}, teamId:${team_id}, optionId:${option_id})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Record payoff application for team ${application.team_id.substring(0, 8)}`);
+    },
+
     /**
      * Delete all payoff applications for a session (for game reset)
      */
     async deleteBySession(sessionId: string): Promise<void> {
         return withRetry(async () => {
-            const {error} = await supabase
+            const {error} = await getStorage()
                 .from('payoff_applications')
                 .delete()
                 .eq('session_id', sessionId);
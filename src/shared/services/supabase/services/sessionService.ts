@@ -1,11 +1,11 @@
 // src/shared/services/supabase/services/sessionService.ts - Session management
-import {supabase} from '../client';
+import {getStorage} from '../storage';
 import {withRetry} from '../database';
 
 export const sessionService = {
     async getById(sessionId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('sessions')
                 .select('*')
                 .eq('id', sessionId)
@@ -20,7 +20,7 @@ export const sessionService = {
 
     async update(sessionId: string, updates: any) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('sessions')
                 .update({
                     ...updates,
@@ -39,7 +39,7 @@ export const sessionService = {
 
     async create(sessionData: any) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('sessions')
                 .insert({
                     ...sessionData,
@@ -59,7 +59,7 @@ export const sessionService = {
     // Updated method name and column reference
     async getByHost(hostId: string) {
         return withRetry(async () => {
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('sessions')
                 .select('*')
                 .eq('host_id', hostId) // Changed from teacher_id
@@ -80,14 +80,14 @@ export const sessionService = {
     async delete(sessionId: string) {
         return withRetry(async () => {
             // Delete in correct order to respect foreign key constraints
-            await supabase.from('payoff_applications').delete().eq('session_id', sessionId);
-            await supabase.from('consequence_applications').delete().eq('session_id', sessionId);
-            await supabase.from('permanent_kpi_adjustments').delete().eq('session_id', sessionId);
-            await supabase.from('team_round_data').delete().eq('session_id', sessionId);
-            await supabase.from('team_decisions').delete().eq('session_id', sessionId);
-            await supabase.from('teams').delete().eq('session_id', sessionId);
+            await getStorage().from('payoff_applications').delete().eq('session_id', sessionId);
+            await getStorage().from('consequence_applications').delete().eq('session_id', sessionId);
+            await getStorage().from('permanent_kpi_adjustments').delete().eq('session_id', sessionId);
+            await getStorage().from('team_round_data').delete().eq('session_id', sessionId);
+            await getStorage().from('team_decisions').delete().eq('session_id', sessionId);
+            await getStorage().from('teams').delete().eq('session_id', sessionId);
 
-            const {error} = await supabase
+            const {error} = await getStorage()
                 .from('sessions')
                 .delete()
                 .eq('id', sessionId);
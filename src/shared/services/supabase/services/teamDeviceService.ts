@@ -0,0 +1,73 @@
+// src/shared/services/supabase/services/teamDeviceService.ts
+// The host's view of logged-in team devices: listing them, revoking one and issuing one-time rejoin codes
+
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+import {createRejoinCode, hashRejoinCode, TEAM_REJOIN_CODE_TTL_MS} from '../storage/teamCredentials';
+import {TeamDeviceSession, TeamRejoinCode} from '@shared/types';
+
+// Everything but token_hash
+const DEVICE_SESSION_COLUMNS = 'id, session_id, team_id, device_id, device_name, created_at, last_seen_at, expires_at, revoked_at';
+
+export const teamDeviceService = {
+    /**
+     * Devices currently logged in to the session (not revoked, not expired), oldest login first
+     */
+    async getActiveBySession(sessionId: string): Promise<TeamDeviceSession[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_access_tokens')
+                .select(DEVICE_SESSION_COLUMNS)
+                .eq('session_id', sessionId)
+                .is('revoked_at', null)
+                .order('created_at', {ascending: true});
+
+            if (error) {
+                console.error(`[teamDeviceService.getActiveBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+            const now = Date.now();
+            return ((data || []) as TeamDeviceSession[]).filter(device => Date.parse(device.expires_at) > now);
+        }, 2, 1000, `Fetch team devices for session ${sessionId.substring(0, 8)}`);
+    },
+
+    /**
+     * End a device's login. Its token stops working for writes and resumes straight away; the caller also
+     * tells the device over realtime so it logs out without waiting for its next check.
+     */
+    async revoke(deviceSessionId: string): Promise<void> {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('team_access_tokens')
+                .update({revoked_at: new Date().toISOString()})
+                .eq('id', deviceSessionId);
+
+            if (error) {
+                console.error(`[teamDeviceService.revoke(deviceSessionId:${deviceSessionId})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Revoke team device ${deviceSessionId.substring(0, 8)}`);
+    },
+
+    /**
+     * A one-time code that logs one new device in to the team without the passcode or the device limit.
+     * Only its hash is stored, so the code is returned here once for the host to show.
+     */
+    async createRejoinCode(sessionId: string, teamId: string): Promise<TeamRejoinCode> {
+        const code = createRejoinCode();
+        const codeHash = await hashRejoinCode(code);
+        const expiresAt = new Date(Date.now() + TEAM_REJOIN_CODE_TTL_MS).toISOString();
+
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('team_rejoin_codes')
+                .insert({session_id: sessionId, team_id: teamId, code_hash: codeHash, expires_at: expiresAt});
+
+            if (error) {
+                console.error(`[teamDeviceService.createRejoinCode(teamId:${teamId.substring(0, 8)})] failed with error: ${error}`)
+                throw error;
+            }
+            return {team_id: teamId, code, expires_at: expiresAt};
+        }, 2, 1000, `Create rejoin code for team ${teamId.substring(0, 8)}`);
+    },
+};
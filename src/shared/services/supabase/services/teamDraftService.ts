@@ -0,0 +1,84 @@
+// src/shared/services/supabase/services/teamDraftService.ts
+// Shared decision drafts, so every device on a team sees (and late joiners load) the same selections
+
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+import {TeamDecisionDraft, TeamDecisionDraftUpsert} from '@shared/types';
+
+export const teamDraftService = {
+    async get(sessionId: string, teamId: string, phaseId: string): Promise<TeamDecisionDraft | null> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_decision_drafts')
+                .select('*')
+                .eq('session_id', sessionId)
+                .eq('team_id', teamId)
+                .eq('phase_id', phaseId)
+                .maybeSingle();
+
+            if (error) {
+                console.error(`[teamDraftService.get(sessionId:${sessionId}, teamId:${teamId.substring(0, 8)}, phaseId:${phaseId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as TeamDecisionDraft | null;
+        }, 2, 1000, `Get draft for team ${teamId.substring(0, 8)} phase ${phaseId}`, 8000);
+    },
+
+    async save(draft: TeamDecisionDraftUpsert): Promise<TeamDecisionDraft> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_decision_drafts')
+                .upsert({
+                    ...draft,
+                    updated_at: new Date().toISOString()
+                }, {
+                    onConflict: 'session_id,team_id,phase_id',
+                    ignoreDuplicates: false
+                })
+                .select()
+                .single();
+
+            if (error) {
+                console.error(`[teamDraftService.save(teamId:${draft.team_id.substring(0, 8)}, phaseId:${draft.phase_id})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as TeamDecisionDraft;
+        }, 2, 1000, `Save draft for team ${draft.team_id.substring(0, 8)} phase ${draft.phase_id}`);
+    },
+
+    /**
+     * Delete a team's draft for one phase (host reset of that team's decision)
+     */
+    async delete(sessionId: string, teamId: string, phaseId: string): Promise<void> {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('team_decision_drafts')
+                .delete()
+                .eq('session_id', sessionId)
+                .eq('team_id', teamId)
+                .eq('phase_id', phaseId);
+
+            if (error) {
+                console.error(`[teamDraftService.delete(sessionId:${sessionId}, teamId:${teamId.substring(0, 8)}, phaseId:${phaseId})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Delete draft for team ${teamId.substring(0, 8)} phase ${phaseId}`);
+    },
+
+    /**
+     * Delete all drafts for a session (for game reset)
+     */
+    async deleteBySession(sessionId: string): Promise<void> {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('team_decision_drafts')
+                .delete()
+                .eq('session_id', sessionId);
+
+            if (error) {
+                console.error(`[teamDraftService.deleteBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Delete drafts for session ${sessionId.substring(0, 8)}`);
+    },
+};
@@ -0,0 +1,71 @@
+// src/shared/services/supabase/services/teamJoinTokenService.ts
+// Per-team QR join tokens for the printed team cards and the host's join screen. Each team has its own
+// signing key; rotating it invalidates every token (and card) signed before, without touching other teams.
+
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+import {createJoinKeySecret, signTeamJoinToken, TEAM_JOIN_TOKEN_TTL_MS} from '../storage/teamCredentials';
+import {TeamJoinToken} from '@shared/types';
+
+const getOrCreateJoinKey = async (sessionId: string, teamName: string): Promise<string> => {
+    const {data: existing, error} = await getStorage()
+        .from('team_join_keys')
+        .select('secret')
+        .eq('session_id', sessionId)
+        .eq('team_name', teamName)
+        .maybeSingle();
+    if (error) throw error;
+    if (existing) return existing.secret;
+
+    const secret = createJoinKeySecret();
+    const {error: insertError} = await getStorage()
+        .from('team_join_keys')
+        .insert({session_id: sessionId, team_name: teamName, secret});
+    if (insertError?.code === '23505') {
+        // Another host tab created the key first: sign with theirs
+        return getOrCreateJoinKey(sessionId, teamName);
+    }
+    if (insertError) throw insertError;
+    return secret;
+};
+
+export const teamJoinTokenService = {
+    /**
+     * A fresh token for the team's QR code, signed with the team's current join key (created on first use)
+     */
+    async createToken(sessionId: string, teamName: string): Promise<TeamJoinToken> {
+        return withRetry(async () => {
+            try {
+                const secret = await getOrCreateJoinKey(sessionId, teamName);
+                const expiresAtMs = Date.now() + TEAM_JOIN_TOKEN_TTL_MS;
+                return {
+                    team_name: teamName,
+                    token: await signTeamJoinToken(secret, sessionId, teamName, expiresAtMs),
+                    expires_at: new Date(expiresAtMs).toISOString()
+                };
+            } catch (error) {
+                console.error(`[teamJoinTokenService.createToken(sessionId:${sessionId}, team:${teamName})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Create join token for ${teamName}`);
+    },
+
+    /**
+     * Replace the team's join key, so every QR code issued for the team so far stops working
+     */
+    async rotate(sessionId: string, teamName: string): Promise<void> {
+        return withRetry(async () => {
+            const {error} = await getStorage()
+                .from('team_join_keys')
+                .upsert(
+                    {session_id: sessionId, team_name: teamName, secret: createJoinKeySecret(), rotated_at: new Date().toISOString()},
+                    {onConflict: 'session_id,team_name'}
+                );
+
+            if (error) {
+                console.error(`[teamJoinTokenService.rotate(sessionId:${sessionId}, team:${teamName})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Rotate join key for ${teamName}`);
+    },
+};
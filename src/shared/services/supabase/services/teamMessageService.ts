@@ -0,0 +1,83 @@
+// src/shared/services/supabase/services/teamMessageService.ts
+// Host messages to teams and the teams' read receipts, kept per session
+
+import {getStorage} from '../storage';
+import {withRetry} from '../database';
+import {TeamMessage, TeamMessageInsert, TeamMessageRead, TeamMessageReadInsert} from '@shared/types';
+
+export const teamMessageService = {
+    async create(message: TeamMessageInsert): Promise<TeamMessage> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_messages')
+                .insert(message)
+                .select()
+                .single();
+
+            if (error) {
+                console.error(`[teamMessageService.create(sessionId:${message.session_id}, teamId:${message.team_id ?? 'all'})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as TeamMessage;
+        }, 2, 1000, `Send message to ${message.team_id ? `team ${message.team_id.substring(0, 8)}` : 'all teams'}`);
+    },
+
+    /**
+     * Get all messages for a session, oldest first
+     */
+    async getBySession(sessionId: string): Promise<TeamMessage[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_messages')
+                .select('*')
+                .eq('session_id', sessionId)
+                .order('created_at', {ascending: true});
+
+            if (error) {
+                console.error(`[teamMessageService.getBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch messages for session ${sessionId.substring(0, 8)}`);
+    },
+
+    async getReadsBySession(sessionId: string): Promise<TeamMessageRead[]> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_message_reads')
+                .select('*')
+                .eq('session_id', sessionId);
+
+            if (error) {
+                console.error(`[teamMessageService.getReadsBySession(sessionId:${sessionId})] failed with error: ${error}`)
+                throw error;
+            }
+            return data || [];
+        }, 3, 1000, `Fetch message reads for session ${sessionId.substring(0, 8)}`);
+    },
+
+    /**
+     * Record that a team has read a message. Reading twice keeps a single receipt.
+     */
+    async markRead(read: TeamMessageReadInsert): Promise<TeamMessageRead> {
+        return withRetry(async () => {
+            const {data, error} = await getStorage()
+                .from('team_message_reads')
+                .upsert({
+                    ...read,
+                    read_at: new Date().toISOString()
+                }, {
+                    onConflict: 'message_id,team_id',
+                    ignoreDuplicates: false
+                })
+                .select()
+                .single();
+
+            if (error) {
+                console.error(`[teamMessageService.markRead(messageId:${read.message_id}, teamId:${read.team_id})] failed with error: ${error}`)
+                throw error;
+            }
+            return data as TeamMessageRead;
+        }, 2, 1000, `Mark message ${read.message_id.substring(0, 8)} read`);
+    },
+};
@@ -1,37 +1,48 @@
 // src/shared/services/supabase/services/teamService.ts - Team CRUD operations
-import { supabase } from '../client';
+import {getStorage} from '../storage';
 import { withRetry } from '../database';
+import {Team, TeamAccessGrant, TeamDevice} from '@shared/types';
+
+// Everything but passcode_hash, which clients can't read
+const TEAM_COLUMNS = 'id, session_id, name, captain_device_id, created_at';
 
 export const teamService = {
     async getBySession(sessionId: string) {
         return withRetry(async () => {
-            const { data, error } = await supabase
+            const { data, error } = await getStorage()
                 .from('teams')
-                .select('*')
+                .select(TEAM_COLUMNS)
                 .eq('session_id', sessionId)
                 .order('name');
             if (error) {
                 console.error(`[teamService.getBySession(sessionId:${sessionId})] failed with error: ${error}`)
                 throw error;
             }
-            return data || [];
+            return (data || []) as Team[];
         }, 3, 1000, `Fetch teams for session ${sessionId.substring(0, 8)}`);
     },
 
-    async verifyLogin(teamId: string, sessionId: string, passcode: string) {
+    async getBySessions(sessionIds: string[]) {
+        if (sessionIds.length === 0) return [];
         return withRetry(async () => {
-            const { data, error } = await supabase
+            const { data, error } = await getStorage()
                 .from('teams')
-                .select('*')
-                .eq('id', teamId)
-                .eq('session_id', sessionId)
-                .eq('passcode', passcode.trim())
-                .single();
+                .select(TEAM_COLUMNS)
+                .in('session_id', sessionIds)
+                .order('name');
+            if (error) {
+                console.error(`[teamService.getBySessions(${sessionIds.length} sessions)] failed with error: ${error}`)
+                throw error;
+            }
+            return (data || []) as Team[];
+        }, 3, 1000, `Fetch teams for ${sessionIds.length} sessions`);
+    },
+
+    // Checks the passcode on the backend and returns the team with a device-scoped access token, or null
+    async verifyLogin(teamId: string, sessionId: string, passcode: string, device: TeamDevice): Promise<TeamAccessGrant | null> {
+        return withRetry(async () => {
+            const { data, error } = await getStorage().verifyTeamLogin(sessionId, teamId, passcode.trim(), device);
             if (error) {
-                // If no matching team found, return null instead of throwing
-                if (error.code === 'PGRST116') {
-                    return null;
-                }
                 console.error(`[teamService.verifyLogin(teamId:${teamId.substring(0, 8)}, sessionId:${sessionId}, passcode:***)] failed with error: ${error}`)
                 throw error;
             }
@@ -39,28 +50,120 @@ export const teamService = {
         }, 2, 1000, `Team login verification for ${teamId.substring(0, 8)}`);
     },
 
-    async create(teamData: any) {
+    // Logs a device in with a host-issued rejoin code; null when the code is wrong, used or expired
+    async redeemRejoinCode(sessionId: string, code: string, device: TeamDevice): Promise<TeamAccessGrant | null> {
         return withRetry(async () => {
-            const { data, error } = await supabase
+            const { data, error } = await getStorage().redeemRejoinCode(sessionId, code, device);
+            if (error) {
+                console.error(`[teamService.redeemRejoinCode(sessionId:${sessionId}, code:***)] failed with error: ${error}`)
+                throw error;
+            }
+            return data;
+        }, 2, 1000, `Team rejoin code login for session ${sessionId.substring(0, 8)}`);
+    },
+
+    // Logs a device in from a scanned team QR code; null when the token is invalid, expired or rotated
+    async redeemJoinToken(sessionId: string, token: string, device: TeamDevice): Promise<TeamAccessGrant | null> {
+        return withRetry(async () => {
+            const { data, error } = await getStorage().redeemTeamJoinToken(sessionId, token, device);
+            if (error) {
+                console.error(`[teamService.redeemJoinToken(sessionId:${sessionId}, token:***)] failed with error: ${error}`)
+                throw error;
+            }
+            return data;
+        }, 2, 1000, `Team QR code login for session ${sessionId.substring(0, 8)}`);
+    },
+
+    // Picks a saved login back up; null once it has expired or the host revoked the device
+    async resumeSession(token: string): Promise<TeamAccessGrant | null> {
+        return withRetry(async () => {
+            const { data, error } = await getStorage().resumeTeamSession(token);
+            if (error) {
+                console.error(`[teamService.resumeSession(token:***)] failed with error: ${error}`)
+                throw error;
+            }
+            return data;
+        }, 2, 1000, 'Resume team login');
+    },
+
+    async getCaptain(teamId: string): Promise<string | null> {
+        return withRetry(async () => {
+            const { data, error } = await getStorage()
                 .from('teams')
-                .insert(teamData)
-                .select()
-                .single();
+                .select('captain_device_id')
+                .eq('id', teamId)
+                .maybeSingle();
             if (error) {
-                console.error(`[teamService.create(teamData:${JSON.stringify(teamData)})] failed with error: ${error}`)
+                console.error(`[teamService.getCaptain(teamId:${teamId.substring(0, 8)})] failed with error: ${error}`)
+                throw error;
+            }
+            return data?.captain_device_id ?? null;
+        }, 2, 1000, `Fetch captain for team ${teamId.substring(0, 8)}`);
+    },
+
+    // Team device taking over as captain; returns the captain afterwards, which is someone else if they're still online
+    async claimCaptain(token: string): Promise<string | null> {
+        return withRetry(async () => {
+            const { data, error } = await getStorage().claimTeamCaptain(token);
+            if (error) {
+                console.error(`[teamService.claimCaptain(token:***)] failed with error: ${error}`)
                 throw error;
             }
             return data;
+        }, 2, 1000, 'Claim team captain');
+    },
+
+    // Host handing the captaincy to one of the team's devices
+    async setCaptain(teamId: string, deviceId: string): Promise<void> {
+        return withRetry(async () => {
+            const { error } = await getStorage()
+                .from('teams')
+                .update({captain_device_id: deviceId})
+                .eq('id', teamId);
+            if (error) {
+                console.error(`[teamService.setCaptain(teamId:${teamId.substring(0, 8)}, deviceId:${deviceId.substring(0, 8)})] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Set captain for team ${teamId.substring(0, 8)}`);
+    },
+
+    // The passcode is sent as entered and hashed by the backend
+    async create(teamData: { session_id: string; name: string; passcode: string }): Promise<Team> {
+        const team = await withRetry(async () => {
+            const { data, error } = await getStorage()
+                .from('teams')
+                .insert({session_id: teamData.session_id, name: teamData.name})
+                .select(TEAM_COLUMNS)
+                .single();
+            if (error) {
+                console.error(`[teamService.create(session_id:${teamData.session_id}, name:${teamData.name}, passcode:***)] failed with error: ${error}`)
+                throw error;
+            }
+            return data as Team;
         }, 2, 1000, 'Create team');
+        await this.resetPasscode(team.id, teamData.passcode);
+        return team;
+    },
+
+    // Only the hash is kept, so a forgotten passcode can't be looked up, only replaced. Every device the team
+    // has logged in is logged out with it.
+    async resetPasscode(teamId: string, passcode: string): Promise<void> {
+        return withRetry(async () => {
+            const { error } = await getStorage().setTeamPasscode(teamId, passcode.trim());
+            if (error) {
+                console.error(`[teamService.resetPasscode(teamId:${teamId.substring(0, 8)}, passcode:***)] failed with error: ${error}`)
+                throw error;
+            }
+        }, 2, 1000, `Reset passcode for team ${teamId.substring(0, 8)}`);
     },
 
     async update(teamId: string, updates: any) {
         return withRetry(async () => {
-            const { data, error } = await supabase
+            const { data, error } = await getStorage()
                 .from('teams')
                 .update(updates)
                 .eq('id', teamId)
-                .select()
+                .select(TEAM_COLUMNS)
                 .single();
             if (error) {
                 console.error(`[teamService.update(teamId:${teamId.substring(0, 8)}, updates:${JSON.stringify(updates)})] failed with error: ${error}`)
@@ -72,7 +175,7 @@ export const teamService = {
 
     async delete(teamId: string) {
         return withRetry(async () => {
-            const { error } = await supabase
+            const { error } = await getStorage()
                 .from('teams')
                 .delete()
                 .eq('id', teamId);
@@ -0,0 +1,32 @@
+// src/shared/services/supabase/storage/config.ts
+// Resolves which storage backend to use at startup.
+//
+// Precedence: `?storage=local|supabase` URL param (remembered in localStorage) → saved choice →
+// VITE_STORAGE_BACKEND → 'supabase'. Kept free of client imports so client.ts can read it too.
+
+import {StorageBackend} from './types';
+
+const STORAGE_BACKEND_KEY = 'ron_storage_backend';
+
+const isStorageBackend = (value: unknown): value is StorageBackend =>
+    value === 'supabase' || value === 'local';
+
+export const resolveStorageBackend = (): StorageBackend => {
+    if (typeof window !== 'undefined') {
+        try {
+            const fromUrl = new URLSearchParams(window.location.search).get('storage');
+            if (isStorageBackend(fromUrl)) {
+                window.localStorage.setItem(STORAGE_BACKEND_KEY, fromUrl);
+                return fromUrl;
+            }
+
+            const saved = window.localStorage.getItem(STORAGE_BACKEND_KEY);
+            if (isStorageBackend(saved)) return saved;
+        } catch {
+            // localStorage can be unavailable (private mode, sandboxed iframes) - fall through to env
+        }
+    }
+
+    const fromEnv = import.meta.env.VITE_STORAGE_BACKEND;
+    return isStorageBackend(fromEnv) ? fromEnv : 'supabase';
+};
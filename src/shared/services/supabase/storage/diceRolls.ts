@@ -0,0 +1,35 @@
+// src/shared/services/supabase/storage/diceRolls.ts
+// Double down dice derived from a seed, exactly as the double_down_dice_from_seed SQL function derives them
+// (see supabase/migrations), so the local backend rolls the same way and anyone can re-check a stored digital
+// roll. The dice are the first two bytes of sha256(seed) below 252, each mod 6 plus 1; skipping 252-255 keeps
+// every face equally likely. If fewer than two bytes qualify, the digest is hashed again.
+
+const FAIR_BYTE_LIMIT = 252;
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        throw new Error('Web Crypto is not available in this browser');
+    }
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+export const createDiceSeed = (): string => {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const diceFromSeed = async (seed: string): Promise<[number, number]> => {
+    const dice: number[] = [];
+    let digest = await sha256(new TextEncoder().encode(seed));
+    for (;;) {
+        for (const byte of digest) {
+            if (byte >= FAIR_BYTE_LIMIT) continue;
+            dice.push(byte % 6 + 1);
+            if (dice.length === 2) return [dice[0], dice[1]];
+        }
+        digest = await sha256(digest);
+    }
+};
+
+export const isDieValue = (value: number): boolean => Number.isInteger(value) && value >= 1 && value <= 6;
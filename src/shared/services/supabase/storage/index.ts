@@ -0,0 +1,46 @@
+// src/shared/services/supabase/storage/index.ts
+// Active storage adapter behind the `db` services.
+
+import {resolveStorageBackend} from './config';
+import {localAdapter} from './localAdapter';
+import {supabaseAdapter} from './supabaseAdapter';
+import {StorageAdapter, StorageBackend} from './types';
+
+let activeAdapter: StorageAdapter = resolveStorageBackend() === 'local' ? localAdapter : supabaseAdapter;
+
+export const getStorage = (): StorageAdapter => activeAdapter;
+
+export const getStorageBackend = (): StorageBackend => activeAdapter.backend;
+
+export const isLocalStorageBackend = (): boolean => activeAdapter.backend === 'local';
+
+/**
+ * Swap the adapter at runtime. Intended for startup and tooling; switching mid-session leaves
+ * in-flight queries on the previous backend.
+ */
+export const setStorageAdapter = (adapter: StorageAdapter): void => {
+    activeAdapter = adapter;
+};
+
+// Call before the first render so local data is loaded from IndexedDB before any query runs
+export const initializeStorage = async (): Promise<StorageBackend> => {
+    if (activeAdapter === localAdapter) {
+        await localAdapter.hydrate();
+    }
+    return activeAdapter.backend;
+};
+
+export {resolveStorageBackend} from './config';
+export {localAdapter} from './localAdapter';
+export {supabaseAdapter} from './supabaseAdapter';
+export type {
+    StorageAdapter,
+    StorageBackend,
+    StorageChangePayload,
+    StorageError,
+    StorageQuery,
+    StorageResult,
+    StorageValue,
+    TableName,
+    TableRows
+} from './types';
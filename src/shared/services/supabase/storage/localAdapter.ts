@@ -0,0 +1,994 @@
+// src/shared/services/supabase/storage/localAdapter.ts
+// In-memory storage adapter with IndexedDB persistence for offline sessions.
+//
+// Rows live in memory for synchronous-feeling queries and are written through to IndexedDB after
+// every mutation. Tabs on the same machine (host + presentation display) stay in step via a
+// BroadcastChannel, which also drives the local realtime change feed.
+
+import {
+    DECISION_WINDOW_CLOSED,
+    DICE_ROLL_INVALID,
+    DECISION_WINDOW_GRACE_MS,
+    STORAGE_TABLES,
+    StorageAdapter,
+    StorageChangeEvent,
+    StorageChangePayload,
+    StorageError,
+    StorageQuery,
+    StorageResult,
+    StorageValue,
+    TableName,
+    TableRows,
+    TeamAccessTokenRow,
+    TeamRow,
+    TEAM_DEVICE_LIMIT,
+    TEAM_DEVICE_ONLINE_MS,
+    TEAM_LOGIN_LOCKED,
+    TEAM_LOGIN_LOCKOUT_MS,
+    TEAM_LOGIN_MAX_ATTEMPTS,
+    TEAM_SUBMISSION_NOT_ALLOWED,
+    TEAM_TOKEN_INVALID,
+    UpsertOptions
+} from './types';
+import {
+    createAccessToken,
+    hashAccessToken,
+    hashPasscode,
+    hashRejoinCode,
+    isLegacyPasscodeHash,
+    parseTeamJoinToken,
+    TEAM_TOKEN_TTL_MS,
+    verifyPasscode,
+    verifyTeamJoinToken
+} from './teamCredentials';
+import {createDiceSeed, diceFromSeed, isDieValue} from './diceRolls';
+import {
+    DoubleDownReroll,
+    DoubleDownResult,
+    DoubleDownRollClaim,
+    Team,
+    TeamAccessGrant,
+    TeamDecision,
+    TeamDevice
+} from '@shared/types/database';
+import {DOUBLE_DOWN_PHASE_ID, GameSimulator} from '@core/simulation/GameSimulator';
+import type {DecisionTimerState} from '@shared/types/sync';
+
+// Rows are kept as plain column maps; LocalQuery types them by table at its public surface
+type StoredRow = Record<string, unknown>;
+type RowFilter = (row: StoredRow) => boolean;
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+const IDB_NAME = 'ready-or-not-local';
+const IDB_STORE = 'tables';
+const SYNC_CHANNEL = 'ready-or-not-local-storage';
+
+// Unique constraints the services depend on for upserts and duplicate detection (23505)
+const UNIQUE_CONSTRAINTS: Partial<Record<TableName, string[][]>> = {
+    permanent_kpi_adjustments: [['session_id', 'team_id', 'applies_to_round_start', 'kpi_key', 'challenge_id', 'option_id']],
+    double_down_results: [['session_id', 'investment_id']],
+    payoff_applications: [['session_id', 'team_id', 'investment_phase_id', 'option_id']],
+    consequence_applications: [['session_id', 'team_id', 'challenge_id', 'option_id']],
+    team_message_reads: [['message_id', 'team_id']],
+    team_decision_drafts: [['session_id', 'team_id', 'phase_id']],
+    team_access_tokens: [['token_hash']],
+    team_rejoin_codes: [['session_id', 'code_hash']],
+    team_join_keys: [['session_id', 'team_name']],
+};
+
+const storageError = (code: string, message: string): StorageError => ({code, message, details: null, hint: null});
+
+const generateId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        const r = Math.random() * 16 | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    });
+};
+
+// SQL semantics: comparisons against NULL never match
+const sqlEquals = (a: unknown, b: unknown): boolean => {
+    if (a === null || a === undefined || b === null || b === undefined) return false;
+    if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+    return String(a) === String(b);
+};
+
+const likeToRegExp = (pattern: string): RegExp => {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`);
+};
+
+// Split a select list on top-level commas so embeds like `teams!inner(id, name)` stay intact
+const splitColumns = (columns: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of columns) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current.trim());
+    return parts.filter(Boolean);
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1; // NULLS LAST, like Postgres ascending
+    if (b === null || b === undefined) return -1;
+    return (a as string | number) < (b as string | number) ? -1 : 1;
+};
+
+// ============================================================================
+// IndexedDB persistence
+// ============================================================================
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    return new Promise(resolve => {
+        const request = indexedDB.open(IDB_NAME, 1);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(IDB_STORE)) {
+                request.result.createObjectStore(IDB_STORE);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.error('[LocalStorageAdapter] Failed to open IndexedDB, falling back to memory only:', request.error);
+            resolve(null);
+        };
+    });
+};
+
+// ============================================================================
+// Local store
+// ============================================================================
+
+class LocalStore {
+    private tables = new Map<TableName, StoredRow[]>();
+    private listeners = new Map<TableName, Set<(payload: StorageChangePayload) => void>>();
+    private database: IDBDatabase | null = null;
+    private syncChannel: BroadcastChannel | null = null;
+    private hydrated: Promise<void> | null = null;
+
+    constructor() {
+        STORAGE_TABLES.forEach(table => this.tables.set(table, []));
+    }
+
+    hydrate(): Promise<void> {
+        if (this.hydrated) return this.hydrated;
+
+        this.hydrated = (async () => {
+            this.database = await openDatabase();
+            if (this.database) {
+                await Promise.all(STORAGE_TABLES.map(table => new Promise<void>(resolve => {
+                    const request = this.database!.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).get(table);
+                    request.onsuccess = () => {
+                        if (Array.isArray(request.result)) this.tables.set(table, request.result);
+                        resolve();
+                    };
+                    request.onerror = () => resolve();
+                })));
+            }
+
+            if (typeof BroadcastChannel !== 'undefined') {
+                this.syncChannel = new BroadcastChannel(SYNC_CHANNEL);
+                this.syncChannel.onmessage = (event: MessageEvent<StorageChangePayload>) => this.applyRemoteChange(event.data);
+            }
+        })();
+
+        return this.hydrated;
+    }
+
+    rows(table: TableName): StoredRow[] {
+        return this.tables.get(table)!;
+    }
+
+    commit(table: TableName, rows: StoredRow[], changes: { eventType: StorageChangeEvent; new: StoredRow; old: StoredRow }[]): void {
+        this.tables.set(table, rows);
+        this.persist(table);
+
+        changes.forEach(change => {
+            const payload: StorageChangePayload = {...change, table};
+            this.notify(payload);
+            this.syncChannel?.postMessage(payload);
+        });
+    }
+
+    subscribe(table: TableName, listener: (payload: StorageChangePayload) => void): () => void {
+        if (!this.listeners.has(table)) this.listeners.set(table, new Set());
+        this.listeners.get(table)!.add(listener);
+        return () => this.listeners.get(table)?.delete(listener);
+    }
+
+    private persist(table: TableName): void {
+        if (!this.database) return;
+        try {
+            this.database.transaction(IDB_STORE, 'readwrite').objectStore(IDB_STORE).put(this.rows(table), table);
+        } catch (error) {
+            console.error(`[LocalStorageAdapter] Failed to persist ${table}:`, error);
+        }
+    }
+
+    private notify(payload: StorageChangePayload): void {
+        this.listeners.get(payload.table)?.forEach(listener => {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`[LocalStorageAdapter] Error in change listener for ${payload.table}:`, error);
+            }
+        });
+    }
+
+    // Another tab wrote to the shared IndexedDB; mirror the change in memory without re-persisting
+    private applyRemoteChange(payload: StorageChangePayload): void {
+        const rows = this.rows(payload.table);
+        const id = payload.eventType === 'DELETE' ? payload.old.id : payload.new.id;
+        const index = rows.findIndex(row => row.id === id);
+
+        if (payload.eventType === 'DELETE') {
+            if (index >= 0) rows.splice(index, 1);
+        } else if (index >= 0) {
+            rows[index] = payload.new;
+        } else {
+            rows.push(payload.new);
+        }
+
+        this.notify(payload);
+    }
+}
+
+// ============================================================================
+// Query builder
+// ============================================================================
+
+class LocalQuery<T extends TableName, Row = TableRows[T], Result = Row[]> implements StorageQuery<Row, Result> {
+    private operation: Operation = 'select';
+    private columns = '*';
+    private returning = false;
+    private values: StoredRow[] = [];
+    private updates: StoredRow = {};
+    private upsertOptions: UpsertOptions = {};
+    private filters: RowFilter[] = [];
+    private ordering: { column: string; ascending: boolean }[] = [];
+    private maxRows: number | null = null;
+    private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+    constructor(private readonly store: LocalStore, private readonly table: T) {
+    }
+
+    select<Selected = Row>(columns: string = '*'): LocalQuery<T, Selected> {
+        this.columns = columns;
+        if (this.operation !== 'select') this.returning = true;
+        return this as unknown as LocalQuery<T, Selected>;
+    }
+
+    insert(values: Partial<Row> | Partial<Row>[]): this {
+        this.operation = 'insert';
+        this.values = (Array.isArray(values) ? values : [values]) as StoredRow[];
+        return this;
+    }
+
+    update(values: Partial<Row>): this {
+        this.operation = 'update';
+        this.updates = values as StoredRow;
+        return this;
+    }
+
+    upsert(values: Partial<Row> | Partial<Row>[], options: UpsertOptions = {}): this {
+        this.operation = 'upsert';
+        this.values = (Array.isArray(values) ? values : [values]) as StoredRow[];
+        this.upsertOptions = options;
+        return this;
+    }
+
+    delete(): this {
+        this.operation = 'delete';
+        return this;
+    }
+
+    eq(column: string, value: StorageValue): this {
+        this.filters.push(row => sqlEquals(row[column], value));
+        return this;
+    }
+
+    neq(column: string, value: StorageValue): this {
+        this.filters.push(row => row[column] !== null && row[column] !== undefined && !sqlEquals(row[column], value));
+        return this;
+    }
+
+    like(column: string, pattern: string): this {
+        const regex = likeToRegExp(pattern);
+        this.filters.push(row => typeof row[column] === 'string' && regex.test(row[column] as string));
+        return this;
+    }
+
+    in(column: string, values: StorageValue[]): this {
+        this.filters.push(row => values.some(value => sqlEquals(row[column], value)));
+        return this;
+    }
+
+    is(column: string, value: null | boolean): this {
+        this.filters.push(row => value === null ? row[column] === null || row[column] === undefined : row[column] === value);
+        return this;
+    }
+
+    not(column: string, operator: string, value: StorageValue): this {
+        const probe = new LocalQuery(this.store, this.table);
+        switch (operator) {
+            case 'is':
+                probe.is(column, value as null | boolean);
+                break;
+            case 'eq':
+                probe.eq(column, value);
+                break;
+            case 'like':
+                probe.like(column, String(value));
+                break;
+            default:
+                throw new Error(`[LocalStorageAdapter] Unsupported not() operator: ${operator}`);
+        }
+        const [inner] = probe.filters;
+        this.filters.push(row => !inner(row));
+        return this;
+    }
+
+    order(column: string, options: { ascending?: boolean } = {}): this {
+        this.ordering.push({column, ascending: options.ascending ?? true});
+        return this;
+    }
+
+    limit(count: number): this {
+        this.maxRows = count;
+        return this;
+    }
+
+    single(): LocalQuery<T, Row, Row> {
+        this.cardinality = 'single';
+        return this as unknown as LocalQuery<T, Row, Row>;
+    }
+
+    maybeSingle(): LocalQuery<T, Row, Row | null> {
+        this.cardinality = 'maybeSingle';
+        return this as unknown as LocalQuery<T, Row, Row | null>;
+    }
+
+    then<TResult1 = StorageResult<Result>, TResult2 = never>(
+        onfulfilled?: ((value: StorageResult<Result>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this.store.hydrate().then(() => this.execute() as StorageResult<Result>).then(onfulfilled, onrejected);
+    }
+
+    private execute(): StorageResult {
+        try {
+            switch (this.operation) {
+                case 'select':
+                    return this.shape(this.sortAndLimit(this.matching()));
+                case 'insert':
+                    return this.shape(this.runInsert());
+                case 'update':
+                    return this.shape(this.runUpdate());
+                case 'upsert':
+                    return this.shape(this.runUpsert());
+                case 'delete':
+                    return this.shape(this.runDelete());
+            }
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error) {
+                return {data: null, error: error as StorageError};
+            }
+            return {data: null, error: storageError('LOCAL', error instanceof Error ? error.message : String(error))};
+        }
+    }
+
+    private matching(): StoredRow[] {
+        return this.store.rows(this.table).filter(row => this.filters.every(filter => filter(row)));
+    }
+
+    private sortAndLimit(rows: StoredRow[]): StoredRow[] {
+        const sorted = [...rows];
+        if (this.ordering.length > 0) {
+            sorted.sort((a, b) => {
+                for (const {column, ascending} of this.ordering) {
+                    const result = compareValues(a[column], b[column]);
+                    if (result !== 0) return ascending ? result : -result;
+                }
+                return 0;
+            });
+        }
+        return this.maxRows === null ? sorted : sorted.slice(0, this.maxRows);
+    }
+
+    private withDefaults(row: StoredRow): StoredRow {
+        return {
+            id: generateId(),
+            created_at: new Date().toISOString(),
+            ...row
+        };
+    }
+
+    private assertUnique(candidate: StoredRow, rows: StoredRow[]): void {
+        (UNIQUE_CONSTRAINTS[this.table] || []).forEach(columns => {
+            const clash = rows.find(row => row.id !== candidate.id && columns.every(column => row[column] === candidate[column]));
+            if (clash) {
+                throw storageError('23505', `duplicate key value violates unique constraint on ${this.table} (${columns.join(', ')})`);
+            }
+        });
+        if (rows.some(row => row.id === candidate.id)) {
+            throw storageError('23505', `duplicate key value violates unique constraint "${this.table}_pkey"`);
+        }
+    }
+
+    private runInsert(): StoredRow[] {
+        const rows = [...this.store.rows(this.table)];
+        const inserted = this.values.map(value => {
+            const row = this.withDefaults(value);
+            this.assertUnique(row, rows);
+            rows.push(row);
+            return row;
+        });
+        this.store.commit(this.table, rows, inserted.map(row => ({eventType: 'INSERT', new: row, old: {}})));
+        return inserted;
+    }
+
+    private runUpdate(): StoredRow[] {
+        const matched = new Set(this.matching());
+        const changes: { eventType: StorageChangeEvent; new: StoredRow; old: StoredRow }[] = [];
+        const rows = this.store.rows(this.table).map(row => {
+            if (!matched.has(row)) return row;
+            const updated = {...row, ...this.updates};
+            changes.push({eventType: 'UPDATE', new: updated, old: row});
+            return updated;
+        });
+        this.store.commit(this.table, rows, changes);
+        return changes.map(change => change.new);
+    }
+
+    private runUpsert(): StoredRow[] {
+        const conflictColumns = (this.upsertOptions.onConflict || 'id').split(',').map(column => column.trim());
+        const rows = [...this.store.rows(this.table)];
+        const changes: { eventType: StorageChangeEvent; new: StoredRow; old: StoredRow }[] = [];
+
+        this.values.forEach(value => {
+            const index = conflictColumns.every(column => value[column] !== undefined)
+                ? rows.findIndex(row => conflictColumns.every(column => row[column] === value[column]))
+                : -1;
+
+            if (index === -1) {
+                const row = this.withDefaults(value);
+                this.assertUnique(row, rows);
+                rows.push(row);
+                changes.push({eventType: 'INSERT', new: row, old: {}});
+            } else if (!this.upsertOptions.ignoreDuplicates) {
+                const updated = {...rows[index], ...value, id: rows[index].id};
+                changes.push({eventType: 'UPDATE', new: updated, old: rows[index]});
+                rows[index] = updated;
+            }
+        });
+
+        this.store.commit(this.table, rows, changes);
+        return changes.map(change => change.new);
+    }
+
+    private runDelete(): StoredRow[] {
+        const matched = new Set(this.matching());
+        const rows = this.store.rows(this.table).filter(row => !matched.has(row));
+        this.store.commit(this.table, rows, [...matched].map(row => ({eventType: 'DELETE', new: {}, old: row})));
+        return [...matched];
+    }
+
+    private project(row: StoredRow): StoredRow {
+        const columns = splitColumns(this.columns);
+        if (columns.length === 0 || columns.includes('*')) return {...row};
+
+        const projected: StoredRow = {};
+        columns.forEach(column => {
+            // Embedded resource, e.g. `teams!inner(name)` resolved through `team_id`
+            const embed = column.match(/^(\w+)(?:!inner)?\(([^)]*)\)$/);
+            if (embed) {
+                const [, relation, relationColumns] = embed;
+                const foreignKey = `${relation.replace(/s$/, '')}_id`;
+                const related = this.store.rows(relation as TableName)?.find(candidate => candidate.id === row[foreignKey]);
+                projected[relation] = related
+                    ? Object.fromEntries(relationColumns.split(',').map(c => c.trim()).map(c => [c, related[c]]))
+                    : null;
+            } else {
+                projected[column] = row[column];
+            }
+        });
+        return projected;
+    }
+
+    private shape(rows: StoredRow[]): StorageResult {
+        const isMutation = this.operation !== 'select';
+        if (isMutation && !this.returning) {
+            return {data: null, error: null};
+        }
+
+        let projected = rows.map(row => this.project(row));
+        // Inner joins drop rows without a related record
+        const innerJoins = [...this.columns.matchAll(/(\w+)!inner\(/g)].map(match => match[1]);
+        if (innerJoins.length > 0) {
+            projected = projected.filter(row => innerJoins.every(relation => row[relation] !== null));
+        }
+
+        if (this.cardinality === 'many') {
+            return {data: projected, error: null};
+        }
+        if (projected.length === 1) {
+            return {data: projected[0], error: null};
+        }
+        if (projected.length === 0 && this.cardinality === 'maybeSingle') {
+            return {data: null, error: null};
+        }
+        return {
+            data: null,
+            error: storageError('PGRST116', `JSON object requested, multiple (or no) rows returned (${projected.length} rows)`)
+        };
+    }
+}
+
+// ============================================================================
+// Adapter
+// ============================================================================
+
+const localStore = new LocalStore();
+
+const toPublicTeam = (row: TeamRow): Team => {
+    const {
+        passcode_hash: _passcodeHash,
+        passcode: _passcode,
+        failed_login_attempts: _failedLoginAttempts,
+        locked_until: _lockedUntil,
+        ...team
+    } = row;
+    return team as Team;
+};
+
+const isActiveAccess = (access: TeamAccessTokenRow, now: number): boolean =>
+    !access.revoked_at && Date.parse(access.expires_at) > now;
+
+// The token's device session while it is still usable, or null
+const findActiveAccess = async (token: string): Promise<TeamAccessTokenRow | null> => {
+    const {data: access} = await new LocalQuery(localStore, 'team_access_tokens')
+        .select('*')
+        .eq('token_hash', await hashAccessToken(token))
+        .maybeSingle();
+    return access && isActiveAccess(access, Date.now()) ? access : null;
+};
+
+// Same rule as claim_team_captain and submit_team_decision: devices of the team that are logged in and
+// checked in recently
+const getOnlineDeviceIds = async (teamId: string): Promise<string[]> => {
+    const now = Date.now();
+    const {data: teamSessions} = await new LocalQuery(localStore, 'team_access_tokens')
+        .select('*')
+        .eq('team_id', teamId);
+    return (teamSessions || [])
+        .filter(access => isActiveAccess(access, now) && access.device_id &&
+            access.last_seen_at && Date.parse(access.last_seen_at) > now - TEAM_DEVICE_ONLINE_MS)
+        .map(access => access.device_id as string);
+};
+
+// Same rule as submit_team_decision: the session's persisted countdown for this decision has closed
+const isDecisionWindowClosed = (timer: DecisionTimerState | null | undefined, phaseId: string | undefined): boolean => {
+    if (!timer || timer.decisionKey !== phaseId) return false;
+    if (timer.status === 'expired' || timer.status === 'ended') return true;
+    return timer.status === 'running' && timer.endsAt !== null && Date.now() > timer.endsAt + DECISION_WINDOW_GRACE_MS;
+};
+
+// Opens a device session for the team. The device's earlier sessions in this game (for any team) end, so
+// one phone is only ever logged in once; the devices-per-team limit counts the team's other devices.
+const openDeviceSession = async (
+    team: TeamRow,
+    device: TeamDevice,
+    enforceDeviceLimit: boolean
+): Promise<StorageResult<TeamAccessGrant | null>> => {
+    const now = Date.now();
+
+    if (enforceDeviceLimit) {
+        const {data: session} = await new LocalQuery(localStore, 'sessions')
+            .select('max_devices_per_team')
+            .eq('id', team.session_id)
+            .maybeSingle();
+        const limit = session?.max_devices_per_team;
+        if (limit) {
+            const {data: teamSessions} = await new LocalQuery(localStore, 'team_access_tokens')
+                .select('*')
+                .eq('team_id', team.id);
+            const otherDevices = (teamSessions || [])
+                .filter(access => isActiveAccess(access, now) && access.device_id !== device.id);
+            if (otherDevices.length >= limit) {
+                return {
+                    data: null,
+                    error: storageError(TEAM_DEVICE_LIMIT, `Team already has ${limit} device(s) logged in`)
+                };
+            }
+        }
+    }
+
+    await new LocalQuery(localStore, 'team_access_tokens')
+        .update({revoked_at: new Date(now).toISOString()})
+        .eq('session_id', team.session_id)
+        .eq('device_id', device.id)
+        .is('revoked_at', null);
+
+    const token = createAccessToken();
+    const expiresAt = new Date(now + TEAM_TOKEN_TTL_MS).toISOString();
+    const {data: access, error} = await new LocalQuery(localStore, 'team_access_tokens')
+        .insert({
+            token_hash: await hashAccessToken(token),
+            team_id: team.id,
+            session_id: team.session_id,
+            device_id: device.id,
+            device_name: device.name,
+            expires_at: expiresAt,
+            last_seen_at: new Date(now).toISOString(),
+            revoked_at: null
+        })
+        .select()
+        .single();
+    if (error || !access) return {data: null, error};
+
+    return {
+        data: {team: toPublicTeam(team), token, expires_at: expiresAt, device_session_id: access.id},
+        error: null
+    };
+};
+
+type DiceRoll = Pick<DoubleDownResult, 'dice1_value' | 'dice2_value' | 'total_value' | 'boost_percentage' | 'roll_mode' | 'seed' | 'rolled_at'>;
+
+// Same rule as make_double_down_roll: the facilitator's dice for a physical roll, otherwise a fresh seed's dice,
+// with the boost and the time taken here rather than from the caller
+const makeDiceRoll = async (dice: [number, number] | null): Promise<DiceRoll | null> => {
+    if (dice && !(dice.length === 2 && dice.every(isDieValue))) return null;
+    const seed = dice ? null : createDiceSeed();
+    const [dice1, dice2] = dice ?? await diceFromSeed(seed!);
+    return {
+        dice1_value: dice1,
+        dice2_value: dice2,
+        total_value: dice1 + dice2,
+        boost_percentage: GameSimulator.getDoubleDownBoost(dice1 + dice2),
+        roll_mode: dice ? 'physical' : 'digital',
+        seed,
+        rolled_at: new Date().toISOString()
+    };
+};
+
+const invalidDice = () => storageError(DICE_ROLL_INVALID, 'Enter both dice as a number from 1 to 6');
+
+export const localAdapter: StorageAdapter & { hydrate: () => Promise<void> } = {
+    backend: 'local',
+
+    from<T extends TableName>(table: T): StorageQuery<TableRows[T]> {
+        return new LocalQuery(localStore, table);
+    },
+
+    // The host machine is the server in offline mode
+    async getServerTime(): Promise<number> {
+        return Date.now();
+    },
+
+    // Stand-in for the verify_team_login SQL function
+    async verifyTeamLogin(
+        sessionId: string,
+        teamId: string,
+        passcode: string,
+        device: TeamDevice
+    ): Promise<StorageResult<TeamAccessGrant | null>> {
+        const {data: team, error} = await new LocalQuery(localStore, 'teams')
+            .select('*')
+            .eq('id', teamId)
+            .eq('session_id', sessionId)
+            .maybeSingle();
+        if (error) return {data: null, error};
+        if (!team) return {data: null, error: null};
+
+        const now = Date.now();
+        if (team.locked_until && Date.parse(team.locked_until) > now) {
+            const minutes = Math.ceil((Date.parse(team.locked_until) - now) / 60000);
+            return {
+                data: null,
+                error: storageError(TEAM_LOGIN_LOCKED, `Too many wrong passcodes. Try again in ${minutes} minute(s).`)
+            };
+        }
+
+        // Saved before passcodes were hashed: compare the plain passcode
+        const matches = !team.passcode_hash && typeof team.passcode === 'string'
+            ? team.passcode === passcode.trim()
+            : await verifyPasscode(passcode, team.passcode_hash);
+        if (!matches) {
+            const attempts = (team.failed_login_attempts ?? 0) + 1;
+            const lockedOut = attempts >= TEAM_LOGIN_MAX_ATTEMPTS;
+            await new LocalQuery(localStore, 'teams')
+                .update({
+                    failed_login_attempts: lockedOut ? 0 : attempts,
+                    locked_until: lockedOut ? new Date(now + TEAM_LOGIN_LOCKOUT_MS).toISOString() : team.locked_until ?? null
+                })
+                .eq('id', team.id);
+            return {data: null, error: null};
+        }
+
+        // A right passcode clears the count, and an old-style hash is replaced with a current one
+        const upgradeHash = !team.passcode_hash || isLegacyPasscodeHash(team.passcode_hash);
+        await new LocalQuery(localStore, 'teams')
+            .update({
+                failed_login_attempts: 0,
+                locked_until: null,
+                ...(upgradeHash ? {passcode_hash: await hashPasscode(passcode), passcode: null} : {})
+            })
+            .eq('id', team.id);
+
+        return openDeviceSession(team, device, true);
+    },
+
+    // Stand-in for the redeem_team_rejoin_code SQL function
+    async redeemRejoinCode(sessionId: string, code: string, device: TeamDevice): Promise<StorageResult<TeamAccessGrant | null>> {
+        const {data: rejoin} = await new LocalQuery(localStore, 'team_rejoin_codes')
+            .select('*')
+            .eq('session_id', sessionId)
+            .eq('code_hash', await hashRejoinCode(code))
+            .maybeSingle();
+        if (!rejoin || rejoin.used_at || Date.parse(rejoin.expires_at) <= Date.now()) {
+            return {data: null, error: null};
+        }
+
+        // Only the first device to claim the code gets in
+        const {data: claimed} = await new LocalQuery(localStore, 'team_rejoin_codes')
+            .update({used_at: new Date().toISOString(), used_by_device_id: device.id})
+            .eq('id', rejoin.id)
+            .is('used_at', null)
+            .select();
+        if (!claimed?.length) return {data: null, error: null};
+
+        const {data: team, error} = await new LocalQuery(localStore, 'teams')
+            .select('*')
+            .eq('id', rejoin.team_id)
+            .maybeSingle();
+        if (error) return {data: null, error};
+        if (!team) return {data: null, error: null};
+
+        return openDeviceSession(team, device, false);
+    },
+
+    // Stand-in for the redeem_team_join_token SQL function
+    async redeemTeamJoinToken(sessionId: string, token: string, device: TeamDevice): Promise<StorageResult<TeamAccessGrant | null>> {
+        const parts = parseTeamJoinToken(token);
+        if (!parts) return {data: null, error: null};
+
+        const {data: joinKey} = await new LocalQuery(localStore, 'team_join_keys')
+            .select('*')
+            .eq('session_id', sessionId)
+            .eq('team_name', parts.teamName)
+            .maybeSingle();
+        if (!joinKey || !await verifyTeamJoinToken(parts, joinKey.secret, sessionId)) {
+            return {data: null, error: null};
+        }
+
+        const {data: team, error} = await new LocalQuery(localStore, 'teams')
+            .select('*')
+            .eq('session_id', sessionId)
+            .eq('name', parts.teamName)
+            .maybeSingle();
+        if (error) return {data: null, error};
+        if (!team) return {data: null, error: null};
+
+        return openDeviceSession(team, device, true);
+    },
+
+    // Stand-in for the resume_team_session SQL function
+    async resumeTeamSession(token: string): Promise<StorageResult<TeamAccessGrant | null>> {
+        const access = await findActiveAccess(token);
+        if (!access) return {data: null, error: null};
+
+        await new LocalQuery(localStore, 'team_access_tokens')
+            .update({last_seen_at: new Date().toISOString()})
+            .eq('id', access.id);
+
+        const {data: team, error} = await new LocalQuery(localStore, 'teams')
+            .select('*')
+            .eq('id', access.team_id)
+            .maybeSingle();
+        if (error) return {data: null, error};
+        if (!team) return {data: null, error: null};
+
+        return {
+            data: {team: toPublicTeam(team), token, expires_at: access.expires_at, device_session_id: access.id},
+            error: null
+        };
+    },
+
+    // Stand-in for the set_team_passcode SQL function
+    async setTeamPasscode(teamId: string, passcode: string): Promise<StorageResult<null>> {
+        const {error} = await new LocalQuery(localStore, 'teams')
+            .update({passcode_hash: await hashPasscode(passcode), passcode: null, failed_login_attempts: 0, locked_until: null})
+            .eq('id', teamId);
+        if (error) return {data: null, error};
+
+        const {error: revokeError} = await new LocalQuery(localStore, 'team_access_tokens')
+            .update({revoked_at: new Date().toISOString()})
+            .eq('team_id', teamId)
+            .is('revoked_at', null);
+        return {data: null, error: revokeError};
+    },
+
+    // Stand-in for the claim_team_captain SQL function
+    async claimTeamCaptain(token: string): Promise<StorageResult<string | null>> {
+        const access = await findActiveAccess(token);
+        if (!access) {
+            return {data: null, error: storageError(TEAM_TOKEN_INVALID, 'Team access token is invalid, expired or revoked')};
+        }
+
+        await new LocalQuery(localStore, 'team_access_tokens')
+            .update({last_seen_at: new Date().toISOString()})
+            .eq('id', access.id);
+
+        const {data: team, error} = await new LocalQuery(localStore, 'teams')
+            .select('captain_device_id')
+            .eq('id', access.team_id)
+            .maybeSingle();
+        if (error) return {data: null, error};
+
+        // The captain is still around; only the host can hand it over
+        const captain = team?.captain_device_id ?? null;
+        if (captain && captain !== access.device_id && (await getOnlineDeviceIds(access.team_id)).includes(captain)) {
+            return {data: captain, error: null};
+        }
+
+        const {error: updateError} = await new LocalQuery(localStore, 'teams')
+            .update({captain_device_id: access.device_id})
+            .eq('id', access.team_id);
+        if (updateError) return {data: null, error: updateError};
+        return {data: access.device_id, error: null};
+    },
+
+    // Stand-in for the submit_team_decision SQL function
+    async submitTeamDecision(token: string, decision: Partial<TeamDecision>): Promise<StorageResult<TeamDecision | null>> {
+        const access = await findActiveAccess(token);
+        if (!access) {
+            return {data: null, error: storageError(TEAM_TOKEN_INVALID, 'Team access token is invalid, expired or revoked')};
+        }
+
+        await new LocalQuery(localStore, 'team_access_tokens')
+            .update({last_seen_at: new Date().toISOString()})
+            .eq('id', access.id);
+
+        const {data: session} = await new LocalQuery(localStore, 'sessions')
+            .select('decision_timer, team_submission_mode')
+            .eq('id', access.session_id)
+            .maybeSingle();
+        if (isDecisionWindowClosed(session?.decision_timer, decision.phase_id)) {
+            return {data: null, error: storageError(DECISION_WINDOW_CLOSED, 'The decision window has closed')};
+        }
+
+        // Immediate purchases go straight through; the decision itself follows the session's submission mode
+        if (!decision.is_immediate_purchase && session?.team_submission_mode === 'captain') {
+            const {data: team} = await new LocalQuery(localStore, 'teams')
+                .select('captain_device_id')
+                .eq('id', access.team_id)
+                .maybeSingle();
+            if (!team?.captain_device_id || team.captain_device_id !== access.device_id) {
+                return {data: null, error: storageError(TEAM_SUBMISSION_NOT_ALLOWED, 'Only your team captain can submit this decision')};
+            }
+        }
+        if (!decision.is_immediate_purchase && session?.team_submission_mode === 'all_confirm') {
+            const {data: draft} = await new LocalQuery(localStore, 'team_decision_drafts')
+                .select('confirmed_device_ids')
+                .eq('session_id', access.session_id)
+                .eq('team_id', access.team_id)
+                .eq('phase_id', decision.phase_id ?? null)
+                .maybeSingle();
+            const confirmed: string[] = draft?.confirmed_device_ids ?? [];
+            if ((await getOnlineDeviceIds(access.team_id)).some(deviceId => !confirmed.includes(deviceId))) {
+                return {
+                    data: null,
+                    error: storageError(TEAM_SUBMISSION_NOT_ALLOWED, 'Every teammate has to confirm the draft before it is submitted')
+                };
+            }
+        }
+
+        const {id: _id, ...values} = decision;
+        return new LocalQuery(localStore, 'team_decisions')
+            .insert({...values, session_id: access.session_id, team_id: access.team_id})
+            .select()
+            .single();
+    },
+
+    // Stand-in for the roll_double_down_dice SQL function
+    async rollDoubleDownDice(sessionId: string, investmentId: string, dice: [number, number] | null): Promise<StorageResult<DoubleDownRollClaim | null>> {
+        const roll = await makeDiceRoll(dice);
+        if (!roll) return {data: null, error: invalidDice()};
+
+        const {data: decisions, error: decisionsError} = await new LocalQuery(localStore, 'team_decisions')
+            .select('team_id')
+            .eq('session_id', sessionId)
+            .eq('phase_id', DOUBLE_DOWN_PHASE_ID)
+            .eq('double_down_on_id', investmentId);
+        if (decisionsError) return {data: null, error: decisionsError};
+        const teamIds = (decisions || []).map(decision => decision.team_id);
+        const {data: teams} = teamIds.length > 0
+            ? await new LocalQuery(localStore, 'teams').select('id, name').in('id', teamIds)
+            : {data: []};
+
+        const now = new Date().toISOString();
+        const {data: result, error} = await new LocalQuery(localStore, 'double_down_results')
+            .insert({
+                session_id: sessionId,
+                investment_id: investmentId,
+                ...roll,
+                affected_teams: (teams || []).map(team => team.name),
+                rerolls: [],
+                created_at: now
+            })
+            .select()
+            .single();
+        if (!error) return {data: {result: result as DoubleDownResult, created: true}, error: null};
+        if (error.code !== '23505') return {data: null, error};
+
+        const {data: existing, error: existingError} = await new LocalQuery(localStore, 'double_down_results')
+            .select('*')
+            .eq('session_id', sessionId)
+            .eq('investment_id', investmentId)
+            .maybeSingle();
+        if (existingError || !existing) return {data: null, error: existingError ?? error};
+        return {data: {result: existing as DoubleDownResult, created: false}, error: null};
+    },
+
+    // Stand-in for the reroll_double_down_dice SQL function. The local backend has no accounts (every host on
+    // this device is the same local facilitator), so there is no host to check.
+    async rerollDoubleDownDice(
+        sessionId: string,
+        investmentId: string,
+        dice: [number, number] | null,
+        reason: string
+    ): Promise<StorageResult<DoubleDownResult | null>> {
+        const trimmedReason = reason.trim();
+        if (!trimmedReason) {
+            return {data: null, error: storageError(DICE_ROLL_INVALID, 'A reason is required to re-roll')};
+        }
+        const roll = await makeDiceRoll(dice);
+        if (!roll) return {data: null, error: invalidDice()};
+
+        const {data: current, error} = await new LocalQuery(localStore, 'double_down_results')
+            .select('*')
+            .eq('session_id', sessionId)
+            .eq('investment_id', investmentId)
+            .maybeSingle();
+        if (error) return {data: null, error};
+        if (!current) {
+            return {data: null, error: storageError(DICE_ROLL_INVALID, 'These dice have not been rolled yet')};
+        }
+
+        const replaced: DoubleDownReroll = {
+            dice1_value: current.dice1_value,
+            dice2_value: current.dice2_value,
+            boost_percentage: current.boost_percentage,
+            roll_mode: current.roll_mode ?? 'digital',
+            seed: current.seed ?? null,
+            rolled_at: current.rolled_at ?? current.created_at,
+            replaced_at: roll.rolled_at,
+            reason: trimmedReason
+        };
+        return new LocalQuery(localStore, 'double_down_results')
+            .update({...roll, rerolls: [...(current.rerolls || []), replaced]})
+            .eq('id', current.id)
+            .select()
+            .single();
+    },
+
+    subscribe(table: TableName, listener: (payload: StorageChangePayload) => void): () => void {
+        return localStore.subscribe(table, listener);
+    },
+
+    hydrate(): Promise<void> {
+        return localStore.hydrate();
+    }
+};
@@ -0,0 +1,110 @@
+// src/shared/services/supabase/storage/supabaseAdapter.ts
+// Default adapter: hands queries straight to the Supabase client.
+
+import {supabase} from '../client';
+import {DoubleDownResult, DoubleDownRollClaim, TeamAccessGrant, TeamDecision, TeamDevice} from '@shared/types/database';
+import {StorageAdapter, StorageQuery, StorageResult, TableName, TableRows} from './types';
+
+export const supabaseAdapter: StorageAdapter = {
+    backend: 'supabase',
+
+    from<T extends TableName>(table: T): StorageQuery<TableRows[T]> {
+        return supabase.from(table) as unknown as StorageQuery<TableRows[T]>;
+    },
+
+    // Requires the `server_time()` SQL function (see supabase/migrations): returns now() from Postgres
+    async getServerTime(): Promise<number> {
+        const {data, error} = await supabase.rpc('server_time');
+        if (error) throw error;
+        return new Date(data as string).getTime();
+    },
+
+    // Requires the `verify_team_login` SQL function (see supabase/migrations); teams.passcode_hash is not readable by clients
+    async verifyTeamLogin(
+        sessionId: string,
+        teamId: string,
+        passcode: string,
+        device: TeamDevice
+    ): Promise<StorageResult<TeamAccessGrant | null>> {
+        const {data, error} = await supabase.rpc('verify_team_login', {
+            p_session_id: sessionId,
+            p_team_id: teamId,
+            p_passcode: passcode,
+            p_device_id: device.id,
+            p_device_name: device.name
+        });
+        return {data: (data as TeamAccessGrant | null) ?? null, error};
+    },
+
+    // Requires the `redeem_team_rejoin_code` SQL function (see supabase/migrations)
+    async redeemRejoinCode(sessionId: string, code: string, device: TeamDevice): Promise<StorageResult<TeamAccessGrant | null>> {
+        const {data, error} = await supabase.rpc('redeem_team_rejoin_code', {
+            p_session_id: sessionId,
+            p_code: code,
+            p_device_id: device.id,
+            p_device_name: device.name
+        });
+        return {data: (data as TeamAccessGrant | null) ?? null, error};
+    },
+
+    // Requires the `redeem_team_join_token` SQL function (see supabase/migrations); join keys are only readable by the host
+    async redeemTeamJoinToken(sessionId: string, token: string, device: TeamDevice): Promise<StorageResult<TeamAccessGrant | null>> {
+        const {data, error} = await supabase.rpc('redeem_team_join_token', {
+            p_session_id: sessionId,
+            p_token: token,
+            p_device_id: device.id,
+            p_device_name: device.name
+        });
+        return {data: (data as TeamAccessGrant | null) ?? null, error};
+    },
+
+    // Requires the `resume_team_session` SQL function (see supabase/migrations)
+    async resumeTeamSession(token: string): Promise<StorageResult<TeamAccessGrant | null>> {
+        const {data, error} = await supabase.rpc('resume_team_session', {p_token: token});
+        return {data: (data as TeamAccessGrant | null) ?? null, error};
+    },
+
+    // Requires the `set_team_passcode` SQL function (see supabase/migrations), which hashes with bcrypt
+    async setTeamPasscode(teamId: string, passcode: string): Promise<StorageResult<null>> {
+        const {error} = await supabase.rpc('set_team_passcode', {p_team_id: teamId, p_passcode: passcode});
+        return {data: null, error};
+    },
+
+    // Requires the `claim_team_captain` SQL function (see supabase/migrations)
+    async claimTeamCaptain(token: string): Promise<StorageResult<string | null>> {
+        const {data, error} = await supabase.rpc('claim_team_captain', {p_token: token});
+        return {data: (data as string | null) ?? null, error};
+    },
+
+    // Requires the `submit_team_decision` SQL function (see supabase/migrations); clients can't insert team_decisions directly
+    async submitTeamDecision(token: string, decision: Partial<TeamDecision>): Promise<StorageResult<TeamDecision | null>> {
+        const {data, error} = await supabase.rpc('submit_team_decision', {p_token: token, p_decision: decision});
+        return {data: (data as TeamDecision | null) ?? null, error};
+    },
+
+    // Requires the `roll_double_down_dice` SQL function (see supabase/migrations)
+    async rollDoubleDownDice(sessionId: string, investmentId: string, dice: [number, number] | null): Promise<StorageResult<DoubleDownRollClaim | null>> {
+        const {data, error} = await supabase.rpc('roll_double_down_dice', {
+            p_session_id: sessionId,
+            p_investment_id: investmentId,
+            p_dice: dice
+        });
+        return {data: (data as DoubleDownRollClaim | null) ?? null, error};
+    },
+
+    // Requires the `reroll_double_down_dice` SQL function (see supabase/migrations)
+    async rerollDoubleDownDice(
+        sessionId: string,
+        investmentId: string,
+        dice: [number, number] | null,
+        reason: string
+    ): Promise<StorageResult<DoubleDownResult | null>> {
+        const {data, error} = await supabase.rpc('reroll_double_down_dice', {
+            p_session_id: sessionId,
+            p_investment_id: investmentId,
+            p_dice: dice,
+            p_reason: reason
+        });
+        return {data: (data as DoubleDownResult | null) ?? null, error};
+    }
+};
@@ -0,0 +1,150 @@
+// src/shared/services/supabase/storage/teamCredentials.ts
+// Team passcode hashes, access tokens, rejoin codes and QR join tokens.
+//
+// Passcodes are only ever hashed by the backend: bcrypt in Postgres (see supabase/migrations), and here, for the
+// local backend only, PBKDF2 as `pbkdf2-sha256$<iterations>$<salt>$<hex digest>`. Hashes from the earlier
+// `sha256$<salt>$<hex digest of salt + passcode>` scheme still verify on both and are replaced on the next login.
+// Access tokens and rejoin codes are random and only their SHA-256 is stored.
+// Join tokens are `<expiry epoch seconds>.<hex of the UTF-8 team name>.<signature>`, signed with the team's
+// join key (HMAC-SHA256 over `<session id>:<team name>:<expiry>`, first 32 hex characters) exactly as
+// `redeem_team_join_token` checks it. They name the team rather than its id so cards can be printed from the
+// create game wizard, before the teams exist.
+
+// How long a team login lasts before the team has to enter its passcode again
+export const TEAM_TOKEN_TTL_MS = 4 * 60 * 60 * 1000;
+
+// A rejoin code is read out or shown to one team, so it only needs to outlive the walk over to them
+export const TEAM_REJOIN_CODE_TTL_MS = 15 * 60 * 1000;
+
+// No 0/O, 1/I/L: the code gets typed from the host's screen
+const REJOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const REJOIN_CODE_LENGTH = 6;
+
+// Printed cards are often made days before the game
+export const TEAM_JOIN_TOKEN_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// 128 bits of the HMAC keeps the QR code small enough to scan off a team card
+const JOIN_SIGNATURE_LENGTH = 32;
+
+const HASH_SCHEME = 'pbkdf2-sha256';
+const LEGACY_HASH_SCHEME = 'sha256';
+
+// Slow enough to make guessing a stolen hash expensive, fast enough for a login on a phone-sized host
+const PBKDF2_ITERATIONS = 100_000;
+
+const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const randomHex = (byteCount: number): string => {
+    const bytes = new Uint8Array(byteCount);
+    crypto.getRandomValues(bytes);
+    return toHex(bytes);
+};
+
+const requireSubtleCrypto = (): SubtleCrypto => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        // Web Crypto only exists on https:// and localhost
+        throw new Error('Team credentials need a secure (https) connection');
+    }
+    return crypto.subtle;
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await requireSubtleCrypto().digest('SHA-256', new TextEncoder().encode(text));
+    return toHex(new Uint8Array(digest));
+};
+
+const hmacSha256Hex = async (key: string, text: string): Promise<string> => {
+    const subtle = requireSubtleCrypto();
+    const encoder = new TextEncoder();
+    const cryptoKey = await subtle.importKey('raw', encoder.encode(key), {name: 'HMAC', hash: 'SHA-256'}, false, ['sign']);
+    return toHex(new Uint8Array(await subtle.sign('HMAC', cryptoKey, encoder.encode(text))));
+};
+
+const pbkdf2Hex = async (passcode: string, salt: string, iterations: number): Promise<string> => {
+    const subtle = requireSubtleCrypto();
+    const encoder = new TextEncoder();
+    const key = await subtle.importKey('raw', encoder.encode(passcode), 'PBKDF2', false, ['deriveBits']);
+    const bits = await subtle.deriveBits({name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations}, key, 256);
+    return toHex(new Uint8Array(bits));
+};
+
+export const hashPasscode = async (passcode: string): Promise<string> => {
+    const salt = randomHex(16);
+    return `${HASH_SCHEME}$${PBKDF2_ITERATIONS}$${salt}$${await pbkdf2Hex(passcode.trim(), salt, PBKDF2_ITERATIONS)}`;
+};
+
+export const verifyPasscode = async (passcode: string, storedHash: string | null | undefined): Promise<boolean> => {
+    const parts = (storedHash || '').split('$');
+    if (parts[0] === LEGACY_HASH_SCHEME && parts.length === 3 && parts[1] && parts[2]) {
+        return await sha256Hex(parts[1] + passcode.trim()) === parts[2];
+    }
+    const [scheme, iterations, salt, digest] = parts;
+    if (scheme !== HASH_SCHEME || !/^\d+$/.test(iterations || '') || !salt || !digest) return false;
+    return await pbkdf2Hex(passcode.trim(), salt, Number(iterations)) === digest;
+};
+
+// A hash verifyPasscode still accepts but that should be replaced with a current one
+export const isLegacyPasscodeHash = (storedHash: string | null | undefined): boolean =>
+    (storedHash || '').startsWith(`${LEGACY_HASH_SCHEME}$`);
+
+export const createAccessToken = (): string => randomHex(32);
+
+export const hashAccessToken = (token: string): Promise<string> => sha256Hex(token);
+
+export const createRejoinCode = (): string => {
+    const bytes = new Uint8Array(REJOIN_CODE_LENGTH);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => REJOIN_CODE_ALPHABET[byte % REJOIN_CODE_ALPHABET.length]).join('');
+};
+
+// Codes are typed on phones: ignore case, spaces and dashes
+export const normalizeRejoinCode = (code: string): string => code.toUpperCase().replace(/[\s-]/g, '');
+
+export const hashRejoinCode = (code: string): Promise<string> => sha256Hex(normalizeRejoinCode(code));
+
+export const createJoinKeySecret = (): string => randomHex(32);
+
+export interface TeamJoinTokenParts {
+    teamName: string;
+    expiresAt: number;      // epoch seconds
+    signature: string;
+}
+
+const joinSignature = async (secret: string, sessionId: string, teamName: string, expiresAt: number): Promise<string> =>
+    (await hmacSha256Hex(secret, `${sessionId}:${teamName}:${expiresAt}`)).slice(0, JOIN_SIGNATURE_LENGTH);
+
+export const signTeamJoinToken = async (
+    secret: string,
+    sessionId: string,
+    teamName: string,
+    expiresAtMs: number
+): Promise<string> => {
+    const expiresAt = Math.floor(expiresAtMs / 1000);
+    const nameHex = toHex(new TextEncoder().encode(teamName));
+    return `${expiresAt}.${nameHex}.${await joinSignature(secret, sessionId, teamName, expiresAt)}`;
+};
+
+// null when the token isn't shaped like a join token; says nothing about whether it is valid
+export const parseTeamJoinToken = (token: string): TeamJoinTokenParts | null => {
+    const [expiresAt, nameHex, signature, ...rest] = token.trim().split('.');
+    if (rest.length || !/^\d+$/.test(expiresAt || '') || !/^([0-9a-f]{2})+$/.test(nameHex || '') || !signature) {
+        return null;
+    }
+    try {
+        const bytes = new Uint8Array(nameHex.match(/../g)!.map(pair => parseInt(pair, 16)));
+        const teamName = new TextDecoder('utf-8', {fatal: true}).decode(bytes);
+        return {teamName, expiresAt: Number(expiresAt), signature};
+    } catch {
+        return null;
+    }
+};
+
+export const verifyTeamJoinToken = async (
+    parts: TeamJoinTokenParts,
+    secret: string,
+    sessionId: string
+): Promise<boolean> => {
+    if (parts.expiresAt * 1000 <= Date.now()) return false;
+    return await joinSignature(secret, sessionId, parts.teamName, parts.expiresAt) === parts.signature;
+};
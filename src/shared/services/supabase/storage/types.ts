@@ -0,0 +1,278 @@
+// src/shared/services/supabase/storage/types.ts
+// Storage adapter contract used by the `db` services.
+//
+// Services keep their PostgREST-style query chains (from → select/eq/order → single) and run them
+// through whichever adapter is active, so withRetry and the circuit breaker sit on top unchanged.
+
+import type {
+    ConsequenceApplication,
+    ContentPack,
+    DoubleDownResult,
+    DoubleDownRollClaim,
+    GameSession,
+    HelpRequest,
+    KpiLedgerEntry,
+    KpiOverride,
+    PayoffApplication,
+    PermanentKpiAdjustment,
+    Team,
+    TeamAccessGrant,
+    TeamDecision,
+    TeamDecisionDraft,
+    TeamDevice,
+    TeamDeviceSession,
+    TeamMessage,
+    TeamMessageRead,
+    TeamRoundData
+} from '@shared/types/database';
+
+export type StorageBackend = 'supabase' | 'local';
+
+// Error code for a missing, unknown or expired team access token (Postgres invalid_authorization_specification)
+export const TEAM_TOKEN_INVALID = '28000';
+
+// Error code for a login that would go over the session's devices-per-team limit (Postgres configuration_limit_exceeded)
+export const TEAM_DEVICE_LIMIT = '53400';
+
+// Error code for a team decision written after its countdown closed (Postgres object_not_in_prerequisite_state)
+export const DECISION_WINDOW_CLOSED = '55000';
+
+// A submission already in flight when the countdown reaches zero is still accepted for this long
+export const DECISION_WINDOW_GRACE_MS = 2000;
+
+// Error code for a team decision the session's submission mode doesn't allow from this device yet (PostgREST
+// answers it with HTTP 403)
+export const TEAM_SUBMISSION_NOT_ALLOWED = 'PT403';
+
+// Error code for a passcode login while the team is locked out after too many wrong passcodes (PostgREST answers
+// it with HTTP 429)
+export const TEAM_LOGIN_LOCKED = 'PT429';
+
+// Wrong passcodes in a row that lock a team's passcode login, and for how long
+export const TEAM_LOGIN_MAX_ATTEMPTS = 5;
+export const TEAM_LOGIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+// A logged-in device that hasn't checked in for this long counts as gone (team devices check in every 2 minutes)
+export const TEAM_DEVICE_ONLINE_MS = 5 * 60 * 1000;
+
+// Error code for a dice roll or re-roll by anyone but the session's host (Postgres insufficient_privilege)
+export const HOST_ONLY = '42501';
+
+// Error code for dice that aren't 1-6, a re-roll without a reason, or a re-roll before the first roll (Postgres
+// invalid_parameter_value)
+export const DICE_ROLL_INVALID = '22023';
+
+// A team as stored, with the credential columns that never leave the backend
+export interface TeamRow extends Team {
+    passcode_hash: string | null;
+    passcode?: string | null;               // saved before passcodes were hashed (local backend only)
+    failed_login_attempts?: number;
+    locked_until?: string | null;
+}
+
+export interface TeamAccessTokenRow extends TeamDeviceSession {
+    token_hash: string;
+}
+
+export interface TeamRejoinCodeRow {
+    id: string;
+    session_id: string;
+    team_id: string;
+    code_hash: string;
+    expires_at: string;
+    used_at: string | null;
+    used_by_device_id: string | null;
+    created_at: string;
+}
+
+export interface TeamJoinKeyRow {
+    id: string;
+    session_id: string;
+    team_name: string;
+    secret: string;
+    rotated_at: string | null;
+    created_at: string;
+}
+
+// Row type of every table the services query, so `from(table)` chains are typed by the table they read
+export interface TableRows {
+    sessions: GameSession;
+    teams: TeamRow;
+    team_decisions: TeamDecision;
+    team_round_data: TeamRoundData;
+    permanent_kpi_adjustments: PermanentKpiAdjustment;
+    payoff_applications: PayoffApplication;
+    consequence_applications: ConsequenceApplication;
+    double_down_results: DoubleDownResult;
+    content_packs: ContentPack;
+    kpi_ledger: KpiLedgerEntry;
+    kpi_overrides: KpiOverride;
+    team_messages: TeamMessage;
+    team_message_reads: TeamMessageRead;
+    help_requests: HelpRequest;
+    team_decision_drafts: TeamDecisionDraft;
+    team_access_tokens: TeamAccessTokenRow;
+    team_rejoin_codes: TeamRejoinCodeRow;
+    team_join_keys: TeamJoinKeyRow;
+}
+
+export type TableName = keyof TableRows;
+
+export const STORAGE_TABLES: TableName[] = [
+    'sessions',
+    'teams',
+    'team_decisions',
+    'team_round_data',
+    'permanent_kpi_adjustments',
+    'payoff_applications',
+    'consequence_applications',
+    'double_down_results',
+    'content_packs',
+    'kpi_ledger',
+    'kpi_overrides',
+    'team_messages',
+    'team_message_reads',
+    'help_requests',
+    'team_decision_drafts',
+    'team_access_tokens',
+    'team_rejoin_codes',
+    'team_join_keys',
+];
+
+// Mirrors the PostgrestError shape so existing `error.code === 'PGRST116'` checks keep working
+export interface StorageError {
+    message: string;
+    code?: string;
+    details?: string | null;
+    hint?: string | null;
+}
+
+export interface StorageResult<T = unknown> {
+    data: T | null;
+    error: StorageError | null;
+}
+
+export interface UpsertOptions {
+    onConflict?: string;
+    ignoreDuplicates?: boolean;
+}
+
+// A value a filter compares a column against
+export type StorageValue = string | number | boolean | null;
+
+/**
+ * The subset of the PostgREST query builder the services rely on, typed by the table's row.
+ * Every method returns the builder so chains read exactly like the Supabase client. `select` takes the
+ * shape of the rows it returns when that isn't the table's row, e.g. a column list or an embedded table.
+ */
+export interface StorageQuery<Row, Result = Row[]> extends PromiseLike<StorageResult<Result>> {
+    select<Selected = Row>(columns?: string): StorageQuery<Selected>;
+    insert(values: Partial<Row> | Partial<Row>[]): StorageQuery<Row, Result>;
+    update(values: Partial<Row>): StorageQuery<Row, Result>;
+    upsert(values: Partial<Row> | Partial<Row>[], options?: UpsertOptions): StorageQuery<Row, Result>;
+    delete(): StorageQuery<Row, Result>;
+    eq(column: string, value: StorageValue): StorageQuery<Row, Result>;
+    neq(column: string, value: StorageValue): StorageQuery<Row, Result>;
+    like(column: string, pattern: string): StorageQuery<Row, Result>;
+    in(column: string, values: StorageValue[]): StorageQuery<Row, Result>;
+    is(column: string, value: null | boolean): StorageQuery<Row, Result>;
+    not(column: string, operator: string, value: StorageValue): StorageQuery<Row, Result>;
+    order(column: string, options?: { ascending?: boolean }): StorageQuery<Row, Result>;
+    limit(count: number): StorageQuery<Row, Result>;
+    single(): StorageQuery<Row, Row>;
+    maybeSingle(): StorageQuery<Row, Row | null>;
+}
+
+export type StorageChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// Same payload shape as Supabase postgres_changes so realtime callbacks don't care about the backend
+export interface StorageChangePayload {
+    eventType: StorageChangeEvent;
+    table: TableName;
+    new: Record<string, unknown>;
+    old: Record<string, unknown>;
+}
+
+export interface StorageAdapter {
+    readonly backend: StorageBackend;
+
+    from<T extends TableName>(table: T): StorageQuery<TableRows[T]>;
+
+    /**
+     * Current time on the backend (epoch ms), used to correct device clock skew for shared countdowns.
+     */
+    getServerTime(): Promise<number>;
+
+    /**
+     * Team login: checks the passcode against the team's stored hash and opens a device session with a
+     * team-scoped access token. `data` is null when the passcode or team doesn't match. A device logging in
+     * again replaces its previous session; a new device over the session's devices-per-team limit fails
+     * with TEAM_DEVICE_LIMIT. TEAM_LOGIN_MAX_ATTEMPTS wrong passcodes in a row lock the team's passcode login
+     * for TEAM_LOGIN_LOCKOUT_MS, during which every attempt fails with TEAM_LOGIN_LOCKED.
+     */
+    verifyTeamLogin(sessionId: string, teamId: string, passcode: string, device: TeamDevice): Promise<StorageResult<TeamAccessGrant | null>>;
+
+    /**
+     * Log a device in with a one-time rejoin code the host issued, without the passcode or the device limit.
+     * `data` is null when the code is unknown, used or expired.
+     */
+    redeemRejoinCode(sessionId: string, code: string, device: TeamDevice): Promise<StorageResult<TeamAccessGrant | null>>;
+
+    /**
+     * Log a device in from a team's QR join token (see teamCredentials.ts). Counts against the device limit
+     * like a passcode login. `data` is null when the token is malformed, expired or signed with a key the
+     * host has since rotated.
+     */
+    redeemTeamJoinToken(sessionId: string, token: string, device: TeamDevice): Promise<StorageResult<TeamAccessGrant | null>>;
+
+    /**
+     * Pick a saved login back up after a reload, marking the device as seen. `data` is null when the token
+     * has expired or the host revoked the device.
+     */
+    resumeTeamSession(token: string): Promise<StorageResult<TeamAccessGrant | null>>;
+
+    /**
+     * Host only: set a team's passcode, hashed by the backend (clients never see or send a hash), clear any
+     * lockout and revoke every device session the team has open, in one step, so nobody stays logged in on the
+     * old passcode.
+     */
+    setTeamPasscode(teamId: string, passcode: string): Promise<StorageResult<null>>;
+
+    /**
+     * Make the token's device its team's captain, if the team has none or its captain's device has gone
+     * offline (see TEAM_DEVICE_ONLINE_MS). `data` is the team's captain device id afterwards, so it differs
+     * from the token's device when the claim was refused.
+     */
+    claimTeamCaptain(token: string): Promise<StorageResult<string | null>>;
+
+    /**
+     * Insert a team_decisions row as the team the token was issued to. The row's session and team come from
+     * the token, never from the values; an unknown, expired or revoked token fails with TEAM_TOKEN_INVALID.
+     * Unless it's an immediate purchase, the session's submission mode is enforced: only the captain's device
+     * in 'captain' mode, and in 'all_confirm' mode only once every online device of the team has confirmed the
+     * phase's draft. Either refusal fails with TEAM_SUBMISSION_NOT_ALLOWED.
+     */
+    submitTeamDecision(token: string, decision: Partial<TeamDecision>): Promise<StorageResult<TeamDecision | null>>;
+
+    /**
+     * Host only: roll an investment's double down dice on the backend. The seed and rolled_at come from the
+     * server, and the affected teams from the session's double down decisions. Pass the facilitator's dice for a
+     * physical roll or null for a digital one. Only the first roll for an investment counts; later calls get it
+     * back with `created: false`. Anyone but the session's host fails with HOST_ONLY, bad dice with
+     * DICE_ROLL_INVALID.
+     */
+    rollDoubleDownDice(sessionId: string, investmentId: string, dice: [number, number] | null): Promise<StorageResult<DoubleDownRollClaim | null>>;
+
+    /**
+     * Host only: replace an investment's roll the same way, appending the replaced roll and the reason to the
+     * re-roll log. Anyone but the session's host fails with HOST_ONLY; a blank reason, bad dice or a missing
+     * first roll fail with DICE_ROLL_INVALID.
+     */
+    rerollDoubleDownDice(sessionId: string, investmentId: string, dice: [number, number] | null, reason: string): Promise<StorageResult<DoubleDownResult | null>>;
+
+    /**
+     * Local change feed. Only adapters without their own realtime transport implement this;
+     * the Supabase adapter relies on postgres_changes channels instead.
+     */
+    subscribe?(table: TableName, listener: (payload: StorageChangePayload) => void): () => void;
+}
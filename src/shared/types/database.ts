@@ -1,4 +1,7 @@
 // src/shared/types/database.ts
+import type {ContentPackContent} from './game';
+import type {DecisionTimerState} from './sync';
+
 export interface PermanentKpiAdjustment {
     id: string;
     session_id: string;
@@ -14,6 +17,117 @@ export interface PermanentKpiAdjustment {
     option_id: string;     // 'A', 'B', 'C', 'D'
 }
 
+export type KpiLedgerSource = 'challenge' | 'investment_payoff' | 'continuation' | 'double_down' | 'reset' | 'manual_override';
+export type KpiLedgerKpi = 'capacity' | 'orders' | 'cost' | 'asp';
+
+// Append-only record of every change to a team's current KPIs (kpi_ledger table)
+export interface KpiLedgerEntry {
+    id: string;
+    session_id: string;
+    team_id: string;
+    round_number: 1 | 2 | 3;
+    kpi: KpiLedgerKpi;
+    old_value: number;
+    new_value: number;
+    source: KpiLedgerSource;
+    source_id: string | null;   // challenge id ('ch4') or investment phase ('rd2-invest')
+    option_id: string | null;   // challenge option or investment letter(s)
+    slide_id: number | null;
+    description: string;
+    created_at: string;
+}
+
+export type KpiLedgerEntryInsert = Omit<KpiLedgerEntry, 'id' | 'created_at'>;
+
+// Host correction to a team's KPIs (kpi_overrides table). 'immediate' changes the round's current values,
+// 'round_start' is stored as a permanent adjustment applied when the round starts.
+export type KpiOverrideTiming = 'immediate' | 'round_start';
+
+export interface KpiOverride {
+    id: string;
+    session_id: string;
+    team_id: string;
+    round_number: 1 | 2 | 3;
+    kpi: KpiLedgerKpi;
+    change_value: number;
+    timing: KpiOverrideTiming;
+    reason: string;
+    undone_at: string | null;
+    created_at: string;
+}
+
+export type KpiOverrideInsert = Omit<KpiOverride, 'id' | 'created_at' | 'undone_at'>;
+
+// Host message to teams (team_messages table). team_id null means it was broadcast to every team.
+export interface TeamMessage {
+    id: string;
+    session_id: string;
+    team_id: string | null;
+    body: string;
+    created_at: string;
+}
+
+export type TeamMessageInsert = Omit<TeamMessage, 'id' | 'created_at'>;
+
+// A team acknowledging a host message (team_message_reads table), one row per message per team
+export interface TeamMessageRead {
+    id: string;
+    session_id: string;
+    message_id: string;
+    team_id: string;
+    read_at: string;
+}
+
+export type TeamMessageReadInsert = Omit<TeamMessageRead, 'id' | 'read_at'>;
+
+// Team asking the facilitator for help (help_requests table). The host claims it, then resolves it.
+export type HelpRequestStatus = 'open' | 'claimed' | 'resolved';
+
+export interface HelpRequest {
+    id: string;
+    session_id: string;
+    team_id: string;
+    message: string | null;
+    status: HelpRequestStatus;
+    created_at: string;
+    claimed_at: string | null;
+    resolved_at: string | null;
+}
+
+export type HelpRequestInsert = Pick<HelpRequest, 'session_id' | 'team_id' | 'message'>;
+
+// The selections a team is working on, shared between the team's devices before anyone submits
+export interface TeamDraftSelections {
+    selectedInvestmentOptions: string[];
+    spentBudget: number;
+    immediatePurchases: string[];
+    selectedChallengeOptionId: string | null;
+    sacrificeInvestmentId: string | null;
+    doubleDownOnInvestmentId: string | null;
+}
+
+export interface TeamDraftChange {
+    device_id: string;
+    device_name: string;
+    description: string;    // e.g. "added B", "picked option C"
+    at: string;
+}
+
+// Shared decision draft (team_decision_drafts table), one per team per decision phase
+export interface TeamDecisionDraft {
+    id: string;
+    session_id: string;
+    team_id: string;
+    phase_id: string;
+    selections: TeamDraftSelections;
+    changes: TeamDraftChange[];             // newest last, trimmed
+    confirmed_device_ids: string[];         // cleared whenever the selections change
+    submitted_at: string | null;            // set by the device that submitted, so teammates refresh
+    updated_at: string;
+}
+
+export type TeamDecisionDraftUpsert = Omit<TeamDecisionDraft, 'id' | 'updated_at'>;
+
 export interface TeamRoundData {
     id: string;
     session_id: string;
@@ -45,20 +159,92 @@ export interface GameSession {
     host_notes: Record<string, string>;
     status: 'draft' | 'active' | 'completed';
     wizard_state: Record<string, any> | null;
+    content_pack_id?: string | null; // custom content layered over game_version, see content_packs
+    content_pack_snapshot?: ContentPackSnapshot | null; // the pack as it was when the game was created
+    decision_timer?: DecisionTimerState | null; // countdown for the current interactive slide
+    team_submission_mode?: TeamSubmissionMode; // who on a team may submit; missing means 'anyone'
+    max_devices_per_team?: number | null;       // concurrent logged-in devices per team; null means no limit
     created_at: string;
     updated_at: string;
 }
 
+// How a team with several devices submits its shared draft
+export type TeamSubmissionMode = 'anyone' | 'captain' | 'all_confirm';
+
 export type GameSessionInsert = Omit<GameSession, 'id' | 'created_at' | 'updated_at'>;
 
+export interface ContentPack {
+    id: string;
+    host_id: string;
+    name: string;
+    base_version: string;
+    content: ContentPackContent;
+    created_at: string;
+    updated_at: string;
+}
+
+export type ContentPackInsert = Omit<ContentPack, 'id' | 'created_at' | 'updated_at'>;
+
+// Copied onto the session when a game is created, so later edits to (or deletion of) the pack don't change the
+// rules of a game that is running or finished
+export interface ContentPackSnapshot {
+    pack_id: string;
+    name: string;
+    content: ContentPackContent;
+    updated_at: string;     // the pack version that was copied
+}
+
+// The passcode is only stored hashed (teams.passcode_hash) and never leaves the database
 export interface Team {
     id: string;
     session_id: string;
     name: string;
-    passcode: string;
+    captain_device_id?: string | null;  // the device that submits in 'captain' mode, for the whole game
     created_at: string;
 }
 
+// What a successful team login returns: the team and a short-lived token scoped to it, required for the
+// team's decision writes
+export interface TeamAccessGrant {
+    team: Team;
+    token: string;
+    expires_at: string;
+    device_session_id: string;  // the team_access_tokens row, so the device can tell when the host revokes it
+}
+
+// The device a team logs in from, recorded on its device session
+export interface TeamDevice {
+    id: string;
+    name: string;
+}
+
+// A logged-in team device as the host sees it (the token itself is only ever stored hashed)
+export interface TeamDeviceSession {
+    id: string;
+    session_id: string;
+    team_id: string;
+    device_id: string | null;
+    device_name: string | null;
+    created_at: string;
+    last_seen_at: string | null;
+    expires_at: string;
+    revoked_at: string | null;
+}
+
+// A one-time code the host gives a team to log a new device in without the passcode
+export interface TeamRejoinCode {
+    team_id: string;
+    code: string;
+    expires_at: string;
+}
+
+// A signed, expiring token for a team's QR code; scanning it logs the device in to that team
+export interface TeamJoinToken {
+    team_name: string;
+    token: string;
+    expires_at: string;
+}
+
 export interface TeamDecision {
     id: string;
     session_id: string;
@@ -69,6 +255,7 @@ export interface TeamDecision {
     selected_challenge_option_id: string | null;
     double_down_sacrifice_id: string | null;
     double_down_on_id: string | null;
+    rationale: string | null;           // team's optional explanation of the choice, for debrief
     total_spent_budget: number;
     submitted_at: string;
     is_immediate_purchase: boolean;
@@ -76,4 +263,89 @@ export interface TeamDecision {
     immediate_purchase_data: any | null;
     report_given: boolean;
     report_given_at: string | null;
-}
\ No newline at end of file
+}
+
+// digital: dice derived from a recorded seed, so anyone can re-derive them; physical: typed in by the host
+export type DoubleDownRollMode = 'digital' | 'physical';
+
+// A roll that a host re-roll replaced, kept with the reason given
+export interface DoubleDownReroll {
+    dice1_value: number;
+    dice2_value: number;
+    boost_percentage: number;
+    roll_mode: DoubleDownRollMode;
+    seed: string | null;
+    rolled_at: string;
+    replaced_at: string;
+    reason: string;
+}
+
+// One double down dice roll per investment per session
+export interface DoubleDownResult {
+    id: string;
+    session_id: string;
+    investment_id: string;
+    dice1_value: number;
+    dice2_value: number;
+    total_value: number;
+    boost_percentage: number;
+    affected_teams: string[];
+    roll_mode: DoubleDownRollMode;
+    seed: string | null;
+    rolled_at: string;
+    rerolls: DoubleDownReroll[];        // oldest first
+    created_at: string;
+}
+
+// A team's double down choice with the team's name, as the double down queries return it
+export interface DoubleDownTeamChoice {
+    team_id: string;
+    double_down_on_id: string | null;
+    teams: { name: string };
+}
+
+export interface DoubleDownRollClaim {
+    result: DoubleDownResult;
+    created: boolean;           // false when another display had already rolled this investment
+}
+
+// Records that an investment payoff was applied to a team, so replaying a slide doesn't apply it twice
+export interface PayoffApplication {
+    id: string;
+    session_id: string;
+    team_id: string;
+    investment_id: string;
+    investment_phase_id: string;
+    option_id: string;
+    slide_id: number;  // Changed to number to match schema
+    applied_at: string;
+    created_at: string;
+}
+
+export interface PayoffApplicationInsert {
+    session_id: string;
+    team_id: string;
+    investment_phase_id: string;
+    option_id: string;
+    slide_id: number;
+}
+
+// Records that a challenge consequence was applied to a team, so replaying a slide doesn't apply it twice
+export interface ConsequenceApplication {
+    id: string;
+    session_id: string;
+    team_id: string;
+    challenge_id: string;
+    option_id: string;
+    slide_id: number;
+    applied_at: string;
+    created_at: string;
+}
+
+export interface ConsequenceApplicationInsert {
+    session_id: string;
+    team_id: string;
+    challenge_id: string;
+    option_id: string;
+    slide_id: number;
+}
@@ -35,6 +35,10 @@ export interface DoubleDownChoice {
 
 export type KpiKey = 'capacity' | 'orders' | 'cost' | 'asp' | 'revenue' | 'net_margin' | 'net_income';
 
+// Derived metrics, all defined by core/game/FinancialMetrics
+export type FinancialMetricKey = 'revenue' | 'net_income' | 'net_margin' | 'cost_per_board' | 'units_sold' | 'unmet_demand';
+export type MetricKey = KpiKey | FinancialMetricKey;
+
 export interface KpiEffect {
     kpi: KpiKey;
     change_value: number;
@@ -75,7 +79,36 @@ export type SlideType =
     | 'interactive_double_down_select'      // Double Down Select slide
     | 'double_down_dice_roll'               // Double Down Dice Roll Slides
     | 'kpi_reset'                           // Reset KPI slides after Rounds 1 and 2
-    | 'leaderboard_chart';                  // Leaderboard slides at end of rounds
+    | 'leaderboard_chart'                   // Leaderboard slides at end of rounds
+    | 'debrief';                            // Post-game debrief, generated from session data
+
+// Which part of the post-game debrief a debrief slide shows
+export type DebriefSection =
+    | 'kpi_trends'                          // financial KPIs per team across the rounds
+    | 'operational_trends'                  // capacity, orders, cost and ASP per team across the rounds
+    | 'choice_distribution'                 // class-wide picks for one challenge
+    | 'swing_moments'                       // biggest single KPI changes of the game
+    | 'double_down_outcomes';               // dice results and who doubled down on what
+
+export interface DebriefSpec {
+    section: DebriefSection;
+    challenge_key?: string;                 // choice_distribution only
+    heading?: string;
+}
+
+// What a leaderboard_chart slide ranks and how it is shown
+export interface LeaderboardSpec {
+    round: 1 | 2 | 3;                       // round whose KPIs are ranked
+    metric: MetricKey;
+    label: string;
+    secondary_metric?: MetricKey;           // second bar per team, dual_bar layout only
+    secondary_label?: string;
+    sort: 'desc' | 'asc';                   // desc: highest value ranks first
+    layout: 'single_bar' | 'dual_bar';
+    reveal: 'cascade' | 'countdown';        // countdown: last place first, one team per second
+    anonymize_teams?: boolean;              // show "Team A", "Team B"... in rank order
+    heading?: string;                       // defaults to "Round N"
+}
 
 export interface Slide {
     id: number;
@@ -95,6 +128,8 @@ export interface Slide {
         message: string;
     };
     details?: string[];
+    leaderboard?: LeaderboardSpec;          // leaderboard_chart slides
+    debrief?: DebriefSpec;                  // debrief slides
 }
 
 export interface GameStructure {
@@ -107,8 +142,87 @@ export interface GameStructure {
     investment_phase_budgets: Record<string, number>;
     all_consequences: Record<string, Consequence[]>;
     all_investment_payoffs: Record<string, InvestmentPayoff[]>;
+    challenge_registry: Record<string, ChallengeMetadata>;
+    continuation_pricing: ContinuationPricingTables;
+    round_budgets: Record<number, number>;
+    conditional_rules: ConditionalRule[];
 }
 
+// Stored on sessions.game_version. Only versions with their own GameStructure belong here; 1.5 has none yet
+// (see UNAVAILABLE_GAME_VERSIONS in GameVariants.ts).
+export type GameVersion = '2.0_dd';
+
+// The parts of a GameStructure a host can author in the content editor; everything else comes from the base variant
+export type ContentPackContent = Pick<
+    GameStructure,
+    'slides' | 'all_challenge_options' | 'all_consequences' | 'all_investment_payoffs'
+>;
+
+// Continuation pricing for one investment in one round (RD-2 or RD-3)
+export interface ContinuationPricingEntry {
+    freshPrice: number | null;
+    continuationPrice: number | null; // null = N/A as a continuation
+    requiresPrevious: boolean; // true = only purchasable as a continuation
+    name: string;
+    notAvailable?: boolean;
+}
+
+export type ContinuationPricingTables = Record<'rd2' | 'rd3', Record<string, ContinuationPricingEntry>>;
+
+// ============================================================================
+// Conditional rules: "if a team chose X in phase Y, then ..."
+// ============================================================================
+
+export type RuleCondition =
+    | { type: 'investment'; phase: string; option: string }   // option in selected_investment_options for phase (e.g. 'rd2-invest')
+    | { type: 'challenge'; phase: string; option: string }    // selected_challenge_option_id for phase (e.g. 'ch1')
+    | { type: 'all'; conditions: RuleCondition[] }
+    | { type: 'any'; conditions: RuleCondition[] };
+
+// Team is spared a challenge's consequences; `${challengeId}-immunity` consequences apply instead, if any
+export interface ImmunityRule {
+    kind: 'immunity';
+    id: string;
+    challengeId: string;
+    when: RuleCondition;
+    message: string;
+}
+
+// Team must pick a specific option on a challenge
+export interface ForcedSelectionRule {
+    kind: 'forced_selection';
+    id: string;
+    challengeId: string;
+    when: RuleCondition;
+    forcedOption: string;
+    reason: string;
+}
+
+// Replaces one KPI effect of a consequence depending on whether the condition holds
+export interface EffectOverrideRule {
+    kind: 'effect_override';
+    id: string;
+    challengeId: string;
+    options: string[];                      // team selections the override applies to, e.g. ['A', 'A,C']
+    timing: KpiEffect['timing'];            // which of the consequence's effects to rewrite
+    kpi: KpiKey;
+    descriptionMatch?: string;              // only rewrite effects whose description contains this
+    when: RuleCondition;
+    then: { change_value: number; description: string };
+    otherwise: { change_value: number; description: string };
+}
+
+// Extra effects granted on a bonus slide to teams meeting the condition
+export interface BonusRule {
+    kind: 'bonus';
+    id: string;
+    slideId: number;
+    when: RuleCondition;
+    effects: KpiEffect[];
+}
+
+export type ConditionalRule = ImmunityRule | ForcedSelectionRule | EffectOverrideRule | BonusRule;
+
 // NEW: Challenge Metadata Registry
 export interface ChallengeMetadata {
     id: string;
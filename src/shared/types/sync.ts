@@ -16,3 +16,29 @@ export interface HostBroadcastPayload {
     decisionOptionsKey?: string;
     decisionPhaseTimerEndTime?: number;
 }
+
+// Decision countdown. Times are server epoch ms so every device counts down to the same instant.
+export type DecisionTimerStatus = 'running' | 'paused' | 'expired' | 'ended';
+
+// What happens to teams that have not submitted when the countdown reaches zero
+export type DecisionTimerExpiryAction = 'auto_submit' | 'lock';
+
+export interface DecisionTimerState {
+    slideId: number;
+    decisionKey: string;
+    status: DecisionTimerStatus;
+    durationSeconds: number;        // total including extensions
+    endsAt: number | null;          // set while running
+    remainingMs: number;            // frozen value while paused, 0 once expired/ended
+    expiryAction: DecisionTimerExpiryAction;
+    updatedAt: number;
+}
+
+// What each logged-in team device publishes through Realtime presence on the team-events channel
+export interface TeamPresence {
+    team_id: string;
+    device_id: string;
+    device_name: string;
+    app_version: string;
+    online_at: string;
+}
@@ -2,7 +2,8 @@
 // These types are primarily used in UI components, forms, or wizard steps
 
 // Use 'import type' for type-only imports
-// Currently using direct literal string types for game_version, so 'GameVersion' not needed yet.
+import type {GameVersion} from './game';
+import type {TeamSubmissionMode} from './database';
 
 export interface TeamConfig {
     name: string;
@@ -10,7 +11,10 @@ export interface TeamConfig {
 }
 
 export interface NewGameData {
-    game_version: '2.0_dd' | '1.5_dd'; // Direct literal type as seen in GameStructure.ts
+    game_version: GameVersion;
+    content_pack_id?: string | null;
+    team_submission_mode?: TeamSubmissionMode;
+    max_devices_per_team?: number | null;
     name: string;
     class_name: string;
     grade_level: string;
@@ -0,0 +1,4 @@
+// src/shared/utils/export/index.ts
+export * from './tables';
+export * from './zip';
+export * from './xlsx';
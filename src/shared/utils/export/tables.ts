@@ -0,0 +1,33 @@
+// src/shared/utils/export/tables.ts
+// Plain tabular data shared by the CSV and spreadsheet exports
+
+export type TableCell = string | number | boolean | null | undefined;
+
+export interface ExportTable {
+    name: string;               // file / sheet name
+    columns: string[];
+    rows: TableCell[][];
+}
+
+const csvCell = (value: TableCell): string => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const tableToCsv = (table: ExportTable): string =>
+    [table.columns, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Start a browser download for in-memory content
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], {type: mimeType}));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
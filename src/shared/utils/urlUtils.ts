@@ -25,3 +25,18 @@ export const generateTeamJoinUrl = async (sessionId: string | null, useShortUrl:
     }
     return longUrl;
 };
+
+// Query parameter the team app reads a QR join token from
+export const TEAM_JOIN_TOKEN_PARAM = 'join';
+
+/**
+ * Generates a team's QR code URL, which logs the scanning device straight in to that team.
+ * Never shortened: the token would be handed to the shortening service.
+ * @param sessionId The ID of the game session.
+ * @param token The team's signed join token.
+ * @returns The full URL.
+ */
+export const getTeamQuickJoinUrl = (sessionId: string, token: string): string => {
+    if (!sessionId) return '';
+    return `${getTeamJoinLongUrl(sessionId)}?${TEAM_JOIN_TOKEN_PARAM}=${encodeURIComponent(token)}`;
+};
@@ -1,5 +1,5 @@
 // src/views/host/HostApp.tsx - REFACTOR: Final, stable layout fix
-import React, {useEffect, useState} from 'react';
+import React, {useEffect, useRef, useState} from 'react';
 import GamePanel from '@views/host/components/GamePanel';
 import {useGameContext} from '@app/providers/GameProvider';
 import {AlertCircle, ChevronLeft, ChevronRight} from 'lucide-react';
@@ -17,11 +17,19 @@ const HostApp: React.FC = () => {
         nextSlide,
         setCurrentHostAlertState,
         permanentAdjustments,
+        debrief,
     } = useGameContext();
 
     const {currentSessionId, gameStructure, current_slide_index} = state;
 
     const [previousSlideData, setPreviousSlideData] = useState<Slide | null>(null);
+    const currentSlideDataRef = useRef(currentSlideData);
+    currentSlideDataRef.current = currentSlideData;
+
+    // While the debrief runs, its slide is what the host previews and the display shows
+    const displayedSlide = debrief.currentSlide ?? currentSlideData;
+    const isDebriefActiveRef = useRef(debrief.isActive);
+    isDebriefActiveRef.current = debrief.isActive;
 
     useEffect(() => {
         document.title = "Ready or Not - Host";
@@ -51,9 +59,11 @@ const HostApp: React.FC = () => {
         // Exit early if no current slide
         if (!currentSlideData) return;
 
-        // ✅ EXISTING: Broadcast to presentation display (unchanged)
-        const broadcastManager = SimpleBroadcastManager.getInstance(currentSessionId, 'host');
-        broadcastManager.sendSlideUpdate(currentSlideData);
+        // ✅ EXISTING: Broadcast to presentation display (held back while the debrief is showing)
+        if (!isDebriefActiveRef.current) {
+            const broadcastManager = SimpleBroadcastManager.getInstance(currentSessionId, 'host');
+            broadcastManager.sendSlideUpdate(currentSlideData);
+        }
 
         // ✅ EXISTING: Broadcast to teams if slide is relevant
         const isInteractiveSlide = currentSlideData.interactive_data_key &&
@@ -64,9 +74,44 @@ const HostApp: React.FC = () => {
         }
     }, [currentSessionId, currentSlideData]);
 
+    // Debrief slides go to the display like game slides; leaving the debrief puts the game slide back
+    useEffect(() => {
+        if (!currentSessionId || currentSessionId === 'new') return;
+        const slide = debrief.currentSlide ?? currentSlideDataRef.current;
+        if (slide) {
+            SimpleBroadcastManager.getInstance(currentSessionId, 'host').sendSlideUpdate(slide);
+        }
+    }, [currentSessionId, debrief.currentSlide]);
+
     const isFirstSlideOverall = current_slide_index === 0;
     const isLastSlideOverall = current_slide_index === (gameStructure.slides.length - 1);
 
+    // The debrief follows the last slide: "next" from there starts it
+    const canGoNext = debrief.isActive ? !debrief.isLast : (!isLastSlideOverall || debrief.slides.length > 0);
+    const canGoPrevious = debrief.isActive || !isFirstSlideOverall;
+
+    const handleNext = () => {
+        if (debrief.isActive) {
+            debrief.next();
+        } else if (isLastSlideOverall) {
+            debrief.start();
+        } else {
+            nextSlide();
+        }
+    };
+
+    // Stepping back from the first debrief slide returns to the game
+    const handlePrevious = () => {
+        if (debrief.isActive) {
+            if (debrief.isFirst) debrief.exit();
+            else debrief.previous();
+        } else {
+            previousSlide();
+        }
+    };
+    const navigationRef = useRef({handleNext, handlePrevious, canGoNext, canGoPrevious, exitDebrief: debrief.exit});
+    navigationRef.current = {handleNext, handlePrevious, canGoNext, canGoPrevious, exitDebrief: debrief.exit};
+
     useEffect(() => {
         const handleKeyDown = (event: KeyboardEvent) => {
             // Only handle keyboard events when the host app is focused
@@ -77,14 +122,15 @@ const HostApp: React.FC = () => {
                 return;
             }
 
+            const navigation = navigationRef.current;
             switch (event.key) {
                 case ' ':           // Space bar (most common clicker button)
                 case 'Enter':       // Enter key
                 case 'ArrowRight':  // Right arrow key
                 case 'PageDown':    // Page Down key
                     event.preventDefault();
-                    if (!isLastSlideOverall) {
-                        nextSlide();
+                    if (navigation.canGoNext) {
+                        navigation.handleNext();
                     }
                     break;
 
@@ -92,14 +138,14 @@ const HostApp: React.FC = () => {
                 case 'PageUp':      // Page Up key
                 case 'Backspace':   // Backspace key
                     event.preventDefault();
-                    if (!isFirstSlideOverall) {
-                        previousSlide();
+                    if (navigation.canGoPrevious) {
+                        navigation.handlePrevious();
                     }
                     break;
 
-                case 'Escape':      // Escape key (useful for troubleshooting)
+                case 'Escape':      // Escape key leaves the debrief
                     event.preventDefault();
-                    // Could add pause/stop functionality here if needed
+                    navigation.exitDebrief();
                     break;
             }
         };
@@ -110,7 +156,7 @@ const HostApp: React.FC = () => {
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
         };
-    }, [nextSlide, previousSlide, isFirstSlideOverall, isLastSlideOverall]);
+    }, []);
 
     const handleVideoEnd = () => {
         if (!currentSlideData) return;
@@ -265,11 +311,11 @@ const HostApp: React.FC = () => {
                     <div className="flex-grow relative w-full bg-black rounded-t-lg overflow-hidden">
                         <div className="absolute inset-0 flex items-center justify-center">
                             <div className="w-full h-full">
-                                <SlideRenderer slide={currentSlideData} sessionId={currentSessionId} isHost={true}
+                                <SlideRenderer slide={displayedSlide} sessionId={currentSessionId} isHost={true}
                                                onVideoEnd={handleVideoEnd}/>
                             </div>
                         </div>
-                        {currentSlideData && (
+                        {displayedSlide && (
                             <div className="absolute top-3 right-3 z-50 w-48">
                                 <PresentationButton/>
                             </div>
@@ -278,23 +324,28 @@ const HostApp: React.FC = () => {
                     {/* Stable Navigation Area */}
                     <div className="flex-shrink-0 bg-white border-t border-gray-200 p-3 lg:p-4 rounded-b-lg shadow-md">
                         <div className="flex items-center justify-between gap-4">
-                            <button onClick={previousSlide} disabled={isFirstSlideOverall}
+                            <button onClick={handlePrevious} disabled={!canGoPrevious}
                                     className="p-3 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
                                 <ChevronLeft size={24}/>
                             </button>
                             <div className="flex-1 text-center min-w-0">
                                 <div className="text-sm md:text-base font-semibold text-gray-800 truncate">
-                                    {currentSlideData ? `Slide ${currentSlideData.id}: ${currentSlideData.title}` : 'No Slide Selected'}
+                                    {debrief.currentSlide
+                                        ? `Debrief: ${debrief.currentSlide.title}`
+                                        : currentSlideData ? `Slide ${currentSlideData.id}: ${currentSlideData.title}` : 'No Slide Selected'}
                                 </div>
                                 <div className="text-xs md:text-sm text-gray-500">
-                                    {currentSlideData && current_slide_index !== null && (
+                                    {debrief.isActive && (
+                                        <span>({debrief.index + 1} of {debrief.slides.length}) • Esc returns to the game</span>
+                                    )}
+                                    {!debrief.isActive && currentSlideData && current_slide_index !== null && (
                                         <span>({current_slide_index + 1} of {gameStructure.slides.length})</span>
                                     )}
-                                    {currentSlideData?.interactive_data_key &&
+                                    {!debrief.isActive && currentSlideData?.interactive_data_key &&
                                         <span className="ml-2 text-green-600 font-medium">• Interactive</span>}
                                 </div>
                             </div>
-                            <button onClick={nextSlide} disabled={isLastSlideOverall}
+                            <button onClick={handleNext} disabled={!canGoNext}
                                     className="p-3 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
                                 <ChevronRight size={24}/>
                             </button>
@@ -0,0 +1,56 @@
+// src/views/host/components/Analytics/ChoiceFrequencyBars.tsx - Horizontal bars for how often each option was chosen
+import React from 'react';
+import {OptionFrequency} from '@core/game/SessionAnalytics';
+
+interface ChoiceFrequencyBarsProps {
+    options: OptionFrequency[];
+    barClass?: string;
+    highlightExtremes?: boolean;    // mark the most and least chosen options
+}
+
+const ChoiceFrequencyBars: React.FC<ChoiceFrequencyBarsProps> = ({
+                                                                     options,
+                                                                     barClass = 'bg-blue-500',
+                                                                     highlightExtremes = false
+                                                                 }) => {
+    if (options.length === 0) {
+        return <p className="text-sm text-gray-500">No choices recorded.</p>;
+    }
+
+    const counts = options.map(option => option.count);
+    const most = Math.max(...counts);
+    const least = Math.min(...counts);
+
+    return (
+        <div className="space-y-2">
+            {options.map(option => {
+                const tag = highlightExtremes && most !== least
+                    ? option.count === most ? 'Most chosen' : option.count === least ? 'Least chosen' : null
+                    : null;
+                return (
+                    <div key={option.id}>
+                        <div className="flex items-center justify-between gap-3 text-sm mb-0.5">
+                            <span className="text-gray-700 truncate" title={option.name}>
+                                <span className="font-mono font-semibold text-gray-500 mr-2">{option.id}</span>
+                                {option.name}
+                                {tag && (
+                                    <span className={`ml-2 text-xs font-medium ${option.count === most ? 'text-green-600' : 'text-red-500'}`}>
+                                        {tag}
+                                    </span>
+                                )}
+                            </span>
+                            <span className="text-gray-500 whitespace-nowrap">
+                                {option.count} · {(option.share * 100).toFixed(0)}%
+                            </span>
+                        </div>
+                        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div className={`h-full rounded-full ${barClass}`} style={{width: `${option.share * 100}%`}}/>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default ChoiceFrequencyBars;
@@ -0,0 +1,59 @@
+// src/views/host/components/Analytics/NetIncomeDistributionChart.tsx - Histogram of final net income across games
+import React from 'react';
+import {BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer} from 'recharts';
+import {NetIncomeDistribution} from '@core/game/SessionAnalytics';
+
+interface NetIncomeDistributionChartProps {
+    distribution: NetIncomeDistribution;
+}
+
+const formatDollars = (value: number) => `$${value.toLocaleString()}`;
+
+const NetIncomeDistributionChart: React.FC<NetIncomeDistributionChartProps> = ({distribution}) => {
+    if (distribution.count === 0) {
+        return <p className="text-sm text-gray-500">No final results in the selected games.</p>;
+    }
+
+    const stats = [
+        {label: 'Median', value: distribution.median},
+        {label: 'Mean', value: distribution.mean},
+        {label: 'Lowest', value: distribution.min},
+        {label: 'Highest', value: distribution.max},
+    ];
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                {stats.map(stat => (
+                    <div key={stat.label} className="bg-gray-50 rounded-lg p-3">
+                        <p className="text-xs text-gray-500">{stat.label}</p>
+                        <p className={`text-lg font-bold ${stat.value < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                            {formatDollars(stat.value)}
+                        </p>
+                    </div>
+                ))}
+            </div>
+            <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={distribution.buckets} margin={{top: 10, right: 20, left: 0, bottom: 40}}>
+                        <CartesianGrid strokeDasharray="3 3" className="opacity-30"/>
+                        <XAxis dataKey="label" tick={{fontSize: 11}} angle={-30} textAnchor="end" interval={0}/>
+                        <YAxis allowDecimals={false} tick={{fontSize: 12}}/>
+                        <Tooltip
+                            formatter={(value: number) => [`${value} team${value === 1 ? '' : 's'}`, 'Final net income']}
+                            contentStyle={{
+                                backgroundColor: 'white',
+                                border: '1px solid #e5e7eb',
+                                borderRadius: '8px',
+                                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+                            }}
+                        />
+                        <Bar dataKey="count" fill="#EAB308" radius={[4, 4, 0, 0]}/>
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+export default NetIncomeDistributionChart;
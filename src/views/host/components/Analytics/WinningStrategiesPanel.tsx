@@ -0,0 +1,80 @@
+// src/views/host/components/Analytics/WinningStrategiesPanel.tsx - What each game's winning team did differently
+import React from 'react';
+import {WinningStrategyStats} from '@core/game/SessionAnalytics';
+
+interface WinningStrategiesPanelProps {
+    stats: WinningStrategyStats;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const WinningStrategiesPanel: React.FC<WinningStrategiesPanelProps> = ({stats}) => {
+    if (stats.winnerCount === 0) {
+        return <p className="text-sm text-gray-500">No winners in the selected games yet.</p>;
+    }
+
+    // Investments winners favoured, and ones they mostly skipped
+    const favoured = stats.patterns.filter(pattern => pattern.lift > 0).slice(0, 6);
+    const avoided = stats.patterns.filter(pattern => pattern.lift < 0).slice(-4).reverse();
+
+    const patternRow = (pattern: WinningStrategyStats['patterns'][number]) => (
+        <tr key={`${pattern.round}-${pattern.id}`} className="border-t border-gray-100">
+            <td className="py-2 pr-3 text-gray-500">RD-{pattern.round}</td>
+            <td className="py-2 pr-3 text-gray-800">
+                <span className="font-mono font-semibold text-gray-500 mr-2">{pattern.id}</span>{pattern.name}
+            </td>
+            <td className="py-2 pr-3 text-right">{percent(pattern.winnerRate)}</td>
+            <td className="py-2 pr-3 text-right text-gray-500">{percent(pattern.overallRate)}</td>
+            <td className={`py-2 text-right font-semibold ${pattern.lift > 0 ? 'text-green-600' : 'text-red-500'}`}>
+                {pattern.lift > 0 ? '+' : ''}{(pattern.lift * 100).toFixed(0)} pts
+            </td>
+        </tr>
+    );
+
+    return (
+        <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+                Based on the team with the highest final net income in each of {stats.winnerCount} game{stats.winnerCount === 1 ? '' : 's'}.
+            </p>
+
+            <table className="w-full text-sm">
+                <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                    <th className="pb-2 pr-3">Round</th>
+                    <th className="pb-2 pr-3">Investment</th>
+                    <th className="pb-2 pr-3 text-right">Winners</th>
+                    <th className="pb-2 pr-3 text-right">All teams</th>
+                    <th className="pb-2 text-right">Difference</th>
+                </tr>
+                </thead>
+                <tbody>
+                {favoured.map(patternRow)}
+                {avoided.map(patternRow)}
+                </tbody>
+            </table>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {([1, 2, 3] as const).map(round => (
+                    <div key={round} className="bg-gray-50 rounded-lg p-3">
+                        <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Winning RD-{round} portfolios</p>
+                        {stats.combos.filter(combo => combo.round === round).map(combo => (
+                            <p key={combo.ids.join(',') || 'none'} className="text-sm text-gray-800">
+                                <span className="font-mono">{combo.ids.length > 0 ? combo.ids.join(' + ') : 'No investments'}</span>
+                                <span className="text-gray-500"> · {combo.count}×</span>
+                            </p>
+                        ))}
+                    </div>
+                ))}
+            </div>
+
+            {stats.doubleDownPicks.length > 0 && (
+                <p className="text-sm text-gray-700">
+                    <span className="font-semibold">Winners doubled down on: </span>
+                    {stats.doubleDownPicks.map(pick => `${pick.name} (${pick.count})`).join(', ')}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default WinningStrategiesPanel;
@@ -0,0 +1,6 @@
+// src/views/host/components/Analytics/index.ts
+// Re-export cross-session analytics components for cleaner imports in the analytics page
+
+export { default as ChoiceFrequencyBars } from './ChoiceFrequencyBars';
+export { default as NetIncomeDistributionChart } from './NetIncomeDistributionChart';
+export { default as WinningStrategiesPanel } from './WinningStrategiesPanel';
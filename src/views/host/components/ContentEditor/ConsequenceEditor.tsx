@@ -0,0 +1,45 @@
+// src/views/host/components/ContentEditor/ConsequenceEditor.tsx - Narrative and KPI effects per challenge option
+import React from 'react';
+import {Consequence} from '@shared/types';
+import EffectsEditor from './EffectsEditor';
+
+interface ConsequenceEditorProps {
+    consequences: Consequence[];
+    onChange: (index: number, updates: Partial<Consequence>) => void;
+}
+
+const ConsequenceEditor: React.FC<ConsequenceEditorProps> = ({consequences, onChange}) => {
+    if (consequences.length === 0) {
+        return <p className="text-sm text-gray-500">No consequences defined.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {consequences.map((consequence, index) => (
+                <div key={consequence.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-3">
+                        <h4 className="font-semibold text-gray-900">
+                            {consequence.challenge_option_id === 'setup'
+                                ? 'Setup (all teams)'
+                                : `Option ${consequence.challenge_option_id}`}
+                        </h4>
+                        <span className="text-xs font-mono text-gray-400">{consequence.id}</span>
+                    </div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Narrative</label>
+                    <textarea
+                        rows={2}
+                        value={consequence.narrative_text}
+                        onChange={(e) => onChange(index, {narrative_text: e.target.value})}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
+                    />
+                    <EffectsEditor
+                        effects={consequence.effects}
+                        onChange={(effects) => onChange(index, {effects})}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ConsequenceEditor;
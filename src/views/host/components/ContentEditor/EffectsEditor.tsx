@@ -0,0 +1,104 @@
+// src/views/host/components/ContentEditor/EffectsEditor.tsx - Editable table of KpiEffects
+import React from 'react';
+import {Plus, Trash2} from 'lucide-react';
+import {KpiEffect, KpiKey} from '@shared/types';
+
+interface EffectsEditorProps {
+    effects: KpiEffect[];
+    onChange: (effects: KpiEffect[]) => void;
+}
+
+const KPI_OPTIONS: KpiKey[] = ['capacity', 'orders', 'cost', 'asp', 'revenue', 'net_margin', 'net_income'];
+const TIMING_OPTIONS: { value: KpiEffect['timing']; label: string }[] = [
+    {value: 'immediate', label: 'Immediate'},
+    {value: 'permanent_next_round_start', label: 'Permanent (next round start)'},
+    {value: 'end_of_round_adjustment', label: 'End of round'},
+];
+
+const inputClass = "w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const EffectsEditor: React.FC<EffectsEditorProps> = ({effects, onChange}) => {
+    const updateEffect = (index: number, updates: Partial<KpiEffect>) => {
+        onChange(effects.map((effect, i) => i === index ? {...effect, ...updates} : effect));
+    };
+
+    const addEffect = () => {
+        onChange([...effects, {kpi: 'capacity', change_value: 0, timing: 'immediate', description: ''}]);
+    };
+
+    const removeEffect = (index: number) => {
+        onChange(effects.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div className="space-y-2">
+            {effects.length > 0 && (
+                <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase">
+                    <div className="col-span-2">KPI</div>
+                    <div className="col-span-2">Change</div>
+                    <div className="col-span-1 text-center">%</div>
+                    <div className="col-span-3">Timing</div>
+                    <div className="col-span-3">Description</div>
+                    <div className="col-span-1"></div>
+                </div>
+            )}
+            {effects.map((effect, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                        value={effect.kpi}
+                        onChange={(e) => updateEffect(index, {kpi: e.target.value as KpiKey})}
+                        className={`col-span-2 ${inputClass} bg-white`}
+                    >
+                        {KPI_OPTIONS.map(kpi => <option key={kpi} value={kpi}>{kpi}</option>)}
+                    </select>
+                    <input
+                        type="number"
+                        value={Number.isFinite(effect.change_value) ? effect.change_value : ''}
+                        onChange={(e) => updateEffect(index, {change_value: e.target.value === '' ? NaN : Number(e.target.value)})}
+                        className={`col-span-2 ${inputClass}`}
+                    />
+                    <div className="col-span-1 flex justify-center">
+                        <input
+                            type="checkbox"
+                            checked={!!effect.is_percentage_change}
+                            onChange={(e) => updateEffect(index, {is_percentage_change: e.target.checked || undefined})}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                            title="Percentage change"
+                        />
+                    </div>
+                    <select
+                        value={effect.timing}
+                        onChange={(e) => updateEffect(index, {timing: e.target.value as KpiEffect['timing']})}
+                        className={`col-span-3 ${inputClass} bg-white`}
+                    >
+                        {TIMING_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        value={effect.description || ''}
+                        onChange={(e) => updateEffect(index, {description: e.target.value})}
+                        className={`col-span-3 ${inputClass}`}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => removeEffect(index)}
+                        className="col-span-1 flex justify-center text-gray-400 hover:text-red-600"
+                        title="Remove effect"
+                    >
+                        <Trash2 size={16}/>
+                    </button>
+                </div>
+            ))}
+            <button
+                type="button"
+                onClick={addEffect}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+            >
+                <Plus size={14}/>
+                Add effect
+            </button>
+        </div>
+    );
+};
+
+export default EffectsEditor;
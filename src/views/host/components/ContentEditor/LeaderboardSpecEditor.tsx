@@ -0,0 +1,158 @@
+// src/views/host/components/ContentEditor/LeaderboardSpecEditor.tsx - What a leaderboard_chart slide ranks and how
+import React from 'react';
+import {LeaderboardSpec, MetricKey} from '@shared/types';
+import {LEADERBOARD_METRICS} from '@core/content/LeaderboardSpecs';
+
+interface LeaderboardSpecEditorProps {
+    spec: LeaderboardSpec;
+    onChange: (spec: LeaderboardSpec) => void;
+}
+
+const METRIC_KEYS = Object.keys(LEADERBOARD_METRICS) as MetricKey[];
+
+const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+const selectClass = `${inputClass} bg-white`;
+
+const LeaderboardSpecEditor: React.FC<LeaderboardSpecEditorProps> = ({spec, onChange}) => {
+    const update = (updates: Partial<LeaderboardSpec>) => onChange({...spec, ...updates});
+
+    // Picking a metric also picks its usual label and sort order
+    const changeMetric = (metric: MetricKey) => update({
+        metric,
+        label: LEADERBOARD_METRICS[metric].label,
+        sort: LEADERBOARD_METRICS[metric].sort
+    });
+
+    const changeSecondaryMetric = (value: string) => {
+        const metric = value === '' ? undefined : value as MetricKey;
+        update({
+            secondary_metric: metric,
+            secondary_label: metric ? LEADERBOARD_METRICS[metric].label : undefined,
+            layout: metric ? spec.layout : 'single_bar'
+        });
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+            <h3 className="text-sm font-semibold text-gray-900">Leaderboard</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Ranks Round</label>
+                    <select
+                        value={spec.round}
+                        onChange={(e) => update({round: Number(e.target.value) as LeaderboardSpec['round']})}
+                        className={selectClass}
+                    >
+                        <option value={1}>RD-1</option>
+                        <option value={2}>RD-2</option>
+                        <option value={3}>RD-3</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Metric</label>
+                    <select
+                        value={spec.metric}
+                        onChange={(e) => changeMetric(e.target.value as MetricKey)}
+                        className={selectClass}
+                    >
+                        {METRIC_KEYS.map(key => <option key={key} value={key}>{LEADERBOARD_METRICS[key].label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Label</label>
+                    <input
+                        type="text"
+                        value={spec.label}
+                        onChange={(e) => update({label: e.target.value})}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Sort</label>
+                    <select
+                        value={spec.sort}
+                        onChange={(e) => update({sort: e.target.value as LeaderboardSpec['sort']})}
+                        className={selectClass}
+                    >
+                        <option value="desc">Highest first</option>
+                        <option value="asc">Lowest first</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Reveal</label>
+                    <select
+                        value={spec.reveal}
+                        onChange={(e) => update({reveal: e.target.value as LeaderboardSpec['reveal']})}
+                        className={selectClass}
+                    >
+                        <option value="cascade">All teams at once</option>
+                        <option value="countdown">Countdown (last place first)</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Heading</label>
+                    <input
+                        type="text"
+                        value={spec.heading || ''}
+                        onChange={(e) => update({heading: e.target.value === '' ? undefined : e.target.value})}
+                        placeholder={`Round ${spec.round}`}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Second Metric</label>
+                    <select
+                        value={spec.secondary_metric || ''}
+                        onChange={(e) => changeSecondaryMetric(e.target.value)}
+                        className={selectClass}
+                    >
+                        <option value="">None</option>
+                        {METRIC_KEYS.map(key => <option key={key} value={key}>{LEADERBOARD_METRICS[key].label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Second Label</label>
+                    <input
+                        type="text"
+                        value={spec.secondary_label || ''}
+                        disabled={!spec.secondary_metric}
+                        onChange={(e) => update({secondary_label: e.target.value})}
+                        className={`${inputClass} disabled:bg-gray-100`}
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Layout</label>
+                    <select
+                        value={spec.layout}
+                        disabled={!spec.secondary_metric}
+                        onChange={(e) => update({layout: e.target.value as LeaderboardSpec['layout']})}
+                        className={`${selectClass} disabled:bg-gray-100`}
+                    >
+                        <option value="single_bar">Single bar</option>
+                        <option value="dual_bar">Two bars</option>
+                    </select>
+                </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={!!spec.anonymize_teams}
+                    onChange={(e) => update({anonymize_teams: e.target.checked || undefined})}
+                    className="rounded border-gray-300"
+                />
+                Hide team names (show Team A, Team B, ... by rank)
+            </label>
+        </div>
+    );
+};
+
+export default LeaderboardSpecEditor;
@@ -0,0 +1,39 @@
+// src/views/host/components/ContentEditor/PayoffEditor.tsx - KPI effects per investment payoff
+import React from 'react';
+import {InvestmentPayoff} from '@shared/types';
+import EffectsEditor from './EffectsEditor';
+
+interface PayoffEditorProps {
+    payoffs: InvestmentPayoff[];
+    onChange: (index: number, updates: Partial<InvestmentPayoff>) => void;
+}
+
+const PayoffEditor: React.FC<PayoffEditorProps> = ({payoffs, onChange}) => {
+    if (payoffs.length === 0) {
+        return <p className="text-sm text-gray-500">No payoffs defined.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {payoffs.map((payoff, index) => (
+                <div key={payoff.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center gap-3 mb-3">
+                        <span className="text-sm font-mono font-semibold text-gray-500 w-6">{payoff.id}</span>
+                        <input
+                            type="text"
+                            value={payoff.name}
+                            onChange={(e) => onChange(index, {name: e.target.value})}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <EffectsEditor
+                        effects={payoff.effects}
+                        onChange={(effects) => onChange(index, {effects})}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default PayoffEditor;
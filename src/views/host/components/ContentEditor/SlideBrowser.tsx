@@ -0,0 +1,78 @@
+// src/views/host/components/ContentEditor/SlideBrowser.tsx - Slide list grouped by round
+import React, {useState} from 'react';
+import {AlertCircle} from 'lucide-react';
+import {Slide} from '@shared/types';
+
+interface SlideBrowserProps {
+    slides: Slide[];
+    selectedSlideId: number | null;
+    slideIdsWithIssues: Set<number>;
+    onSelectSlide: (slideId: number) => void;
+}
+
+const ROUND_TABS: { round: Slide['round_number']; label: string }[] = [
+    {round: 0, label: 'Intro'},
+    {round: 1, label: 'RD-1'},
+    {round: 2, label: 'RD-2'},
+    {round: 3, label: 'RD-3'},
+];
+
+const SlideBrowser: React.FC<SlideBrowserProps> = ({slides, selectedSlideId, slideIdsWithIssues, onSelectSlide}) => {
+    const selectedRound = slides.find(slide => slide.id === selectedSlideId)?.round_number ?? 1;
+    const [round, setRound] = useState<Slide['round_number']>(selectedRound);
+    const [followedSlideId, setFollowedSlideId] = useState<number | null>(selectedSlideId);
+
+    // Follow selections made elsewhere (e.g. from the validation panel), but leave a tab the host picked alone
+    if (selectedSlideId !== followedSlideId) {
+        setFollowedSlideId(selectedSlideId);
+        setRound(selectedRound);
+    }
+
+    const roundSlides = slides.filter(slide => slide.round_number === round);
+
+    return (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm flex flex-col h-full">
+            <div className="flex border-b border-gray-200">
+                {ROUND_TABS.map(tab => (
+                    <button
+                        key={tab.round}
+                        onClick={() => setRound(tab.round)}
+                        className={`flex-1 py-2 text-sm font-medium transition-colors ${
+                            round === tab.round
+                                ? 'text-blue-700 border-b-2 border-blue-600 bg-blue-50'
+                                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                        }`}
+                    >
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+            <ul className="overflow-y-auto flex-1 divide-y divide-gray-100">
+                {roundSlides.map(slide => (
+                    <li key={slide.id}>
+                        <button
+                            onClick={() => onSelectSlide(slide.id)}
+                            className={`w-full text-left px-3 py-2 flex items-start gap-2 transition-colors ${
+                                slide.id === selectedSlideId ? 'bg-blue-100' : 'hover:bg-gray-50'
+                            }`}
+                        >
+                            <span className="text-xs font-mono text-gray-500 w-8 flex-shrink-0 pt-0.5">{slide.id}</span>
+                            <span className="flex-1 min-w-0">
+                                <span className="block text-sm text-gray-900 truncate">{slide.title || '(untitled)'}</span>
+                                <span className="block text-xs text-gray-500">{slide.type}</span>
+                            </span>
+                            {slideIdsWithIssues.has(slide.id) && (
+                                <AlertCircle size={14} className="text-red-500 flex-shrink-0 mt-0.5"/>
+                            )}
+                        </button>
+                    </li>
+                ))}
+                {roundSlides.length === 0 && (
+                    <li className="px-3 py-4 text-sm text-gray-500 text-center">No slides in this round</li>
+                )}
+            </ul>
+        </div>
+    );
+};
+
+export default SlideBrowser;
@@ -0,0 +1,186 @@
+// src/views/host/components/ContentEditor/SlideEditor.tsx - Form for a single Slide
+import React from 'react';
+import {Slide, SlideType} from '@shared/types';
+import {createLeaderboardSpec} from '@core/content/LeaderboardSpecs';
+import LeaderboardSpecEditor from './LeaderboardSpecEditor';
+
+interface SlideEditorProps {
+    slide: Slide;
+    onChange: (updates: Partial<Slide>) => void;
+}
+
+const SLIDE_TYPES: SlideType[] = [
+    'image',
+    'video',
+    'interactive_invest',
+    'payoff_reveal',
+    'interactive_choice',
+    'consequence_reveal',
+    'interactive_double_down_select',
+    'double_down_dice_roll',
+    'kpi_reset',
+    'leaderboard_chart',
+];
+
+const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+// Empty inputs clear optional fields instead of storing empty strings
+const optional = (value: string): string | undefined => value === '' ? undefined : value;
+
+const SlideEditor: React.FC<SlideEditorProps> = ({slide, onChange}) => {
+    const changeType = (type: SlideType) => {
+        // A slide turned into a leaderboard starts out ranking net income for its round
+        if (type === 'leaderboard_chart' && !slide.leaderboard) {
+            const round = (slide.round_number || 1) as 1 | 2 | 3;
+            onChange({type, leaderboard: createLeaderboardSpec(round, 'net_income')});
+            return;
+        }
+        onChange({type});
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                    <label className={labelClass}>Title</label>
+                    <input
+                        type="text"
+                        value={slide.title || ''}
+                        onChange={(e) => onChange({title: optional(e.target.value)})}
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Round</label>
+                    <select
+                        value={slide.round_number}
+                        onChange={(e) => onChange({round_number: Number(e.target.value) as Slide['round_number']})}
+                        className={`${inputClass} bg-white`}
+                    >
+                        <option value={0}>Intro</option>
+                        <option value={1}>RD-1</option>
+                        <option value={2}>RD-2</option>
+                        <option value={3}>RD-3</option>
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Type</label>
+                    <select
+                        value={slide.type}
+                        onChange={(e) => changeType(e.target.value as SlideType)}
+                        className={`${inputClass} bg-white`}
+                    >
+                        {SLIDE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Interactive Data Key</label>
+                    <input
+                        type="text"
+                        value={slide.interactive_data_key || ''}
+                        onChange={(e) => onChange({interactive_data_key: optional(e.target.value)})}
+                        placeholder="e.g. ch1, rd2-invest"
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Timer (seconds)</label>
+                    <input
+                        type="number"
+                        min="0"
+                        value={slide.timer_duration_seconds ?? ''}
+                        onChange={(e) => onChange({
+                            timer_duration_seconds: e.target.value === '' ? undefined : Number(e.target.value)
+                        })}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            {slide.type === 'leaderboard_chart' && slide.leaderboard && (
+                <LeaderboardSpecEditor
+                    spec={slide.leaderboard}
+                    onChange={(leaderboard) => onChange({leaderboard})}
+                />
+            )}
+
+            <div>
+                <label className={labelClass}>Media Source Path</label>
+                <input
+                    type="text"
+                    value={slide.source_path || ''}
+                    onChange={(e) => onChange({source_path: optional(e.target.value)})}
+                    className={inputClass}
+                />
+            </div>
+
+            <div>
+                <label className={labelClass}>Main Text</label>
+                <textarea
+                    rows={2}
+                    value={slide.main_text || ''}
+                    onChange={(e) => onChange({main_text: optional(e.target.value)})}
+                    className={inputClass}
+                />
+            </div>
+
+            <div>
+                <label className={labelClass}>Sub Text</label>
+                <textarea
+                    rows={2}
+                    value={slide.sub_text || ''}
+                    onChange={(e) => onChange({sub_text: optional(e.target.value)})}
+                    className={inputClass}
+                />
+            </div>
+
+            <div>
+                <label className={labelClass}>Bullet Points <span className="text-gray-400 font-normal">(one per line)</span></label>
+                <textarea
+                    rows={3}
+                    value={(slide.bullet_points || []).join('\n')}
+                    onChange={(e) => {
+                        const bullets = e.target.value.split('\n');
+                        onChange({bullet_points: e.target.value === '' ? undefined : bullets});
+                    }}
+                    className={inputClass}
+                />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Host Alert Title</label>
+                    <input
+                        type="text"
+                        value={slide.host_alert?.title || ''}
+                        onChange={(e) => onChange({
+                            host_alert: e.target.value || slide.host_alert?.message
+                                ? {title: e.target.value, message: slide.host_alert?.message || ''}
+                                : undefined
+                        })}
+                        className={inputClass}
+                    />
+                </div>
+                <div className="md:col-span-2">
+                    <label className={labelClass}>Host Alert Message</label>
+                    <input
+                        type="text"
+                        value={slide.host_alert?.message || ''}
+                        onChange={(e) => onChange({
+                            host_alert: e.target.value || slide.host_alert?.title
+                                ? {title: slide.host_alert?.title || '', message: e.target.value}
+                                : undefined
+                        })}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SlideEditor;
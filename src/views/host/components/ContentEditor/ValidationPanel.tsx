@@ -0,0 +1,56 @@
+// src/views/host/components/ContentEditor/ValidationPanel.tsx - Cross-reference errors and warnings
+import React from 'react';
+import {AlertCircle, AlertTriangle, CheckCircle} from 'lucide-react';
+import {ContentIssue} from '@core/content/ContentValidation';
+
+interface ValidationPanelProps {
+    issues: ContentIssue[];
+    onSelectSlide?: (slideId: number) => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({issues, onSelectSlide}) => {
+    if (issues.length === 0) {
+        return (
+            <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+                <CheckCircle size={16}/>
+                All references are valid
+            </div>
+        );
+    }
+
+    // Errors first so the blocking problems are on top
+    const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+
+    return (
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {sorted.map((issue, index) => (
+                <li
+                    key={`${issue.path}-${index}`}
+                    className={`flex items-start gap-2 text-sm px-3 py-2 rounded-lg border ${
+                        issue.severity === 'error'
+                            ? 'bg-red-50 border-red-200 text-red-800'
+                            : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                    }`}
+                >
+                    {issue.severity === 'error'
+                        ? <AlertCircle size={16} className="flex-shrink-0 mt-0.5"/>
+                        : <AlertTriangle size={16} className="flex-shrink-0 mt-0.5"/>}
+                    <div className="flex-1 min-w-0">
+                        <p>{issue.message}</p>
+                        <p className="text-xs font-mono opacity-70 truncate">{issue.path}</p>
+                    </div>
+                    {onSelectSlide && issue.slideId !== undefined && (
+                        <button
+                            onClick={() => onSelectSlide(issue.slideId!)}
+                            className="text-xs font-medium underline flex-shrink-0"
+                        >
+                            Go to slide
+                        </button>
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default ValidationPanel;
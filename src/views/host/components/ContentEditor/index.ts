@@ -0,0 +1,10 @@
+// src/views/host/components/ContentEditor/index.ts
+// Re-export content editor components for cleaner imports in the editor page
+
+export { default as ConsequenceEditor } from './ConsequenceEditor';
+export { default as EffectsEditor } from './EffectsEditor';
+export { default as LeaderboardSpecEditor } from './LeaderboardSpecEditor';
+export { default as PayoffEditor } from './PayoffEditor';
+export { default as SlideBrowser } from './SlideBrowser';
+export { default as SlideEditor } from './SlideEditor';
+export { default as ValidationPanel } from './ValidationPanel';
@@ -2,6 +2,7 @@
 import React from 'react';
 import {FinalizeStepProps} from './types';
 import {ArrowLeft, Rocket, AlertTriangle, UsersIcon} from 'lucide-react';
+import {getGameVersionLabel} from '@core/content/GameVariants';
 
 const FinalizeStep: React.FC<FinalizeStepProps> = ({
                                                        gameData,
@@ -33,8 +34,7 @@ const FinalizeStep: React.FC<FinalizeStepProps> = ({
                         },
                         {
                             label: "Game Version",
-                            value: gameData.game_version === '2.0_dd' ?
-                                '2.0 with Double Down' : '1.5 with Double Down'
+                            value: getGameVersionLabel(gameData.game_version)
                         },
                         {
                             label: "Class / Group",
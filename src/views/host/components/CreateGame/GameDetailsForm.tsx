@@ -1,6 +1,10 @@
 // src/views/host/components/CreateGame/GameDetailsForm.tsx - Fixed input handling with improved styling
 import React, {useState, useEffect} from 'react';
 import {NewGameData} from '@shared/types/ui';
+import {ContentPack, TeamSubmissionMode} from '@shared/types';
+import {GAME_VARIANTS, UNAVAILABLE_GAME_VERSIONS} from '@core/content/GameVariants';
+import {db} from '@shared/services/supabase';
+import {useAuth} from '@app/providers/AuthProvider';
 
 interface GameDetailsFormProps {
     gameData: NewGameData;
@@ -9,6 +13,15 @@ interface GameDetailsFormProps {
     onTeamsChange: (teamsStr: string) => void;
 }
 
+const SUBMISSION_MODES: { value: TeamSubmissionMode; label: string }[] = [
+    {value: 'anyone', label: 'Any team member can submit'},
+    {value: 'captain', label: 'Only the team captain can submit'},
+    {value: 'all_confirm', label: 'Every connected team member confirms first'},
+];
+
+// Empty value means no limit
+const DEVICE_LIMIT_OPTIONS = [1, 2, 3, 4, 5, 6];
+
 const GameDetailsForm: React.FC<GameDetailsFormProps> = ({
                                                              gameData,
                                                              onFieldChange,
@@ -25,6 +38,18 @@ const GameDetailsForm: React.FC<GameDetailsFormProps> = ({
     const [playersInput, setPlayersInput] = useState(gameData.num_players > 0 ? gameData.num_players.toString() : '');
     const [teamsInput, setTeamsInput] = useState(gameData.num_teams > 0 ? gameData.num_teams.toString() : '');
     const [userEditedTeams, setUserEditedTeams] = useState(false);
+    const [contentPacks, setContentPacks] = useState<ContentPack[]>([]);
+    const {user} = useAuth();
+
+    // Custom content packs authored in the content editor, offered for the matching game version
+    useEffect(() => {
+        if (!user) return;
+        db.contentPacks.getByHost(user.id)
+            .then(setContentPacks)
+            .catch(error => console.error('[GameDetailsForm] Failed to load content packs:', error));
+    }, [user]);
+
+    const packsForVersion = contentPacks.filter(pack => pack.base_version === gameData.game_version);
 
     // Sync input values with gameData when it changes externally
     useEffect(() => {
@@ -99,14 +124,48 @@ const GameDetailsForm: React.FC<GameDetailsFormProps> = ({
                     id="game_version"
                     name="game_version"
                     value={gameData.game_version}
-                    onChange={(e) => onFieldChange('game_version', e.target.value as NewGameData['game_version'])}
+                    onChange={(e) => {
+                        onFieldChange('game_version', e.target.value as NewGameData['game_version']);
+                        // Packs are built on one version, so a version change drops the selected pack
+                        if (gameData.content_pack_id) onFieldChange('content_pack_id', null);
+                    }}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-base"
                 >
-                    <option value="2.0_dd">2.0 with Double Down</option>
-                    <option value="1.5_dd">1.5 with Double Down</option>
+                    {Object.values(GAME_VARIANTS).map(variant => (
+                        <option key={variant.version} value={variant.version}>{variant.label}</option>
+                    ))}
+                    {UNAVAILABLE_GAME_VERSIONS.map(variant => (
+                        <option key={variant.version} value={variant.version} disabled>
+                            {variant.label} (not available yet)
+                        </option>
+                    ))}
                 </select>
             </div>
 
+            {/* Content Pack */}
+            {packsForVersion.length > 0 && (
+                <div>
+                    <label htmlFor="content_pack_id" className="block text-sm font-medium text-gray-700 mb-2">
+                        Game Content
+                    </label>
+                    <select
+                        id="content_pack_id"
+                        name="content_pack_id"
+                        value={gameData.content_pack_id ?? ''}
+                        onChange={(e) => onFieldChange('content_pack_id', e.target.value || null)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-base"
+                    >
+                        <option value="">Standard content</option>
+                        {packsForVersion.map(pack => (
+                            <option key={pack.id} value={pack.id}>{pack.name}</option>
+                        ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                        Custom packs are created in the content editor
+                    </p>
+                </div>
+            )}
+
             {/* Game Name */}
             <div>
                 <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
@@ -196,6 +255,51 @@ const GameDetailsForm: React.FC<GameDetailsFormProps> = ({
                     </p>
                 </div>
             </div>
+
+            {/* Team Submissions */}
+            <div>
+                <label htmlFor="team_submission_mode" className="block text-sm font-medium text-gray-700 mb-2">
+                    Team Submissions
+                </label>
+                <select
+                    id="team_submission_mode"
+                    name="team_submission_mode"
+                    value={gameData.team_submission_mode ?? 'anyone'}
+                    onChange={(e) => onFieldChange('team_submission_mode', e.target.value as TeamSubmissionMode)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-base"
+                >
+                    {SUBMISSION_MODES.map(mode => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                    Team members on several devices always share one live draft
+                </p>
+            </div>
+
+            {/* Devices Per Team */}
+            <div>
+                <label htmlFor="max_devices_per_team" className="block text-sm font-medium text-gray-700 mb-2">
+                    Devices Per Team
+                </label>
+                <select
+                    id="max_devices_per_team"
+                    name="max_devices_per_team"
+                    value={gameData.max_devices_per_team ?? ''}
+                    onChange={(e) => onFieldChange('max_devices_per_team', e.target.value ? parseInt(e.target.value, 10) : null)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-base"
+                >
+                    <option value="">No limit</option>
+                    {DEVICE_LIMIT_OPTIONS.map(limit => (
+                        <option key={limit} value={limit}>
+                            Up to {limit} device{limit === 1 ? '' : 's'} at a time
+                        </option>
+                    ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                    Extra devices can't log in with the passcode; rejoin codes from Team Codes still work
+                </p>
+            </div>
         </div>
     );
 };
@@ -45,7 +45,10 @@ const GameDetailsStep: React.FC<GameDetailsStepProps> = ({
             num_teams: teamsInput?.value ? parseInt(teamsInput.value, 10) || 0 : gameData.num_teams,
             class_name: classInput?.value || gameData.class_name || '',
             grade_level: gradeSelect?.value || gameData.grade_level || 'Freshman',
-            game_version: (versionSelect?.value as '2.0_dd' | '1.5_dd') || gameData.game_version || '2.0_dd',
+            game_version: (versionSelect?.value as NewGameData['game_version']) || gameData.game_version || '2.0_dd',
+            content_pack_id: gameData.content_pack_id ?? null,
+            team_submission_mode: gameData.team_submission_mode ?? 'anyone',
+            max_devices_per_team: gameData.max_devices_per_team ?? null,
             teams_config: gameData.teams_config || []
         };
     };
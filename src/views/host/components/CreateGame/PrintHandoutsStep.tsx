@@ -14,7 +14,9 @@ import {
 } from 'lucide-react';
 
 import {usePDFGeneration} from "@shared/hooks/pdf/useTeamCardsPDF.tsx";
-import {generateTeamJoinUrl} from '@shared/utils/urlUtils';
+import {generateTeamJoinUrl, getTeamQuickJoinUrl} from '@shared/utils/urlUtils';
+import {db} from '@shared/services/supabase';
+import {getGameVariant, getGameVersionLabel} from '@core/content/GameVariants';
 
 const PrintHandoutsStep: React.FC<PrintHandoutsStepProps> = ({
                                                                  gameData,
@@ -30,8 +32,17 @@ const PrintHandoutsStep: React.FC<PrintHandoutsStepProps> = ({
         try {
             const teamJoinUrl = await generateTeamJoinUrl(draftSessionId);
 
+            // Each card's QR code logs straight in to that team; tokens bind the team name, so they can be
+            // signed before the teams themselves are created
+            const teams = draftSessionId
+                ? await Promise.all(gameData.teams_config!.map(async team => {
+                    const joinToken = await db.teamJoinTokens.createToken(draftSessionId, team.name);
+                    return {...team, joinUrl: getTeamQuickJoinUrl(draftSessionId, joinToken.token)};
+                }))
+                : gameData.teams_config!;
+
             await generateTeamCardPDF({
-                teams: gameData.teams_config!,
+                teams,
                 assets: {
                     logoUrl: '/images/ready-or-not-logo.png',
                     teamJoinUrl,
@@ -88,14 +99,14 @@ const PrintHandoutsStep: React.FC<PrintHandoutsStepProps> = ({
         };
     }, [num_players, num_teams]);
 
-    const pioneerPressEmailSubject = `Ready or Not ${game_version === '2.0_dd' ? '2.0' : '1.5'} Game Packet Order - "${gameName || 'Untitled Game'}"`;
+    const pioneerPressEmailSubject = `Ready or Not ${getGameVariant(game_version).shortLabel} Game Packet Order - "${gameName || 'Untitled Game'}"`;
     const pioneerPressEmailBody = `
 Hello Pioneer Press,
 
 Please prepare a game packet order for our upcoming "Ready or Not" session with the following details:
 
 Game Name: ${gameName || 'N/A'}
-Game Version: ${game_version === '2.0_dd' ? '2.0 with Double Down' : '1.5 with Double Down'}
+Game Version: ${getGameVersionLabel(game_version)}
 Number of Teams: ${num_teams || 'N/A'}
 Number of Players: ${num_players || 'N/A'}
 
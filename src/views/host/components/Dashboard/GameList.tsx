@@ -2,6 +2,7 @@
 import React from 'react';
 import { Trash2 } from 'lucide-react';
 import { GameSession } from '@shared/types/common';
+import { getGameVariant } from '@core/content/GameVariants';
 
 interface GameListProps {
     title: string;
@@ -60,7 +61,7 @@ const GameList: React.FC<GameListProps> = ({
                                     <span className="text-xs text-gray-500">
                                         Created: {new Date(game.created_at).toLocaleDateString()}
                                         {game.class_name && ` | Class: ${game.class_name}`}
-                                        {game.game_version && ` | v${game.game_version.startsWith('2') ? '2.0' : '1.5'}`}
+                                        {game.game_version && ` | v${getGameVariant(game.game_version).shortLabel}`}
                                     </span>
                                 </div>
                                 <span className={`text-xs px-2.5 py-1 rounded-full font-semibold flex-shrink-0 ${
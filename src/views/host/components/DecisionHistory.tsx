@@ -148,6 +148,8 @@ const DecisionHistory: React.FC<DecisionHistoryProps> = ({onReviewDecision}) =>
                                                 isCurrent={isCurrentSlide}
                                                 isCompleted={isCompleted} // FIXED: Now properly reflects team submissions
                                                 icon={icon}
+                                                rationaleCount={decisionKey ? teams.filter(team =>
+                                                    teamDecisions[team.id]?.[decisionKey]?.rationale?.trim()).length : 0}
                                                 onClick={() => {
                                                     if (slide.interactive_data_key) {
                                                         onReviewDecision(slide.interactive_data_key);
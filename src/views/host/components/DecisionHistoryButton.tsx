@@ -9,6 +9,7 @@ interface DecisionHistoryButtonProps {
     isCompleted: boolean;
     icon: React.ElementType<LucideProps>;
     onClick: () => void;
+    rationaleCount?: number;    // teams that explained their choice
 }
 
 const DecisionHistoryButton: React.FC<DecisionHistoryButtonProps> = ({
@@ -17,7 +18,8 @@ const DecisionHistoryButton: React.FC<DecisionHistoryButtonProps> = ({
                                                                          isCurrent,
                                                                          isCompleted,
                                                                          icon: Icon,
-                                                                         onClick
+                                                                         onClick,
+                                                                         rationaleCount = 0
                                                                      }) => {
     let baseClasses = "w-full flex items-center p-3 rounded-lg transition-all duration-200 text-left text-sm shadow-sm";
     let textClasses = "font-medium";
@@ -53,7 +55,10 @@ const DecisionHistoryButton: React.FC<DecisionHistoryButtonProps> = ({
             <Icon size={20} className={iconClasses}/>
             <div className="flex-grow min-w-0">
                 <span className={`block leading-tight truncate ${textClasses}`}>{label}</span>
-                <span className={`block leading-tight ${subTextClasses}`}>Round {round}</span>
+                <span className={`block leading-tight ${subTextClasses}`}>
+                    Round {round}
+                    {rationaleCount > 0 && ` · ${rationaleCount} rationale${rationaleCount === 1 ? '' : 's'}`}
+                </span>
             </div>
             {isCompleted && <CheckCircle2 size={18} className="text-green-500 flex-shrink-0"/>}
         </button>
@@ -0,0 +1,81 @@
+// src/views/host/components/DecisionJournalPanel.tsx
+// Results page decision journal: one team at a time, each decision with the team's choice and rationale
+import React, {useMemo, useState} from 'react';
+import {BookOpen, MessageSquareText} from 'lucide-react';
+import {GameStructure, Team, TeamDecision} from '@shared/types';
+import {DecisionJournal} from '@core/game/DecisionJournal';
+
+interface DecisionJournalPanelProps {
+    teams: Team[];
+    teamDecisions: Record<string, Record<string, TeamDecision>>;
+    gameStructure: GameStructure | null;
+}
+
+const DecisionJournalPanel: React.FC<DecisionJournalPanelProps> = ({teams, teamDecisions, gameStructure}) => {
+    const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+
+    const journals = useMemo(() => {
+        const decisions = Object.values(teamDecisions).flatMap(byPhase => Object.values(byPhase));
+        return DecisionJournal.build(teams, decisions, gameStructure);
+    }, [teams, teamDecisions, gameStructure]);
+
+    const journal = journals.find(item => item.team.id === selectedTeamId) ?? journals[0];
+    if (!journal) return null;
+
+    return (
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+                <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+                    <BookOpen className="text-blue-600" size={28}/>
+                    Decision Journal
+                </h2>
+                <p className="text-sm text-gray-500 mt-1">What each team chose and why, for the debrief discussion</p>
+                <div className="flex flex-wrap gap-2 mt-4">
+                    {journals.map(item => {
+                        const explained = item.entries.filter(entry => entry.rationale).length;
+                        return (
+                            <button
+                                key={item.team.id}
+                                onClick={() => setSelectedTeamId(item.team.id)}
+                                className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                                    item.team.id === journal.team.id
+                                        ? 'bg-blue-600 text-white border-blue-600'
+                                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                }`}
+                            >
+                                {item.team.name}
+                                <span className="ml-2 text-xs opacity-75">{explained}/{item.entries.length}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {journal.entries.length > 0 ? (
+                <ol className="divide-y divide-gray-100">
+                    {journal.entries.map(entry => (
+                        <li key={entry.phaseId} className="px-6 py-4">
+                            <div className="flex items-baseline justify-between gap-4">
+                                <h3 className="font-semibold text-gray-900">{entry.decisionTitle}</h3>
+                                <span className="text-xs text-gray-500 flex-shrink-0">Round {entry.roundNumber}</span>
+                            </div>
+                            <p className="text-sm text-gray-700 mt-1">{entry.choice}</p>
+                            {entry.rationale ? (
+                                <div className="mt-2 flex gap-2 text-sm text-gray-700 bg-sky-50 border border-sky-100 rounded-md p-3">
+                                    <MessageSquareText size={16} className="text-sky-600 flex-shrink-0 mt-0.5"/>
+                                    <p className="italic whitespace-pre-line">"{entry.rationale}"</p>
+                                </div>
+                            ) : (
+                                <p className="mt-2 text-xs text-gray-400">No rationale given</p>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <p className="px-6 py-8 text-center text-gray-500">{journal.team.name} didn't submit any decisions.</p>
+            )}
+        </div>
+    );
+};
+
+export default DecisionJournalPanel;
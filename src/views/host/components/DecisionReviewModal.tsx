@@ -5,9 +5,9 @@ import React, {useMemo} from 'react';
 import {useGameContext} from '@app/providers/GameProvider';
 import Modal from '@shared/components/UI/Modal';
 import {TeamDecision} from '@shared/types';
-import {Info} from 'lucide-react';
+import {Info, MessageSquareText} from 'lucide-react';
 import {useSupabaseQuery} from '@shared/hooks/supabase';
-import {supabase} from '@shared/services/supabase';
+import {getStorage} from '@shared/services/supabase';
 import SelectionDisplay, {SelectionData} from './SelectionDisplay';
 import {MultiSelectChallengeTracker} from "@core/game/MultiSelectChallengeTracker.ts";
 
@@ -41,7 +41,7 @@ const DecisionReviewModal: React.FC<DecisionReviewModalProps> = ({isOpen, onClos
 
             if (interactiveSlide?.type !== 'interactive_invest') return [];
 
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .select('id, team_id, total_spent_budget, submitted_at, report_given, selected_investment_options')
                 .eq('session_id', currentSessionId)
@@ -183,7 +183,8 @@ const DecisionReviewModal: React.FC<DecisionReviewModalProps> = ({isOpen, onClos
                 teamName: team.name,
                 hasSubmitted,
                 selectionData,
-                submittedAt: decision?.submitted_at
+                submittedAt: decision?.submitted_at,
+                rationale: decision?.rationale?.trim() || null
             };
         });
 
@@ -222,6 +223,13 @@ const DecisionReviewModal: React.FC<DecisionReviewModalProps> = ({isOpen, onClos
 
                                 {/* Selection Display */}
                                 <SelectionDisplay selectionData={item.selectionData}/>
+
+                                {item.rationale && (
+                                    <div className="mt-3 flex gap-2 text-sm text-gray-700 bg-sky-50 border border-sky-100 rounded-md p-3">
+                                        <MessageSquareText size={16} className="text-sky-600 flex-shrink-0 mt-0.5"/>
+                                        <p className="italic whitespace-pre-line">"{item.rationale}"</p>
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
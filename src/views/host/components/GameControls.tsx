@@ -9,15 +9,34 @@ import ExitModal from './GameControls/ExitModal';
 import JoinInfoModal from './GameControls/JoinInfoModal';
 import NotesSection from './GameControls/NotesSection';
 import TeamCodesModal from './GameControls/TeamCodesModal';
+import DecisionTimerControls from './GameControls/DecisionTimerControls';
+import KpiOverrideModal from './GameControls/KpiOverrideModal';
+import TeamMessageModal from './GameControls/TeamMessageModal';
+import {useDecisionTimer} from '@views/host/hooks/useDecisionTimer';
 
 const GameControls: React.FC = () => {
-    const {state, currentSlideData, updateHostNotesForCurrentSlide, setCurrentHostAlertState} = useGameContext();
+    const {
+        state,
+        currentSlideData,
+        updateHostNotesForCurrentSlide,
+        setCurrentHostAlertState,
+        submitDefaultDecisions,
+        debrief
+    } = useGameContext();
+
+    const decisionTimer = useDecisionTimer({
+        sessionId: state.currentSessionId,
+        currentSlide: currentSlideData,
+        submitDefaultDecisions
+    });
 
     // Modal states
     const [showNotes, setShowNotes] = useState(false);
     const [isJoinTeamModalOpen, setIsJoinTeamModalOpen] = useState(false);
     const [isTeamCodesModalOpen, setIsTeamCodesModalOpen] = useState(false);
     const [isExitConfirmModalOpen, setIsExitConfirmModalOpen] = useState(false);
+    const [isKpiOverrideModalOpen, setIsKpiOverrideModalOpen] = useState(false);
+    const [isMessageModalOpen, setIsMessageModalOpen] = useState(false);
 
     // Handlers
     const handleNotesToggle = () => setShowNotes(!showNotes);
@@ -41,10 +60,30 @@ const GameControls: React.FC = () => {
                     onOpenJoinInfo={() => setIsJoinTeamModalOpen(true)}
                     onOpenTeamCodes={() => setIsTeamCodesModalOpen(true)}
                     onToggleNotes={handleNotesToggle}
+                    onOpenKpiOverride={() => setIsKpiOverrideModalOpen(true)}
+                    onOpenMessages={() => setIsMessageModalOpen(true)}
+                    onToggleDebrief={debrief.isActive ? debrief.exit : debrief.start}
                     onExitGame={() => setIsExitConfirmModalOpen(true)}
                     showNotes={showNotes}
+                    isDebriefActive={debrief.isActive}
                 />
 
+                {/* Decision Timer - interactive slides only */}
+                {decisionTimer.isTimedSlide && (
+                    <DecisionTimerControls
+                        timer={decisionTimer.timer}
+                        defaultDurationSeconds={decisionTimer.defaultDurationSeconds}
+                        expiryAction={decisionTimer.expiryAction}
+                        onExpiryActionChange={decisionTimer.setExpiryAction}
+                        onStart={() => decisionTimer.start()}
+                        onPause={decisionTimer.pause}
+                        onResume={decisionTimer.resume}
+                        onExtend={decisionTimer.extend}
+                        onEnd={decisionTimer.end}
+                        onCancel={decisionTimer.cancel}
+                    />
+                )}
+
                 {/* Notes Section */}
                 <NotesSection
                     showNotes={showNotes}
@@ -66,12 +105,24 @@ const GameControls: React.FC = () => {
                 isOpen={isJoinTeamModalOpen}
                 onClose={() => setIsJoinTeamModalOpen(false)}
                 sessionId={state.currentSessionId}
+                teams={state.teams}
             />
 
             <TeamCodesModal
                 isOpen={isTeamCodesModalOpen}
                 onClose={() => setIsTeamCodesModalOpen(false)}
                 teams={state.teams}
+                sessionId={state.currentSessionId}
+            />
+
+            <KpiOverrideModal
+                isOpen={isKpiOverrideModalOpen}
+                onClose={() => setIsKpiOverrideModalOpen(false)}
+            />
+
+            <TeamMessageModal
+                isOpen={isMessageModalOpen}
+                onClose={() => setIsMessageModalOpen(false)}
             />
 
             <ExitModal
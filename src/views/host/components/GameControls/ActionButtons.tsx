@@ -1,21 +1,29 @@
 // src/views/host/components/GameControls/ActionButtons.tsx
 import React from 'react';
-import {Users, QrCode, FileText, LogOut} from 'lucide-react';
+import {Users, QrCode, FileText, LogOut, SlidersHorizontal, MessageSquare, Presentation} from 'lucide-react';
 
 interface ActionButtonsRowProps {
     onOpenJoinInfo: () => void;
     onOpenTeamCodes: () => void;
     onToggleNotes: () => void;
+    onOpenKpiOverride: () => void;
+    onOpenMessages: () => void;
+    onToggleDebrief: () => void;
     onExitGame: () => void;
     showNotes: boolean;
+    isDebriefActive: boolean;
 }
 
 const ActionButtons: React.FC<ActionButtonsRowProps> = ({
                                                             onOpenJoinInfo,
                                                             onOpenTeamCodes,
                                                             onToggleNotes,
+                                                            onOpenKpiOverride,
+                                                            onOpenMessages,
+                                                            onToggleDebrief,
                                                             onExitGame,
-                                                            showNotes
+                                                            showNotes,
+                                                            isDebriefActive
                                                         }) => {
     return (
         <div className="flex flex-wrap items-center justify-center sm:justify-start gap-2">
@@ -33,6 +41,21 @@ const ActionButtons: React.FC<ActionButtonsRowProps> = ({
                     className={`flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md transition-colors border ${showNotes ? 'bg-blue-50 text-blue-700 border-blue-300' : 'hover:bg-gray-100 text-gray-600 border-gray-300'}`}>
                 <FileText size={16}/> Notes
             </button>
+            <button onClick={onOpenKpiOverride}
+                    className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md hover:bg-gray-100 text-gray-600 transition-colors border border-gray-300"
+                    aria-label="Correct Team KPIs">
+                <SlidersHorizontal size={16}/> Correct KPIs
+            </button>
+            <button onClick={onOpenMessages}
+                    className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md hover:bg-gray-100 text-gray-600 transition-colors border border-gray-300"
+                    aria-label="Message Teams">
+                <MessageSquare size={16}/> Message Teams
+            </button>
+            <button onClick={onToggleDebrief}
+                    className={`flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md transition-colors border ${isDebriefActive ? 'bg-blue-50 text-blue-700 border-blue-300' : 'hover:bg-gray-100 text-gray-600 border-gray-300'}`}
+                    aria-label={isDebriefActive ? 'Return to Game Slides' : 'Start Debrief'}>
+                <Presentation size={16}/> {isDebriefActive ? 'End Debrief' : 'Debrief'}
+            </button>
             <button onClick={onExitGame}
                     className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-md hover:bg-red-100 text-red-600 transition-colors border border-red-300"
                     aria-label="Exit Game">
@@ -0,0 +1,115 @@
+// src/views/host/components/GameControls/DecisionTimerControls.tsx
+import React from 'react';
+import {Pause, Play, Plus, Square, Timer, X} from 'lucide-react';
+import {useDecisionCountdown} from '@shared/hooks/useDecisionCountdown';
+import {DecisionTimer} from '@core/sync/DecisionTimer';
+import {DecisionTimerExpiryAction, DecisionTimerState} from '@shared/types/sync';
+
+interface DecisionTimerControlsProps {
+    timer: DecisionTimerState | null;
+    defaultDurationSeconds: number | null;
+    expiryAction: DecisionTimerExpiryAction;
+    onExpiryActionChange: (action: DecisionTimerExpiryAction) => void;
+    onStart: () => void;
+    onPause: () => void;
+    onResume: () => void;
+    onExtend: (seconds: number) => void;
+    onEnd: () => void;
+    onCancel: () => void;
+}
+
+const buttonClass = "flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-md transition-colors border";
+
+const DecisionTimerControls: React.FC<DecisionTimerControlsProps> = ({
+                                                                         timer,
+                                                                         defaultDurationSeconds,
+                                                                         expiryAction,
+                                                                         onExpiryActionChange,
+                                                                         onStart,
+                                                                         onPause,
+                                                                         onResume,
+                                                                         onExtend,
+                                                                         onEnd,
+                                                                         onCancel
+                                                                     }) => {
+    const countdown = useDecisionCountdown(timer);
+
+    const display = timer
+        ? countdown.isClosed ? "Time's up" : countdown.formatted
+        : DecisionTimer.formatRemaining((defaultDurationSeconds ?? 0) * 1000);
+
+    return (
+        <div className="mt-3 pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <Timer size={16}/>
+                    Decision Timer
+                </div>
+                <span className={`text-lg font-bold tabular-nums ${
+                    countdown.isClosed ? 'text-gray-500'
+                        : countdown.isRunning && countdown.remainingSeconds <= 30 ? 'text-red-600'
+                            : countdown.isPaused ? 'text-yellow-600'
+                                : 'text-gray-900'
+                }`}>
+                    {display}
+                </span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                {!timer && (
+                    <button onClick={onStart}
+                            className={`${buttonClass} bg-blue-600 text-white border-blue-600 hover:bg-blue-700`}>
+                        <Play size={14}/> Start
+                    </button>
+                )}
+                {timer?.status === 'running' && (
+                    <button onClick={onPause}
+                            className={`${buttonClass} text-gray-700 border-gray-300 hover:bg-gray-100`}>
+                        <Pause size={14}/> Pause
+                    </button>
+                )}
+                {timer?.status === 'paused' && (
+                    <button onClick={onResume}
+                            className={`${buttonClass} text-blue-700 border-blue-300 hover:bg-blue-50`}>
+                        <Play size={14}/> Resume
+                    </button>
+                )}
+                {timer && (
+                    <button onClick={() => onExtend(60)}
+                            className={`${buttonClass} text-gray-700 border-gray-300 hover:bg-gray-100`}
+                            title={countdown.isClosed ? 'Reopen the decision for one more minute' : 'Add one minute'}>
+                        <Plus size={14}/> 1 min
+                    </button>
+                )}
+                {timer && !countdown.isClosed && (
+                    <button onClick={onEnd}
+                            className={`${buttonClass} text-red-600 border-red-300 hover:bg-red-50`}
+                            title="Close the decision window now">
+                        <Square size={14}/> End
+                    </button>
+                )}
+                {timer && (
+                    <button onClick={onCancel}
+                            className={`${buttonClass} text-gray-500 border-gray-200 hover:bg-gray-100`}
+                            title="Remove the timer; teams can keep deciding until you advance">
+                        <X size={14}/> Clear
+                    </button>
+                )}
+            </div>
+
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                When time runs out:
+                <select
+                    value={expiryAction}
+                    onChange={(e) => onExpiryActionChange(e.target.value as DecisionTimerExpiryAction)}
+                    className="px-2 py-1 border border-gray-300 rounded-md bg-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value="lock">Lock the window</option>
+                    <option value="auto_submit">Auto-submit defaults</option>
+                </select>
+            </label>
+        </div>
+    );
+};
+
+export default DecisionTimerControls;
@@ -1,19 +1,65 @@
 // src/components/Host/Controls/JoinInfoModal.tsx
-import React, {useState, useEffect} from 'react';
+// The session join link, plus a QR code per team that logs the scanning device straight in to that team.
+// Rotating a team's code invalidates every earlier QR code for it, including the printed card.
+import React, {useState, useEffect, useCallback} from 'react';
 import QRCode from 'qrcode';
+import {RotateCw} from 'lucide-react';
 import Modal from '@shared/components/UI/Modal';
-import {generateTeamJoinUrl} from '@shared/utils/urlUtils';
+import {Team} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {generateTeamJoinUrl, getTeamQuickJoinUrl} from '@shared/utils/urlUtils';
 
 interface JoinInfoModalProps {
     isOpen: boolean;
     onClose: () => void;
     sessionId: string | null;
+    teams: Team[];
 }
 
-const JoinInfoModal: React.FC<JoinInfoModalProps> = ({isOpen, onClose, sessionId}) => {
+const TEAM_QR_OPTIONS = {width: 160, margin: 1, color: {dark: '#000000', light: '#FFFFFF'}};
+
+const JoinInfoModal: React.FC<JoinInfoModalProps> = ({isOpen, onClose, sessionId, teams}) => {
     const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
     const [displayUrl, setDisplayUrl] = useState<string>('');
     const [isLoadingUrl, setIsLoadingUrl] = useState(false);
+    const [teamQrCodes, setTeamQrCodes] = useState<Record<string, string>>({});
+    const [rotatingTeamId, setRotatingTeamId] = useState<string | null>(null);
+    const [teamQrError, setTeamQrError] = useState<string | null>(null);
+
+    const loadTeamQrCode = useCallback(async (team: Team) => {
+        if (!sessionId) return;
+        const joinToken = await db.teamJoinTokens.createToken(sessionId, team.name);
+        const qr = await QRCode.toDataURL(getTeamQuickJoinUrl(sessionId, joinToken.token), TEAM_QR_OPTIONS);
+        setTeamQrCodes(prev => ({...prev, [team.id]: qr}));
+    }, [sessionId]);
+
+    // One QR code per team, freshly signed each time the modal opens
+    useEffect(() => {
+        if (!isOpen || !sessionId) return;
+        setTeamQrCodes({});
+        setTeamQrError(null);
+        Promise.all(teams.map(loadTeamQrCode)).catch(err => {
+            console.error('Error generating team QR codes:', err);
+            setTeamQrError('Could not create the team QR codes. Teams can still join with their passcode.');
+        });
+    }, [isOpen, sessionId, teams, loadTeamQrCode]);
+
+    const handleRotate = async (team: Team) => {
+        if (!sessionId) return;
+        if (!window.confirm(`Replace ${team.name}'s QR code? Their printed card and any earlier QR codes stop working. Devices already logged in stay logged in (remove them in Team Codes).`)) return;
+
+        setRotatingTeamId(team.id);
+        setTeamQrError(null);
+        try {
+            await db.teamJoinTokens.rotate(sessionId, team.name);
+            await loadTeamQrCode(team);
+        } catch (err) {
+            console.error('Error rotating team QR code:', err);
+            setTeamQrError(`Could not replace ${team.name}'s QR code. Please try again.`);
+        } finally {
+            setRotatingTeamId(null);
+        }
+    };
 
     // Generate QR code when modal opens
     useEffect(() => {
@@ -44,7 +90,7 @@ const JoinInfoModal: React.FC<JoinInfoModalProps> = ({isOpen, onClose, sessionId
     }, [isOpen, sessionId]);
 
     return (
-        <Modal isOpen={isOpen} onClose={onClose} title="Team Join Information" size="md">
+        <Modal isOpen={isOpen} onClose={onClose} title="Team Join Information" size="lg">
             <div className="p-2 text-center">
                 <p className="text-sm text-gray-600 mb-2">Teams join at:</p>
                 <div className="bg-gray-100 p-3 rounded-md mb-3">
@@ -80,8 +126,40 @@ const JoinInfoModal: React.FC<JoinInfoModalProps> = ({isOpen, onClose, sessionId
                     </div>
                 )}
                 <p className="text-xs text-gray-500 mb-3">
-                    Players will also need their Team Name and Team Passcode.
+                    Players will also need their Team Name and Team Passcode, or they can scan their team's code below.
                 </p>
+
+                {sessionId && teams.length > 0 && (
+                    <div className="border-t border-gray-200 pt-3 mt-3">
+                        <p className="text-sm text-gray-600 mb-2">Team QR codes log a device straight in to the team:</p>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-96 overflow-y-auto">
+                            {teams.map(team => (
+                                <div key={team.id} className="p-2 bg-white rounded-lg border border-gray-200 flex flex-col items-center">
+                                    <span className="text-sm font-semibold text-gray-800 mb-1">{team.name}</span>
+                                    {teamQrCodes[team.id] && rotatingTeamId !== team.id ? (
+                                        <img
+                                            src={teamQrCodes[team.id]}
+                                            alt={`QR code that logs in to ${team.name}`}
+                                            className="w-32 h-32"
+                                        />
+                                    ) : (
+                                        <div className="w-32 h-32 animate-pulse bg-gray-200 rounded-md"></div>
+                                    )}
+                                    <button
+                                        onClick={() => handleRotate(team)}
+                                        disabled={rotatingTeamId !== null}
+                                        className="mt-1 flex items-center gap-1 text-xs text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                                        title="Use if this team's card or code leaked"
+                                    >
+                                        <RotateCw size={12}/>
+                                        {rotatingTeamId === team.id ? 'Replacing...' : 'Replace code'}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        {teamQrError && <p className="text-red-600 text-sm mt-2">{teamQrError}</p>}
+                    </div>
+                )}
                 <button
                     onClick={onClose}
                     className="mt-2 px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition"
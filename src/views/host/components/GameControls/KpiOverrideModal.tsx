@@ -0,0 +1,220 @@
+// src/views/host/components/GameControls/KpiOverrideModal.tsx
+// Host correction tool: apply a signed KPI change for a team and round, and undo earlier corrections
+import React, {useEffect, useState} from 'react';
+import {RotateCcw} from 'lucide-react';
+import Modal from '@shared/components/UI/Modal';
+import {useGameContext} from '@app/providers/GameProvider';
+import {useSupabaseQuery} from '@shared/hooks/supabase';
+import {db} from '@shared/services/supabase';
+import {KpiLedgerKpi, KpiOverride, KpiOverrideTiming} from '@shared/types';
+import {KpiOverrideEngine} from '@core/game/KpiOverrideEngine';
+
+interface KpiOverrideModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const KPI_OPTIONS: { value: KpiLedgerKpi; label: string }[] = [
+    {value: 'capacity', label: 'Capacity'},
+    {value: 'orders', label: 'Orders'},
+    {value: 'cost', label: 'Cost ($)'},
+    {value: 'asp', label: 'ASP ($)'}
+];
+
+const KpiOverrideModal: React.FC<KpiOverrideModalProps> = ({isOpen, onClose}) => {
+    const {state, currentSlideData, applyKpiOverride, undoKpiOverride} = useGameContext();
+    const {teams, teamRoundData, currentSessionId} = state;
+    const currentRound = (currentSlideData?.round_number || 1) as 1 | 2 | 3;
+
+    const [teamId, setTeamId] = useState('');
+    const [roundNumber, setRoundNumber] = useState<1 | 2 | 3>(currentRound);
+    const [kpi, setKpi] = useState<KpiLedgerKpi>('capacity');
+    const [changeValue, setChangeValue] = useState('');
+    const [timing, setTiming] = useState<KpiOverrideTiming>('immediate');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setRoundNumber(currentRound);
+            setError(null);
+        }
+    }, [isOpen, currentRound]);
+
+    const {data: overrides, refresh: refreshOverrides} = useSupabaseQuery(
+        async () => (isOpen && currentSessionId ? db.kpiOverrides.getBySession(currentSessionId) : []),
+        [isOpen, currentSessionId],
+        {cacheKey: `kpi-overrides-${currentSessionId}`, cacheTimeout: 0}
+    );
+
+    const teamName = (id: string) => teams.find(team => team.id === id)?.name ?? 'Unknown team';
+    const selectedKpis = teamId ? teamRoundData[teamId]?.[roundNumber] : undefined;
+    const request = {
+        teamId,
+        roundNumber,
+        kpi,
+        changeValue: Number(changeValue),
+        timing,
+        reason
+    };
+    const validationError = !teamId
+        ? 'Choose a team'
+        : KpiOverrideEngine.validate({...request, sessionId: currentSessionId || ''}, !!selectedKpis);
+
+    const handleApply = async () => {
+        if (validationError) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await applyKpiOverride(request);
+            setChangeValue('');
+            setReason('');
+            await refreshOverrides();
+        } catch (applyError) {
+            setError(applyError instanceof Error ? applyError.message : 'Could not apply the correction');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleUndo = async (override: KpiOverride) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await undoKpiOverride(override);
+            await refreshOverrides();
+        } catch (undoError) {
+            setError(undoError instanceof Error ? undoError.message : 'Could not undo the correction');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Correct Team KPIs" size="xl">
+            <div className="p-2 space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="text-xs font-medium text-gray-700">
+                        Team
+                        <select value={teamId} onChange={e => setTeamId(e.target.value)} className={inputClass}>
+                            <option value="">Choose a team...</option>
+                            {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs font-medium text-gray-700">
+                        Round
+                        <select
+                            value={roundNumber}
+                            onChange={e => setRoundNumber(Number(e.target.value) as 1 | 2 | 3)}
+                            className={inputClass}
+                        >
+                            {[1, 2, 3].map(round => <option key={round} value={round}>Round {round}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs font-medium text-gray-700">
+                        KPI
+                        <select value={kpi} onChange={e => setKpi(e.target.value as KpiLedgerKpi)} className={inputClass}>
+                            {KPI_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs font-medium text-gray-700">
+                        Change (use a minus sign to subtract)
+                        <input
+                            type="number"
+                            value={changeValue}
+                            onChange={e => setChangeValue(e.target.value)}
+                            placeholder="e.g. -500"
+                            className={inputClass}
+                        />
+                    </label>
+                </div>
+
+                <div className="flex gap-4 text-sm text-gray-700">
+                    <label className="flex items-center gap-1.5">
+                        <input type="radio" checked={timing === 'immediate'} onChange={() => setTiming('immediate')}/>
+                        Apply now
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                        <input type="radio" checked={timing === 'round_start'} onChange={() => setTiming('round_start')}/>
+                        Permanent, from the start of the round
+                    </label>
+                </div>
+
+                {selectedKpis && (
+                    <p className="text-xs text-gray-500">
+                        Current {kpi}: {selectedKpis[`current_${kpi}`].toLocaleString()}
+                        {Number(changeValue) !== 0 && timing === 'immediate' &&
+                            ` → ${(selectedKpis[`current_${kpi}`] + Number(changeValue)).toLocaleString()}`}
+                    </p>
+                )}
+
+                <label className="block text-xs font-medium text-gray-700">
+                    Reason
+                    <input
+                        type="text"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        placeholder="e.g. Reset Team 3's ch4 choice by mistake"
+                        className={inputClass}
+                    />
+                </label>
+
+                {(error || validationError) && (
+                    <p className={`text-xs ${error ? 'text-red-600' : 'text-gray-500'}`}>{error || validationError}</p>
+                )}
+
+                <div className="text-right">
+                    <button
+                        onClick={handleApply}
+                        disabled={!!validationError || isSaving}
+                        className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Saving...' : 'Apply Correction'}
+                    </button>
+                </div>
+
+                <div className="border-t border-gray-200 pt-3">
+                    <h4 className="text-sm font-semibold text-gray-800 mb-2">Correction History</h4>
+                    {!overrides || overrides.length === 0 ? (
+                        <p className="text-xs text-gray-500">No corrections made in this game.</p>
+                    ) : (
+                        <ul className="space-y-1.5 max-h-60 overflow-y-auto pr-1">
+                            {overrides.map(override => (
+                                <li
+                                    key={override.id}
+                                    className={`flex items-center justify-between p-2 rounded-md text-xs ${
+                                        override.undone_at ? 'bg-gray-50 text-gray-400 line-through' : 'bg-gray-100 text-gray-700'
+                                    }`}
+                                >
+                                    <div>
+                                        <span className="font-semibold">{teamName(override.team_id)}</span>
+                                        {` · Round ${override.round_number} ${override.kpi} `}
+                                        {override.change_value > 0 ? '+' : ''}{override.change_value.toLocaleString()}
+                                        {override.timing === 'round_start' && ' (round start)'}
+                                        <div className="text-gray-500">
+                                            {override.reason} · {new Date(override.created_at).toLocaleTimeString()}
+                                        </div>
+                                    </div>
+                                    {!override.undone_at && (
+                                        <button
+                                            onClick={() => handleUndo(override)}
+                                            disabled={isSaving}
+                                            className="flex items-center gap-1 px-2 py-1 text-red-700 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                                        >
+                                            <RotateCcw size={12}/> Undo
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default KpiOverrideModal;
@@ -9,7 +9,9 @@ import {ConnectionStatus, SimpleBroadcastManager} from '@core/sync/SimpleBroadca
  * Uses SimpleBroadcastManager for basic connection status only
  */
 const PresentationButton: React.FC = () => {
-    const {state, currentSlideData} = useGameContext();
+    const {state, currentSlideData: gameSlideData, debrief} = useGameContext();
+    // The debrief takes over the display while it runs
+    const currentSlideData = debrief.currentSlide ?? gameSlideData;
     const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
     const presentationTabRef = useRef<Window | null>(null);
     const broadcastManager = state.currentSessionId ?
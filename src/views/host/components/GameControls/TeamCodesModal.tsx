@@ -1,40 +1,254 @@
 // src/components/Host/Controls/TeamCodesModal.tsx
-import React from 'react';
+// Passcodes are only stored hashed, so they can't be shown again here; a team that lost its code gets a new one.
+// Also lists each team's logged-in devices, so the host can remove one, let a replacement device in with a
+// one-time rejoin code, or (in captain mode) hand the team's captaincy to another device.
+import React, {useState} from 'react';
+import {Crown, KeyRound, RefreshCw, Smartphone, X} from 'lucide-react';
 import Modal from '@shared/components/UI/Modal';
-import {Team} from '@shared/types/common';
+import {Team, TeamRejoinCode} from '@shared/types';
+import {db} from '@shared/services/supabase';
+import {useSupabaseQuery} from '@shared/hooks/supabase';
+import {SimpleRealtimeManager} from '@core/sync';
 
 interface TeamCodesModalProps {
     isOpen: boolean;
     onClose: () => void;
     teams: Team[];
+    sessionId: string | null;
 }
 
-const TeamCodesModal: React.FC<TeamCodesModalProps> = ({isOpen, onClose, teams}) => {
+// Same 3-digit format as the create game wizard
+const generatePasscode = (): string => Math.floor(100 + Math.random() * 900).toString();
+
+const formatLastSeen = (timestamp: string | null): string => {
+    if (!timestamp) return 'not seen yet';
+    const minutes = Math.floor((Date.now() - Date.parse(timestamp)) / 60000);
+    if (minutes < 1) return 'seen just now';
+    if (minutes < 60) return `seen ${minutes} min ago`;
+    return `seen at ${new Date(timestamp).toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'})}`;
+};
+
+const TeamCodesModal: React.FC<TeamCodesModalProps> = ({isOpen, onClose, teams, sessionId}) => {
+    const [newPasscodes, setNewPasscodes] = useState<Record<string, string>>({});
+    const [rejoinCodes, setRejoinCodes] = useState<Record<string, TeamRejoinCode>>({});
+    const [captains, setCaptains] = useState<Record<string, string>>({});
+    const [busyKey, setBusyKey] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const {data: devices, isLoading: isLoadingDevices, refresh: refreshDevices} = useSupabaseQuery(
+        async () => (isOpen && sessionId ? db.teamDevices.getActiveBySession(sessionId) : []),
+        [isOpen, sessionId],
+        {cacheKey: `team-devices-${sessionId}`, cacheTimeout: 0}
+    );
+
+    const {data: submissionMode} = useSupabaseQuery(
+        async () => (isOpen && sessionId ? (await db.sessions.getById(sessionId))?.team_submission_mode ?? 'anyone' : 'anyone'),
+        [isOpen, sessionId],
+        {cacheKey: `submission-mode-${sessionId}`}
+    );
+
+    const handleReset = async (team: Team) => {
+        if (!window.confirm(`Give ${team.name} a new passcode? Their old passcode stops working and every device they have logged in is logged out.`)) return;
+
+        const passcode = generatePasscode();
+        setBusyKey(`passcode-${team.id}`);
+        setError(null);
+        try {
+            await db.teams.resetPasscode(team.id, passcode);
+            setNewPasscodes(prev => ({...prev, [team.id]: passcode}));
+            if (sessionId) {
+                const realtime = SimpleRealtimeManager.getInstance(sessionId, 'host');
+                (devices || [])
+                    .filter(device => device.team_id === team.id)
+                    .forEach(device => realtime.sendDeviceRevoked(team.id, device.id));
+            }
+            await refreshDevices();
+        } catch (err) {
+            console.error('[TeamCodesModal] Failed to reset passcode:', err);
+            setError(`Couldn't reset ${team.name}'s passcode. Please try again.`);
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handleIssueRejoinCode = async (team: Team) => {
+        if (!sessionId) return;
+        setBusyKey(`rejoin-${team.id}`);
+        setError(null);
+        try {
+            const rejoinCode = await db.teamDevices.createRejoinCode(sessionId, team.id);
+            setRejoinCodes(prev => ({...prev, [team.id]: rejoinCode}));
+        } catch (err) {
+            console.error('[TeamCodesModal] Failed to create rejoin code:', err);
+            setError(`Couldn't create a rejoin code for ${team.name}. Please try again.`);
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handleRevoke = async (team: Team, deviceSessionId: string, deviceName: string) => {
+        if (!sessionId) return;
+        if (!window.confirm(`Log ${deviceName} out of ${team.name}? It will need the passcode or a rejoin code to come back.`)) return;
+
+        setBusyKey(`revoke-${deviceSessionId}`);
+        setError(null);
+        try {
+            await db.teamDevices.revoke(deviceSessionId);
+            SimpleRealtimeManager.getInstance(sessionId, 'host').sendDeviceRevoked(team.id, deviceSessionId);
+            await refreshDevices();
+        } catch (err) {
+            console.error('[TeamCodesModal] Failed to revoke device:', err);
+            setError(`Couldn't log ${deviceName} out. Please try again.`);
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handleMakeCaptain = async (team: Team, deviceId: string, deviceName: string) => {
+        if (!sessionId) return;
+
+        setBusyKey(`captain-${deviceId}`);
+        setError(null);
+        try {
+            await db.teams.setCaptain(team.id, deviceId);
+            SimpleRealtimeManager.getInstance(sessionId, 'host').sendTeamCaptain(team.id, deviceId);
+            setCaptains(prev => ({...prev, [team.id]: deviceId}));
+        } catch (err) {
+            console.error('[TeamCodesModal] Failed to set captain:', err);
+            setError(`Couldn't make ${deviceName} captain. Please try again.`);
+        } finally {
+            setBusyKey(null);
+        }
+    };
+
+    const handleClose = () => {
+        // New codes are only shown once
+        setNewPasscodes({});
+        setRejoinCodes({});
+        setError(null);
+        onClose();
+    };
+
     return (
-        <Modal isOpen={isOpen} onClose={onClose} title="Team Access Codes" size="sm">
+        <Modal isOpen={isOpen} onClose={handleClose} title="Team Codes & Devices" size="md">
             <div className="p-2">
+                <p className="text-xs text-gray-500 mb-3">
+                    Passcodes are stored securely and can't be shown again. Use the printed handouts, give a team
+                    that lost its code a new one, or issue a one-time rejoin code for a replacement device.
+                </p>
                 {teams.length > 0 ? (
-                    <ul className="space-y-1.5 max-h-60 overflow-y-auto pr-1 scrollbar-thin">
-                        {teams.map(team => (
-                            <li
-                                key={team.id}
-                                className="p-2.5 bg-gray-100 rounded-md text-sm flex justify-between items-center"
-                            >
-                                <span className="font-semibold text-gray-800">{team.name}:</span>
-                                <span className="ml-2 text-blue-600 font-mono bg-blue-100 px-2 py-0.5 rounded">
-                                    {team.passcode}
-                                </span>
-                            </li>
-                        ))}
+                    <ul className="space-y-2 max-h-96 overflow-y-auto pr-1 scrollbar-thin">
+                        {teams.map(team => {
+                            const teamDevices = (devices || []).filter(device => device.team_id === team.id);
+                            const rejoinCode = rejoinCodes[team.id];
+                            const captainDeviceId = captains[team.id] ?? team.captain_device_id ?? null;
+                            return (
+                                <li key={team.id} className="p-2.5 bg-gray-100 rounded-md text-sm">
+                                    <div className="flex justify-between items-center gap-2">
+                                        <span className="font-semibold text-gray-800">{team.name}</span>
+                                        <div className="flex items-center gap-1.5">
+                                            {newPasscodes[team.id] ? (
+                                                <span className="text-blue-600 font-mono bg-blue-100 px-2 py-0.5 rounded">
+                                                    {newPasscodes[team.id]}
+                                                </span>
+                                            ) : (
+                                                <button
+                                                    onClick={() => handleReset(team)}
+                                                    disabled={busyKey !== null}
+                                                    className="flex items-center gap-1 text-xs text-gray-700 border border-gray-300 bg-white px-2 py-1 rounded hover:bg-gray-50 disabled:opacity-50"
+                                                >
+                                                    <KeyRound size={12}/>
+                                                    {busyKey === `passcode-${team.id}` ? 'Saving...' : 'New passcode'}
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => handleIssueRejoinCode(team)}
+                                                disabled={busyKey !== null || !sessionId}
+                                                className="flex items-center gap-1 text-xs text-gray-700 border border-gray-300 bg-white px-2 py-1 rounded hover:bg-gray-50 disabled:opacity-50"
+                                            >
+                                                <Smartphone size={12}/>
+                                                {busyKey === `rejoin-${team.id}` ? 'Creating...' : 'Rejoin code'}
+                                            </button>
+                                        </div>
+                                    </div>
+
+                                    {rejoinCode && (
+                                        <p className="mt-2 text-xs text-gray-600">
+                                            Rejoin code{' '}
+                                            <span className="font-mono text-base text-blue-700 bg-blue-100 px-2 py-0.5 rounded tracking-widest">
+                                                {rejoinCode.code}
+                                            </span>
+                                            {' '}works once, until{' '}
+                                            {new Date(rejoinCode.expires_at).toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'})}
+                                        </p>
+                                    )}
+
+                                    {teamDevices.length > 0 ? (
+                                        <ul className="mt-2 space-y-1">
+                                            {teamDevices.map(device => {
+                                                const deviceName = device.device_name || 'Unnamed device';
+                                                return (
+                                                    <li key={device.id}
+                                                        className="flex justify-between items-center text-xs text-gray-600 bg-white rounded px-2 py-1">
+                                                        <span>
+                                                            {deviceName}
+                                                            {submissionMode === 'captain' && device.device_id === captainDeviceId && (
+                                                                <span className="text-amber-600"> · captain</span>
+                                                            )}
+                                                            <span className="text-gray-400"> · {formatLastSeen(device.last_seen_at)}</span>
+                                                        </span>
+                                                        <span className="flex items-center gap-2">
+                                                            {submissionMode === 'captain' && device.device_id && device.device_id !== captainDeviceId && (
+                                                                <button
+                                                                    onClick={() => handleMakeCaptain(team, device.device_id!, deviceName)}
+                                                                    disabled={busyKey !== null}
+                                                                    className="flex items-center gap-0.5 text-amber-600 hover:text-amber-700 disabled:opacity-50"
+                                                                    title={`Make ${deviceName} ${team.name}'s captain`}
+                                                                >
+                                                                    <Crown size={12}/>
+                                                                    {busyKey === `captain-${device.device_id}` ? 'Saving...' : 'Make captain'}
+                                                                </button>
+                                                            )}
+                                                            <button
+                                                                onClick={() => handleRevoke(team, device.id, deviceName)}
+                                                                disabled={busyKey !== null}
+                                                                className="flex items-center gap-0.5 text-red-600 hover:text-red-700 disabled:opacity-50"
+                                                                title={`Log ${deviceName} out`}
+                                                            >
+                                                                <X size={12}/>
+                                                                {busyKey === `revoke-${device.id}` ? 'Removing...' : 'Remove'}
+                                                            </button>
+                                                        </span>
+                                                    </li>
+                                                );
+                                            })}
+                                        </ul>
+                                    ) : (
+                                        <p className="mt-1 text-xs text-gray-400">
+                                            {isLoadingDevices ? 'Loading devices...' : 'No devices logged in'}
+                                        </p>
+                                    )}
+                                </li>
+                            );
+                        })}
                     </ul>
                 ) : (
                     <p className="text-gray-600 text-sm py-4 text-center">
                         No teams found for this session. Ensure teams are set up.
                     </p>
                 )}
-                <div className="mt-4 text-right">
+                {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+                <div className="mt-4 flex justify-between items-center">
+                    <button
+                        onClick={() => refreshDevices()}
+                        disabled={isLoadingDevices || !sessionId}
+                        className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                    >
+                        <RefreshCw size={14} className={isLoadingDevices ? 'animate-spin' : ''}/>
+                        Refresh devices
+                    </button>
                     <button
-                        onClick={onClose}
+                        onClick={handleClose}
                         className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition"
                     >
                         Close
@@ -0,0 +1,132 @@
+// src/views/host/components/GameControls/TeamMessageModal.tsx
+// Host announcements: send a message to every team or one team, and see which teams have read each one
+import React, {useState} from 'react';
+import {CheckCheck, Send} from 'lucide-react';
+import Modal from '@shared/components/UI/Modal';
+import {useGameContext} from '@app/providers/GameProvider';
+import {TeamMessage} from '@shared/types';
+
+interface TeamMessageModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const QUICK_MESSAGES = ['2 minutes left', '30 seconds left', 'Please submit your decision now'];
+
+const TeamMessageModal: React.FC<TeamMessageModalProps> = ({isOpen, onClose}) => {
+    const {state, teamMessaging} = useGameContext();
+    const {teams} = state;
+    const {messages, sendMessage, isReadBy} = teamMessaging;
+
+    const [teamId, setTeamId] = useState('');
+    const [body, setBody] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const teamName = (id: string) => teams.find(team => team.id === id)?.name ?? 'Unknown team';
+
+    // Teams a message went to, for counting read receipts
+    const recipientsOf = (message: TeamMessage) =>
+        message.team_id ? teams.filter(team => team.id === message.team_id) : teams;
+
+    const handleSend = async () => {
+        if (!body.trim()) return;
+        setIsSending(true);
+        setError(null);
+        try {
+            await sendMessage(body, teamId || null);
+            setBody('');
+        } catch (sendError) {
+            setError(sendError instanceof Error ? sendError.message : 'Could not send the message');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Message Teams" size="xl">
+            <div className="p-2 space-y-4">
+                <label className="block text-xs font-medium text-gray-700">
+                    Send to
+                    <select value={teamId} onChange={e => setTeamId(e.target.value)} className={inputClass}>
+                        <option value="">All teams</option>
+                        {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                    </select>
+                </label>
+
+                <label className="block text-xs font-medium text-gray-700">
+                    Message
+                    <textarea
+                        value={body}
+                        onChange={e => setBody(e.target.value)}
+                        rows={3}
+                        maxLength={500}
+                        placeholder="e.g. Your strategy report is ready"
+                        className={inputClass}
+                    />
+                </label>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    {QUICK_MESSAGES.map(text => (
+                        <button
+                            key={text}
+                            onClick={() => setBody(text)}
+                            className="px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100"
+                        >
+                            {text}
+                        </button>
+                    ))}
+                </div>
+
+                {error && <p className="text-xs text-red-600">{error}</p>}
+
+                <div className="text-right">
+                    <button
+                        onClick={handleSend}
+                        disabled={!body.trim() || isSending}
+                        className="inline-flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Send size={14}/> {isSending ? 'Sending...' : 'Send'}
+                    </button>
+                </div>
+
+                <div className="border-t border-gray-200 pt-3">
+                    <h4 className="text-sm font-semibold text-gray-800 mb-2">Message History</h4>
+                    {messages.length === 0 ? (
+                        <p className="text-xs text-gray-500">No messages sent in this game.</p>
+                    ) : (
+                        <ul className="space-y-1.5 max-h-60 overflow-y-auto pr-1">
+                            {[...messages].reverse().map(message => {
+                                const recipients = recipientsOf(message);
+                                const readers = recipients.filter(team => isReadBy(message.id, team.id));
+                                const unread = recipients.filter(team => !isReadBy(message.id, team.id));
+                                return (
+                                    <li key={message.id} className="p-2 rounded-md text-xs bg-gray-100 text-gray-700">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-semibold">
+                                                {message.team_id ? teamName(message.team_id) : 'All teams'}
+                                            </span>
+                                            <span className={`flex items-center gap-1 ${unread.length === 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                                                <CheckCheck size={12}/> Read by {readers.length}/{recipients.length}
+                                            </span>
+                                        </div>
+                                        <div className="mt-0.5 whitespace-pre-wrap">{message.body}</div>
+                                        <div className="text-gray-500">
+                                            {new Date(message.created_at).toLocaleTimeString()}
+                                            {unread.length > 0 && recipients.length > 1 &&
+                                                ` · Not yet read: ${unread.map(team => team.name).join(', ')}`}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default TeamMessageModal;
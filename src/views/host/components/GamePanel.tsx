@@ -5,15 +5,18 @@ import React, {useState, useEffect} from 'react';
 import DecisionHistory from './DecisionHistory';
 import HostGameControls from './GameControls';
 import TeamMonitor from './TeamMonitor';
+import HelpQueue from './HelpQueue';
 import DecisionReviewModal from './DecisionReviewModal';
 import {useGameContext} from '@app/providers/GameProvider';
-import {Layers, Info, AlertTriangle, History, ListChecks} from 'lucide-react';
+import {useConnectionHealth} from '@views/host/hooks/useConnectionHealth';
+import {Layers, Info, AlertTriangle, History, ListChecks, LifeBuoy, Wifi, WifiOff, X} from 'lucide-react';
 
 const GamePanel: React.FC = () => {
-    const {state, currentSlideData} = useGameContext();
-    const {gameStructure, currentSessionId, error: appError, isLoading} = state;
+    const {state, currentSlideData, helpRequests} = useGameContext();
+    const {gameStructure, currentSessionId, error: appError, isLoading, teams} = state;
+    const connectionHealth = useConnectionHealth();
 
-    const [activeTab, setActiveTab] = useState<'timeline' | 'submissions'>('timeline');
+    const [activeTab, setActiveTab] = useState<'timeline' | 'submissions' | 'help'>('timeline');
     const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
     const [reviewingDecisionKey, setReviewingDecisionKey] = useState<string | null>(null);
 
@@ -65,9 +68,41 @@ const GamePanel: React.FC = () => {
                                 Panel</h2>
                             <p className="text-xs text-gray-500 truncate">Session: {currentSessionId.substring(0, 12)}...</p>
                         </div>
+                        {teams.length > 0 && (
+                            <span
+                                className={`flex items-center gap-1 text-xs font-medium ${
+                                    connectionHealth.onlineTeamCount === teams.length ? 'text-green-600' : 'text-gray-500'
+                                }`}
+                                title="Teams with at least one device connected"
+                            >
+                                <Wifi size={14}/> {connectionHealth.onlineTeamCount}/{teams.length} online
+                            </span>
+                        )}
                     </div>
                 </div>
 
+                {/* Teams that lost connection while they still owe a decision */}
+                {connectionHealth.alerts.length > 0 && (
+                    <div className="flex-shrink-0 border-b border-red-200 bg-red-50 px-4 py-2 space-y-1">
+                        {connectionHealth.alerts.map(alert => (
+                            <div key={alert.id} className="flex items-center gap-2 text-sm text-red-700">
+                                <WifiOff size={14} className="flex-shrink-0"/>
+                                <span className="flex-1 min-w-0">
+                                    <strong>{alert.teamName}</strong> disconnected during {alert.decisionTitle}
+                                    <span className="text-red-500"> · {new Date(alert.droppedAt).toLocaleTimeString()}</span>
+                                </span>
+                                <button
+                                    onClick={() => connectionHealth.dismissAlert(alert.id)}
+                                    className="p-0.5 text-red-400 hover:text-red-700"
+                                    aria-label="Dismiss alert"
+                                >
+                                    <X size={14}/>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Tab Navigation */}
                 <div className="flex-shrink-0 border-b border-gray-200 flex">
                     <button
@@ -90,6 +125,20 @@ const GamePanel: React.FC = () => {
                         <ListChecks size={16}/>
                         Submissions
                     </button>
+                    <button
+                        onClick={() => setActiveTab('help')}
+                        className={`flex-1 flex items-center justify-center gap-2 p-3 text-sm font-medium transition-colors ${
+                            activeTab === 'help' ? 'bg-white text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:bg-gray-100'
+                        }`}
+                    >
+                        <LifeBuoy size={16}/>
+                        Help
+                        {helpRequests.openCount > 0 && (
+                            <span className="min-w-[1.25rem] px-1.5 py-0.5 text-xs font-bold text-white bg-orange-500 rounded-full">
+                                {helpRequests.openCount}
+                            </span>
+                        )}
+                    </button>
                 </div>
 
                 {/* Tab Content */}
@@ -100,8 +149,9 @@ const GamePanel: React.FC = () => {
                         </div>
                     )}
                     {activeTab === 'submissions' && isInteractiveStudentSlide && (
-                        <TeamMonitor/>
+                        <TeamMonitor connections={connectionHealth.connections}/>
                     )}
+                    {activeTab === 'help' && <HelpQueue/>}
                 </div>
 
                 {/* Bottom Controls */}
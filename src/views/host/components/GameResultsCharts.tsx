@@ -8,8 +8,9 @@ import {
     BarChart2,
     Zap
 } from 'lucide-react';
-import {Team, TeamRoundData} from '@shared/types';
-import {calculateKpiValue, formatValueForDisplay} from '@shared/components/UI/Leaderboard/utils';
+import {MetricKey, Team, TeamRoundData} from '@shared/types';
+import {formatValueForDisplay} from '@shared/components/UI/Leaderboard/utils';
+import {FinancialMetrics} from '@core/game/FinancialMetrics';
 
 interface LeaderboardItem {
     teamName: string;
@@ -26,12 +27,12 @@ interface GameResultsChartsProps {
 }
 
 interface MetricConfig {
-    key: string;
+    key: MetricKey;
     label: string;
     icon: React.ReactNode;
     colorScheme: string;
     higherIsBetter: boolean;
-    secondaryMetric?: string;
+    secondaryMetric?: MetricKey;
     secondaryLabel?: string;
 }
 
@@ -166,13 +167,13 @@ const GameResultsCharts: React.FC<GameResultsChartsProps> = ({
                 const roundData = teamRoundData[team.id]?.[roundNumber];
                 if (!roundData) return null;
 
-                const value = calculateKpiValue(roundData, metric.key as any);
-                const formattedValue = formatValueForDisplay(value, metric.key as any);
+                const value = FinancialMetrics.getValue(roundData, metric.key);
+                const formattedValue = formatValueForDisplay(value, metric.key);
 
                 let secondaryValue: string | undefined;
                 if (metric.secondaryMetric) {
-                    const secValue = calculateKpiValue(roundData, metric.secondaryMetric as any);
-                    secondaryValue = formatValueForDisplay(secValue, metric.secondaryMetric as any);
+                    const secValue = FinancialMetrics.getValue(roundData, metric.secondaryMetric);
+                    secondaryValue = formatValueForDisplay(secValue, metric.secondaryMetric);
                 }
 
                 return {
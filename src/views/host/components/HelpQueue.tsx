@@ -0,0 +1,90 @@
+// src/views/host/components/HelpQueue.tsx
+// Teams' help requests: open and claimed ones first (oldest at the top), then the session's resolved log
+import React from 'react';
+import {CheckCircle2, Hand, LifeBuoy} from 'lucide-react';
+import {useGameContext} from '@app/providers/GameProvider';
+import {HelpRequest} from '@shared/types';
+
+const formatTime = (timestamp: string | null) => timestamp ? new Date(timestamp).toLocaleTimeString() : '';
+
+const HelpQueue: React.FC = () => {
+    const {state, helpRequests} = useGameContext();
+    const {teams} = state;
+    const {requests, claim, resolve} = helpRequests;
+
+    const teamName = (id: string) => teams.find(team => team.id === id)?.name ?? 'Unknown team';
+    const active = requests.filter(request => request.status !== 'resolved');
+    const resolved = requests.filter(request => request.status === 'resolved').reverse();
+
+    const handle = (action: (id: string) => Promise<void>, request: HelpRequest) => {
+        action(request.id).catch(error => console.error('[HelpQueue] Failed to update help request:', error));
+    };
+
+    return (
+        <div className="p-4 space-y-4">
+            {active.length === 0 ? (
+                <div className="p-4 text-center text-gray-500">
+                    <LifeBuoy size={24} className="mx-auto mb-2 opacity-50"/>
+                    <p>No teams are waiting for help</p>
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {active.map(request => (
+                        <li
+                            key={request.id}
+                            className={`bg-white rounded-lg border p-4 ${
+                                request.status === 'open' ? 'border-orange-300' : 'border-blue-200'
+                            }`}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <div>
+                                    <h4 className="font-medium text-gray-900">{teamName(request.team_id)}</h4>
+                                    <div className="text-xs text-gray-500">
+                                        Asked {formatTime(request.created_at)}
+                                        {request.status === 'claimed' && ` · Claimed ${formatTime(request.claimed_at)}`}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {request.status === 'open' && (
+                                        <button
+                                            onClick={() => handle(claim, request)}
+                                            className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100"
+                                        >
+                                            <Hand size={12}/> Claim
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handle(resolve, request)}
+                                        className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded-md hover:bg-green-100"
+                                    >
+                                        <CheckCircle2 size={12}/> Resolve
+                                    </button>
+                                </div>
+                            </div>
+                            {request.message && (
+                                <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{request.message}</p>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {resolved.length > 0 && (
+                <div className="border-t border-gray-200 pt-3">
+                    <h4 className="text-sm font-semibold text-gray-800 mb-2">Resolved ({resolved.length})</h4>
+                    <ul className="space-y-1.5">
+                        {resolved.map(request => (
+                            <li key={request.id} className="p-2 rounded-md text-xs bg-gray-100 text-gray-600">
+                                <span className="font-semibold text-gray-700">{teamName(request.team_id)}</span>
+                                {` · Asked ${formatTime(request.created_at)} · Resolved ${formatTime(request.resolved_at)}`}
+                                {request.message && <div className="text-gray-500">{request.message}</div>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HelpQueue;
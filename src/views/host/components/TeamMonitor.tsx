@@ -1,13 +1,15 @@
 import React, {useEffect, useMemo, useState} from 'react';
 import {useGameContext} from '@app/providers/GameProvider';
 import {TeamDecision} from '@shared/types';
-import {AlertTriangle, CheckCircle2, Clock, Info,} from 'lucide-react';
+import {AlertTriangle, CheckCheck, CheckCircle2, Clock, HelpCircle, Info, MessageSquare,} from 'lucide-react';
 import {useSupabaseQuery} from '@shared/hooks/supabase';
 import {db, supabase} from '@shared/services/supabase';
 import Modal from '@shared/components/UI/Modal';
+import KpiLedgerView from '@shared/components/KpiLedger/KpiLedgerView';
 import SelectionDisplay, {SelectionData} from './SelectionDisplay';
 import {ContinuationPricingEngine} from '@core/game/ContinuationPricingEngine';
 import { MultiSelectChallengeTracker } from '@core/game/MultiSelectChallengeTracker';
+import {TeamConnection} from '@views/host/hooks/useConnectionHealth';
 
 interface ImmediatePurchaseData {
     id: string;
@@ -18,14 +20,43 @@ interface ImmediatePurchaseData {
     selected_investment_options: string[];
 }
 
-const TeamMonitor: React.FC = () => {
-    const {state, currentSlideData, resetTeamDecision, setAllTeamsSubmittedCurrentInteractivePhase} = useGameContext();
-    const {teams, teamDecisions, gameStructure, currentSessionId} = state;
+interface TeamMonitorProps {
+    connections?: Record<string, TeamConnection>;   // live presence per team
+}
+
+// Online teams list their devices and app versions; offline teams show when they were last seen
+const describeConnection = (connection?: TeamConnection): { label: string; title: string; dotClass: string } => {
+    if (!connection || connection.status === 'never_connected') {
+        return {label: 'Not connected', title: 'No device has joined as this team', dotClass: 'bg-gray-300'};
+    }
+    if (connection.status === 'offline') {
+        const lastSeen = new Date(connection.lastSeenAt!).toLocaleTimeString();
+        return {label: `Offline · last seen ${lastSeen}`, title: `Last device left at ${lastSeen}`, dotClass: 'bg-red-500'};
+    }
+    const count = connection.devices.length;
+    const versions = [...new Set(connection.devices.map(device => device.app_version))];
+    return {
+        label: `Online · ${count} device${count === 1 ? '' : 's'}`,
+        title: `App version${versions.length === 1 ? '' : 's'}: ${versions.join(', ')}`,
+        dotClass: 'bg-green-500'
+    };
+};
+
+const TeamMonitor: React.FC<TeamMonitorProps> = ({connections}) => {
+    const {
+        state,
+        currentSlideData,
+        resetTeamDecision,
+        setAllTeamsSubmittedCurrentInteractivePhase,
+        teamMessaging
+    } = useGameContext();
+    const {teams, teamDecisions, teamRoundData, gameStructure, currentSessionId} = state;
 
     // Modal states
     const [isResetModalOpen, setIsResetModalOpen] = useState<boolean>(false);
     const [teamToReset, setTeamToReset] = useState<{ id: string, name: string } | null>(null);
     const [continuationPricingCache, setContinuationPricingCache] = useState<Record<string, any>>({});
+    const [ledgerTeam, setLedgerTeam] = useState<{ id: string, name: string } | null>(null);
 
     const decisionKey = currentSlideData?.interactive_data_key;
     const isInvestmentPeriod = currentSlideData?.type === 'interactive_invest';
@@ -298,6 +329,9 @@ const TeamMonitor: React.FC = () => {
                         const selectionData = getSelectionData(decision, team.id);
                         const teamPurchase = safeImmediatePurchases.find(p => p.team_id === team.id);
                         const needsBusinessReport = teamPurchase && !teamPurchase.report_given;
+                        const latestMessage = teamMessaging.latestMessageForTeam(team.id);
+                        const messageRead = latestMessage ? teamMessaging.isReadBy(latestMessage.id, team.id) : false;
+                        const connection = connections ? describeConnection(connections[team.id]) : null;
 
                         return (
                             <div
@@ -318,17 +352,34 @@ const TeamMonitor: React.FC = () => {
                                                     : 'Awaiting submission'
                                                 }
                                             </div>
+                                            {connection && (
+                                                <div className="flex items-center gap-1.5 text-xs text-gray-500" title={connection.title}>
+                                                    <span className={`w-1.5 h-1.5 rounded-full ${connection.dotClass}`}/>
+                                                    {connection.label}
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
 
-                                    {hasSubmitted && (
-                                        <button
-                                            onClick={() => openResetModal(team.id, team.name)}
-                                            className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 hover:border-red-300 transition-colors"
-                                        >
-                                            Reset
-                                        </button>
-                                    )}
+                                    <div className="flex items-center space-x-2">
+                                        {teamRoundData[team.id] && (
+                                            <button
+                                                onClick={() => setLedgerTeam({id: team.id, name: team.name})}
+                                                className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                                                title="Why are this team's KPIs what they are?"
+                                            >
+                                                <HelpCircle size={16}/>
+                                            </button>
+                                        )}
+                                        {hasSubmitted && (
+                                            <button
+                                                onClick={() => openResetModal(team.id, team.name)}
+                                                className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 hover:border-red-300 transition-colors"
+                                            >
+                                                Reset
+                                            </button>
+                                        )}
+                                    </div>
                                 </div>
 
                                 {/* Selection Display */}
@@ -346,6 +397,26 @@ const TeamMonitor: React.FC = () => {
                                         </span>
                                     </div>
                                 )}
+
+                                {/* Latest host message and whether the team has acknowledged it */}
+                                {latestMessage && (
+                                    <div
+                                        className="flex items-center justify-between gap-2 mt-2 text-xs text-gray-500"
+                                        title={latestMessage.body}
+                                    >
+                                        <span className="flex items-center gap-1 min-w-0">
+                                            <MessageSquare size={12} className="flex-shrink-0"/>
+                                            <span className="truncate">{latestMessage.body}</span>
+                                        </span>
+                                        {messageRead ? (
+                                            <span className="flex items-center gap-1 text-green-600 flex-shrink-0">
+                                                <CheckCheck size={12}/> Read
+                                            </span>
+                                        ) : (
+                                            <span className="text-orange-500 flex-shrink-0">Unread</span>
+                                        )}
+                                    </div>
+                                )}
                             </div>
                         );
                     })}
@@ -379,6 +450,23 @@ const TeamMonitor: React.FC = () => {
                     </div>
                 </div>
             </Modal>
+
+            {/* KPI History Modal */}
+            <Modal
+                isOpen={!!ledgerTeam}
+                onClose={() => setLedgerTeam(null)}
+                title={`${ledgerTeam?.name ?? ''} KPI History`}
+                size="xl"
+            >
+                {ledgerTeam && currentSessionId && (
+                    <KpiLedgerView
+                        sessionId={currentSessionId}
+                        teamId={ledgerTeam.id}
+                        roundData={teamRoundData[ledgerTeam.id] || {}}
+                        initialRound={currentSlideData.round_number || 1}
+                    />
+                )}
+            </Modal>
         </>
     );
 };
@@ -1 +1,117 @@
-// TODO: Extract connection monitoring logic here.
+// src/views/host/hooks/useConnectionHealth.ts
+// Live team connection view from Realtime presence: which teams are online, on how many devices and
+// app versions, when offline teams were last seen, and alerts for teams that drop while a decision is open.
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {useGameContext} from '@app/providers/GameProvider';
+import {SimpleRealtimeManager} from '@core/sync';
+import {TeamPresence} from '@shared/types';
+
+export type TeamConnectionStatus = 'online' | 'offline' | 'never_connected';
+
+export interface TeamConnection {
+    status: TeamConnectionStatus;
+    devices: TeamPresence[];
+    lastSeenAt: number | null;      // when the last device left; null while online or never seen
+}
+
+export interface TeamDropAlert {
+    id: string;
+    teamId: string;
+    teamName: string;
+    decisionTitle: string;
+    droppedAt: number;
+}
+
+export interface UseConnectionHealthReturn {
+    connections: Record<string, TeamConnection>;
+    onlineTeamCount: number;
+    alerts: TeamDropAlert[];
+    dismissAlert: (alertId: string) => void;
+}
+
+const NEVER_CONNECTED: TeamConnection = {status: 'never_connected', devices: [], lastSeenAt: null};
+
+export const useConnectionHealth = (): UseConnectionHealthReturn => {
+    const {state, currentSlideData} = useGameContext();
+    const {currentSessionId, teams, teamDecisions} = state;
+
+    const [devicesByTeam, setDevicesByTeam] = useState<Record<string, TeamPresence[]>>({});
+    const [lastSeen, setLastSeen] = useState<Record<string, number>>({});
+    const [alerts, setAlerts] = useState<TeamDropAlert[]>([]);
+
+    // Latest game state for the presence handler, without resubscribing on every change
+    const gameRef = useRef({teams, teamDecisions, currentSlideData});
+    gameRef.current = {teams, teamDecisions, currentSlideData};
+    const onlineRef = useRef<Set<string>>(new Set());
+
+    const handlePresence = useCallback((presence: TeamPresence[]) => {
+        const grouped: Record<string, TeamPresence[]> = {};
+        presence.forEach(entry => {
+            grouped[entry.team_id] = [...(grouped[entry.team_id] || []), entry];
+        });
+
+        const now = Date.now();
+        const online = new Set(Object.keys(grouped));
+        const dropped = [...onlineRef.current].filter(teamId => !online.has(teamId));
+        const reconnected = [...online].filter(teamId => !onlineRef.current.has(teamId));
+        onlineRef.current = online;
+
+        setDevicesByTeam(grouped);
+        if (dropped.length > 0) {
+            setLastSeen(prev => ({...prev, ...Object.fromEntries(dropped.map(teamId => [teamId, now]))}));
+        }
+
+        const {teams: currentTeams, teamDecisions: decisions, currentSlideData: slide} = gameRef.current;
+        const decisionKey = slide?.type.startsWith('interactive_') ? slide.interactive_data_key : undefined;
+        const newAlerts: TeamDropAlert[] = decisionKey
+            ? dropped
+                .filter(teamId => !decisions[teamId]?.[decisionKey]?.submitted_at)
+                .map(teamId => ({
+                    id: `${teamId}-${now}`,
+                    teamId,
+                    teamName: currentTeams.find(team => team.id === teamId)?.name ?? 'Unknown team',
+                    decisionTitle: slide?.title ?? decisionKey,
+                    droppedAt: now
+                }))
+            : [];
+
+        if (newAlerts.length > 0 || reconnected.length > 0) {
+            // A team that comes back no longer needs chasing
+            setAlerts(prev => [...prev.filter(alert => !online.has(alert.teamId)), ...newAlerts]);
+        }
+    }, []);
+
+    useEffect(() => {
+        setDevicesByTeam({});
+        setLastSeen({});
+        setAlerts([]);
+        onlineRef.current = new Set();
+        if (!currentSessionId || currentSessionId === 'new') return;
+
+        const realtimeManager = SimpleRealtimeManager.getInstance(currentSessionId, 'host');
+        handlePresence(realtimeManager.getPresence());
+        return realtimeManager.onPresence(handlePresence);
+    }, [currentSessionId, handlePresence]);
+
+    // Alerts are only useful while the decision they were raised for is still on screen
+    useEffect(() => {
+        setAlerts([]);
+    }, [currentSlideData?.id]);
+
+    const dismissAlert = useCallback((alertId: string) => {
+        setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+    }, []);
+
+    const connections: Record<string, TeamConnection> = {};
+    teams.forEach(team => {
+        const devices = devicesByTeam[team.id] || [];
+        connections[team.id] = devices.length > 0
+            ? {status: 'online', devices, lastSeenAt: null}
+            : lastSeen[team.id]
+                ? {status: 'offline', devices: [], lastSeenAt: lastSeen[team.id]}
+                : NEVER_CONNECTED;
+    });
+    const onlineTeamCount = teams.filter(team => connections[team.id].status === 'online').length;
+
+    return {connections, onlineTeamCount, alerts, dismissAlert};
+};
@@ -0,0 +1,218 @@
+// src/views/host/hooks/useContentPackEditor.ts
+// Loads one content pack, keeps an editable draft of its content and validates it on every change
+import {useCallback, useEffect, useMemo, useState} from 'react';
+import {db, formatSupabaseError} from '@shared/services/supabase';
+import {Consequence, ContentPack, ContentPackContent, GameVersion, InvestmentPayoff, Slide} from '@shared/types';
+import {getGameStructure} from '@core/content/GameVariants';
+import {applyContentPack} from '@core/content/ContentPacks';
+import {createContentPackFile} from '@core/content/ContentPackFormat';
+import {createLeaderboardSpec, withLeaderboardSpecs} from '@core/content/LeaderboardSpecs';
+import {ContentIssue, validateGameContent} from '@core/content/ContentValidation';
+
+interface UseContentPackEditorReturn {
+    pack: ContentPack | null;
+    content: ContentPackContent | null;
+    name: string;
+    issues: ContentIssue[];
+    errorCount: number;
+    isLoading: boolean;
+    isSaving: boolean;
+    isDirty: boolean;
+    error: string | null;
+    setName: (name: string) => void;
+    updateSlide: (slideId: number, updates: Partial<Slide>) => void;
+    insertLeaderboardSlide: (afterSlideId: number) => number | null;
+    updateConsequence: (key: string, index: number, updates: Partial<Consequence>) => void;
+    updatePayoff: (key: string, index: number, updates: Partial<InvestmentPayoff>) => void;
+    save: () => Promise<boolean>;
+    downloadJson: () => void;
+}
+
+export const useContentPackEditor = (packId: string | undefined): UseContentPackEditorReturn => {
+    const [pack, setPack] = useState<ContentPack | null>(null);
+    const [content, setContent] = useState<ContentPackContent | null>(null);
+    const [name, setNameState] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isDirty, setIsDirty] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!packId) return;
+        let cancelled = false;
+
+        setIsLoading(true);
+        db.contentPacks.getById(packId)
+            .then(loadedPack => {
+                if (cancelled) return;
+                if (!loadedPack) {
+                    setError('Content pack not found.');
+                    return;
+                }
+                setPack(loadedPack);
+                setContent({
+                    ...loadedPack.content,
+                    slides: withLeaderboardSpecs(
+                        loadedPack.content.slides,
+                        getGameStructure(loadedPack.base_version).slides
+                    )
+                });
+                setNameState(loadedPack.name);
+                setIsDirty(false);
+            })
+            .catch(err => {
+                if (!cancelled) setError(`Failed to load content pack: ${formatSupabaseError(err)}`);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [packId]);
+
+    // Validate the draft as it would be played: layered over the pack's base variant
+    const issues = useMemo(() => {
+        if (!pack || !content) return [];
+        return validateGameContent(applyContentPack(getGameStructure(pack.base_version), content));
+    }, [pack, content]);
+
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+    const editContent = useCallback((updater: (prev: ContentPackContent) => ContentPackContent) => {
+        setContent(prev => prev ? updater(prev) : prev);
+        setIsDirty(true);
+    }, []);
+
+    const setName = useCallback((newName: string) => {
+        setNameState(newName);
+        setIsDirty(true);
+    }, []);
+
+    const updateSlide = useCallback((slideId: number, updates: Partial<Slide>) => {
+        editContent(prev => ({
+            ...prev,
+            slides: prev.slides.map(slide => slide.id === slideId ? {...slide, ...updates} : slide)
+        }));
+    }, [editContent]);
+
+    /**
+     * Add a leaderboard slide straight after another slide, ranking that slide's round (RD-1 for intro slides).
+     * Returns the new slide's id.
+     */
+    const insertLeaderboardSlide = useCallback((afterSlideId: number): number | null => {
+        if (!content) return null;
+        const afterIndex = content.slides.findIndex(slide => slide.id === afterSlideId);
+        if (afterIndex === -1) return null;
+
+        const after = content.slides[afterIndex];
+        const takenIds = new Set(content.slides.map(slide => slide.id));
+        let newId = after.id;
+        do {
+            newId = Math.round((newId + 0.01) * 100) / 100;
+        } while (takenIds.has(newId));
+
+        const round = (after.round_number || 1) as 1 | 2 | 3;
+        const newSlide: Slide = {
+            id: newId,
+            round_number: after.round_number,
+            title: `RD-${round} Leaderboard: Unmet Demand`,
+            type: 'leaderboard_chart',
+            main_text: `Round ${round} Leaderboard: Unmet Demand`,
+            sub_text: `Orders each team could not fill in Round ${round}.`,
+            leaderboard: createLeaderboardSpec(round, 'unmet_demand')
+        };
+
+        editContent(prev => {
+            const slides = [...prev.slides];
+            slides.splice(slides.findIndex(slide => slide.id === afterSlideId) + 1, 0, newSlide);
+            return {...prev, slides};
+        });
+        return newId;
+    }, [content, editContent]);
+
+    const updateConsequence = useCallback((key: string, index: number, updates: Partial<Consequence>) => {
+        editContent(prev => ({
+            ...prev,
+            all_consequences: {
+                ...prev.all_consequences,
+                [key]: (prev.all_consequences[key] || []).map((consequence, i) =>
+                    i === index ? {...consequence, ...updates} : consequence
+                )
+            }
+        }));
+    }, [editContent]);
+
+    const updatePayoff = useCallback((key: string, index: number, updates: Partial<InvestmentPayoff>) => {
+        editContent(prev => ({
+            ...prev,
+            all_investment_payoffs: {
+                ...prev.all_investment_payoffs,
+                [key]: (prev.all_investment_payoffs[key] || []).map((payoff, i) =>
+                    i === index ? {...payoff, ...updates} : payoff
+                )
+            }
+        }));
+    }, [editContent]);
+
+    const save = useCallback(async (): Promise<boolean> => {
+        if (!pack || !content) return false;
+        if (errorCount > 0) {
+            setError(`Fix ${errorCount} validation error${errorCount === 1 ? '' : 's'} before saving.`);
+            return false;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            const saved = await db.contentPacks.update(pack.id, {name: name.trim() || pack.name, content});
+            setPack(saved);
+            setIsDirty(false);
+            return true;
+        } catch (err) {
+            setError(`Failed to save content pack: ${formatSupabaseError(err)}`);
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [pack, content, name, errorCount]);
+
+    const downloadJson = useCallback(() => {
+        if (!pack || !content) return;
+
+        const file = createContentPackFile(
+            applyContentPack(getGameStructure(pack.base_version), content, name),
+            name,
+            pack.base_version as GameVersion
+        );
+        const json = JSON.stringify(file, null, 2);
+        const url = URL.createObjectURL(new Blob([json], {type: 'application/json'}));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${(name || 'content-pack').replace(/[^a-z0-9-_]+/gi, '_')}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }, [pack, content, name]);
+
+    return {
+        pack,
+        content,
+        name,
+        issues,
+        errorCount,
+        isLoading,
+        isSaving,
+        isDirty,
+        error,
+        setName,
+        updateSlide,
+        insertLeaderboardSlide,
+        updateConsequence,
+        updatePayoff,
+        save,
+        downloadJson
+    };
+};
@@ -0,0 +1,197 @@
+// src/views/host/hooks/useDecisionTimer.ts
+// Host side of the decision countdown: owns the timer state, broadcasts every change to teams
+// (Supabase Realtime) and the presentation (BroadcastChannel), persists it on the session so
+// reconnecting devices pick it up, and applies the expiry action when time runs out.
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {db} from '@shared/services/supabase';
+import {DecisionTimer} from '@core/sync/DecisionTimer';
+import {ServerClock} from '@core/sync/ServerClock';
+import {SimpleBroadcastManager} from '@core/sync/SimpleBroadcastManager';
+import {SimpleRealtimeManager} from '@core/sync/SimpleRealtimeManager';
+import {Slide} from '@shared/types/game';
+import {DecisionTimerExpiryAction, DecisionTimerState} from '@shared/types/sync';
+
+interface UseDecisionTimerProps {
+    sessionId: string | null;
+    currentSlide: Slide | null;
+    submitDefaultDecisions: (slide: Slide) => Promise<void>;
+}
+
+interface UseDecisionTimerReturn {
+    timer: DecisionTimerState | null;
+    isTimedSlide: boolean;
+    defaultDurationSeconds: number | null;  // what Start uses
+    expiryAction: DecisionTimerExpiryAction;
+    setExpiryAction: (action: DecisionTimerExpiryAction) => void;
+    start: (durationSeconds?: number) => void;
+    pause: () => void;
+    resume: () => void;
+    extend: (seconds: number) => void;
+    end: () => void;
+    cancel: () => void;
+}
+
+// Used for interactive slides whose content doesn't set timer_duration_seconds
+const FALLBACK_DURATION_SECONDS = 180;
+
+const isInteractiveSlide = (slide: Slide | null): slide is Slide =>
+    !!slide?.interactive_data_key && slide.type.startsWith('interactive_');
+
+export const useDecisionTimer = ({
+                                     sessionId,
+                                     currentSlide,
+                                     submitDefaultDecisions
+                                 }: UseDecisionTimerProps): UseDecisionTimerReturn => {
+    const [timer, setTimer] = useState<DecisionTimerState | null>(null);
+    const [expiryAction, setExpiryActionState] = useState<DecisionTimerExpiryAction>('lock');
+    const timerRef = useRef<DecisionTimerState | null>(null);
+    const closingRef = useRef(false);
+    const restoredSessionRef = useRef<string | null>(null);
+    const clock = ServerClock.getInstance();
+
+    const publish = useCallback(async (next: DecisionTimerState | null) => {
+        timerRef.current = next;
+        setTimer(next);
+        if (!sessionId) return;
+
+        SimpleRealtimeManager.getInstance(sessionId, 'host').sendDecisionTimer(next);
+        SimpleBroadcastManager.getInstance(sessionId, 'host').sendDecisionTimer(next);
+        try {
+            await db.sessions.update(sessionId, {decision_timer: next});
+        } catch (error) {
+            console.error('[useDecisionTimer] Failed to persist decision timer:', error);
+        }
+    }, [sessionId]);
+
+    useEffect(() => {
+        clock.sync();
+    }, [clock]);
+
+    // Restore a running countdown after a host reload; drop it when the host moves to another slide
+    useEffect(() => {
+        if (!sessionId || !currentSlide) return;
+
+        if (restoredSessionRef.current !== sessionId) {
+            restoredSessionRef.current = sessionId;
+            db.sessions.getById(sessionId)
+                .then(session => {
+                    const saved = session?.decision_timer ?? null;
+                    if (!saved) return;
+                    if (saved.slideId === currentSlide.id) {
+                        publish(saved);
+                    } else {
+                        publish(null);
+                    }
+                })
+                .catch(error => console.error('[useDecisionTimer] Failed to restore decision timer:', error));
+            return;
+        }
+
+        if (timerRef.current && timerRef.current.slideId !== currentSlide.id) {
+            closingRef.current = false;
+            publish(null);
+        }
+    }, [sessionId, currentSlide, publish]);
+
+    // Re-send the timer when the presentation display (re)connects
+    useEffect(() => {
+        if (!sessionId) return;
+        const broadcastManager = SimpleBroadcastManager.getInstance(sessionId, 'host');
+        return broadcastManager.onPresentationStatus(status => {
+            if (status === 'connected' && timerRef.current) {
+                broadcastManager.sendDecisionTimer(timerRef.current);
+            }
+        });
+    }, [sessionId]);
+
+    // Close the window: record the final state, apply the expiry action, tell teams
+    const closeWindow = useCallback(async (closed: DecisionTimerState) => {
+        if (closingRef.current || !sessionId) return;
+        closingRef.current = true;
+
+        await publish(closed);
+
+        if (closed.expiryAction === 'auto_submit' && currentSlide?.id === closed.slideId) {
+            try {
+                await submitDefaultDecisions(currentSlide);
+            } catch (error) {
+                console.error('[useDecisionTimer] Failed to auto-submit default decisions:', error);
+            }
+        }
+
+        SimpleRealtimeManager.getInstance(sessionId, 'host').sendTeamEvent('decision_closed', {
+            decisionKey: closed.decisionKey,
+            message: "Time's up",
+            slideId: closed.slideId
+        });
+    }, [sessionId, currentSlide, publish, submitDefaultDecisions]);
+
+    // The host is the only device that decides expiry
+    useEffect(() => {
+        if (timer?.status !== 'running' || timer.endsAt === null) return;
+
+        const check = () => {
+            const current = timerRef.current;
+            if (current?.status === 'running' && DecisionTimer.getRemainingMs(current, clock.now()) === 0) {
+                closeWindow(DecisionTimer.expire(current, clock.now()));
+            }
+        };
+        const interval = setInterval(check, 250);
+        return () => clearInterval(interval);
+    }, [timer, clock, closeWindow]);
+
+    const start = useCallback((durationSeconds?: number) => {
+        if (!isInteractiveSlide(currentSlide)) return;
+        const duration = durationSeconds ?? DecisionTimer.getDefaultDurationSeconds(currentSlide) ?? FALLBACK_DURATION_SECONDS;
+
+        closingRef.current = false;
+        publish(DecisionTimer.start(currentSlide, duration, expiryAction, clock.now()));
+    }, [currentSlide, expiryAction, clock, publish]);
+
+    const pause = useCallback(() => {
+        if (timerRef.current) publish(DecisionTimer.pause(timerRef.current, clock.now()));
+    }, [clock, publish]);
+
+    const resume = useCallback(() => {
+        if (timerRef.current) publish(DecisionTimer.resume(timerRef.current, clock.now()));
+    }, [clock, publish]);
+
+    const extend = useCallback((seconds: number) => {
+        if (!timerRef.current) return;
+        closingRef.current = false;
+        publish(DecisionTimer.extend(timerRef.current, seconds, clock.now()));
+    }, [clock, publish]);
+
+    const end = useCallback(() => {
+        if (timerRef.current) closeWindow(DecisionTimer.end(timerRef.current, clock.now()));
+    }, [clock, closeWindow]);
+
+    const cancel = useCallback(() => {
+        closingRef.current = false;
+        publish(null);
+    }, [publish]);
+
+    const setExpiryAction = useCallback((action: DecisionTimerExpiryAction) => {
+        setExpiryActionState(action);
+        const current = timerRef.current;
+        if (current && (current.status === 'running' || current.status === 'paused')) {
+            publish(DecisionTimer.setExpiryAction(current, action, clock.now()));
+        }
+    }, [clock, publish]);
+
+    return {
+        timer,
+        isTimedSlide: isInteractiveSlide(currentSlide),
+        defaultDurationSeconds: currentSlide
+            ? DecisionTimer.getDefaultDurationSeconds(currentSlide) ?? FALLBACK_DURATION_SECONDS
+            : null,
+        expiryAction: timer?.expiryAction ?? expiryAction,
+        setExpiryAction,
+        start,
+        pause,
+        resume,
+        extend,
+        end,
+        cancel,
+    };
+};
@@ -1 +1,104 @@
-// TODO: Extract reporting logic here.
+// src/views/host/hooks/useGameReporting.ts - Post-game results export (zipped CSV, spreadsheet, PDF report)
+import {useState, useCallback} from 'react';
+import {GameResultsData, GameResultsExport} from '@core/game/GameResultsExport';
+import {getGameVariant} from '@core/content/GameVariants';
+import {createXlsxWorkbook, createZip, downloadFile, tableToCsv} from '@shared/utils/export';
+import {generateResultsReportPDF} from '@shared/hooks/pdf';
+import type {ResultsReportData} from '@shared/hooks/pdf';
+import {FinancialMetrics} from '@core/game/FinancialMetrics';
+import {DecisionJournal} from '@core/game/DecisionJournal';
+
+export type ResultsExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+interface UseGameReportingReturn {
+    exportResults: (format: ResultsExportFormat) => Promise<void>;
+    exportingFormat: ResultsExportFormat | null;
+    exportError: string | null;
+}
+
+const LOGO_URL = '/images/ready-or-not-logo.png';
+
+const buildReportData = (data: GameResultsData): ResultsReportData => {
+    const standings = GameResultsExport.getStandings(data);
+    const journals = DecisionJournal.build(standings.map(standing => standing.team), data.decisions, data.gameStructure);
+    return {
+        sessionName: data.session.name,
+        subtitle: [
+            `Completed ${new Date(data.session.updated_at).toLocaleDateString()}`,
+            `${standings.length} Teams`,
+            `Game Version ${getGameVariant(data.session.game_version).shortLabel}`
+        ].join(' · '),
+        standings: standings.map(standing => ({
+            rank: standing.rank,
+            teamName: standing.team.name,
+            netIncome: standing.netIncome,
+            revenue: standing.revenue,
+            netMarginPct: standing.netMargin * 100,
+            capacity: standing.capacity,
+            orders: standing.orders
+        })),
+        // Report teams in finishing order
+        teamRounds: standings.map(standing => ({
+            teamName: standing.team.name,
+            rounds: data.roundData
+                .filter(row => row.team_id === standing.team.id)
+                .sort((a, b) => a.round_number - b.round_number)
+                .map(row => ({
+                    roundNumber: row.round_number,
+                    capacity: row.current_capacity,
+                    orders: row.current_orders,
+                    cost: row.current_cost,
+                    asp: row.current_asp,
+                    revenue: FinancialMetrics.getValue(row, 'revenue'),
+                    netIncome: FinancialMetrics.getValue(row, 'net_income')
+                }))
+        })),
+        journals: journals.map(journal => ({
+            teamName: journal.team.name,
+            entries: journal.entries.map(({roundNumber, decisionTitle, choice, rationale}) =>
+                ({roundNumber, decisionTitle, choice, rationale}))
+        }))
+    };
+};
+
+export const useGameReporting = (sessionId: string | undefined): UseGameReportingReturn => {
+    const [exportingFormat, setExportingFormat] = useState<ResultsExportFormat | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const exportResults = useCallback(async (format: ResultsExportFormat) => {
+        if (!sessionId) return;
+
+        setExportingFormat(format);
+        setExportError(null);
+        try {
+            // Always export fresh data rather than what the page loaded
+            const data = await GameResultsExport.load(sessionId);
+            const fileStem = GameResultsExport.getFileStem(data.session);
+
+            if (format === 'pdf') {
+                await generateResultsReportPDF(buildReportData(data), LOGO_URL, `${fileStem}-report.pdf`);
+                return;
+            }
+
+            const tables = GameResultsExport.buildTables(data);
+            if (format === 'csv') {
+                // BOM so Excel opens the files as UTF-8
+                const zip = createZip(tables.map(table => ({path: `${table.name}.csv`, content: '\uFEFF' + tableToCsv(table)})));
+                downloadFile(zip, `${fileStem}-csv.zip`, 'application/zip');
+            } else {
+                downloadFile(
+                    createXlsxWorkbook(tables),
+                    `${fileStem}.xlsx`,
+                    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+                );
+            }
+        } catch (error) {
+            console.error(`[useGameReporting] ${format} export failed:`, error);
+            setExportError(error instanceof Error ? error.message : 'Export failed');
+        } finally {
+            setExportingFormat(null);
+        }
+    }, [sessionId]);
+
+    return {exportResults, exportingFormat, exportError};
+};
@@ -0,0 +1,62 @@
+// src/views/host/hooks/useSessionAnalytics.ts - Cross-session analytics over the host's completed games
+import {useMemo, useState} from 'react';
+import {useSupabaseQuery} from '@shared/hooks/supabase';
+import {
+    EMPTY_ANALYTICS_FILTERS,
+    SessionAnalytics,
+    SessionAnalyticsFilters,
+    SessionAnalyticsSummary
+} from '@core/game/SessionAnalytics';
+
+interface UseSessionAnalyticsReturn {
+    summary: SessionAnalyticsSummary | null;
+    filters: SessionAnalyticsFilters;
+    setFilters: (filters: SessionAnalyticsFilters) => void;
+    classNames: string[];
+    gradeLevels: string[];
+    totalSessionCount: number;
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<unknown>;
+}
+
+export const useSessionAnalytics = (hostId?: string): UseSessionAnalyticsReturn => {
+    const [filters, setFilters] = useState<SessionAnalyticsFilters>(EMPTY_ANALYTICS_FILTERS);
+
+    // Load everything once; filtering happens in memory so changing a filter is instant
+    const {data, isLoading, error, refresh} = useSupabaseQuery(
+        async () => hostId ? await SessionAnalytics.load(hostId) : null,
+        [hostId],
+        {
+            cacheKey: `session-analytics-${hostId}`,
+            cacheTimeout: 60 * 1000,
+            retryOnError: true,
+            maxRetries: 2,
+            onError: (err) => {
+                console.error("SessionAnalytics: Error loading analytics:", err);
+            }
+        }
+    );
+
+    const {classNames, gradeLevels} = useMemo(
+        () => SessionAnalytics.getFilterOptions(data?.sessions ?? []),
+        [data]
+    );
+
+    const summary = useMemo(
+        () => data ? SessionAnalytics.summarize(SessionAnalytics.applyFilters(data, filters)) : null,
+        [data, filters]
+    );
+
+    return {
+        summary,
+        filters,
+        setFilters,
+        classNames,
+        gradeLevels,
+        totalSessionCount: data?.sessions.length ?? 0,
+        isLoading,
+        error,
+        refresh
+    };
+};
@@ -0,0 +1,202 @@
+// src/views/host/pages/AnalyticsPage.tsx - Analytics across all of the host's completed games
+import React, {useEffect} from 'react';
+import {Link} from 'react-router-dom';
+import {ArrowLeft, BarChart3, Dice6, DollarSign, PieChart, RefreshCw, Trophy} from 'lucide-react';
+import {useAuth} from '@app/providers/AuthProvider';
+import {useSessionAnalytics} from '@views/host/hooks/useSessionAnalytics';
+import {EMPTY_ANALYTICS_FILTERS, SessionAnalyticsFilters} from '@core/game/SessionAnalytics';
+import {
+    ChoiceFrequencyBars,
+    NetIncomeDistributionChart,
+    WinningStrategiesPanel,
+} from '@views/host/components/Analytics';
+
+const inputClass = "px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode }> = ({title, icon, children}) => (
+    <section className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-4">
+            {icon}
+            {title}
+        </h2>
+        {children}
+    </section>
+);
+
+const AnalyticsPage: React.FC = () => {
+    const {user} = useAuth();
+    const {
+        summary,
+        filters,
+        setFilters,
+        classNames,
+        gradeLevels,
+        totalSessionCount,
+        isLoading,
+        error,
+        refresh
+    } = useSessionAnalytics(user?.id);
+
+    useEffect(() => {
+        document.title = "Ready or Not - Analytics";
+    }, []);
+
+    const updateFilter = (key: keyof SessionAnalyticsFilters, value: string) => setFilters({...filters, [key]: value});
+    const hasFilters = Object.values(filters).some(value => value !== '');
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+                {/* Header */}
+                <header className="mb-6">
+                    <Link to="/dashboard" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600 mb-3">
+                        <ArrowLeft size={16}/>
+                        Dashboard
+                    </Link>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                        <div>
+                            <h1 className="text-3xl font-bold text-gray-900">Game Analytics</h1>
+                            <p className="text-gray-600">
+                                {summary
+                                    ? `${summary.sessionCount} of ${totalSessionCount} completed games · ${summary.teamCount} teams`
+                                    : 'Patterns across your completed games'}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => refresh()}
+                            disabled={isLoading}
+                            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200 hover:border-blue-300"
+                        >
+                            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''}/>
+                            Refresh
+                        </button>
+                    </div>
+                </header>
+
+                {/* Filters */}
+                <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 mb-6 flex flex-wrap items-end gap-4">
+                    <label className="text-sm text-gray-700">
+                        <span className="block mb-1 font-medium">Class</span>
+                        <select value={filters.className} onChange={(e) => updateFilter('className', e.target.value)}
+                                className={inputClass}>
+                            <option value="">All classes</option>
+                            {classNames.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-sm text-gray-700">
+                        <span className="block mb-1 font-medium">Grade Level</span>
+                        <select value={filters.gradeLevel} onChange={(e) => updateFilter('gradeLevel', e.target.value)}
+                                className={inputClass}>
+                            <option value="">All grades</option>
+                            {gradeLevels.map(grade => <option key={grade} value={grade}>{grade}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-sm text-gray-700">
+                        <span className="block mb-1 font-medium">From</span>
+                        <input type="date" value={filters.fromDate} onChange={(e) => updateFilter('fromDate', e.target.value)}
+                               className={inputClass}/>
+                    </label>
+                    <label className="text-sm text-gray-700">
+                        <span className="block mb-1 font-medium">To</span>
+                        <input type="date" value={filters.toDate} onChange={(e) => updateFilter('toDate', e.target.value)}
+                               className={inputClass}/>
+                    </label>
+                    {hasFilters && (
+                        <button onClick={() => setFilters(EMPTY_ANALYTICS_FILTERS)}
+                                className="text-sm text-blue-600 hover:text-blue-800 font-medium pb-2">
+                            Clear filters
+                        </button>
+                    )}
+                </div>
+
+                {error && (
+                    <div className="mb-6 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                        Failed to load analytics: {error}
+                    </div>
+                )}
+
+                {isLoading && !summary ? (
+                    <div className="flex flex-col items-center justify-center py-20">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-blue-600"></div>
+                        <p className="mt-4 text-gray-600">Loading analytics...</p>
+                    </div>
+                ) : !summary || summary.sessionCount === 0 ? (
+                    <div className="text-center py-16 bg-white rounded-xl border border-gray-200">
+                        <BarChart3 size={48} className="text-gray-400 mx-auto mb-4"/>
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">No Completed Games</h3>
+                        <p className="text-gray-500">
+                            {totalSessionCount > 0 ? 'No completed games match these filters.' : 'Analytics appear once you finish a game.'}
+                        </p>
+                    </div>
+                ) : (
+                    <div className="space-y-6">
+                        <Section title="Final Net Income" icon={<DollarSign size={20} className="text-yellow-500"/>}>
+                            <NetIncomeDistributionChart distribution={summary.netIncome}/>
+                        </Section>
+
+                        <Section title="Investments by Round" icon={<BarChart3 size={20} className="text-blue-500"/>}>
+                            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                                {summary.investments.map(round => (
+                                    <div key={round.round}>
+                                        <h3 className="text-sm font-semibold text-gray-700 mb-3">RD-{round.round}</h3>
+                                        <ChoiceFrequencyBars options={round.options} highlightExtremes/>
+                                    </div>
+                                ))}
+                            </div>
+                        </Section>
+
+                        <Section title="Challenge Choices" icon={<PieChart size={20} className="text-purple-500"/>}>
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                                {summary.challenges.map(challenge => (
+                                    <div key={challenge.challengeId}>
+                                        <h3 className="text-sm font-semibold text-gray-700 mb-1">
+                                            {challenge.challengeId.toUpperCase()}: {challenge.title}
+                                        </h3>
+                                        <p className="text-xs text-gray-500 mb-3">{challenge.teamCount} team choices</p>
+                                        <ChoiceFrequencyBars options={challenge.options} barClass="bg-purple-500"/>
+                                    </div>
+                                ))}
+                            </div>
+                        </Section>
+
+                        <Section title="Double Down" icon={<Dice6 size={20} className="text-orange-500"/>}>
+                            <table className="w-full text-sm">
+                                <thead>
+                                <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                                    <th className="pb-2 pr-3">Investment</th>
+                                    <th className="pb-2 pr-3 text-right">Picks</th>
+                                    <th className="pb-2 pr-3 text-right">Pick Rate</th>
+                                    <th className="pb-2 pr-3 text-right">Rolls</th>
+                                    <th className="pb-2 text-right">Average Boost</th>
+                                </tr>
+                                </thead>
+                                <tbody>
+                                {summary.doubleDown.map(investment => (
+                                    <tr key={investment.investmentId} className="border-t border-gray-100">
+                                        <td className="py-2 pr-3 text-gray-800">
+                                            <span className="font-mono font-semibold text-gray-500 mr-2">{investment.investmentId}</span>
+                                            {investment.name}
+                                        </td>
+                                        <td className="py-2 pr-3 text-right">{investment.picks}</td>
+                                        <td className="py-2 pr-3 text-right">{(investment.pickRate * 100).toFixed(0)}%</td>
+                                        <td className="py-2 pr-3 text-right">{investment.rolls}</td>
+                                        <td className="py-2 text-right">
+                                            {investment.averageBoost === null ? '—' : `${investment.averageBoost}%`}
+                                        </td>
+                                    </tr>
+                                ))}
+                                </tbody>
+                            </table>
+                        </Section>
+
+                        <Section title="Winning Strategies" icon={<Trophy size={20} className="text-yellow-500"/>}>
+                            <WinningStrategiesPanel stats={summary.winningStrategies}/>
+                        </Section>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AnalyticsPage;
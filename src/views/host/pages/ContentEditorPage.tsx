@@ -0,0 +1,288 @@
+// src/views/host/pages/ContentEditorPage.tsx - Edit one content pack: slides, consequences and payoffs
+import React, {useEffect, useMemo, useState} from 'react';
+import {Link, useParams} from 'react-router-dom';
+import {AlertTriangle, ArrowLeft, BarChart2, Download, Link2, Save} from 'lucide-react';
+import {useContentPackEditor} from '@views/host/hooks/useContentPackEditor';
+import {
+    ConsequenceEditor,
+    PayoffEditor,
+    SlideBrowser,
+    SlideEditor,
+    ValidationPanel,
+} from '@views/host/components/ContentEditor';
+import {getGameStructure, getGameVersionLabel} from '@core/content/GameVariants';
+import {findChallengeIdForSlide} from '@core/content/ChallengeRegistry';
+import {getInvestmentPhaseBySlideId, getRoundForInvestmentPhase} from '@core/content/InvestmentRegistry';
+
+type EditorTab = 'slides' | 'consequences' | 'payoffs';
+
+const TABS: { id: EditorTab; label: string }[] = [
+    {id: 'slides', label: 'Slides'},
+    {id: 'consequences', label: 'Consequences'},
+    {id: 'payoffs', label: 'Payoffs'},
+];
+
+const ContentEditorPage: React.FC = () => {
+    const {packId} = useParams<{ packId: string }>();
+    const {
+        pack,
+        content,
+        name,
+        issues,
+        errorCount,
+        isLoading,
+        isSaving,
+        isDirty,
+        error,
+        setName,
+        updateSlide,
+        insertLeaderboardSlide,
+        updateConsequence,
+        updatePayoff,
+        save,
+        downloadJson
+    } = useContentPackEditor(packId);
+
+    const [activeTab, setActiveTab] = useState<EditorTab>('slides');
+    const [selectedSlideId, setSelectedSlideId] = useState<number | null>(null);
+    const [consequenceKey, setConsequenceKey] = useState<string>('');
+    const [payoffKey, setPayoffKey] = useState<string>('');
+
+    useEffect(() => {
+        document.title = "Ready or Not - Content Editor";
+    }, []);
+
+    // Start on the first slide and the first consequence / payoff group once the pack loads
+    useEffect(() => {
+        if (!content) return;
+        setSelectedSlideId(prev => prev ?? content.slides[0]?.id ?? null);
+        setConsequenceKey(prev => prev || Object.keys(content.all_consequences)[0] || '');
+        setPayoffKey(prev => prev || Object.keys(content.all_investment_payoffs)[0] || '');
+    }, [content]);
+
+    const challengeRegistry = useMemo(
+        () => pack ? getGameStructure(pack.base_version).challenge_registry : {},
+        [pack]
+    );
+
+    const slideIdsWithIssues = useMemo(
+        () => new Set(issues.filter(issue => issue.slideId !== undefined).map(issue => issue.slideId!)),
+        [issues]
+    );
+
+    const selectedSlide = content?.slides.find(slide => slide.id === selectedSlideId) || null;
+    const linkedChallengeId = selectedSlide ? findChallengeIdForSlide(challengeRegistry, selectedSlide.id) : undefined;
+    const linkedPhase = selectedSlide ? getInvestmentPhaseBySlideId(selectedSlide.id) : null;
+
+    const goToSlide = (slideId: number) => {
+        setSelectedSlideId(slideId);
+        setActiveTab('slides');
+    };
+
+    const addLeaderboardAfter = (slideId: number) => {
+        const newSlideId = insertLeaderboardSlide(slideId);
+        if (newSlideId !== null) setSelectedSlideId(newSlideId);
+    };
+
+    const openConsequences = (challengeId: string) => {
+        setConsequenceKey(`${challengeId}-conseq`);
+        setActiveTab('consequences');
+    };
+
+    const openPayoffs = (phaseId: string) => {
+        setPayoffKey(`rd${getRoundForInvestmentPhase(phaseId)}-payoff`);
+        setActiveTab('payoffs');
+    };
+
+    if (isLoading) {
+        return (
+            <div
+                className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex flex-col items-center justify-center p-4">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-blue-600"></div>
+                <p className="mt-4 text-gray-600">Loading content pack...</p>
+            </div>
+        );
+    }
+
+    if (!pack || !content) {
+        return (
+            <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex flex-col items-center justify-center p-4">
+                <AlertTriangle size={40} className="text-red-500 mb-3"/>
+                <p className="text-gray-700 mb-4">{error || 'Content pack not found.'}</p>
+                <Link to="/content" className="text-blue-600 hover:text-blue-800 font-medium">Back to content packs</Link>
+            </div>
+        );
+    }
+
+    const warningCount = issues.length - errorCount;
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+                {/* Header */}
+                <header className="mb-6">
+                    <Link to="/content" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600 mb-3">
+                        <ArrowLeft size={16}/>
+                        Content packs
+                    </Link>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                        <div className="flex-1 min-w-0">
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                className="w-full text-2xl font-bold text-gray-900 bg-transparent border-b border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none"
+                            />
+                            <p className="text-sm text-gray-500 mt-1">
+                                Based on {getGameVersionLabel(pack.base_version)}
+                                {isDirty && <span className="ml-2 text-amber-600 font-medium">• Unsaved changes</span>}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <button
+                                onClick={downloadJson}
+                                className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200 hover:border-blue-300"
+                            >
+                                <Download size={16}/>
+                                Export JSON
+                            </button>
+                            <button
+                                onClick={save}
+                                disabled={!isDirty || isSaving || errorCount > 0}
+                                className="flex items-center gap-2 bg-blue-600 text-white font-semibold py-2 px-5 rounded-lg hover:bg-blue-700 transition-colors shadow disabled:bg-gray-400 disabled:cursor-not-allowed"
+                                title={errorCount > 0 ? 'Fix validation errors before saving' : undefined}
+                            >
+                                <Save size={16}/>
+                                {isSaving ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
+                    </div>
+                    {error && (
+                        <div className="mt-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                            {error}
+                        </div>
+                    )}
+                </header>
+
+                {/* Tabs */}
+                <div className="flex gap-2 mb-4">
+                    {TABS.map(tab => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setActiveTab(tab.id)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                                activeTab === tab.id
+                                    ? 'bg-blue-600 text-white shadow'
+                                    : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
+                            }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+
+                {activeTab === 'slides' && (
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="h-[70vh]">
+                            <SlideBrowser
+                                slides={content.slides}
+                                selectedSlideId={selectedSlideId}
+                                slideIdsWithIssues={slideIdsWithIssues}
+                                onSelectSlide={setSelectedSlideId}
+                            />
+                        </div>
+                        <div className="lg:col-span-2 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+                            {selectedSlide ? (
+                                <>
+                                    <div className="flex items-center justify-between gap-3 mb-4">
+                                        <h2 className="text-lg font-semibold text-gray-900">Slide {selectedSlide.id}</h2>
+                                        <button
+                                            onClick={() => addLeaderboardAfter(selectedSlide.id)}
+                                            className="flex items-center gap-1.5 text-sm px-3 py-1.5 rounded-lg text-gray-700 hover:text-blue-600 hover:bg-blue-50 border border-gray-200 hover:border-blue-300 transition-colors"
+                                        >
+                                            <BarChart2 size={16}/>
+                                            Add leaderboard after
+                                        </button>
+                                    </div>
+                                    <SlideEditor
+                                        slide={selectedSlide}
+                                        onChange={(updates) => updateSlide(selectedSlide.id, updates)}
+                                    />
+                                    {(linkedChallengeId || linkedPhase) && (
+                                        <div className="mt-6 pt-4 border-t border-gray-200 flex items-center gap-2 text-sm text-gray-600">
+                                            <Link2 size={16}/>
+                                            {linkedChallengeId ? (
+                                                <button onClick={() => openConsequences(linkedChallengeId)}
+                                                        className="text-blue-600 hover:text-blue-800 font-medium">
+                                                    Edit {linkedChallengeId} consequences
+                                                </button>
+                                            ) : (
+                                                <button onClick={() => openPayoffs(linkedPhase!)}
+                                                        className="text-blue-600 hover:text-blue-800 font-medium">
+                                                    Edit {linkedPhase} payoffs
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                </>
+                            ) : (
+                                <p className="text-gray-500">Select a slide to edit.</p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {activeTab === 'consequences' && (
+                    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+                        <select
+                            value={consequenceKey}
+                            onChange={(e) => setConsequenceKey(e.target.value)}
+                            className="mb-4 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {Object.keys(content.all_consequences).map(key => (
+                                <option key={key} value={key}>
+                                    {key}{challengeRegistry[key.split('-')[0]] ? ` — ${challengeRegistry[key.split('-')[0]].title}` : ''}
+                                </option>
+                            ))}
+                        </select>
+                        <ConsequenceEditor
+                            consequences={content.all_consequences[consequenceKey] || []}
+                            onChange={(index, updates) => updateConsequence(consequenceKey, index, updates)}
+                        />
+                    </div>
+                )}
+
+                {activeTab === 'payoffs' && (
+                    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+                        <select
+                            value={payoffKey}
+                            onChange={(e) => setPayoffKey(e.target.value)}
+                            className="mb-4 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {Object.keys(content.all_investment_payoffs).map(key => (
+                                <option key={key} value={key}>{key}</option>
+                            ))}
+                        </select>
+                        <PayoffEditor
+                            payoffs={content.all_investment_payoffs[payoffKey] || []}
+                            onChange={(index, updates) => updatePayoff(payoffKey, index, updates)}
+                        />
+                    </div>
+                )}
+
+                {/* Validation */}
+                <section className="mt-6 bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-3">
+                        Validation
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                            {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+                        </span>
+                    </h2>
+                    <ValidationPanel issues={issues} onSelectSlide={goToSlide}/>
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default ContentEditorPage;
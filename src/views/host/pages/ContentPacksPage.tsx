@@ -0,0 +1,237 @@
+// src/views/host/pages/ContentPacksPage.tsx - List, create and delete the host's content packs
+import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {Link, useNavigate} from 'react-router-dom';
+import {ArrowLeft, Edit, FileText, PlusCircle, Trash2, Upload} from 'lucide-react';
+import {useAuth} from '@app/providers/AuthProvider';
+import {db, formatSupabaseError} from '@shared/services/supabase';
+import {ContentPack, GameVersion} from '@shared/types';
+import {DEFAULT_GAME_VERSION, GAME_VARIANTS, getGameStructure, getGameVersionLabel} from '@core/content/GameVariants';
+import {extractContentPackContent} from '@core/content/ContentPacks';
+import {parseContentPackJson} from '@core/content/ContentPackFormat';
+import {ContentIssue} from '@core/content/ContentValidation';
+import {ValidationPanel} from '@views/host/components/ContentEditor';
+
+const ContentPacksPage: React.FC = () => {
+    const {user} = useAuth();
+    const navigate = useNavigate();
+    const [packs, setPacks] = useState<ContentPack[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [newPackName, setNewPackName] = useState('');
+    const [newPackVersion, setNewPackVersion] = useState<GameVersion>(DEFAULT_GAME_VERSION);
+    const [importIssues, setImportIssues] = useState<ContentIssue[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        document.title = "Ready or Not - Content Packs";
+    }, []);
+
+    const loadPacks = useCallback(async () => {
+        if (!user) return;
+        setIsLoading(true);
+        try {
+            setPacks(await db.contentPacks.getByHost(user.id));
+        } catch (err) {
+            setError(`Failed to load content packs: ${formatSupabaseError(err)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadPacks();
+    }, [loadPacks]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user || !newPackName.trim()) return;
+
+        setIsCreating(true);
+        setError(null);
+        try {
+            // New packs start as a copy of the chosen variant's content
+            const pack = await db.contentPacks.create({
+                host_id: user.id,
+                name: newPackName.trim(),
+                base_version: newPackVersion,
+                content: extractContentPackContent(getGameStructure(newPackVersion)),
+            });
+            navigate(`/content/${pack.id}`);
+        } catch (err) {
+            setError(`Failed to create content pack: ${formatSupabaseError(err)}`);
+            setIsCreating(false);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!user || !file) return;
+
+        setError(null);
+        setImportIssues([]);
+        const result = parseContentPackJson(await file.text());
+        setImportIssues(result.issues);
+        if (!result.isValid || !result.file || !result.structure) {
+            setError(`"${file.name}" has broken references and was not imported.`);
+            return;
+        }
+
+        setIsCreating(true);
+        try {
+            const pack = await db.contentPacks.create({
+                host_id: user.id,
+                name: result.file.name,
+                base_version: result.file.base_version,
+                content: extractContentPackContent(result.structure),
+            });
+            navigate(`/content/${pack.id}`);
+        } catch (err) {
+            setError(`Failed to import content pack: ${formatSupabaseError(err)}`);
+            setIsCreating(false);
+        }
+    };
+
+    const handleDelete = async (pack: ContentPack) => {
+        if (!window.confirm(`Delete "${pack.name}"? Games already created with it will fall back to the standard content.`)) {
+            return;
+        }
+        try {
+            await db.contentPacks.delete(pack.id);
+            setPacks(prev => prev.filter(p => p.id !== pack.id));
+        } catch (err) {
+            setError(`Failed to delete content pack: ${formatSupabaseError(err)}`);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+            <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                <header className="mb-8">
+                    <Link to="/dashboard" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600 mb-3">
+                        <ArrowLeft size={16}/>
+                        Dashboard
+                    </Link>
+                    <h1 className="text-3xl font-bold text-gray-900">Content Packs</h1>
+                    <p className="text-gray-600 mt-1">
+                        Customize slides, consequences and payoffs, then pick the pack when creating a game.
+                    </p>
+                </header>
+
+                {error && (
+                    <div className="mb-6 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+                        {error}
+                    </div>
+                )}
+
+                {importIssues.length > 0 && (
+                    <div className="mb-6">
+                        <ValidationPanel issues={importIssues}/>
+                    </div>
+                )}
+
+                {/* New pack */}
+                <form onSubmit={handleCreate}
+                      className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-8 flex flex-col md:flex-row gap-4 md:items-end">
+                    <div className="flex-1">
+                        <label htmlFor="pack_name" className="block text-sm font-medium text-gray-700 mb-1">
+                            New pack name
+                        </label>
+                        <input
+                            id="pack_name"
+                            type="text"
+                            value={newPackName}
+                            onChange={(e) => setNewPackName(e.target.value)}
+                            placeholder="e.g., Spring Semester Scenario"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="pack_version" className="block text-sm font-medium text-gray-700 mb-1">
+                            Based on
+                        </label>
+                        <select
+                            id="pack_version"
+                            value={newPackVersion}
+                            onChange={(e) => setNewPackVersion(e.target.value as GameVersion)}
+                            className="px-4 py-2 border border-gray-300 rounded-lg shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {Object.values(GAME_VARIANTS).map(variant => (
+                                <option key={variant.version} value={variant.version}>{variant.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={isCreating || !newPackName.trim()}
+                        className="flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold py-2 px-5 rounded-lg hover:bg-blue-700 transition-colors shadow disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        <PlusCircle size={18}/>
+                        {isCreating ? 'Creating...' : 'Create'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isCreating}
+                        className="flex items-center justify-center gap-2 px-5 py-2 text-gray-700 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200 hover:border-blue-300 disabled:opacity-50"
+                    >
+                        <Upload size={18}/>
+                        Import JSON
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImport}
+                        className="hidden"
+                    />
+                </form>
+
+                {/* Pack list */}
+                {isLoading ? (
+                    <div className="flex justify-center py-12">
+                        <div className="animate-spin rounded-full h-10 w-10 border-b-4 border-blue-600"></div>
+                    </div>
+                ) : packs.length === 0 ? (
+                    <div className="text-center py-12 text-gray-500">
+                        <FileText size={40} className="mx-auto mb-3 text-gray-400"/>
+                        No content packs yet.
+                    </div>
+                ) : (
+                    <ul className="space-y-3">
+                        {packs.map(pack => (
+                            <li key={pack.id}
+                                className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <h3 className="font-semibold text-gray-900 truncate">{pack.name}</h3>
+                                    <p className="text-sm text-gray-500">
+                                        {getGameVersionLabel(pack.base_version)} | Updated {new Date(pack.updated_at).toLocaleDateString()}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Link
+                                        to={`/content/${pack.id}`}
+                                        className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg border border-blue-200"
+                                    >
+                                        <Edit size={14}/>
+                                        Edit
+                                    </Link>
+                                    <button
+                                        onClick={() => handleDelete(pack)}
+                                        className="flex items-center gap-1 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg border border-red-200"
+                                    >
+                                        <Trash2 size={14}/>
+                                        Delete
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ContentPacksPage;
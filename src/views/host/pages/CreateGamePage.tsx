@@ -12,10 +12,10 @@ import {
     TeamSetupStep,
 } from '@views/host/components/CreateGame/index';
 import {ArrowLeft, Settings, Printer, Users, ListOrdered, Rocket, Zap, CheckCircle, AlertTriangle} from 'lucide-react';
-import {readyOrNotGame_2_0_DD} from '@core/content/GameStructure';
+import {DEFAULT_GAME_VERSION, getGameStructure} from '@core/content/GameVariants';
 
 const initialNewGameData: NewGameData = {
-    game_version: '2.0_dd',
+    game_version: DEFAULT_GAME_VERSION,
     name: '',
     class_name: '',
     grade_level: 'Freshman',
@@ -106,7 +106,7 @@ const CreateGamePage: React.FC = () => {
                     }
 
                     // Create new draft
-                    draftSession = await sessionManager.createDraftSession(user.id, readyOrNotGame_2_0_DD);
+                    draftSession = await sessionManager.createDraftSession(user.id, getGameStructure(initialNewGameData.game_version));
                 }
 
                 setDraftSessionId(draftSession.id);
@@ -176,6 +176,9 @@ const CreateGamePage: React.FC = () => {
             // Create a clean, serializable version of the data for database storage
             const serializableData = {
                 game_version: updatedData.game_version,
+                content_pack_id: updatedData.content_pack_id ?? null,
+                team_submission_mode: updatedData.team_submission_mode ?? 'anyone',
+                max_devices_per_team: updatedData.max_devices_per_team ?? null,
                 name: updatedData.name,
                 class_name: updatedData.class_name,
                 grade_level: updatedData.grade_level,
@@ -12,6 +12,7 @@ import NotificationBanner from '@views/host/components/Dashboard/NotificationBan
 import DeleteConfirmModal from '@views/host/components/Dashboard/DeleteConfirmModal';
 import {GameSession} from '@shared/types';
 import RonBotWidget from '@shared/components/RonBotWidget.tsx';
+import {getGameVariant} from '@core/content/GameVariants';
 
 const DashboardPage: React.FC = () => {
     const {user, loading: authLoading} = useAuth();
@@ -188,6 +189,22 @@ const DashboardPage: React.FC = () => {
                                 <PlusCircle size={20}/>
                                 Create New Game
                             </Link>
+                            <Link
+                                to="/content"
+                                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200 hover:border-blue-300"
+                                title="Edit game content"
+                            >
+                                <FileText size={16}/>
+                                <span className="hidden sm:inline">Content</span>
+                            </Link>
+                            <Link
+                                to="/analytics"
+                                className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200 hover:border-blue-300"
+                                title="Analytics across completed games"
+                            >
+                                <TrendingUp size={16}/>
+                                <span className="hidden sm:inline">Analytics</span>
+                            </Link>
                             <button
                                 onClick={handleManualRefresh}
                                 disabled={isLoadingGames}
@@ -299,7 +316,7 @@ const DashboardPage: React.FC = () => {
                                                                         <div>
                                                                             <span
                                                                                 className="font-medium text-gray-700">Version:</span>
-                                                                            <div>v{game.game_version.startsWith('2') ? '2.0' : '1.5'}</div>
+                                                                            <div>v{getGameVariant(game.game_version).shortLabel}</div>
                                                                         </div>
                                                                     )}
                                                                     <div>
@@ -408,7 +425,7 @@ const DashboardPage: React.FC = () => {
                                                                     <div>
                                                                         <span
                                                                             className="font-medium text-gray-700">Version:</span>
-                                                                        <div>v{game.game_version.startsWith('2') ? '2.0' : '1.5'}</div>
+                                                                        <div>v{getGameVariant(game.game_version).shortLabel}</div>
                                                                     </div>
                                                                 )}
                                                                 <div>
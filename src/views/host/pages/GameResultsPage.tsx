@@ -10,15 +10,26 @@ import {
     ArrowLeft,
     Download,
     Award,
-    Target
+    Target,
+    FileSpreadsheet,
+    FileText
 } from 'lucide-react';
 import {GameSession} from '@shared/types';
 import {GameSessionManager} from '@core/game/GameSessionManager';
 import {useTeamDataManager} from '@shared/hooks/useTeamDataManager';
-import {calculateKpiValue} from '@shared/components/UI/Leaderboard/utils';
+import {useSessionGameStructure} from '@shared/hooks/useSessionGameStructure';
+import {FinancialMetrics} from '@core/game/FinancialMetrics';
 import GameResultsCharts from '../components/GameResultsCharts';
-import KPITrendCharts from '../components/KPITrendCharts';
-import OperationalKPITrends from '../components/OperationalKPITrends';
+import {KPITrendCharts, OperationalKPITrends} from '@shared/components/UI/Charts';
+import DecisionJournalPanel from '../components/DecisionJournalPanel';
+import {getGameVariant} from '@core/content/GameVariants';
+import {useGameReporting, ResultsExportFormat} from '../hooks/useGameReporting';
+
+const EXPORT_OPTIONS: { format: ResultsExportFormat; label: string; icon: React.ElementType }[] = [
+    {format: 'csv', label: 'CSV (zip)', icon: Download},
+    {format: 'xlsx', label: 'Spreadsheet', icon: FileSpreadsheet},
+    {format: 'pdf', label: 'PDF Report', icon: FileText}
+];
 
 const GameResultsPage: React.FC = () => {
     const {sessionId} = useParams<{ sessionId: string }>();
@@ -30,12 +41,16 @@ const GameResultsPage: React.FC = () => {
     // Use existing team data management hook
     const {
         teams,
+        teamDecisions,
         teamRoundData,
         isLoadingTeams,
         isLoadingRoundData,
         error: teamDataError
     } = useTeamDataManager(sessionId || '');
 
+    const {exportResults, exportingFormat, exportError} = useGameReporting(sessionId);
+    const gameStructure = useSessionGameStructure(session);
+
     // Load session data
     useEffect(() => {
         const loadSession = async () => {
@@ -49,6 +64,10 @@ const GameResultsPage: React.FC = () => {
                 const sessionManager = GameSessionManager.getInstance();
                 const sessionData = await sessionManager.loadSession(sessionId);
                 setSession(sessionData);
+
+                // Bring stored revenue / net income / net margin in line with FinancialMetrics for older games
+                sessionManager.recomputeFinancialMetrics(sessionId).catch(err =>
+                    console.error('Error recomputing stored financial metrics:', err));
             } catch (err) {
                 console.error('Error loading session:', err);
                 setError(err instanceof Error ? err.message : 'Failed to load session');
@@ -70,9 +89,7 @@ const GameResultsPage: React.FC = () => {
 
             if (!round3Data) return null;
 
-            const netIncome = calculateKpiValue(round3Data, 'net_income');
-            const revenue = calculateKpiValue(round3Data, 'revenue');
-            const netMargin = calculateKpiValue(round3Data, 'net_margin');
+            const {netIncome, revenue, netMargin} = FinancialMetrics.calculate(round3Data);
 
             return {
                 team,
@@ -147,7 +164,7 @@ const GameResultsPage: React.FC = () => {
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
                 {/* Header */}
                 <div className="mb-8">
-                    <div className="flex items-center gap-4 mb-6">
+                    <div className="flex items-center justify-between gap-4 mb-6">
                         <button
                             onClick={() => navigate('/dashboard')}
                             className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors"
@@ -155,7 +172,23 @@ const GameResultsPage: React.FC = () => {
                             <ArrowLeft size={20}/>
                             Back to Dashboard
                         </button>
+                        <div className="flex items-center gap-2">
+                            {EXPORT_OPTIONS.map(({format, label, icon: Icon}) => (
+                                <button
+                                    key={format}
+                                    onClick={() => exportResults(format)}
+                                    disabled={exportingFormat !== null}
+                                    className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-3 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <Icon size={16}/>
+                                    {exportingFormat === format ? 'Exporting...' : label}
+                                </button>
+                            ))}
+                        </div>
                     </div>
+                    {exportError && (
+                        <p className="text-sm text-red-600 text-right -mt-4 mb-4">Export failed: {exportError}</p>
+                    )}
 
                     <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8">
                         <div className="flex items-start justify-between">
@@ -174,7 +207,7 @@ const GameResultsPage: React.FC = () => {
                                     </div>
                                     <div className="flex items-center gap-2">
                                         <Target size={16}/>
-                                        Game Version {session.game_version}
+                                        Game Version {getGameVariant(session.game_version).shortLabel}
                                     </div>
                                 </div>
                             </div>
@@ -305,7 +338,7 @@ const GameResultsPage: React.FC = () => {
                                         ${team.revenue.toLocaleString()}
                                     </td>
                                     <td className="px-6 py-4 text-right font-mono text-sm text-gray-600">
-                                        {team.netMargin.toFixed(1)}%
+                                        {(team.netMargin * 100).toFixed(1)}%
                                     </td>
                                     <td className="px-6 py-4 text-right font-mono text-sm text-gray-600">
                                         {team.capacity.toLocaleString()}
@@ -349,6 +382,15 @@ const GameResultsPage: React.FC = () => {
                     />
                 </div>
 
+                {/* Decision Journal */}
+                <div className="mb-8">
+                    <DecisionJournalPanel
+                        teams={teams}
+                        teamDecisions={teamDecisions}
+                        gameStructure={gameStructure}
+                    />
+                </div>
+
                 {/* Action Buttons */}
                 <div className="flex justify-center gap-4">
                     <button
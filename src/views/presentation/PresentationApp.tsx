@@ -2,6 +2,8 @@
 import React, {useEffect, useState} from 'react';
 import {useParams} from 'react-router-dom';
 import {Slide} from '@shared/types/game';
+import {DecisionTimerState} from '@shared/types/sync';
+import DecisionCountdown from '@shared/components/UI/DecisionCountdown';
 import SlideRenderer from '@shared/components/Video/SlideRenderer';
 import {Hourglass, Monitor, RefreshCw, Wifi, WifiOff, Maximize, Minimize} from 'lucide-react';
 import {SimpleBroadcastManager} from '@core/sync/SimpleBroadcastManager';
@@ -17,6 +19,7 @@ const PresentationApp: React.FC = () => {
     const [statusMessage, setStatusMessage] = useState('Initializing display...');
     const [connectionError, setConnectionError] = useState(false);
     const [isFullscreen, setIsFullscreen] = useState(false);
+    const [decisionTimer, setDecisionTimer] = useState<DecisionTimerState | null>(null);
 
     useEffect(() => {
         document.title = "Ready or Not - Presentation";
@@ -80,9 +83,11 @@ const PresentationApp: React.FC = () => {
             }
         };
         const unsubscribeCommands = broadcastManager.onHostCommand(handleHostCommand);
+        const unsubscribeTimer = broadcastManager.onDecisionTimer(setDecisionTimer);
         return () => {
             unsubscribeSlides();
             unsubscribeCommands();
+            unsubscribeTimer();
         };
     }, [broadcastManager]);
 
@@ -128,6 +133,13 @@ const PresentationApp: React.FC = () => {
                 onVideoEnd={handleVideoEnd}
             />
 
+            {/* Decision countdown */}
+            {decisionTimer && currentSlide?.id === decisionTimer.slideId && (
+                <div className="absolute top-16 right-4 z-30">
+                    <DecisionCountdown timer={decisionTimer} size="lg"/>
+                </div>
+            )}
+
             {/* OVERLAYS for status messages */}
             {(!isConnectedToHost || (!currentSlide && !connectionError)) && (
                 <div className="absolute inset-0 bg-gray-900 z-40 flex items-center justify-center">
@@ -15,12 +15,15 @@
  *
  * COMMUNICATION ARCHITECTURE:
  * - This component does NOT create any real-time subscriptions
- * - All real-time communication is handled by useTeamGameState hook
+ * - Game flow is handled by useTeamGameState hook
+ * - Host messages and help requests are handled by useTeamMessages and useHelpRequest
+ *   (SimpleRealtimeManager message channel)
+ * - useTeamPresence reports this device as online for the host's connection view
  * - Maintains single WebSocket connection per team app
  * - NEW: Handles decision reset triggers from host
  *
  * RESPONSIBILITIES:
- * 1. User authentication (team login/logout)
+ * 1. User authentication (team login/logout, resuming a saved login and team QR codes via useTeamDeviceSession)
  * 2. Responsive game state display (current slide, KPIs, status)
  * 3. Mobile-optimized decision interface when required
  * 4. Debug panel for development (desktop only)
@@ -32,6 +35,8 @@
  * - Decision resets from host (NEW: implemented)
  * - Consequence KPI updates
  * - Impact card updates (NEW: centralized)
+ * - Host messages and announcements
+ * - Help request claimed/resolved by the host
  *
  * DEVICE COMPATIBILITY:
  * - Mobile phones (iOS/Android) - PRIMARY
@@ -41,12 +46,21 @@
  * ============================================================================
  */
 
-import React, {useEffect, useState} from 'react';
-import {useParams} from 'react-router-dom';
+import React, {useEffect} from 'react';
+import {useParams, useSearchParams} from 'react-router-dom';
 import TeamLogin from '@views/team/components/TeamLogin/TeamLogin';
 import DecisionModeContainer from '@views/team/components/InteractionPanel/DecisionContainer';
 import KpiImpactCards from '@views/team/components/GameStatus/KpiImpactCards'; // ADDED: Import impact cards
 import {useTeamGameState} from '@views/team/hooks/useTeamGameState';
+import {useInteractionWindow} from '@views/team/hooks/useInteractionWindow';
+import {useTeamMessages} from '@views/team/hooks/useTeamMessages';
+import {useHelpRequest} from '@views/team/hooks/useHelpRequest';
+import {useTeamPresence} from '@views/team/hooks/useTeamPresence';
+import {useTeamDeviceSession} from '@views/team/hooks/useTeamDeviceSession';
+import TeamMessageBanner from '@views/team/components/GameStatus/TeamMessageBanner';
+import HelpRequestButton from '@views/team/components/GameStatus/HelpRequestButton';
+import DecisionCountdown from '@shared/components/UI/DecisionCountdown';
+import {TEAM_JOIN_TOKEN_PARAM} from '@shared/utils/urlUtils';
 import {useTeamGameContext} from '@app/providers/TeamGameProvider';
 import {BASE_VALUES, ROUND_BASE_VALUES} from "@core/game/ScoringEngine.ts";
 import TeamInvestmentDisplay from "@views/team/components/GameStatus/TeamInvestmentDisplay.tsx";
@@ -57,8 +71,16 @@ import {Building, ShoppingCart, DollarSign, TrendingUp, AlertTriangle} from 'luc
 // ============================================================================
 const TeamApp: React.FC = () => {
     const {sessionId} = useParams<{ sessionId: string }>();
-    const [loggedInTeamId, setLoggedInTeamId] = useState<string | null>(null);
-    const [loggedInTeamName, setLoggedInTeamName] = useState<string | null>(null);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const deviceSession = useTeamDeviceSession(
+        sessionId || null,
+        searchParams.get(TEAM_JOIN_TOKEN_PARAM),
+        () => setSearchParams(params => {
+            params.delete(TEAM_JOIN_TOKEN_PARAM);
+            return params;
+        }, {replace: true})
+    );
+    const {teamId: loggedInTeamId, teamName: loggedInTeamName, logout} = deviceSession;
 
     // ADDED: Get centralized adjustment data from TeamGameProvider (lightweight, no auth)
     const teamGameContext = useTeamGameContext();
@@ -75,15 +97,23 @@ const TeamApp: React.FC = () => {
         isLoadingAdjustments  // ADDED: Pass centralized loading state
     });
 
+    const interactionWindow = useInteractionWindow({
+        currentSlide: teamGameState.currentActiveSlide,
+        decisionTimer: teamGameState.decisionTimer
+    });
+
+    const teamMessages = useTeamMessages(sessionId || null, loggedInTeamId);
+    const helpRequest = useHelpRequest(sessionId || null, loggedInTeamId);
+    useTeamPresence(sessionId || null, loggedInTeamId);
+
     const triggerDecisionRefresh = teamGameState.triggerDecisionRefresh;
 
     useEffect(() => {
         // Clear team login when session is deleted
         if (teamGameState.sessionStatus === 'deleted') {
-            setLoggedInTeamId(null);
-            setLoggedInTeamName(null);
+            logout();
         }
-    }, [teamGameState.sessionStatus]);
+    }, [teamGameState.sessionStatus, logout]);
 
     // Show session ended screen if session was deleted
     if (teamGameState.sessionStatus === 'deleted') {
@@ -119,16 +149,26 @@ const TeamApp: React.FC = () => {
         );
     }
 
+    // Scanned a team QR code: logging in as that team
+    if (deviceSession.isJoining && !loggedInTeamId) {
+        return (
+            <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+                <div className="text-center text-slate-300">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-400 mx-auto mb-4"></div>
+                    <p>Joining your team...</p>
+                </div>
+            </div>
+        );
+    }
+
     // Show login if not logged in
     if (!loggedInTeamId || !sessionId) {
         return (
             <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
                 <TeamLogin
                     sessionId={sessionId || ''}
-                    onLoginSuccess={(teamId, teamName) => {
-                        setLoggedInTeamId(teamId);
-                        setLoggedInTeamName(teamName);
-                    }}
+                    notice={deviceSession.notice}
+                    onLoginSuccess={deviceSession.onLoginSuccess}
                 />
             </div>
         );
@@ -137,7 +177,8 @@ const TeamApp: React.FC = () => {
     // Extract key values for easier access
     const currentActiveSlide = teamGameState.currentActiveSlide;
     const currentTeamKpis = teamGameState.currentTeamKpis;
-    const isDecisionPhaseActive = teamGameState.isDecisionTime;
+    const isDecisionPhaseActive = teamGameState.isDecisionTime && !interactionWindow.isLocked;
+    const isDecisionTimeUp = teamGameState.isDecisionTime && interactionWindow.isLocked;
     const resetTrigger = teamGameState.decisionResetTrigger;
     const connectionStatus = teamGameState.connectionStatus;
 
@@ -160,10 +201,8 @@ const TeamApp: React.FC = () => {
             <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
                 <TeamLogin
                     sessionId={sessionId || ''}
-                    onLoginSuccess={(teamId, teamName) => {
-                        setLoggedInTeamId(teamId);
-                        setLoggedInTeamName(teamName);
-                    }}
+                    notice={deviceSession.notice}
+                    onLoginSuccess={deviceSession.onLoginSuccess}
                 />
             </div>
         );
@@ -191,14 +230,13 @@ const TeamApp: React.FC = () => {
                             </span>
                         </div>
                         <div className="flex items-center gap-2">
+                            <HelpRequestButton
+                                activeRequest={helpRequest.activeRequest}
+                                isSending={helpRequest.isSending}
+                                onRequestHelp={helpRequest.requestHelp}
+                            />
                             <button
-                                onClick={() => {
-                                    // Clear localStorage
-                                    localStorage.removeItem(`ron_teamId_${sessionId}`);
-                                    localStorage.removeItem(`ron_teamName_${sessionId}`);
-                                    setLoggedInTeamId(null);
-                                    setLoggedInTeamName(null);
-                                }}
+                                onClick={logout}
                                 className="flex items-center gap-2 px-3 py-2 bg-red-600/80 hover:bg-red-700/80 text-white text-sm font-medium rounded-lg backdrop-blur-sm border border-red-500/30 transition-colors"
                                 title={`Logout from team ${loggedInTeamName}`}
                             >
@@ -213,6 +251,8 @@ const TeamApp: React.FC = () => {
                 </div>
             </div>
 
+            <TeamMessageBanner messages={teamMessages.unreadMessages} onAcknowledge={teamMessages.acknowledge}/>
+
             {/* ================================================================ */}
             {/* MAIN CONTENT - RESTORED: Simple responsive layout */}
             {/* ================================================================ */}
@@ -352,14 +392,17 @@ const TeamApp: React.FC = () => {
                             />
                         )}
 
-                        {/* ADDED: KPI IMPACT CARDS SECTION - Only show if team has impact cards */}
-                        {loggedInTeamId && permanentAdjustments.filter(adj => adj.team_id === loggedInTeamId).length > 0 && (
+                        {/* KPI IMPACT CARDS SECTION - impact cards plus the "why these numbers" history link */}
+                        {loggedInTeamId && (permanentAdjustments.some(adj => adj.team_id === loggedInTeamId) || currentTeamKpis) && (
                             <div className="flex-shrink-0">
                                 <KpiImpactCards
                                     teamId={loggedInTeamId}
                                     currentRound={currentActiveSlide?.round_number || 1}
                                     permanentAdjustments={permanentAdjustments}
                                     isLoadingAdjustments={isLoadingAdjustments}
+                                    gameStructure={teamGameState.gameStructure}
+                                    sessionId={sessionId}
+                                    currentKpis={currentTeamKpis}
                                 />
                             </div>
                         )}
@@ -368,6 +411,11 @@ const TeamApp: React.FC = () => {
 
                 {/* RIGHT PANEL - Main Game Content */}
                 <div className="flex-1 flex flex-col">
+                    {interactionWindow.isTimed && isDecisionPhaseActive && (
+                        <div className="flex justify-center pt-4">
+                            <DecisionCountdown timer={interactionWindow.timer}/>
+                        </div>
+                    )}
                     {isDecisionPhaseActive ? (
                         <DecisionModeContainer
                             teamId={loggedInTeamId}
@@ -380,7 +428,17 @@ const TeamApp: React.FC = () => {
                     ) : (
                         <div className="flex-1 flex items-center justify-center p-8">
                             <div className="text-center max-w-md">
-                                {currentActiveSlide ? (
+                                {isDecisionTimeUp ? (
+                                    <>
+                                        <div className="text-6xl mb-6">⏰</div>
+                                        <h2 className="text-2xl font-bold mb-4 text-white">Time's Up</h2>
+                                        <p className="text-gray-400 mb-6">
+                                            {interactionWindow.timer?.expiryAction === 'auto_submit'
+                                                ? 'Teams that did not submit have been given the default choice.'
+                                                : 'The decision window is closed. Wait for the facilitator to continue.'}
+                                        </p>
+                                    </>
+                                ) : currentActiveSlide ? (
                                     <>
                                         <div className="text-6xl mb-6">📊</div>
                                         <h2 className="text-2xl font-bold mb-4 text-white">Following Along</h2>
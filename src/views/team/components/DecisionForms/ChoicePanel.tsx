@@ -4,6 +4,7 @@
 import React from 'react';
 import {ChallengeOption, Slide} from '@shared/types';
 import {MultiSelectChallengeTracker} from '@core/game/MultiSelectChallengeTracker';
+import RationaleField from './RationaleField';
 
 const formatCurrency = (value: number | undefined): string => {
     if (value === undefined || value === null) return 'N/A';
@@ -22,6 +23,8 @@ interface ChoicePanelProps {
     forcedSelection?: string | null;
     forcedSelectionReason?: string | null;
     isCheckingForcedSelection?: boolean;
+    rationale?: string;
+    onRationaleChange?: (rationale: string) => void;
 }
 
 const ChoicePanel: React.FC<ChoicePanelProps> = ({
@@ -32,7 +35,9 @@ const ChoicePanel: React.FC<ChoicePanelProps> = ({
                                                      isSubmitting,
                                                      forcedSelection,
                                                      forcedSelectionReason,
-                                                     isCheckingForcedSelection = false
+                                                     isCheckingForcedSelection = false,
+                                                     rationale = '',
+                                                     onRationaleChange
                                                  }) => {
     // Determine if this is a multi-select challenge
     const challengeId = currentSlide.interactive_data_key;
@@ -214,6 +219,10 @@ const ChoicePanel: React.FC<ChoicePanelProps> = ({
                     </p>
                 </div>
             )}
+
+            {onRationaleChange && (
+                <RationaleField value={rationale} onChange={onRationaleChange} disabled={isSubmitting}/>
+            )}
         </div>
     );
 };
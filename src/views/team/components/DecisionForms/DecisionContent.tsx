@@ -41,6 +41,8 @@ const DecisionContent: React.FC<DecisionContentProps> = ({
                     onImmediatePurchase={decisionActions.handleImmediatePurchase}
                     isSubmitting={isSubmitting}
                     immediatePurchases={decisionState.immediatePurchases}
+                    rationale={decisionState.rationale}
+                    onRationaleChange={decisionActions.handleRationaleChange}
                 />
             );
         case 'interactive_choice':
@@ -54,6 +56,8 @@ const DecisionContent: React.FC<DecisionContentProps> = ({
                     forcedSelection={decisionState.forcedSelection}
                     forcedSelectionReason={decisionState.forcedSelectionReason}
                     isCheckingForcedSelection={decisionState.isCheckingForcedSelection}
+                    rationale={decisionState.rationale}
+                    onRationaleChange={decisionActions.handleRationaleChange}
                 />
             );
         case 'interactive_double_down_select': {
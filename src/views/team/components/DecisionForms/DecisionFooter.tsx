@@ -9,6 +9,7 @@ interface DecisionFooterProps {
     isValidSubmission: boolean;
     submissionSummary: string;
     hasError?: boolean;
+    submitBlockedReason?: string | null;    // team submission mode is holding this device back
 }
 
 const DecisionFooter: React.FC<DecisionFooterProps> = ({
@@ -17,16 +18,18 @@ const DecisionFooter: React.FC<DecisionFooterProps> = ({
                                                            onSubmit,
                                                            isValidSubmission,
                                                            submissionSummary,
-                                                           hasError = false
+                                                           hasError = false,
+                                                           submitBlockedReason = null
                                                        }) => {
     const [isConfirming, setIsConfirming] = useState(false);
 
     // Reset confirmation state if the submission becomes invalid again (e.g., user changes selection)
+    // or a teammate's edit withdraws this device's permission to submit
     useEffect(() => {
-        if (!isValidSubmission) {
+        if (!isValidSubmission || submitBlockedReason) {
             setIsConfirming(false);
         }
-    }, [isValidSubmission]);
+    }, [isValidSubmission, submitBlockedReason]);
 
     const handleInitialSubmitClick = () => {
         if (isValidSubmission) {
@@ -92,11 +95,11 @@ const DecisionFooter: React.FC<DecisionFooterProps> = ({
                 <div className="flex flex-col sm:flex-row items-center gap-3">
                     <button
                         onClick={handleInitialSubmitClick}
-                        disabled={isSubmitDisabled}
+                        disabled={isSubmitDisabled || !!submitBlockedReason}
                         className={`
                             flex-1 w-full sm:w-auto min-w-[200px] flex items-center justify-center gap-2 
                             py-3 px-6 rounded-lg font-semibold transition-all duration-200 shadow-lg
-                            ${isSubmitDisabled
+                            ${isSubmitDisabled || submitBlockedReason
                             ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
                             : 'bg-blue-600 hover:bg-blue-700 text-white shadow-blue-500/25'
                         }`}
@@ -112,6 +115,13 @@ const DecisionFooter: React.FC<DecisionFooterProps> = ({
                     </button>
                 </div>
 
+                {isValidSubmission && submitBlockedReason && (
+                    <div className="text-center text-sm text-gray-400 flex items-center justify-center gap-2">
+                        <AlertCircle size={16} className="text-yellow-400"/>
+                        <span>{submitBlockedReason}</span>
+                    </div>
+                )}
+
                 {/* Submission Guidelines */}
                 {!isValidSubmission && !hasError && (
                     <div className="text-center text-sm text-gray-400 flex items-center justify-center gap-2">
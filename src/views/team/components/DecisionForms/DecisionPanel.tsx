@@ -5,10 +5,12 @@ import {InvestmentOption, ChallengeOption, Slide, GameStructure} from '@shared/t
 import {Hourglass, CheckCircle2} from 'lucide-react';
 import {useDecisionMaking} from '@views/team/hooks/useDecisionMaking';
 import {useTeamDecisionSubmission} from '@views/team/hooks/useTeamDecisionSubmission';
+import {useTeamDraft} from '@views/team/hooks/useTeamDraft';
 import DecisionHeader from './DecisionHeader';
 import EnhancedDecisionContent from './EnhancedDecisionContent'; // CHANGED: Using EnhancedDecisionContent
 import DecisionFooter from './DecisionFooter';
 import ErrorDisplay from './ErrorDisplay';
+import TeamDraftBar from './TeamDraftBar';
 
 interface DecisionPanelProps {
     sessionId: string | null;
@@ -46,6 +48,15 @@ const DecisionPanel: React.FC<DecisionPanelProps> = ({
         teamId
     });
 
+    const teamDraft = useTeamDraft({
+        sessionId,
+        teamId,
+        currentSlide,
+        decisionState: decisionLogic.state,
+        isReady: decisionLogic.isReady,
+        applySharedSelections: decisionLogic.actions.applySharedSelections
+    });
+
     const submission = useTeamDecisionSubmission({
         sessionId,
         teamId,
@@ -55,8 +66,12 @@ const DecisionPanel: React.FC<DecisionPanelProps> = ({
         investmentOptions,
         challengeOptions,
         gameStructure,
-        decisionResetTrigger,
-        onDecisionSubmitted
+        // A teammate's submission re-checks for an existing decision the same way a host reset does
+        decisionResetTrigger: decisionResetTrigger + teamDraft.teammateSubmissions,
+        onDecisionSubmitted: () => {
+            teamDraft.markSubmitted();
+            onDecisionSubmitted?.();
+        }
     });
 
     if (!isDecisionTime || !currentSlide) {
@@ -135,6 +150,7 @@ const DecisionPanel: React.FC<DecisionPanelProps> = ({
                     isValidSubmission={decisionLogic.isValidSubmission}
                     investUpToBudget={investUpToBudget}
                 />
+                <TeamDraftBar teamDraft={teamDraft}/>
                 <EnhancedDecisionContent
                     sessionId={sessionId}        // ADDED: Required for continuation pricing
                     teamId={teamId}             // ADDED: Required for continuation pricing
@@ -156,6 +172,7 @@ const DecisionPanel: React.FC<DecisionPanelProps> = ({
                 isValidSubmission={decisionLogic.isValidSubmission}
                 submissionSummary={decisionLogic.submissionSummary}
                 hasError={!!(decisionLogic.state.error || submission.submissionError)}
+                submitBlockedReason={teamDraft.permission.reason}
             />
         </div>
     );
@@ -41,6 +41,8 @@ const EnhancedDecisionContent: React.FC<EnhancedDecisionContentProps> = ({
                     onImmediatePurchase={decisionActions.handleImmediatePurchase}
                     isSubmitting={isSubmitting}
                     immediatePurchases={decisionState.immediatePurchases}
+                    rationale={decisionState.rationale}
+                    onRationaleChange={decisionActions.handleRationaleChange}
                 />
             );
 
@@ -55,6 +57,8 @@ const EnhancedDecisionContent: React.FC<EnhancedDecisionContentProps> = ({
                     forcedSelection={decisionState.forcedSelection}
                     forcedSelectionReason={decisionState.forcedSelectionReason}
                     isCheckingForcedSelection={decisionState.isCheckingForcedSelection}
+                    rationale={decisionState.rationale}
+                    onRationaleChange={decisionActions.handleRationaleChange}
                 />
             );
 
@@ -10,6 +10,7 @@ import React, {useState} from 'react';
 import {InvestmentOption} from '@shared/types';
 import {CheckCircle, Zap, AlertTriangle} from 'lucide-react';
 import {InvestmentDisplayUtils} from "@shared/utils/InvestmentDisplayUtils.ts";
+import RationaleField from './RationaleField';
 
 interface InvestmentPanelProps {
     investmentOptions: InvestmentOption[];
@@ -20,6 +21,8 @@ interface InvestmentPanelProps {
     onImmediatePurchase: (optionIndex: number, cost: number) => Promise<void>;
     isSubmitting: boolean;
     immediatePurchases: string[];
+    rationale?: string;
+    onRationaleChange?: (rationale: string) => void;
 }
 
 const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
@@ -30,7 +33,9 @@ const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
                                                              onInvestmentToggleById,
                                                              onImmediatePurchase,
                                                              isSubmitting,
-                                                             immediatePurchases
+                                                             immediatePurchases,
+                                                             rationale = '',
+                                                             onRationaleChange
                                                          }) => {
     const [expandedImmediate, setExpandedImmediate] = useState<number | null>(null);
     const [isPurchasing, setIsPurchasing] = useState(false);
@@ -217,6 +222,10 @@ const InvestmentPanel: React.FC<InvestmentPanelProps> = ({
                     </div>
                 );
             })}
+
+            {onRationaleChange && (
+                <RationaleField value={rationale} onChange={onRationaleChange} disabled={isSubmitting}/>
+            )}
         </div>
     );
 };
@@ -0,0 +1,33 @@
+// src/views/team/components/DecisionForms/RationaleField.tsx
+// Optional "why did we choose this?" note, submitted with the decision for the host's debrief
+import React from 'react';
+import {MessageSquareText} from 'lucide-react';
+
+interface RationaleFieldProps {
+    value: string;
+    onChange: (value: string) => void;
+    disabled?: boolean;
+}
+
+const MAX_RATIONALE_LENGTH = 500;
+
+const RationaleField: React.FC<RationaleFieldProps> = ({value, onChange, disabled = false}) => (
+    <div className="mt-6">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+            <MessageSquareText className="w-4 h-4 text-sky-400"/>
+            Why did your team choose this? <span className="text-gray-500 font-normal">(optional)</span>
+        </label>
+        <textarea
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            disabled={disabled}
+            rows={3}
+            maxLength={MAX_RATIONALE_LENGTH}
+            placeholder="A sentence or two for the debrief discussion"
+            className="w-full px-3 py-2 text-sm text-white bg-gray-700/60 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50"
+        />
+        <p className="text-right text-xs text-gray-500 mt-1">{value.length}/{MAX_RATIONALE_LENGTH}</p>
+    </div>
+);
+
+export default RationaleField;
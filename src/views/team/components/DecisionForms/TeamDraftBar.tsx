@@ -0,0 +1,124 @@
+// src/views/team/components/DecisionForms/TeamDraftBar.tsx
+// Shared-draft strip above the decision form: teammates online, the captain or confirmations the session's
+// submission mode needs, and the latest edits with who made them
+import React, {useState} from 'react';
+import {Crown, Pencil, Users, CheckCircle2} from 'lucide-react';
+import {UseTeamDraftReturn} from '@views/team/hooks/useTeamDraft';
+
+interface TeamDraftBarProps {
+    teamDraft: UseTeamDraftReturn;
+}
+
+const RECENT_CHANGES = 3;
+
+const TeamDraftBar: React.FC<TeamDraftBarProps> = ({teamDraft}) => {
+    const {mode, draft, deviceId, deviceName, teammates, captainDeviceId, canClaimCaptain, isConfirmed} = teamDraft;
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [nameInput, setNameInput] = useState(deviceName);
+    const [isUpdating, setIsUpdating] = useState(false);
+    const [updateError, setUpdateError] = useState<string | null>(null);
+
+    const nameFor = (id: string | null) => {
+        if (!id) return null;
+        if (id === deviceId) return 'You';
+        return teammates.find(entry => entry.device_id === id)?.device_name
+            ?? draft?.changes.find(change => change.device_id === id)?.device_name
+            ?? 'A device that left';
+    };
+
+    const runUpdate = async (action: () => Promise<void>) => {
+        setIsUpdating(true);
+        setUpdateError(null);
+        try {
+            await action();
+        } catch (error) {
+            setUpdateError(error instanceof Error ? error.message : 'Something went wrong, please try again');
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleRename = () => {
+        teamDraft.renameDevice(nameInput);
+        setIsRenaming(false);
+    };
+
+    const confirmedCount = teammates.filter(entry => draft?.confirmed_device_ids.includes(entry.device_id)).length;
+    const recentChanges = (draft?.changes ?? []).slice(-RECENT_CHANGES).reverse();
+
+    return (
+        <div className="mb-4 p-3 bg-gray-900/60 border border-gray-700 rounded-lg space-y-2 text-sm">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                <span className="flex items-center gap-1.5 text-gray-300">
+                    <Users className="w-4 h-4 text-sky-400"/>
+                    {teammates.length} device{teammates.length === 1 ? '' : 's'} on this draft
+                </span>
+
+                {isRenaming ? (
+                    <span className="flex items-center gap-2">
+                        <input
+                            value={nameInput}
+                            onChange={e => setNameInput(e.target.value)}
+                            maxLength={24}
+                            className="px-2 py-1 text-sm text-white bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-sky-500"
+                        />
+                        <button onClick={handleRename} className="text-sky-300 hover:text-sky-200">Save</button>
+                    </span>
+                ) : (
+                    <button
+                        onClick={() => setIsRenaming(true)}
+                        className="flex items-center gap-1 text-gray-400 hover:text-white"
+                    >
+                        <Pencil className="w-3 h-3"/>
+                        {deviceName}
+                    </button>
+                )}
+
+                {mode === 'captain' && (
+                    <span className="flex items-center gap-2 text-amber-200">
+                        <Crown className="w-4 h-4"/>
+                        {captainDeviceId ? `Captain: ${nameFor(captainDeviceId)}` : 'No captain yet'}
+                        {canClaimCaptain && (
+                            <button
+                                onClick={() => runUpdate(teamDraft.claimCaptain)}
+                                disabled={isUpdating}
+                                className="px-2 py-0.5 text-xs font-medium bg-amber-600/30 hover:bg-amber-600/50 border border-amber-500/40 rounded disabled:opacity-50"
+                            >
+                                Make me captain
+                            </button>
+                        )}
+                    </span>
+                )}
+
+                {mode === 'all_confirm' && (
+                    <span className="flex items-center gap-2 text-green-200">
+                        <CheckCircle2 className="w-4 h-4"/>
+                        {confirmedCount}/{teammates.length} confirmed
+                        <button
+                            onClick={() => runUpdate(() => teamDraft.confirm(!isConfirmed))}
+                            disabled={isUpdating}
+                            className="px-2 py-0.5 text-xs font-medium bg-green-600/30 hover:bg-green-600/50 border border-green-500/40 rounded disabled:opacity-50"
+                        >
+                            {isConfirmed ? 'Withdraw' : 'I agree'}
+                        </button>
+                    </span>
+                )}
+            </div>
+
+            {updateError && <p className="text-xs text-red-300">{updateError}</p>}
+
+            {recentChanges.length > 0 && (
+                <ul className="space-y-0.5 text-xs text-gray-400">
+                    {recentChanges.map(change => (
+                        <li key={`${change.device_id}-${change.at}`}>
+                            <span className="text-gray-200">{change.device_id === deviceId ? 'You' : change.device_name}</span>
+                            {' '}{change.description}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default TeamDraftBar;
@@ -0,0 +1,84 @@
+// src/views/team/components/GameStatus/HelpRequestButton.tsx
+// Header "Request help" action with an optional note, then the request's status until the host resolves it
+import React, {useState} from 'react';
+import {LifeBuoy} from 'lucide-react';
+import {HelpRequest} from '@shared/types';
+
+interface HelpRequestButtonProps {
+    activeRequest: HelpRequest | null;
+    isSending: boolean;
+    onRequestHelp: (message: string) => Promise<void>;
+}
+
+const MAX_MESSAGE_LENGTH = 200;
+
+const HelpRequestButton: React.FC<HelpRequestButtonProps> = ({activeRequest, isSending, onRequestHelp}) => {
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    if (activeRequest) {
+        return (
+            <span
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-amber-200 bg-amber-600/20 border border-amber-500/40 rounded-lg">
+                <LifeBuoy className="w-4 h-4"/>
+                {activeRequest.status === 'claimed' ? 'Help is on the way' : 'Help requested'}
+            </span>
+        );
+    }
+
+    const handleSend = async () => {
+        setError(null);
+        try {
+            await onRequestHelp(message);
+            setMessage('');
+            setIsFormOpen(false);
+        } catch (sendError) {
+            console.error('[HelpRequestButton] Failed to request help:', sendError);
+            setError('Could not reach your host. Try again.');
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsFormOpen(!isFormOpen)}
+                className="flex items-center gap-2 px-3 py-2 bg-sky-600/80 hover:bg-sky-700/80 text-white text-sm font-medium rounded-lg border border-sky-500/30 transition-colors"
+            >
+                <LifeBuoy className="w-4 h-4"/>
+                <span className="hidden sm:inline">Request help</span>
+            </button>
+
+            {isFormOpen && (
+                <div className="absolute right-0 mt-2 w-72 p-3 bg-gray-800 border border-gray-600 rounded-lg shadow-xl z-20 space-y-2">
+                    <textarea
+                        value={message}
+                        onChange={e => setMessage(e.target.value)}
+                        rows={2}
+                        maxLength={MAX_MESSAGE_LENGTH}
+                        placeholder="What do you need? (optional)"
+                        className="w-full px-2 py-1.5 text-sm text-white bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-sky-500"
+                    />
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => setIsFormOpen(false)}
+                            className="px-3 py-1.5 text-sm text-gray-300 hover:text-white"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSend}
+                            disabled={isSending}
+                            className="px-3 py-1.5 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md disabled:opacity-50"
+                        >
+                            {isSending ? 'Sending...' : 'Ask host'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HelpRequestButton;
@@ -1,16 +1,24 @@
 // src/views/team/components/GameStatus/KpiImpactCards.tsx
 // Updated to remove rounds display since impact cards always affect all rounds
 
-import React, {useMemo} from 'react';
-import {PermanentKpiAdjustment} from '@shared/types';
-import {Building, ShoppingCart, DollarSign, TrendingUp, AlertCircle} from 'lucide-react';
+import React, {useMemo, useState} from 'react';
+import {GameStructure, PermanentKpiAdjustment, TeamRoundData} from '@shared/types';
+import {Building, ShoppingCart, DollarSign, TrendingUp, AlertCircle, HelpCircle} from 'lucide-react';
 import {getChallengeById} from '@core/content/ChallengeRegistry';
+import {HOST_OVERRIDE_CHALLENGE_ID} from '@core/game/KpiOverrideEngine';
+import Modal from '@shared/components/UI/Modal';
+import KpiLedgerView from '@shared/components/KpiLedger/KpiLedgerView';
+import {useSupabaseQuery} from '@shared/hooks/supabase';
+import {DoubleDownEffectsProcessor} from '@core/game/DoubleDownEffectsProcessor';
 
 interface KpiImpactCardsProps {
     teamId: string;
     currentRound: number;
     permanentAdjustments: PermanentKpiAdjustment[];
     isLoadingAdjustments?: boolean;
+    gameStructure?: GameStructure | null;
+    sessionId?: string;                     // with currentKpis, enables the KPI history ("why") view
+    currentKpis?: TeamRoundData | null;
 }
 
 interface ImpactCard {
@@ -29,8 +37,12 @@ const KpiImpactCards: React.FC<KpiImpactCardsProps> = ({
                                                            teamId,
                                                            currentRound,
                                                            permanentAdjustments,
-                                                           isLoadingAdjustments = false
+                                                           isLoadingAdjustments = false,
+                                                           gameStructure = null,
+                                                           sessionId,
+                                                           currentKpis = null
                                                        }) => {
+    const [isLedgerOpen, setIsLedgerOpen] = useState(false);
 
     // ========================================================================
     // EXISTING LOGIC - UNCHANGED
@@ -42,6 +54,8 @@ const KpiImpactCards: React.FC<KpiImpactCardsProps> = ({
 
         permanentAdjustments.forEach(adjustment => {
             if (adjustment.team_id !== teamId) return;
+            // Host corrections are not impact cards; they show up in the KPI history instead
+            if (adjustment.challenge_id === HOST_OVERRIDE_CHALLENGE_ID) return;
 
             // Use challenge_id if available, otherwise extract from description
             let challengeId = adjustment.challenge_id;
@@ -49,7 +63,7 @@ const KpiImpactCards: React.FC<KpiImpactCardsProps> = ({
                 challengeId = extractChallengeFromDescription(adjustment.description);
             }
 
-            const challenge = getChallengeById(challengeId);
+            const challenge = gameStructure?.challenge_registry[challengeId] ?? getChallengeById(challengeId);
             if (!challenge) {
                 console.warn(`[KpiImpactCards] Could not find challenge for ID: ${challengeId}`);
                 return;
@@ -82,11 +96,69 @@ const KpiImpactCards: React.FC<KpiImpactCardsProps> = ({
         });
 
         return Object.values(cardMap);
-    }, [permanentAdjustments, teamId]);
+    }, [permanentAdjustments, teamId, gameStructure]);
 
-    // ✅ ADD THIS: Don't render anything if no impact cards
-    if (!impactCards.length && !isLoadingAdjustments) {
-        return null;
+    // Round 3: the double down's net effect, once this team's dice have been rolled
+    const kpiVersion = currentKpis
+        ? `${currentKpis.current_capacity}-${currentKpis.current_orders}-${currentKpis.current_cost}-${currentKpis.current_asp}`
+        : 'none';
+    const {data: doubleDown} = useSupabaseQuery(
+        () => sessionId && currentRound === 3
+            ? DoubleDownEffectsProcessor.getNetEffectForTeam(sessionId, teamId)
+            : Promise.resolve(null),
+        [sessionId, teamId, currentRound, kpiVersion],
+        {cacheKey: `double-down-net-${sessionId}-${teamId}-${currentRound}-${kpiVersion}`, cacheTimeout: 5000}
+    );
+
+    const cards: ImpactCard[] = useMemo(() => {
+        if (!doubleDown) return impactCards;
+
+        const investmentName = (id: string) =>
+            gameStructure?.all_investment_options['rd3-invest']?.find(option => option.id === id)?.name ?? `Investment ${id}`;
+        const boost = `${doubleDown.boostPercentage}% boost from the dice`;
+
+        return [...impactCards, {
+            id: 'double-down',
+            title: `Double Down: ${investmentName(doubleDown.investmentId)}`,
+            description: doubleDown.sacrificedId
+                ? `${boost}, less the RD-3 payoff of ${investmentName(doubleDown.sacrificedId)}, which you sacrificed`
+                : boost,
+            kpiEffects: doubleDown.changes.map(change => ({kpi: change.kpi, value: change.change_value, applies_to_rounds: [3]})),
+            source: 'double_down'
+        }];
+    }, [impactCards, doubleDown, gameStructure]);
+
+    const canExplainKpis = !!sessionId && !!currentKpis;
+
+    const ledgerButton = canExplainKpis && (
+        <button
+            onClick={() => setIsLedgerOpen(true)}
+            className="ml-auto flex items-center gap-1 text-xs font-medium text-slate-300 hover:text-white transition-colors"
+        >
+            <HelpCircle className="w-4 h-4"/>
+            Why these numbers?
+        </button>
+    );
+
+    const ledgerModal = canExplainKpis && (
+        <Modal isOpen={isLedgerOpen} onClose={() => setIsLedgerOpen(false)} title="How your KPIs were calculated" size="xl">
+            <KpiLedgerView
+                sessionId={sessionId!}
+                teamId={teamId}
+                roundData={{[currentKpis!.round_number]: currentKpis!}}
+                initialRound={currentKpis!.round_number}
+            />
+        </Modal>
+    );
+
+    // ✅ ADD THIS: Don't render anything if no impact cards (except the KPI history link)
+    if (!cards.length && !isLoadingAdjustments) {
+        return canExplainKpis ? (
+            <div className="flex items-center">
+                {ledgerButton}
+                {ledgerModal}
+            </div>
+        ) : null;
     }
 
     // ========================================================================
@@ -143,9 +215,11 @@ const KpiImpactCards: React.FC<KpiImpactCardsProps> = ({
     if (isLoadingAdjustments) {
         return (
             <div className="space-y-4" style={{perspective: '1200px', perspectiveOrigin: 'center top'}}>
+                {ledgerModal}
                 <div className="flex items-center gap-2">
                     <AlertCircle className="w-4 h-4 text-amber-400"/>
                     <h3 className="text-sm font-semibold text-slate-200">Impact Cards</h3>
+                    {ledgerButton}
                 </div>
                 <div
                     className="bg-gradient-to-br from-slate-800/60 to-slate-900/70 backdrop-blur-sm rounded-2xl p-6 border-2 border-slate-700/60 shadow-2xl animate-pulse"
@@ -163,12 +237,14 @@ const KpiImpactCards: React.FC<KpiImpactCardsProps> = ({
     }
 
     // Show empty state
-    if (!impactCards.length) {
+    if (!cards.length) {
         return (
             <div className="space-y-4" style={{perspective: '1200px', perspectiveOrigin: 'center top'}}>
+                {ledgerModal}
                 <div className="flex items-center gap-2">
                     <AlertCircle className="w-4 h-4 text-slate-400"/>
                     <h3 className="text-sm font-semibold text-slate-300">Impact Cards</h3>
+                    {ledgerButton}
                 </div>
                 <div
                     className="bg-gradient-to-br from-slate-800/60 to-slate-900/70 backdrop-blur-sm rounded-2xl p-6 border-2 border-slate-700/60 shadow-2xl text-center transform transition-all duration-300 hover:shadow-3xl hover:scale-[1.02]"
@@ -193,12 +269,14 @@ const KpiImpactCards: React.FC<KpiImpactCardsProps> = ({
     // Show impact cards
     return (
         <div className="space-y-4">
+            {ledgerModal}
             <div className="flex items-center gap-2">
                 <AlertCircle className="w-4 h-4 text-amber-400"/>
                 <h3 className="text-sm font-semibold text-slate-200">Impact Cards</h3>
+                {ledgerButton}
             </div>
             <div className="space-y-4" style={{perspective: '1000px'}}>
-                {impactCards.map(card => (
+                {cards.map(card => (
                     <div key={card.id}
                          className="bg-gradient-to-br from-slate-800/70 to-slate-900/80 backdrop-blur-sm rounded-2xl p-5 border-2 border-slate-600/50 shadow-2xl transform transition-all duration-500 hover:shadow-3xl hover:scale-[1.02] hover:border-slate-500/70 hover:from-slate-700/70 hover:to-slate-800/80"
                          style={{
@@ -4,7 +4,7 @@
 import React, {useEffect, useState} from 'react';
 import {ShoppingBag, DollarSign, CheckCircle} from 'lucide-react';
 import {useSupabaseQuery} from '@shared/hooks/supabase';
-import {supabase} from '@shared/services/supabase';
+import {getStorage} from '@shared/services/supabase';
 import {ContinuationPricingEngine} from '@core/game/ContinuationPricingEngine';
 
 interface InvestmentDisplayProps {
@@ -51,7 +51,7 @@ const TeamInvestmentDisplay: React.FC<InvestmentDisplayProps> = ({
         async () => {
             if (!sessionId || !teamId) return [];
 
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .select('selected_investment_options, total_spent_budget, phase_id')
                 .eq('session_id', sessionId)
@@ -74,7 +74,7 @@ const TeamInvestmentDisplay: React.FC<InvestmentDisplayProps> = ({
         async () => {
             if (!sessionId || !teamId) return [];
 
-            const {data, error} = await supabase
+            const {data, error} = await getStorage()
                 .from('team_decisions')
                 .select('selected_investment_options, total_spent_budget, phase_id')
                 .eq('session_id', sessionId)
@@ -214,7 +214,7 @@ const TeamInvestmentDisplay: React.FC<InvestmentDisplayProps> = ({
             }
 
             try {
-                const { data } = await supabase
+                const { data } = await getStorage()
                     .from('team_decisions')
                     .select('double_down_sacrifice_id, double_down_on_id')
                     .eq('session_id', sessionId)
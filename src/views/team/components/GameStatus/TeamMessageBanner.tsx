@@ -0,0 +1,42 @@
+// src/views/team/components/GameStatus/TeamMessageBanner.tsx
+// Host announcements pinned under the header until the team taps "Got it"
+import React from 'react';
+import {MessageSquare} from 'lucide-react';
+import {TeamMessage} from '@shared/types';
+
+interface TeamMessageBannerProps {
+    messages: TeamMessage[];
+    onAcknowledge: (messageId: string) => void;
+}
+
+const TeamMessageBanner: React.FC<TeamMessageBannerProps> = ({messages, onAcknowledge}) => {
+    if (messages.length === 0) return null;
+
+    return (
+        <div className="container mx-auto px-4 pt-3 space-y-2">
+            {messages.map(message => (
+                <div
+                    key={message.id}
+                    role="alert"
+                    className="flex items-start gap-3 p-3 bg-sky-900/90 backdrop-blur-sm border border-sky-500/50 rounded-lg shadow-lg"
+                >
+                    <MessageSquare className="text-sky-300 flex-shrink-0 mt-0.5" size={18}/>
+                    <div className="flex-1 min-w-0">
+                        <p className="text-xs font-semibold text-sky-300">
+                            {message.team_id ? 'Message from your host' : 'Announcement'}
+                        </p>
+                        <p className="text-sm text-white whitespace-pre-wrap break-words">{message.body}</p>
+                    </div>
+                    <button
+                        onClick={() => onAcknowledge(message.id)}
+                        className="px-3 py-2 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-lg flex-shrink-0 transition-colors"
+                    >
+                        Got it
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default TeamMessageBanner;
@@ -0,0 +1,75 @@
+// src/views/team/components/TeamLogin/RejoinCodeForm.tsx
+
+/**
+ * ============================================================================
+ * REJOIN CODE FORM COMPONENT
+ * ============================================================================
+ *
+ * For a player whose phone died or who swapped devices mid-game: the facilitator
+ * issues a one-time code from Team Codes, which logs this device in to that team
+ * without the passcode (and without counting against the devices-per-team limit).
+ *
+ * - The code names the team, so there is no team picker
+ * - Case, spaces and dashes don't matter; the input upper-cases as the user types
+ * - Same field styling and touch sizing as LoginForm
+ * ============================================================================
+ */
+
+import React from 'react';
+import {KeyRound, Loader2} from 'lucide-react';
+
+interface RejoinCodeFormProps {
+    rejoinCode: string;
+    setRejoinCode: (code: string) => void;
+    onSubmit: (e: React.FormEvent) => Promise<void>;
+    isLoggingIn: boolean;
+}
+
+const RejoinCodeForm: React.FC<RejoinCodeFormProps> = ({rejoinCode, setRejoinCode, onSubmit, isLoggingIn}) => {
+    return (
+        <form onSubmit={onSubmit} className="space-y-5" noValidate>
+            <div>
+                <label htmlFor="rejoin-code" className="block text-sm font-semibold text-gray-200 mb-2">
+                    Rejoin Code
+                </label>
+                <input
+                    type="text"
+                    id="rejoin-code"
+                    value={rejoinCode}
+                    onChange={(e) => setRejoinCode(e.target.value.toUpperCase())}
+                    placeholder="e.g. K7M2QX"
+                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-200 text-white placeholder-gray-400 font-mono tracking-widest uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={isLoggingIn}
+                    autoComplete="one-time-code"
+                    autoCapitalize="characters"
+                    spellCheck={false}
+                    maxLength={12}
+                    aria-describedby="rejoin-code-help"
+                />
+                <p id="rejoin-code-help" className="text-xs text-gray-400 mt-1">
+                    Your facilitator can give you a one-time code to rejoin your team on this device
+                </p>
+            </div>
+
+            <button
+                type="submit"
+                disabled={isLoggingIn}
+                className="w-full flex items-center justify-center gap-3 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white py-3 px-6 rounded-lg font-semibold transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+            >
+                {isLoggingIn ? (
+                    <>
+                        <Loader2 size={20} className="animate-spin" aria-hidden="true"/>
+                        <span>Rejoining...</span>
+                    </>
+                ) : (
+                    <>
+                        <KeyRound size={20} aria-hidden="true"/>
+                        <span>Rejoin Team</span>
+                    </>
+                )}
+            </button>
+        </form>
+    );
+};
+
+export default RejoinCodeForm;
@@ -47,14 +47,16 @@ import ConnectionError from "./ConnectionError"
 import LoadingState from './LoadingState';
 import ErrorDisplay from './ErrorDisplay';
 import LoginForm from './LoginForm';
+import RejoinCodeForm from './RejoinCodeForm';
 import NoTeamsMessage from './NoTeamsMessage';
 
 interface TeamLoginProps {
     sessionId: string;
     onLoginSuccess: (teamId: string, teamName: string) => void;
+    notice?: string | null;     // why this device was logged out, e.g. the host revoked it
 }
 
-const TeamLogin: React.FC<TeamLoginProps> = ({sessionId, onLoginSuccess}) => {
+const TeamLogin: React.FC<TeamLoginProps> = ({sessionId, onLoginSuccess, notice}) => {
 
     // ========================================================================
     // CONNECTION MONITORING
@@ -77,6 +79,10 @@ const TeamLogin: React.FC<TeamLoginProps> = ({sessionId, onLoginSuccess}) => {
         setSelectedTeamId,
         passcode,
         setPasscode,
+        loginMode,
+        setLoginMode,
+        rejoinCode,
+        setRejoinCode,
         isLoggingIn,
         loginError,
         handleLogin
@@ -141,6 +147,17 @@ const TeamLogin: React.FC<TeamLoginProps> = ({sessionId, onLoginSuccess}) => {
                     */}
                     <div className="px-6 py-6">
 
+                        {/*
+                            LOGGED OUT NOTICE
+                            - Explains why a device that was playing is back on the login screen
+                        */}
+                        {notice && (
+                            <div className="mb-6 p-3 bg-amber-500/10 border border-amber-500/40 rounded-lg text-amber-200 text-sm"
+                                 role="status">
+                                {notice}
+                            </div>
+                        )}
+
                         {/*
                             LOADING STATE
                             - Shown while fetching available teams from database
@@ -176,7 +193,7 @@ const TeamLogin: React.FC<TeamLoginProps> = ({sessionId, onLoginSuccess}) => {
                             - Mobile-optimized inputs and interactions
                             - Professional custom styling throughout
                         */}
-                        {!isLoadingTeams && availableTeams.length > 0 && !teamsError && (
+                        {loginMode === 'passcode' && !isLoadingTeams && availableTeams.length > 0 && !teamsError && (
                             <LoginForm
                                 availableTeams={availableTeams}
                                 selectedTeamId={selectedTeamId}
@@ -189,13 +206,38 @@ const TeamLogin: React.FC<TeamLoginProps> = ({sessionId, onLoginSuccess}) => {
                             />
                         )}
 
+                        {/*
+                            REJOIN CODE FORM
+                            - One-time code from the facilitator for a replacement device
+                            - Doesn't need the team list, so it works even if teams fail to load
+                        */}
+                        {loginMode === 'rejoin' && (
+                            <RejoinCodeForm
+                                rejoinCode={rejoinCode}
+                                setRejoinCode={setRejoinCode}
+                                onSubmit={handleLogin}
+                                isLoggingIn={isLoggingIn}
+                            />
+                        )}
+
+                        <div className="mt-4 text-center">
+                            <button
+                                type="button"
+                                onClick={() => setLoginMode(loginMode === 'passcode' ? 'rejoin' : 'passcode')}
+                                disabled={isLoggingIn}
+                                className="text-sm text-blue-300 hover:text-blue-200 underline underline-offset-2 disabled:opacity-50"
+                            >
+                                {loginMode === 'passcode' ? 'Have a rejoin code?' : 'Log in with team passcode'}
+                            </button>
+                        </div>
+
                         {/*
                             NO TEAMS AVAILABLE MESSAGE
                             - Handles edge case where session has no teams
                             - Provides helpful guidance and retry option
                             - Suggests checking with facilitator
                         */}
-                        {!isLoadingTeams && availableTeams.length === 0 && !teamsError && (
+                        {loginMode === 'passcode' && !isLoadingTeams && availableTeams.length === 0 && !teamsError && (
                             <div className="text-center py-8">
                                 <NoTeamsMessage sessionId={sessionId} onRefresh={refetchTeams}/>
                             </div>
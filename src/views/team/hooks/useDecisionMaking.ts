@@ -2,11 +2,12 @@
 // FIXED VERSION: Updated to use investment option letters instead of full IDs
 
 import {useCallback, useEffect, useMemo, useState} from 'react';
-import {ChallengeOption, InvestmentOption, Slide} from '@shared/types';
-import {supabase} from '@shared/services/supabase';
+import {ChallengeOption, InvestmentOption, Slide, TeamDraftSelections} from '@shared/types';
+import {db, getStorage} from '@shared/services/supabase';
+import {requireTeamAccessToken} from '@core/sync/TeamAccess';
 import {StrategyInvestmentTracker, StrategyInvestmentType} from "@core/game/StrategyInvestmentTracker.ts";
 import {MultiSelectChallengeTracker} from "@core/game/MultiSelectChallengeTracker.ts";
-import {ForcedSelectionTracker} from "@core/game/ForcedSelectionTracker.ts";
+import {ConditionalRulesEngine} from "@core/game/ConditionalRulesEngine.ts";
 
 export interface DecisionState {
     selectedInvestmentOptions: string[];  // CHANGED: now stores ['A', 'B', 'C']
@@ -19,6 +20,7 @@ export interface DecisionState {
     forcedSelection: string | null;
     forcedSelectionReason: string | null;
     isCheckingForcedSelection: boolean;
+    rationale: string;  // optional "why we chose this", submitted with the decision
 }
 
 export interface DecisionActions {
@@ -28,6 +30,8 @@ export interface DecisionActions {
     handleDoubleDownSelect: (optionId: string) => void;
     clearError: () => void;
     handleInvestmentToggleById: (investmentId: string, cost: number) => void;
+    applySharedSelections: (selections: TeamDraftSelections) => void;  // teammate's edit to the shared draft
+    handleRationaleChange: (rationale: string) => void;
 }
 
 interface UseDecisionMakingProps {
@@ -46,6 +50,7 @@ interface UseDecisionMakingReturn {
     remainingBudget: number;
     submissionSummary: string;
     isValidSubmission: boolean;
+    isReady: boolean;   // existing purchases for the slide have loaded
 }
 
 const formatCurrency = (value: number): string => {
@@ -73,9 +78,12 @@ export const useDecisionMaking = ({
         immediatePurchases: [],
         forcedSelection: null,
         forcedSelectionReason: null,
-        isCheckingForcedSelection: false
+        isCheckingForcedSelection: false,
+        rationale: ''
     });
 
+    const [isReady, setIsReady] = useState(false);
+
     const remainingBudget = useMemo(() => {
         return investUpToBudget - state.spentBudget;
     }, [investUpToBudget, state.spentBudget]);
@@ -173,7 +181,7 @@ export const useDecisionMaking = ({
             if (currentSlide?.type === 'interactive_double_down_select') {
                 try {
                     // Load team's RD3 investment decisions to filter available options
-                    const { data: rd3Decision } = await supabase
+                    const { data: rd3Decision } = await getStorage()
                         .from('team_decisions')
                         .select('selected_investment_options')
                         .eq('session_id', sessionId)
@@ -181,11 +189,12 @@ export const useDecisionMaking = ({
                         .eq('phase_id', 'rd3-invest')
                         .single();
 
-                    if (rd3Decision?.selected_investment_options) {
+                    const rd3Investments = rd3Decision?.selected_investment_options;
+                    if (rd3Investments) {
                         // Store these so DecisionContent can filter investments
                         setState(prev => ({
                             ...prev,
-                            immediatePurchases: rd3Decision.selected_investment_options
+                            immediatePurchases: rd3Investments
                         }));
                     }
                 } catch (error) {
@@ -197,7 +206,7 @@ export const useDecisionMaking = ({
                 // Create the immediate purchase phase_id
                 const immediatePhaseId = `${currentSlide.interactive_data_key}_immediate`;
 
-                const {data, error} = await supabase
+                const {data, error} = await getStorage()
                     .from('team_decisions')
                     .select('*')
                     .eq('session_id', sessionId)
@@ -236,7 +245,8 @@ export const useDecisionMaking = ({
             sacrificeInvestmentId: null,
             doubleDownOnInvestmentId: null,
             error: null,
-            immediatePurchases: []
+            immediatePurchases: [],
+            rationale: ''
         };
 
         // Set default challenge option if applicable
@@ -249,7 +259,8 @@ export const useDecisionMaking = ({
         }
 
         setState(newState);
-        loadExistingDecisions();
+        setIsReady(false);
+        loadExistingDecisions().finally(() => setIsReady(true));
     }, [currentSlide?.id, challengeOptions, sessionId, teamId]);
 
     // Notify parent of investment changes
@@ -268,8 +279,9 @@ export const useDecisionMaking = ({
             }
             setState(prev => ({ ...prev, isCheckingForcedSelection: true }));
             try {
-                const forced = await ForcedSelectionTracker.getForcedSelection(sessionId, teamId, currentSlide.interactive_data_key);
-                const reason = forced ? ForcedSelectionTracker.getForcedSelectionReason(currentSlide.interactive_data_key) : null;
+                const forcedSelection = await ConditionalRulesEngine.getForcedSelectionForTeam(sessionId, teamId, currentSlide.interactive_data_key);
+                const forced = forcedSelection?.option ?? null;
+                const reason = forcedSelection?.reason ?? null;
                 setState(prev => ({
                     ...prev,
                     forcedSelection: forced,
@@ -347,11 +359,8 @@ export const useDecisionMaking = ({
             // DATA-DRIVEN: Use the option's immediate_purchase_type or default to the option ID
             const immediateType = option.immediate_purchase_type || option.id;
 
-            const {data, error} = await supabase
-                .from('team_decisions')
-                .insert({
-                    session_id: sessionId,
-                    team_id: teamId,
+            // Authorized by the team's login token; the backend sets the session and team from it
+            await db.decisions.submitForTeam(requireTeamAccessToken(sessionId), {
                     phase_id: immediatePhaseId,
                     round_number: currentSlide.round_number || 1,
                     selected_investment_options: [optionLetter],
@@ -371,11 +380,7 @@ export const useDecisionMaking = ({
                         cost: cost
                     },
                     report_given: false
-                })
-                .select()
-                .single();
-
-            if (error) throw error;
+            });
 
             // NEW: Process strategy investment if this is a strategy purchase
             if (immediateType === 'business_growth_strategy' || immediateType === 'strategic_plan') {
@@ -452,6 +457,20 @@ export const useDecisionMaking = ({
         }));
     }, [investmentOptions]);
 
+    const applySharedSelections = useCallback((selections: TeamDraftSelections) => {
+        setState(prev => ({
+            ...prev,
+            ...selections,
+            // A forced pick stays forced whatever a teammate's device sent
+            selectedChallengeOptionId: prev.forcedSelection || selections.selectedChallengeOptionId,
+            error: null
+        }));
+    }, []);
+
+    const handleRationaleChange = useCallback((rationale: string) => {
+        setState(prev => ({...prev, rationale}));
+    }, []);
+
     const clearError = useCallback(() => {
         setState(prev => ({
             ...prev,
@@ -467,10 +486,13 @@ export const useDecisionMaking = ({
             handleSacrificeSelect,
             handleDoubleDownSelect,
             clearError,
-            handleInvestmentToggleById
+            handleInvestmentToggleById,
+            applySharedSelections,
+            handleRationaleChange
         },
         remainingBudget,
         submissionSummary,
-        isValidSubmission
+        isValidSubmission,
+        isReady
     };
 };
@@ -0,0 +1,72 @@
+// src/views/team/hooks/useHelpRequest.ts
+// Team side of help requests: ask the host for help and follow the request until it is resolved.
+// Only one request per team is active at a time.
+import {useCallback, useEffect, useState} from 'react';
+import {db} from '@shared/services/supabase';
+import {SimpleRealtimeManager} from '@core/sync';
+import {HelpRequest} from '@shared/types';
+
+interface UseHelpRequestReturn {
+    activeRequest: HelpRequest | null;
+    isSending: boolean;
+    requestHelp: (message: string) => Promise<void>;
+}
+
+export const useHelpRequest = (sessionId: string | null, teamId: string | null): UseHelpRequestReturn => {
+    const [activeRequest, setActiveRequest] = useState<HelpRequest | null>(null);
+    const [isSending, setIsSending] = useState(false);
+
+    const loadActive = useCallback(async () => {
+        if (!sessionId || !teamId) return;
+        try {
+            const requests = await db.helpRequests.getBySession(sessionId);
+            const active = requests.filter(request => request.team_id === teamId && request.status !== 'resolved');
+            setActiveRequest(active[active.length - 1] ?? null);
+        } catch (error) {
+            console.error('[useHelpRequest] Failed to load help requests:', error);
+        }
+    }, [sessionId, teamId]);
+
+    useEffect(() => {
+        setActiveRequest(null);
+        if (!sessionId || !teamId) return;
+
+        loadActive();
+
+        const realtimeManager = SimpleRealtimeManager.getInstance(sessionId, 'team');
+        const unsubscribeUpdates = realtimeManager.onHelpRequest(request => {
+            if (request.team_id !== teamId) return;
+            setActiveRequest(prev => {
+                if (prev && prev.id !== request.id) return prev;
+                return request.status === 'resolved' ? null : request;
+            });
+        });
+        const unsubscribeStatus = realtimeManager.onConnectionStatus(status => {
+            if (status === 'connected') loadActive();
+        });
+
+        return () => {
+            unsubscribeUpdates();
+            unsubscribeStatus();
+        };
+    }, [sessionId, teamId, loadActive]);
+
+    const requestHelp = useCallback(async (message: string) => {
+        if (!sessionId || !teamId || activeRequest) return;
+
+        setIsSending(true);
+        try {
+            const request = await db.helpRequests.create({
+                session_id: sessionId,
+                team_id: teamId,
+                message: message.trim() || null
+            });
+            setActiveRequest(request);
+            SimpleRealtimeManager.getInstance(sessionId, 'team').sendHelpRequest(request);
+        } finally {
+            setIsSending(false);
+        }
+    }, [sessionId, teamId, activeRequest]);
+
+    return {activeRequest, isSending, requestHelp};
+};
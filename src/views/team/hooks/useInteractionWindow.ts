@@ -1 +1,36 @@
-// TODO: Extract interaction window logic here.
+// src/views/team/hooks/useInteractionWindow.ts
+// Whether the current decision window is open for this team, and how long it has left.
+// The countdown runs locally against the server clock, so the form locks at zero even if the
+// host's expiry event arrives late.
+import {useDecisionCountdown} from '@shared/hooks/useDecisionCountdown';
+import {DecisionTimerState, Slide} from '@shared/types';
+
+interface UseInteractionWindowProps {
+    currentSlide: Slide | null;
+    decisionTimer: DecisionTimerState | null;
+}
+
+interface UseInteractionWindowReturn {
+    timer: DecisionTimerState | null;   // only when it belongs to the current slide
+    isTimed: boolean;
+    remainingSeconds: number | null;
+    isPaused: boolean;
+    isLocked: boolean;
+}
+
+export const useInteractionWindow = ({
+                                         currentSlide,
+                                         decisionTimer
+                                     }: UseInteractionWindowProps): UseInteractionWindowReturn => {
+    // Ignore a stale timer from a slide the host has already left
+    const timer = decisionTimer && currentSlide && decisionTimer.slideId === currentSlide.id ? decisionTimer : null;
+    const countdown = useDecisionCountdown(timer);
+
+    return {
+        timer,
+        isTimed: !!timer,
+        remainingSeconds: timer ? countdown.remainingSeconds : null,
+        isPaused: countdown.isPaused,
+        isLocked: countdown.isClosed,
+    };
+};
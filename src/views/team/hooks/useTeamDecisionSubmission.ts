@@ -3,9 +3,10 @@
 
 import {useState, useCallback, useMemo, useEffect, useRef} from 'react';
 import {useSupabaseMutation, useSupabaseQuery} from '@shared/hooks/supabase';
-import {db, supabase} from '@shared/services/supabase';
+import {db, formatSupabaseError} from '@shared/services/supabase';
 import {Slide, InvestmentOption, ChallengeOption, GameStructure} from '@shared/types';
 import {DecisionState} from './useDecisionMaking';
+import {requireTeamAccessToken} from '@core/sync/TeamAccess';
 import {InvestmentPurchaseHandler} from '@core/game/InvestmentPurchaseHandler';
 import {ContinuationPricingEngine} from '@core/game/ContinuationPricingEngine';
 import {MultiSelectChallengeTracker} from "@core/game/MultiSelectChallengeTracker.ts";
@@ -256,8 +257,6 @@ export const useTeamDecisionSubmission = ({
             }
 
             const submissionData = {
-                session_id: sessionId,
-                team_id: teamId,
                 phase_id: decisionKey,
                 round_number: currentSlide?.round_number || 1,
                 selected_investment_options: decisionState.selectedInvestmentOptions?.length > 0
@@ -266,6 +265,7 @@ export const useTeamDecisionSubmission = ({
                 selected_challenge_option_id: decisionState.selectedChallengeOptionId || null,
                 double_down_sacrifice_id: decisionState.sacrificeInvestmentId || null,
                 double_down_on_id: decisionState.doubleDownOnInvestmentId || null,
+                rationale: decisionState.rationale.trim() || null,
                 total_spent_budget: totalCost,
                 submitted_at: new Date().toISOString(),
                 is_immediate_purchase: false,
@@ -275,13 +275,8 @@ export const useTeamDecisionSubmission = ({
                 report_given_at: null
             };
 
-            const {data, error} = await supabase
-                .from('team_decisions')
-                .insert([submissionData])
-                .select()
-                .single();
-
-            if (error) throw error;
+            // Authorized by the team's login token; the backend sets the session and team from it
+            const data = await db.decisions.submitForTeam(requireTeamAccessToken(sessionId), submissionData);
             if (decisionState.selectedInvestmentOptions?.length > 0) {
                 await InvestmentPurchaseHandler.processInvestmentPurchases({
                     sessionId,
@@ -311,7 +306,7 @@ export const useTeamDecisionSubmission = ({
             },
             onError: (error: unknown) => {
                 console.error('🎯 Decision submission failed:', error);
-                const errorMessage = error instanceof Error ? error.message : 'Submission failed';
+                const errorMessage = error instanceof Error ? error.message : formatSupabaseError(error);
                 setSubmissionError(errorMessage);
                 setSubmissionSuccess(false);
             }
@@ -341,7 +336,7 @@ export const useTeamDecisionSubmission = ({
             const parts: string[] = [];
 
             // Add investment selections
-            if (existingDecision.selected_investment_options?.length > 0) {
+            if (existingDecision.selected_investment_options?.length) {
                 const decisionKey = currentSlide.interactive_data_key;
                 const investmentOptions = decisionKey ?
                     gameStructureWithData.all_investment_options?.[decisionKey] || [] : [];
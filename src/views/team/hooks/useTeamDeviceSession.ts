@@ -0,0 +1,152 @@
+// src/views/team/hooks/useTeamDeviceSession.ts
+// Which team this device is logged in as. A saved login is picked back up after a reload and checked with
+// the server, and a scanned team QR code logs the device straight in. The login ends when the host revokes
+// the device (told over realtime, and caught by the periodic check if that message is missed) or when it
+// expires.
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {db, formatSupabaseError} from '@shared/services/supabase';
+import {
+    clearTeamAccess,
+    getDeviceId,
+    getDeviceName,
+    getSavedTeamAccess,
+    saveTeamAccess,
+    SimpleRealtimeManager
+} from '@core/sync';
+
+// Also what the host's device list shows as "last seen"
+const SESSION_CHECK_INTERVAL_MS = 2 * 60 * 1000;
+
+const ENDED_NOTICE = 'Your team login on this device was ended. Log in again, or ask your facilitator for a rejoin code.';
+const JOIN_FAILED_NOTICE = 'This team QR code has expired or was replaced. Log in with your team passcode instead.';
+
+interface LoggedInTeam {
+    id: string;
+    name: string;
+}
+
+interface UseTeamDeviceSessionReturn {
+    teamId: string | null;
+    teamName: string | null;
+    isJoining: boolean;         // redeeming a scanned QR code
+    notice: string | null;      // why the device is on the login screen
+    onLoginSuccess: (teamId: string, teamName: string) => void;
+    logout: () => void;
+}
+
+export const useTeamDeviceSession = (
+    sessionId: string | null,
+    joinToken: string | null = null,
+    onJoinTokenUsed?: () => void
+): UseTeamDeviceSessionReturn => {
+    // Show the saved team straight away; the server check below logs out if the login is no longer valid
+    const [team, setTeam] = useState<LoggedInTeam | null>(() => {
+        const saved = sessionId ? getSavedTeamAccess(sessionId) : null;
+        return saved ? {id: saved.team_id, name: saved.team_name} : null;
+    });
+    const [notice, setNotice] = useState<string | null>(null);
+    const [isJoining, setIsJoining] = useState<boolean>(!!joinToken);
+    const onJoinTokenUsedRef = useRef(onJoinTokenUsed);
+    onJoinTokenUsedRef.current = onJoinTokenUsed;
+
+    const logout = useCallback(() => {
+        if (sessionId) clearTeamAccess(sessionId);
+        setTeam(null);
+    }, [sessionId]);
+
+    const endSession = useCallback(() => {
+        logout();
+        setNotice(ENDED_NOTICE);
+    }, [logout]);
+
+    const onLoginSuccess = useCallback((teamId: string, teamName: string) => {
+        setNotice(null);
+        setTeam({id: teamId, name: teamName});
+    }, []);
+
+    const teamId = team?.id ?? null;
+
+    // A scanned team QR code: log in as that team, replacing any saved login on this device
+    useEffect(() => {
+        if (!sessionId || !joinToken) return;
+
+        let cancelled = false;
+        setIsJoining(true);
+        db.teams.redeemJoinToken(sessionId, joinToken, {id: getDeviceId(), name: getDeviceName()})
+            .then(grant => {
+                if (cancelled) return;
+                if (grant) {
+                    saveTeamAccess(sessionId, grant);
+                    setNotice(null);
+                    setTeam({id: grant.team.id, name: grant.team.name});
+                } else {
+                    setNotice(JOIN_FAILED_NOTICE);
+                }
+            })
+            .catch(error => {
+                console.error('[useTeamDeviceSession] QR code login failed:', error);
+                if (!cancelled) setNotice(`Couldn't join from the QR code: ${formatSupabaseError(error)}`);
+            })
+            .finally(() => {
+                if (cancelled) return;
+                setIsJoining(false);
+                // The token shouldn't stay in the address bar (or be redeemed again on reload)
+                onJoinTokenUsedRef.current?.();
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, joinToken]);
+
+    useEffect(() => {
+        if (!sessionId || !teamId) return;
+
+        let cancelled = false;
+        const checkSession = async () => {
+            const saved = getSavedTeamAccess(sessionId);
+            if (!saved) {
+                if (!cancelled) endSession();
+                return;
+            }
+            try {
+                const grant = await db.teams.resumeSession(saved.token);
+                // A QR code login replaced the saved login while this check was in flight
+                if (cancelled || getSavedTeamAccess(sessionId)?.token !== saved.token) return;
+                if (!grant) {
+                    endSession();
+                } else if (grant.team.name !== saved.team_name) {
+                    setTeam({id: grant.team.id, name: grant.team.name});
+                }
+            } catch (error) {
+                // Offline or the backend is down: keep playing, the next check tries again
+                console.warn('[useTeamDeviceSession] Could not check team login:', error);
+            }
+        };
+
+        checkSession();
+        const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+
+        const unsubscribe = SimpleRealtimeManager.getInstance(sessionId, 'team').onTeamEvent(event => {
+            if (event.type !== 'device_revoked' || event.data?.teamId !== teamId) return;
+            if (event.data?.deviceSessionId === getSavedTeamAccess(sessionId)?.device_session_id) {
+                endSession();
+            }
+        });
+
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+            unsubscribe();
+        };
+    }, [sessionId, teamId, endSession]);
+
+    return {
+        teamId,
+        teamName: team?.name ?? null,
+        isJoining,
+        notice,
+        onLoginSuccess,
+        logout
+    };
+};
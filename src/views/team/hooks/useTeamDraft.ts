@@ -0,0 +1,261 @@
+// src/views/team/hooks/useTeamDraft.ts
+// Keeps this device's selections in step with the team's shared draft for the current decision: loads it,
+// publishes local edits, applies teammates' edits, and works out who may submit under the session's mode.
+// The team's captain is kept on the team for the whole game, not on each decision's draft.
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import {db} from '@shared/services/supabase';
+import {getDeviceId, getDeviceName, requireTeamAccessToken, setDeviceName, SimpleRealtimeManager} from '@core/sync';
+import {SubmitPermission, TeamDraftEngine} from '@core/game/TeamDraftEngine';
+import {
+    Slide,
+    TeamDecisionDraft,
+    TeamDecisionDraftUpsert,
+    TeamDraftSelections,
+    TeamPresence,
+    TeamSubmissionMode
+} from '@shared/types';
+import {DecisionState} from './useDecisionMaking';
+
+interface UseTeamDraftProps {
+    sessionId: string | null;
+    teamId: string | null;
+    currentSlide: Slide | null;
+    decisionState: DecisionState;
+    isReady: boolean;
+    applySharedSelections: (selections: TeamDraftSelections) => void;
+}
+
+export interface UseTeamDraftReturn {
+    mode: TeamSubmissionMode;
+    draft: TeamDecisionDraftUpsert | null;
+    deviceId: string;
+    deviceName: string;
+    teammates: TeamPresence[];              // this team's devices online now, including this one
+    permission: SubmitPermission;
+    captainDeviceId: string | null;
+    isCaptain: boolean;
+    canClaimCaptain: boolean;               // no captain yet, or the captain's device is offline
+    isConfirmed: boolean;
+    teammateSubmissions: number;            // bumps when another device submits the decision
+    confirm: (confirmed: boolean) => Promise<void>;
+    claimCaptain: () => Promise<void>;
+    markSubmitted: () => Promise<void>;
+    renameDevice: (name: string) => void;
+}
+
+export const useTeamDraft = ({
+                                 sessionId,
+                                 teamId,
+                                 currentSlide,
+                                 decisionState,
+                                 isReady,
+                                 applySharedSelections
+                             }: UseTeamDraftProps): UseTeamDraftReturn => {
+    const deviceId = getDeviceId();
+    const [deviceName, setDeviceNameState] = useState(getDeviceName);
+    const [mode, setMode] = useState<TeamSubmissionMode>('anyone');
+    const [draft, setDraft] = useState<TeamDecisionDraftUpsert | null>(null);
+    const [captainDeviceId, setCaptainDeviceId] = useState<string | null>(null);
+    const [presence, setPresence] = useState<TeamPresence[]>([]);
+    const [teammateSubmissions, setTeammateSubmissions] = useState(0);
+
+    const phaseId = currentSlide?.interactive_data_key ?? null;
+
+    // The draft as last written, and the selections it held, so our own echoes aren't republished
+    const draftRef = useRef<TeamDecisionDraftUpsert | null>(null);
+    const syncedRef = useRef<TeamDraftSelections | null>(null);
+    const applyRef = useRef(applySharedSelections);
+    applyRef.current = applySharedSelections;
+    const deviceNameRef = useRef(deviceName);
+    deviceNameRef.current = deviceName;
+
+    const {
+        selectedInvestmentOptions,
+        spentBudget,
+        immediatePurchases,
+        selectedChallengeOptionId,
+        sacrificeInvestmentId,
+        doubleDownOnInvestmentId
+    } = decisionState;
+    const selections: TeamDraftSelections = useMemo(() => ({
+        selectedInvestmentOptions,
+        spentBudget,
+        immediatePurchases,
+        selectedChallengeOptionId,
+        sacrificeInvestmentId,
+        doubleDownOnInvestmentId
+    }), [selectedInvestmentOptions, spentBudget, immediatePurchases, selectedChallengeOptionId, sacrificeInvestmentId, doubleDownOnInvestmentId]);
+    const selectionsRef = useRef(selections);
+    selectionsRef.current = selections;
+
+    const setShared = useCallback((next: TeamDecisionDraftUpsert | null) => {
+        draftRef.current = next;
+        setDraft(next);
+    }, []);
+
+    const publish = useCallback(async (next: TeamDecisionDraftUpsert) => {
+        if (!sessionId) return;
+        try {
+            const saved = await db.teamDrafts.save(next);
+            SimpleRealtimeManager.getInstance(sessionId, 'team').sendTeamDraft(saved);
+        } catch (error) {
+            console.error('[useTeamDraft] Failed to save shared draft:', error);
+        }
+    }, [sessionId]);
+
+    // Submission mode is fixed when the game is created
+    useEffect(() => {
+        if (!sessionId) return;
+        db.sessions.getById(sessionId)
+            .then(session => setMode(session?.team_submission_mode ?? 'anyone'))
+            .catch(error => console.error('[useTeamDraft] Failed to load submission mode:', error));
+    }, [sessionId]);
+
+    // The team's captain, and hand-overs by a teammate or the host
+    useEffect(() => {
+        if (!sessionId || !teamId) return;
+
+        let cancelled = false;
+        db.teams.getCaptain(teamId)
+            .then(captain => {
+                if (!cancelled) setCaptainDeviceId(captain);
+            })
+            .catch(error => console.error('[useTeamDraft] Failed to load team captain:', error));
+
+        const unsubscribe = SimpleRealtimeManager.getInstance(sessionId, 'team').onTeamCaptain(change => {
+            if (change.teamId === teamId) setCaptainDeviceId(change.captainDeviceId);
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [sessionId, teamId]);
+
+    // Teammates online, from the same presence the host sees
+    useEffect(() => {
+        if (!sessionId || !teamId) return;
+
+        const realtimeManager = SimpleRealtimeManager.getInstance(sessionId, 'team');
+        const handlePresence = (entries: TeamPresence[]) => {
+            const byDevice = new Map(entries.filter(entry => entry.team_id === teamId).map(entry => [entry.device_id, entry]));
+            setPresence([...byDevice.values()]);
+        };
+        handlePresence(realtimeManager.getPresence());
+        return realtimeManager.onPresence(handlePresence);
+    }, [sessionId, teamId]);
+
+    // Load the shared draft once this device's own saved purchases are in, so they can't overwrite it
+    useEffect(() => {
+        setShared(null);
+        syncedRef.current = null;
+        if (!sessionId || !teamId || !phaseId || !isReady) return;
+
+        let cancelled = false;
+        db.teamDrafts.get(sessionId, teamId, phaseId)
+            .then(existing => {
+                if (cancelled) return;
+                if (existing) {
+                    syncedRef.current = existing.selections;
+                    setShared(TeamDraftEngine.toUpsert(existing));
+                    applyRef.current(existing.selections);
+                } else {
+                    syncedRef.current = selectionsRef.current;
+                    setShared(TeamDraftEngine.newDraft(sessionId, teamId, phaseId, selectionsRef.current));
+                }
+            })
+            .catch(error => console.error('[useTeamDraft] Failed to load shared draft:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sessionId, teamId, phaseId, isReady, setShared]);
+
+    // Teammates' edits
+    useEffect(() => {
+        if (!sessionId || !teamId || !phaseId || !isReady) return;
+
+        const realtimeManager = SimpleRealtimeManager.getInstance(sessionId, 'team');
+        return realtimeManager.onTeamDraft((incoming: TeamDecisionDraft) => {
+            if (incoming.team_id !== teamId || incoming.phase_id !== phaseId || !syncedRef.current) return;
+
+            if (incoming.submitted_at && incoming.submitted_at !== draftRef.current?.submitted_at) {
+                setTeammateSubmissions(count => count + 1);
+            }
+            setShared(TeamDraftEngine.toUpsert(incoming));
+            if (!TeamDraftEngine.selectionsEqual(incoming.selections, syncedRef.current)) {
+                syncedRef.current = incoming.selections;
+                applyRef.current(incoming.selections);
+            }
+        });
+    }, [sessionId, teamId, phaseId, isReady, setShared]);
+
+    // This device's edits
+    useEffect(() => {
+        const current = draftRef.current;
+        if (!current || !syncedRef.current || TeamDraftEngine.selectionsEqual(selections, syncedRef.current)) return;
+
+        syncedRef.current = selections;
+        const next = TeamDraftEngine.applySelections(current, selections, {deviceId, deviceName: deviceNameRef.current});
+        setShared(next);
+        publish(next);
+    }, [selections, deviceId, publish, setShared]);
+
+    // Confirmations are read fresh first, so two devices acting at once don't undo each other
+    const updateShared = useCallback(async (change: (current: TeamDecisionDraftUpsert) => TeamDecisionDraftUpsert) => {
+        if (!sessionId || !teamId || !phaseId || !draftRef.current) return;
+
+        const stored = await db.teamDrafts.get(sessionId, teamId, phaseId);
+        const next = change(stored ? TeamDraftEngine.toUpsert(stored) : draftRef.current);
+        setShared(next);
+        await publish(next);
+    }, [sessionId, teamId, phaseId, publish, setShared]);
+
+    const confirm = useCallback((confirmed: boolean) =>
+        updateShared(current => TeamDraftEngine.setConfirmed(current, deviceId, confirmed)), [updateShared, deviceId]);
+
+    // The backend refuses while the current captain is still online and returns who the captain is
+    const claimCaptain = useCallback(async () => {
+        if (!sessionId || !teamId) return;
+
+        const captain = await db.teams.claimCaptain(requireTeamAccessToken(sessionId));
+        setCaptainDeviceId(captain);
+        if (captain !== deviceId) {
+            throw new Error('Your captain is still connected. Ask your facilitator to make you captain.');
+        }
+        SimpleRealtimeManager.getInstance(sessionId, 'team').sendTeamCaptain(teamId, captain);
+    }, [sessionId, teamId, deviceId]);
+
+    const markSubmitted = useCallback(() =>
+        updateShared(current => ({...current, submitted_at: new Date().toISOString()})), [updateShared]);
+
+    const renameDevice = useCallback((name: string) => {
+        setDeviceName(name);
+        setDeviceNameState(getDeviceName());
+        if (sessionId && teamId) {
+            SimpleRealtimeManager.getInstance(sessionId, 'team').trackPresence(teamId);
+        }
+    }, [sessionId, teamId]);
+
+    const connectedDeviceIds = presence.map(entry => entry.device_id);
+    const teammates = presence.some(entry => entry.device_id === deviceId)
+        ? presence
+        : [...presence, {team_id: teamId ?? '', device_id: deviceId, device_name: deviceName, app_version: '', online_at: ''}];
+
+    return {
+        mode,
+        draft,
+        deviceId,
+        deviceName,
+        teammates,
+        permission: TeamDraftEngine.canSubmit(mode, draft, captainDeviceId, deviceId, connectedDeviceIds),
+        captainDeviceId,
+        isCaptain: captainDeviceId === deviceId,
+        canClaimCaptain: TeamDraftEngine.canClaimCaptain(captainDeviceId, deviceId, connectedDeviceIds),
+        isConfirmed: !!draft?.confirmed_device_ids.includes(deviceId),
+        teammateSubmissions,
+        confirm,
+        claimCaptain,
+        markSubmitted,
+        renameDevice
+    };
+};
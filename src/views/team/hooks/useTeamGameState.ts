@@ -2,12 +2,13 @@
 import {useEffect, useCallback, useState, useRef} from 'react';
 import {db, supabase} from '@shared/services/supabase';
 import type { TeamGameEvent } from '@core/sync/SimpleRealtimeManager';
-import { readyOrNotGame_2_0_DD } from '@core/content/GameStructure';
+import { GameStructureResolver } from '@core/game/GameStructureResolver';
 import {
     Slide,
     TeamRoundData,
     PermanentKpiAdjustment,
-    GameStructure
+    GameStructure,
+    DecisionTimerState
 } from '@shared/types';
 import {useTeamGameContext} from "@app/providers/TeamGameProvider";
 
@@ -29,6 +30,7 @@ interface UseTeamGameStateReturn {
     isLoadingAdjustments: boolean;
     connectionStatus: 'connected' | 'connecting' | 'disconnected';
     decisionResetTrigger: number;
+    decisionTimer: DecisionTimerState | null;
     fetchCurrentKpis: () => Promise<void>;
     sessionStatus: 'active' | 'deleted' | 'unknown';
     triggerDecisionRefresh: () => void;
@@ -65,6 +67,7 @@ export const useTeamGameState = ({
     const [decisionResetTrigger, setDecisionResetTrigger] = useState(0);
     const [sessionStatus, setSessionStatus] = useState<'active' | 'deleted' | 'unknown'>('unknown');
     const [closedDecisionKeys, setClosedDecisionKeys] = useState<Set<string>>(new Set());
+    const [decisionTimer, setDecisionTimer] = useState<DecisionTimerState | null>(null);
 
     // Stable refs to prevent subscription recreation
     const stableSessionId = useRef<string | null>(null);
@@ -254,6 +257,21 @@ export const useTeamGameState = ({
                     setClosedDecisionKeys(prev => new Set([...prev, event.data.decisionKey]));
                 }
                 break;
+            case 'decision_timer': {
+                const timer: DecisionTimerState | null = event.data?.timer ?? null;
+                setDecisionTimer(timer);
+
+                // Host extended an expired countdown - reopen the decision
+                if (timer && (timer.status === 'running' || timer.status === 'paused')) {
+                    setClosedDecisionKeys(prev => {
+                        if (!prev.has(timer.decisionKey)) return prev;
+                        const newSet = new Set(prev);
+                        newSet.delete(timer.decisionKey);
+                        return newSet;
+                    });
+                }
+                break;
+            }
         }
     }, [loggedInTeamId, gameStructure, handleSlideUpdate, handleDecisionDelete, handleSessionDelete, fetchCurrentKpis]);
 
@@ -311,12 +329,14 @@ export const useTeamGameState = ({
                 const session = await db.sessions.getById(sessionId);
                 if (!session) return;
 
-                // Load game structure
-                setGameStructure(readyOrNotGame_2_0_DD);
+                // Load the game structure for this session's version and content pack
+                const sessionGameStructure = await GameStructureResolver.forSessionRecord(session);
+                setGameStructure(sessionGameStructure);
+                setDecisionTimer(session.decision_timer ?? null);
 
                 // Set initial slide
                 const slideIndex = session.current_slide_index || 0;
-                const initialSlide = readyOrNotGame_2_0_DD.slides[slideIndex];
+                const initialSlide = sessionGameStructure.slides[slideIndex];
                 if (initialSlide) {
                     setCurrentActiveSlide(initialSlide);
 
@@ -393,6 +413,7 @@ export const useTeamGameState = ({
         isLoadingAdjustments, // From centralized system
         connectionStatus,
         decisionResetTrigger,
+        decisionTimer,
         fetchCurrentKpis,
         sessionStatus,
         triggerDecisionRefresh: () => setDecisionResetTrigger(prev => prev + 1),
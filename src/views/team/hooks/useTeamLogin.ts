@@ -1,7 +1,12 @@
 // src/components/Game/TeamLogin/hooks/useTeamLogin.ts - Main login logic
-import {useState, useEffect} from 'react';
-import {db} from '@shared/services/supabase';
+import {useState, useEffect, useMemo} from 'react';
+import {db, formatSupabaseError} from '@shared/services/supabase';
 import {useSupabaseQuery} from '@shared/hooks/supabase';
+import {TeamAccessGrant} from '@shared/types';
+import {getDeviceId, getDeviceName, saveTeamAccess} from '@core/sync';
+
+// Passcode login picks a team; a host-issued rejoin code already names one
+export type TeamLoginMode = 'passcode' | 'rejoin';
 
 interface UseTeamLoginProps {
     sessionId: string;
@@ -20,6 +25,10 @@ interface UseTeamLoginReturn {
     setSelectedTeamId: (id: string) => void;
     passcode: string;
     setPasscode: (code: string) => void;
+    loginMode: TeamLoginMode;
+    setLoginMode: (mode: TeamLoginMode) => void;
+    rejoinCode: string;
+    setRejoinCode: (code: string) => void;
 
     // Login process
     isLoggingIn: boolean;
@@ -30,6 +39,8 @@ interface UseTeamLoginReturn {
 export const useTeamLogin = ({sessionId, onLoginSuccess}: UseTeamLoginProps): UseTeamLoginReturn => {
     const [selectedTeamId, setSelectedTeamId] = useState<string>('');
     const [passcode, setPasscode] = useState<string>('');
+    const [loginMode, setLoginModeState] = useState<TeamLoginMode>('passcode');
+    const [rejoinCode, setRejoinCode] = useState<string>('');
     const [isLoggingIn, setIsLoggingIn] = useState<boolean>(false);
     const [loginError, setLoginError] = useState<string>('');
 
@@ -54,7 +65,7 @@ export const useTeamLogin = ({sessionId, onLoginSuccess}: UseTeamLoginProps): Us
     );
 
     // Safely handle teams data
-    const availableTeams = availableTeamsData || [];
+    const availableTeams = useMemo(() => availableTeamsData || [], [availableTeamsData]);
 
     // Set initial team selection when teams load
     useEffect(() => {
@@ -63,38 +74,67 @@ export const useTeamLogin = ({sessionId, onLoginSuccess}: UseTeamLoginProps): Us
         }
     }, [availableTeams, selectedTeamId]);
 
+    const setLoginMode = (mode: TeamLoginMode) => {
+        setLoginModeState(mode);
+        setLoginError('');
+    };
+
+    const completeLogin = (grant: TeamAccessGrant) => {
+        saveTeamAccess(sessionId, grant);
+        onLoginSuccess(grant.team.id, grant.team.name);
+    };
+
     // Handle login submission
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        if (!selectedTeamId) {
-            setLoginError('Please select a team.');
-            return;
-        }
+        if (loginMode === 'rejoin') {
+            if (!rejoinCode.trim()) {
+                setLoginError('Please enter the rejoin code from your facilitator.');
+                return;
+            }
+        } else {
+            if (!selectedTeamId) {
+                setLoginError('Please select a team.');
+                return;
+            }
 
-        if (!passcode.trim()) {
-            setLoginError('Please enter the team passcode.');
-            return;
+            if (!passcode.trim()) {
+                setLoginError('Please enter the team passcode.');
+                return;
+            }
         }
 
         setIsLoggingIn(true);
         setLoginError('');
 
+        const device = {id: getDeviceId(), name: getDeviceName()};
         try {
-            const verifiedTeam = await db.teams.verifyLogin(
+            if (loginMode === 'rejoin') {
+                const grant = await db.teams.redeemRejoinCode(sessionId, rejoinCode.trim(), device);
+                if (grant) {
+                    completeLogin(grant);
+                } else {
+                    setLoginError('That rejoin code is wrong, already used or expired. Ask your facilitator for a new one.');
+                }
+                return;
+            }
+
+            const grant = await db.teams.verifyLogin(
                 selectedTeamId,
                 sessionId,
-                passcode.trim()
+                passcode.trim(),
+                device
             );
 
-            if (verifiedTeam) {
-                onLoginSuccess(verifiedTeam.id, verifiedTeam.name);
+            if (grant) {
+                completeLogin(grant);
             } else {
                 setLoginError('Incorrect passcode or invalid team for this session.');
             }
         } catch (err) {
             console.error("[useTeamLogin] Login error:", err);
-            setLoginError(`Login failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            setLoginError(`Login failed: ${formatSupabaseError(err)}`);
         } finally {
             setIsLoggingIn(false);
         }
@@ -109,6 +149,10 @@ export const useTeamLogin = ({sessionId, onLoginSuccess}: UseTeamLoginProps): Us
         setSelectedTeamId,
         passcode,
         setPasscode,
+        loginMode,
+        setLoginMode,
+        rejoinCode,
+        setRejoinCode,
         isLoggingIn,
         loginError,
         handleLogin
@@ -0,0 +1,68 @@
+// src/views/team/hooks/useTeamMessages.ts
+// Team side of host messaging: unread announcements for this team and acknowledging them.
+// Messages arrive on SimpleRealtimeManager's message channel; history is reloaded on login and
+// whenever the connection comes back so nothing sent while offline is missed.
+import {useCallback, useEffect, useState} from 'react';
+import {db} from '@shared/services/supabase';
+import {SimpleRealtimeManager} from '@core/sync';
+import {TeamMessage} from '@shared/types';
+
+interface UseTeamMessagesReturn {
+    unreadMessages: TeamMessage[];
+    acknowledge: (messageId: string) => Promise<void>;
+}
+
+export const useTeamMessages = (sessionId: string | null, teamId: string | null): UseTeamMessagesReturn => {
+    const [unreadMessages, setUnreadMessages] = useState<TeamMessage[]>([]);
+
+    const loadUnread = useCallback(async () => {
+        if (!sessionId || !teamId) return;
+        try {
+            const [messages, reads] = await Promise.all([
+                db.teamMessages.getBySession(sessionId),
+                db.teamMessages.getReadsBySession(sessionId)
+            ]);
+            const readIds = new Set(reads.filter(read => read.team_id === teamId).map(read => read.message_id));
+            setUnreadMessages(messages.filter(message =>
+                (message.team_id === null || message.team_id === teamId) && !readIds.has(message.id)));
+        } catch (error) {
+            console.error('[useTeamMessages] Failed to load messages:', error);
+        }
+    }, [sessionId, teamId]);
+
+    useEffect(() => {
+        setUnreadMessages([]);
+        if (!sessionId || !teamId) return;
+
+        loadUnread();
+
+        const realtimeManager = SimpleRealtimeManager.getInstance(sessionId, 'team');
+        const unsubscribeMessages = realtimeManager.onTeamMessage(message => {
+            if (message.team_id && message.team_id !== teamId) return;
+            setUnreadMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+        });
+        const unsubscribeStatus = realtimeManager.onConnectionStatus(status => {
+            if (status === 'connected') loadUnread();
+        });
+
+        return () => {
+            unsubscribeMessages();
+            unsubscribeStatus();
+        };
+    }, [sessionId, teamId, loadUnread]);
+
+    const acknowledge = useCallback(async (messageId: string) => {
+        if (!sessionId || !teamId) return;
+
+        // Hide it straight away; the receipt is best effort and the message comes back on reload if it fails
+        setUnreadMessages(prev => prev.filter(message => message.id !== messageId));
+        try {
+            const read = await db.teamMessages.markRead({session_id: sessionId, message_id: messageId, team_id: teamId});
+            SimpleRealtimeManager.getInstance(sessionId, 'team').sendMessageRead(read);
+        } catch (error) {
+            console.error('[useTeamMessages] Failed to acknowledge message:', error);
+        }
+    }, [sessionId, teamId]);
+
+    return {unreadMessages, acknowledge};
+};
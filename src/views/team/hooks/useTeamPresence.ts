@@ -0,0 +1,16 @@
+// src/views/team/hooks/useTeamPresence.ts
+// Publishes this device as connected for the logged-in team, so the host can see who is online
+import {useEffect} from 'react';
+import {SimpleRealtimeManager} from '@core/sync';
+
+export const useTeamPresence = (sessionId: string | null, teamId: string | null): void => {
+    useEffect(() => {
+        if (!sessionId || !teamId) return;
+
+        const realtimeManager = SimpleRealtimeManager.getInstance(sessionId, 'team');
+        realtimeManager.trackPresence(teamId);
+
+        // Logging out (or switching team) takes the device off the host's list straight away
+        return () => realtimeManager.untrackPresence();
+    }, [sessionId, teamId]);
+};
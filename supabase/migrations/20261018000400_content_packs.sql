@@ -0,0 +1,16 @@
+-- Host-authored content packs (slides, consequences and payoffs layered over a game version), and the copy of
+-- the pack each session is played with, so editing or deleting a pack doesn't change games already created
+
+create table if not exists content_packs (
+    id uuid primary key default gen_random_uuid(),
+    host_id uuid not null references auth.users (id) on delete cascade,
+    name text not null,
+    base_version text not null,
+    content jsonb not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+alter table sessions
+    add column if not exists content_pack_id uuid references content_packs (id) on delete set null,
+    add column if not exists content_pack_snapshot jsonb;      -- pack_id, name, content, updated_at
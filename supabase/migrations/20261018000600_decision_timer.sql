@@ -0,0 +1,6 @@
+-- Server-synchronized decision countdown: the host's timer state, and the clock every device measures its
+-- skew against
+
+alter table sessions add column if not exists decision_timer jsonb;     -- decisionKey, status, endsAt (server epoch ms)
+
+create or replace function server_time() returns timestamptz language sql stable as $$ select now() $$;
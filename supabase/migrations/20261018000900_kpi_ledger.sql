@@ -0,0 +1,17 @@
+-- Append-only history of every capacity/orders/cost/ASP change, behind the "Why these numbers?" view
+
+create table if not exists kpi_ledger (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    team_id uuid not null references teams (id) on delete cascade,
+    round_number int not null,
+    kpi text not null,
+    old_value numeric not null,
+    new_value numeric not null,
+    source text not null,       -- challenge | investment_payoff | continuation | double_down | reset | manual_override
+    source_id text,
+    option_id text,
+    slide_id int,
+    description text not null,
+    created_at timestamptz not null default clock_timestamp()
+);
@@ -0,0 +1,15 @@
+-- Host KPI corrections. Round start corrections are also stored in permanent_kpi_adjustments with
+-- challenge_id = 'host_override'.
+
+create table if not exists kpi_overrides (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    team_id uuid not null references teams (id) on delete cascade,
+    round_number int not null,
+    kpi text not null,
+    change_value numeric not null,
+    timing text not null check (timing in ('immediate', 'round_start')),
+    reason text not null,
+    undone_at timestamptz,
+    created_at timestamptz not null default now()
+);
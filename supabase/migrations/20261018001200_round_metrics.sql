@@ -0,0 +1,12 @@
+-- Recompute stored revenue, net income and net margin with the FinancialMetrics rule (revenue only counts the
+-- orders capacity can fill). The Final Results page repairs a single game the same way when it opens.
+
+update team_round_data t set
+    revenue = round(m.revenue),
+    net_income = round(m.revenue - t.current_cost),
+    net_margin = case when m.revenue > 0 then round((m.revenue - t.current_cost) / m.revenue, 4) else 0 end
+from (
+    select id, greatest(least(current_capacity, current_orders), 0)::numeric * current_asp as revenue
+    from team_round_data
+) m
+where m.id = t.id;
@@ -0,0 +1,18 @@
+-- Host messages to one team (or every team when team_id is null), and which teams tapped "Got it"
+
+create table if not exists team_messages (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    team_id uuid references teams (id) on delete cascade,
+    body text not null,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists team_message_reads (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    message_id uuid not null references team_messages (id) on delete cascade,
+    team_id uuid not null references teams (id) on delete cascade,
+    read_at timestamptz not null default now(),
+    unique (message_id, team_id)
+);
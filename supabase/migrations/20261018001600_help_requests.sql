@@ -0,0 +1,12 @@
+-- Teams' "Request help" presses; kept after the game as the session's help log
+
+create table if not exists help_requests (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    team_id uuid not null references teams (id) on delete cascade,
+    message text,
+    status text not null default 'open' check (status in ('open', 'claimed', 'resolved')),
+    created_at timestamptz not null default now(),
+    claimed_at timestamptz,
+    resolved_at timestamptz
+);
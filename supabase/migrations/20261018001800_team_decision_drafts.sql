@@ -0,0 +1,20 @@
+-- Shared, in-progress team selections for a decision, and who on a team may submit them
+
+create table if not exists team_decision_drafts (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    team_id uuid not null references teams (id) on delete cascade,
+    phase_id text not null,
+    selections jsonb not null,
+    changes jsonb not null default '[]',
+    confirmed_device_ids text[] not null default '{}',     -- cleared whenever the selections change
+    submitted_at timestamptz,
+    updated_at timestamptz not null default now(),
+    unique (session_id, team_id, phase_id)
+);
+
+alter table sessions add column if not exists team_submission_mode text not null default 'anyone'
+    check (team_submission_mode in ('anyone', 'captain', 'all_confirm'));
+
+-- The device that submits in 'captain' mode, kept for the whole game
+alter table teams add column if not exists captain_device_id text;
@@ -0,0 +1,3 @@
+-- A team's optional explanation of its choice, compiled into the decision journal for the debrief
+
+alter table team_decisions add column if not exists rationale text;
@@ -0,0 +1,11 @@
+-- Auditable double down rolls: one per investment, how it was made, and every roll a re-roll replaced (each with
+-- its dice, boost, mode, seed, rolled_at, replaced_at and reason)
+
+alter table double_down_results
+    add column if not exists roll_mode text not null default 'digital' check (roll_mode in ('digital', 'physical')),
+    add column if not exists seed text,                    -- null for physical dice
+    add column if not exists rolled_at timestamptz not null default now(),
+    add column if not exists rerolls jsonb not null default '[]';
+
+create unique index if not exists double_down_results_session_investment_key
+    on double_down_results (session_id, investment_id);
@@ -0,0 +1,29 @@
+-- Team passcodes are kept only as a salted hash clients can't read. A team logs in through verify_team_login,
+-- which hands out an access token whose sha256 is stored here; team devices write through the functions in
+-- 20261018002600_team_access_functions.sql with that token.
+
+create extension if not exists pgcrypto;
+
+alter table teams add column if not exists passcode_hash text;
+update teams t set passcode_hash = 'sha256$' || s.salt || '$' || encode(digest(s.salt || trim(t.passcode), 'sha256'), 'hex')
+from (select id, encode(gen_random_bytes(16), 'hex') as salt from teams) s
+where s.id = t.id and t.passcode_hash is null;
+alter table teams drop column if exists passcode;
+revoke select on teams from anon;
+grant select (id, session_id, name, captain_device_id, created_at) on teams to anon;
+
+create table if not exists team_access_tokens (
+    id uuid primary key default gen_random_uuid(),
+    token_hash text not null unique,
+    team_id uuid not null references teams (id) on delete cascade,
+    session_id uuid not null references sessions (id) on delete cascade,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
+alter table team_access_tokens enable row level security;
+-- Hosts list and revoke their sessions' devices; team devices only reach the table through the functions
+create policy "Hosts manage their team devices" on team_access_tokens for all to authenticated
+    using (exists (select 1 from sessions s where s.id = session_id and s.host_id = auth.uid()));
+revoke all on team_access_tokens from anon, authenticated;
+
+revoke insert, update, delete on team_decisions from anon;
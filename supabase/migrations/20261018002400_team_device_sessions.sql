@@ -0,0 +1,28 @@
+-- Each access token is one logged-in device: it can be resumed after a reload, revoked by the host, capped per
+-- team, and replaced through a one-time rejoin code the host issues
+
+alter table team_access_tokens
+    add column if not exists device_id text,
+    add column if not exists device_name text,
+    add column if not exists last_seen_at timestamptz,
+    add column if not exists revoked_at timestamptz;
+grant select (id, session_id, team_id, device_id, device_name, created_at, last_seen_at, expires_at, revoked_at),
+    update (revoked_at) on team_access_tokens to authenticated;
+
+alter table sessions add column if not exists max_devices_per_team int check (max_devices_per_team > 0);
+
+create table if not exists team_rejoin_codes (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    team_id uuid not null references teams (id) on delete cascade,
+    code_hash text not null,            -- sha256 of the upper-cased code without spaces or dashes
+    expires_at timestamptz not null,
+    used_at timestamptz,
+    used_by_device_id text,
+    created_at timestamptz not null default now(),
+    unique (session_id, code_hash)
+);
+alter table team_rejoin_codes enable row level security;
+create policy "Hosts issue rejoin codes" on team_rejoin_codes for insert to authenticated
+    with check (exists (select 1 from sessions s where s.id = session_id and s.host_id = auth.uid()));
+revoke all on team_rejoin_codes from anon;
@@ -0,0 +1,17 @@
+-- HMAC keys behind the QR join tokens on team cards. Keyed by team name, not id: team cards are printed from the
+-- create game wizard before the teams exist.
+
+create table if not exists team_join_keys (
+    id uuid primary key default gen_random_uuid(),
+    session_id uuid not null references sessions (id) on delete cascade,
+    team_name text not null,
+    secret text not null,               -- HMAC key; replacing it invalidates the team's QR codes
+    rotated_at timestamptz,
+    created_at timestamptz not null default now(),
+    unique (session_id, team_name)
+);
+alter table team_join_keys enable row level security;
+create policy "Hosts manage team join keys" on team_join_keys for all to authenticated
+    using (exists (select 1 from sessions s where s.id = session_id and s.host_id = auth.uid()))
+    with check (exists (select 1 from sessions s where s.id = session_id and s.host_id = auth.uid()));
+revoke all on team_join_keys from anon;
@@ -0,0 +1,206 @@
+-- Everything team devices do goes through these functions (they can't write team tables directly). The offline
+-- (local) storage backend has a stand-in for each in src/shared/services/supabase/storage/localAdapter.ts.
+
+-- Shared by login and rejoin: ends the device's earlier sessions in this game and enforces the device cap
+create or replace function open_team_device_session(t teams, p_device_id text, p_device_name text, p_enforce_limit boolean)
+returns json
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    token text := encode(gen_random_bytes(32), 'hex');
+    expires timestamptz := now() + interval '4 hours';
+    device_limit int;
+    device_session_id uuid;
+begin
+    perform 1 from teams where id = t.id for update;     -- one login per team at a time, so the cap holds
+    if p_enforce_limit then
+        select max_devices_per_team into device_limit from sessions where id = t.session_id;
+        if device_limit is not null and (
+            select count(*) from team_access_tokens
+            where team_id = t.id and revoked_at is null and expires_at > now()
+              and device_id is distinct from p_device_id
+        ) >= device_limit then
+            raise exception 'Team already has % device(s) logged in', device_limit using errcode = '53400';
+        end if;
+    end if;
+
+    update team_access_tokens set revoked_at = now()
+    where session_id = t.session_id and device_id = p_device_id and revoked_at is null;
+
+    insert into team_access_tokens (token_hash, team_id, session_id, device_id, device_name, expires_at, last_seen_at)
+    values (encode(digest(token, 'sha256'), 'hex'), t.id, t.session_id, p_device_id, p_device_name, expires, now())
+    returning id into device_session_id;
+    return json_build_object(
+        'team', json_build_object('id', t.id, 'session_id', t.session_id, 'name', t.name, 'created_at', t.created_at),
+        'token', token,
+        'expires_at', expires,
+        'device_session_id', device_session_id);
+end $$;
+
+create or replace function verify_team_login(
+    p_session_id uuid, p_team_id uuid, p_passcode text, p_device_id text, p_device_name text
+) returns json
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    t teams;
+    parts text[];
+begin
+    select * into t from teams where id = p_team_id and session_id = p_session_id;
+    if not found then return null; end if;
+    parts := string_to_array(t.passcode_hash, '$');
+    if parts[3] is distinct from encode(digest(parts[2] || trim(p_passcode), 'sha256'), 'hex') then return null; end if;
+    return open_team_device_session(t, p_device_id, p_device_name, true);
+end $$;
+
+create or replace function redeem_team_rejoin_code(p_session_id uuid, p_code text, p_device_id text, p_device_name text)
+returns json
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    r team_rejoin_codes;
+    t teams;
+begin
+    update team_rejoin_codes set used_at = now(), used_by_device_id = p_device_id
+    where session_id = p_session_id
+      and code_hash = encode(digest(upper(regexp_replace(p_code, '[\s-]', '', 'g')), 'sha256'), 'hex')
+      and used_at is null and expires_at > now()
+    returning * into r;
+    if not found then return null; end if;
+    select * into t from teams where id = r.team_id;
+    return open_team_device_session(t, p_device_id, p_device_name, false);
+end $$;
+
+create or replace function redeem_team_join_token(p_session_id uuid, p_token text, p_device_id text, p_device_name text)
+returns json
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    parts text[] := string_to_array(trim(p_token), '.');
+    v_team_name text;
+    k team_join_keys;
+    t teams;
+begin
+    if array_length(parts, 1) is distinct from 3 or parts[1] !~ '^\d+$' or parts[2] !~ '^([0-9a-f]{2})+$' then
+        return null;
+    end if;
+    if to_timestamp(parts[1]::bigint) <= now() then return null; end if;
+    v_team_name := convert_from(decode(parts[2], 'hex'), 'UTF8');
+    select * into k from team_join_keys where session_id = p_session_id and team_name = v_team_name;
+    if not found then return null; end if;
+    if parts[3] is distinct from left(encode(hmac(p_session_id::text || ':' || v_team_name || ':' || parts[1], k.secret, 'sha256'), 'hex'), 32) then
+        return null;
+    end if;
+    select * into t from teams where session_id = p_session_id and name = v_team_name;
+    if not found then return null; end if;
+    return open_team_device_session(t, p_device_id, p_device_name, true);
+end $$;
+
+create or replace function resume_team_session(p_token text) returns json
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    a team_access_tokens;
+    t teams;
+begin
+    update team_access_tokens set last_seen_at = now()
+    where token_hash = encode(digest(p_token, 'sha256'), 'hex') and expires_at > now() and revoked_at is null
+    returning * into a;
+    if not found then return null; end if;
+    select * into t from teams where id = a.team_id;
+    return json_build_object(
+        'team', json_build_object('id', t.id, 'session_id', t.session_id, 'name', t.name, 'created_at', t.created_at),
+        'token', p_token,
+        'expires_at', a.expires_at,
+        'device_session_id', a.id);
+end $$;
+
+-- The captain's device is still around while it has checked in within 5 minutes; then anyone can take over
+create or replace function claim_team_captain(p_token text) returns text
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    a team_access_tokens;
+    captain text;
+begin
+    update team_access_tokens set last_seen_at = now()
+    where token_hash = encode(digest(p_token, 'sha256'), 'hex') and expires_at > now() and revoked_at is null
+    returning * into a;
+    if not found then
+        raise exception 'Team access token is invalid, expired or revoked' using errcode = '28000';
+    end if;
+
+    select captain_device_id into captain from teams where id = a.team_id for update;
+    if captain is not null and captain <> a.device_id and exists (
+        select 1 from team_access_tokens
+        where team_id = a.team_id and device_id = captain and revoked_at is null and expires_at > now()
+          and last_seen_at > now() - interval '5 minutes'
+    ) then
+        return captain;
+    end if;
+
+    update teams set captain_device_id = a.device_id where id = a.team_id;
+    return a.device_id;
+end $$;
+
+create or replace function submit_team_decision(p_token text, p_decision jsonb) returns team_decisions
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    a team_access_tokens;
+    d team_decisions;
+    timer jsonb;
+    submission_mode text;
+    confirmed text[];
+begin
+    update team_access_tokens set last_seen_at = now()
+    where token_hash = encode(digest(p_token, 'sha256'), 'hex') and expires_at > now() and revoked_at is null
+    returning * into a;
+    if not found then
+        raise exception 'Team access token is invalid, expired or revoked' using errcode = '28000';
+    end if;
+
+    select decision_timer, team_submission_mode into timer, submission_mode from sessions where id = a.session_id;
+    if timer->>'decisionKey' = p_decision->>'phase_id' and (
+        timer->>'status' in ('expired', 'ended')
+        or (timer->>'status' = 'running'
+            and now() > to_timestamp(((timer->>'endsAt')::bigint + 2000) / 1000.0))
+    ) then
+        raise exception 'The decision window has closed' using errcode = '55000';
+    end if;
+
+    -- Immediate purchases go straight through; the decision itself follows the session's submission mode
+    if not coalesce((p_decision->>'is_immediate_purchase')::boolean, false) then
+        if submission_mode = 'captain'
+            and a.device_id is distinct from (select captain_device_id from teams where id = a.team_id) then
+            raise exception 'Only your team captain can submit this decision' using errcode = 'PT403';
+        end if;
+        if submission_mode = 'all_confirm' then
+            select confirmed_device_ids into confirmed from team_decision_drafts
+            where session_id = a.session_id and team_id = a.team_id and phase_id = p_decision->>'phase_id';
+            if exists (
+                select 1 from team_access_tokens
+                where team_id = a.team_id and revoked_at is null and expires_at > now() and device_id is not null
+                  and last_seen_at > now() - interval '5 minutes'
+                  and not (device_id = any(coalesce(confirmed, '{}')))
+            ) then
+                raise exception 'Every teammate has to confirm the draft before it is submitted' using errcode = 'PT403';
+            end if;
+        end if;
+    end if;
+
+    insert into team_decisions
+    select * from jsonb_populate_record(null::team_decisions, p_decision || jsonb_build_object(
+        'id', gen_random_uuid(), 'created_at', now(), 'session_id', a.session_id, 'team_id', a.team_id))
+    returning * into d;
+    return d;
+end $$;
+
+-- Host only: runs with the caller's rights, so it only reaches teams of the host's own sessions
+create or replace function reset_team_passcode(p_team_id uuid, p_passcode_hash text) returns void
+language plpgsql set search_path = public as $$
+begin
+    update teams set passcode_hash = p_passcode_hash where id = p_team_id;
+    if not found then raise exception 'Team % not found', p_team_id using errcode = 'P0002'; end if;
+    update team_access_tokens set revoked_at = now() where team_id = p_team_id and revoked_at is null;
+end $$;
+
+revoke execute on function open_team_device_session(teams, text, text, boolean) from public;
+grant execute on function verify_team_login(uuid, uuid, text, text, text), redeem_team_rejoin_code(uuid, text, text, text),
+    redeem_team_join_token(uuid, text, text, text), resume_team_session(text), claim_team_captain(text),
+    submit_team_decision(text, jsonb) to anon;
+revoke execute on function reset_team_passcode(uuid, text) from public;
+grant execute on function reset_team_passcode(uuid, text) to authenticated;
@@ -0,0 +1,139 @@
+-- Double down dice are rolled and re-rolled only through these functions, so the seed, the dice and rolled_at
+-- come from the server and only the session's host can roll. The offline (local) storage backend has a stand-in
+-- for each in src/shared/services/supabase/storage/localAdapter.ts, and src/shared/services/supabase/storage/
+-- diceRolls.ts derives digital dice from a seed the same way.
+
+-- The first two bytes of sha256(seed) below 252, each mod 6 plus 1; the digest is hashed again if it runs out
+create or replace function double_down_dice_from_seed(p_seed text) returns int[]
+language plpgsql immutable set search_path = public, extensions as $$
+declare
+    bytes bytea := digest(p_seed, 'sha256');
+    dice int[] := '{}';
+    b int;
+begin
+    loop
+        for i in 0 .. length(bytes) - 1 loop
+            b := get_byte(bytes, i);
+            if b < 252 then
+                dice := dice || (b % 6 + 1);
+                if cardinality(dice) = 2 then return dice; end if;
+            end if;
+        end loop;
+        bytes := digest(bytes, 'sha256');
+    end loop;
+end $$;
+
+-- The roll columns for the facilitator's dice (a JSON array of two values from 1 to 6), or for a fresh seed when
+-- p_dice is null. The boosts match DOUBLE_DOWN_DICE_BOOSTS in GameSimulator.
+create or replace function make_double_down_roll(p_dice jsonb) returns jsonb
+language plpgsql set search_path = public, extensions as $$
+declare
+    seed text;
+    dice int[];
+    total int;
+begin
+    if p_dice is null or p_dice = 'null'::jsonb then
+        seed := encode(gen_random_bytes(16), 'hex');
+        dice := double_down_dice_from_seed(seed);
+    elsif jsonb_typeof(p_dice) = 'array' and jsonb_array_length(p_dice) = 2
+        and (select bool_and(value::text ~ '^[1-6]$') from jsonb_array_elements(p_dice)) then
+        dice := array[(p_dice ->> 0)::int, (p_dice ->> 1)::int];
+    else
+        raise exception 'Enter both dice as a number from 1 to 6' using errcode = '22023';
+    end if;
+
+    total := dice[1] + dice[2];
+    return jsonb_build_object(
+        'dice1_value', dice[1],
+        'dice2_value', dice[2],
+        'total_value', total,
+        'boost_percentage', case when total <= 2 then 0 when total <= 4 then 25 when total <= 8 then 75 else 100 end,
+        'roll_mode', case when seed is null then 'physical' else 'digital' end,
+        'seed', seed,
+        'rolled_at', now());
+end $$;
+
+create or replace function require_session_host(p_session_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+    if auth.uid() is null or not exists (select 1 from sessions where id = p_session_id and host_id = auth.uid()) then
+        raise exception 'Only the session host can roll the dice' using errcode = '42501';
+    end if;
+end $$;
+
+-- The first roll for an investment wins; a later call gets it back with created = false
+create or replace function roll_double_down_dice(p_session_id uuid, p_investment_id text, p_dice jsonb) returns jsonb
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    r double_down_results;
+begin
+    perform require_session_host(p_session_id);
+
+    insert into double_down_results
+    select * from jsonb_populate_record(null::double_down_results, make_double_down_roll(p_dice) || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'session_id', p_session_id,
+        'investment_id', p_investment_id,
+        'affected_teams', coalesce((
+            select jsonb_agg(distinct t.name)
+            from team_decisions d join teams t on t.id = d.team_id
+            where d.session_id = p_session_id and d.phase_id = 'ch-dd-prompt' and d.double_down_on_id = p_investment_id
+        ), '[]'::jsonb),
+        'rerolls', '[]'::jsonb,
+        'created_at', now()))
+    on conflict (session_id, investment_id) do nothing
+    returning * into r;
+    if found then return jsonb_build_object('result', to_jsonb(r), 'created', true); end if;
+
+    select * into r from double_down_results where session_id = p_session_id and investment_id = p_investment_id;
+    return jsonb_build_object('result', to_jsonb(r), 'created', false);
+end $$;
+
+-- Replaces the roll, appending the replaced one to the re-roll log with the reason
+create or replace function reroll_double_down_dice(p_session_id uuid, p_investment_id text, p_dice jsonb, p_reason text)
+returns double_down_results
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    r double_down_results;
+    roll jsonb;
+begin
+    perform require_session_host(p_session_id);
+    if coalesce(trim(p_reason), '') = '' then
+        raise exception 'A reason is required to re-roll' using errcode = '22023';
+    end if;
+    roll := make_double_down_roll(p_dice);
+
+    select * into r from double_down_results
+    where session_id = p_session_id and investment_id = p_investment_id
+    for update;
+    if not found then
+        raise exception 'These dice have not been rolled yet' using errcode = '22023';
+    end if;
+
+    update double_down_results set
+        dice1_value = (roll ->> 'dice1_value')::int,
+        dice2_value = (roll ->> 'dice2_value')::int,
+        total_value = (roll ->> 'total_value')::int,
+        boost_percentage = (roll ->> 'boost_percentage')::int,
+        roll_mode = roll ->> 'roll_mode',
+        seed = roll ->> 'seed',
+        rolled_at = now(),
+        rerolls = rerolls || jsonb_build_array(jsonb_build_object(
+            'dice1_value', r.dice1_value,
+            'dice2_value', r.dice2_value,
+            'boost_percentage', r.boost_percentage,
+            'roll_mode', r.roll_mode,
+            'seed', r.seed,
+            'rolled_at', r.rolled_at,
+            'replaced_at', now(),
+            'reason', trim(p_reason)))
+    where id = r.id
+    returning * into r;
+    return r;
+end $$;
+
+revoke insert, update on double_down_results from anon, authenticated;
+revoke execute on function require_session_host(uuid), roll_double_down_dice(uuid, text, jsonb),
+    reroll_double_down_dice(uuid, text, jsonb, text) from public;
+grant execute on function roll_double_down_dice(uuid, text, jsonb), reroll_double_down_dice(uuid, text, jsonb, text)
+    to authenticated;
@@ -0,0 +1,67 @@
+-- Team passcodes are hashed on the server with bcrypt (pgcrypto crypt), never by clients, and a team's passcode
+-- login locks for 5 minutes after 5 wrong passcodes in a row (TEAM_LOGIN_MAX_ATTEMPTS and TEAM_LOGIN_LOCKOUT_MS in
+-- src/shared/services/supabase/storage/types.ts). Hashes from the earlier salted sha256 scheme still verify and
+-- are replaced with bcrypt on the team's next login.
+
+alter table teams
+    add column if not exists failed_login_attempts int not null default 0,
+    add column if not exists locked_until timestamptz;
+
+create or replace function verify_team_login(
+    p_session_id uuid, p_team_id uuid, p_passcode text, p_device_id text, p_device_name text
+) returns json
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+    t teams;
+    parts text[];
+    matches boolean;
+begin
+    select * into t from teams where id = p_team_id and session_id = p_session_id for update;
+    if not found then return null; end if;
+    if t.locked_until > now() then
+        raise exception 'Too many wrong passcodes. Try again in % minute(s).',
+            ceil(extract(epoch from t.locked_until - now()) / 60) using errcode = 'PT429';
+    end if;
+
+    if t.passcode_hash like 'sha256$%' then
+        parts := string_to_array(t.passcode_hash, '$');
+        matches := parts[3] = encode(digest(parts[2] || trim(p_passcode), 'sha256'), 'hex');
+    else
+        matches := t.passcode_hash is not null and t.passcode_hash = crypt(trim(p_passcode), t.passcode_hash);
+    end if;
+
+    -- Wrong passcodes return null rather than raise, so the count isn't rolled back
+    if not matches then
+        update teams set
+            failed_login_attempts = case when failed_login_attempts + 1 >= 5 then 0 else failed_login_attempts + 1 end,
+            locked_until = case when failed_login_attempts + 1 >= 5 then now() + interval '5 minutes' else locked_until end
+        where id = t.id;
+        return null;
+    end if;
+
+    update teams set
+        failed_login_attempts = 0,
+        locked_until = null,
+        passcode_hash = case when passcode_hash like 'sha256$%' then crypt(trim(p_passcode), gen_salt('bf', 10)) else passcode_hash end
+    where id = t.id;
+    return open_team_device_session(t, p_device_id, p_device_name, true);
+end $$;
+
+-- Replaces reset_team_passcode, which took a hash the client had made
+drop function if exists reset_team_passcode(uuid, text);
+
+-- Host only: runs with the caller's rights, so it only reaches teams of the host's own sessions
+create or replace function set_team_passcode(p_team_id uuid, p_passcode text) returns void
+language plpgsql set search_path = public, extensions as $$
+begin
+    if coalesce(trim(p_passcode), '') = '' then
+        raise exception 'A team passcode cannot be empty' using errcode = '22023';
+    end if;
+    update teams set passcode_hash = crypt(trim(p_passcode), gen_salt('bf', 10)), failed_login_attempts = 0, locked_until = null
+    where id = p_team_id;
+    if not found then raise exception 'Team % not found', p_team_id using errcode = 'P0002'; end if;
+    update team_access_tokens set revoked_at = now() where team_id = p_team_id and revoked_at is null;
+end $$;
+
+revoke execute on function set_team_passcode(uuid, text) from public;
+grant execute on function set_team_passcode(uuid, text) to authenticated;
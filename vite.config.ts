@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -17,4 +18,10 @@ export default defineConfig({
       '@views': path.resolve(__dirname, './src/views'),
     },
   },
+  test: {
+    // Tests run the game against the in-memory storage backend, never a Supabase project
+    env: { VITE_STORAGE_BACKEND: 'local' },
+    // The engines log every step; keep only warnings and errors in the test output
+    onConsoleLog: (_log, type) => type === 'stderr',
+  },
 });
\ No newline at end of file